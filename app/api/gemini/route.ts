@@ -147,28 +147,64 @@
 //   }
 // }
 import { type NextRequest, NextResponse } from "next/server"
-
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY!
+import { createUsageMeter, getAIProvider, streamAI } from "@/lib/ai"
+import { completeStructured } from "@/lib/ai/structured"
+import {
+  assigneeRankingSchema,
+  generatedTasksSchema,
+  ideaAnalysisSchema,
+  pitchDeckSchema,
+  taskBreakdownSchema,
+} from "@/lib/ai/schemas"
+import {
+  type MentorHistoryMessage,
+  type MentorMemorySnapshot,
+  type MentorProjectContext,
+  buildMentorMessages,
+  buildProjectContext,
+  splitHistory,
+  summarizeHistory,
+} from "@/lib/ai/mentor"
+import type { AIMessage, AIUsageMeter } from "@/lib/ai"
+import { fetchRecentCommitMessages } from "@/lib/github"
+import { type RequestIdentity, authenticateRequest, isProjectMember } from "@/lib/api-auth"
+import { createDocument, getDocument, queryDocuments } from "@/lib/firestore-rest"
+import { createTokenBucketLimiter } from "@/lib/rate-limit"
+import { formatTimeRemaining, hackathonWindow } from "@/lib/schedule"
+import { getBlockers } from "@/lib/task-graph"
+import type { AIUsageRecord, HackathonEvent, IdeaAnalysis, PitchDeck, Project, ProjectMember, Task } from "@/lib/types"
+import { aiCacheKey, getAICache } from "@/lib/ai/cache"
 
 /**
- * Stable FREE models (order matters)
- * Gemini free is LAST because it rate-limits a lot
+ * Part of the cache key: bump an action's version when its prompt changes, so replies
+ * to the old prompt are no longer served. TTLs live in `lib/ai/cache.ts`.
  */
-const FREE_MODELS = [
-  "meta-llama/llama-3.2-3b-instruct:free",
-  "mistralai/mistral-7b-instruct:free",
-  "huggingfaceh4/zephyr-7b-beta:free",
-  "google/gemini-2.0-flash-exp:free",
-]
+const PROMPT_VERSIONS: Record<GeminiRequest["action"], number> = {
+  analyze_idea: 1,
+  generate_tasks: 1,
+  breakdown_task: 1,
+  rank_assignees: 1,
+  generate_pitch: 1,
+  mentor_chat: 1,
+  generate_docs: 1,
+}
 
 /**
- * Simple in-memory cache
+ * Per-user and per-project token buckets. Cache hits are free; docs generation
+ * is the most expensive call and costs more.
  */
-const responseCache = new Map<string, { result: string; timestamp: number }>()
-const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+const userLimiter = createTokenBucketLimiter({ capacity: 20, refillPerMinute: 10 })
+const projectLimiter = createTokenBucketLimiter({ capacity: 60, refillPerMinute: 30 })
+const ACTION_COST: Partial<Record<GeminiRequest["action"], number>> = { generate_pitch: 2, generate_docs: 3 }
+// The standalone docs generator isn't tied to a project; every other action must say which project it's for
+const UNSCOPED_ACTIONS: GeminiRequest["action"][] = ["generate_docs"]
 
 interface GeminiRequest {
-  action: "analyze_idea" | "generate_tasks" | "mentor_chat" | "generate_docs"
+  action: "analyze_idea" | "generate_tasks" | "breakdown_task" | "rank_assignees" | "generate_pitch" | "mentor_chat" | "generate_docs"
+  /** mentor_chat only: reply with a plain-text token stream instead of `{ result }` */
+  stream?: boolean
+  /** The project the call is for; checked for membership, rate-limited and billed to. Required outside UNSCOPED_ACTIONS */
+  projectId?: string
   data: {
     idea?: string
     features?: string[]
@@ -178,37 +214,19 @@ interface GeminiRequest {
     duration?: string
     techStack?: string
     description?: string
-  }
-}
-
-/**
- * Clean and validate JSON response from AI
- */
-function cleanAndParseJSON(text: string, expectedType: 'object' | 'array'): any {
-  try {
-    // Remove markdown code blocks if present
-    let cleaned = text.replace(/```json\s*|\s*```/g, '').trim()
-
-    // Extract JSON from text
-    if (expectedType === 'object') {
-      const match = cleaned.match(/\{[\s\S]*\}/)
-      if (match) cleaned = match[0]
-    } else {
-      const match = cleaned.match(/\[[\s\S]*\]/)
-      if (match) cleaned = match[0]
-    }
-
-    // Fix common JSON issues
-    cleaned = cleaned
-      .replace(/'/g, '"')  // Replace single quotes with double quotes
-      .replace(/,\s*}/g, '}')  // Remove trailing commas in objects
-      .replace(/,\s*]/g, ']')  // Remove trailing commas in arrays
-      .replace(/([{,]\s*)(\w+):/g, '$1"$2":')  // Quote unquoted keys
-
-    return JSON.parse(cleaned)
-  } catch (error) {
-    console.error('JSON parsing failed:', error, 'Text:', text)
-    throw new Error('Invalid JSON response from AI')
+    // mentor_chat: the conversation so far and its stored summary; the project state is only read on offline backends
+    history?: MentorHistoryMessage[]
+    memory?: MentorMemorySnapshot | null
+    project?: MentorProjectContext
+    // breakdown_task: the task to split up and who could pick up the pieces
+    task?: Pick<Task, "title" | "description" | "effort" | "priority">
+    team?: { name: string; skills: string[]; role?: string }[]
+    // rank_assignees: the unassigned tasks to rank the team for
+    tasks?: Pick<Task, "title" | "description" | "tags">[]
+    // generate_pitch: the approved plan, what was actually built and where to see it
+    analysis?: IdeaAnalysis | null
+    completedTasks?: string[]
+    demoUrl?: string
   }
 }
 
@@ -236,73 +254,281 @@ function getFallbackResponse(action: string, data: any): any {
         { title: "Prepare presentation", description: "Create demo and presentation materials", effort: "Low" }
       ]
 
+    case "breakdown_task":
+      return [
+        { title: "Research the approach", estimate_minutes: 30, assignee: null, depends_on: [] },
+        { title: "Implement the main part", estimate_minutes: 90, assignee: null, depends_on: [1] },
+        { title: "Test and fix issues", estimate_minutes: 45, assignee: null, depends_on: [2] },
+        { title: "Review with the team", estimate_minutes: 15, assignee: null, depends_on: [3] }
+      ]
+
+    case "generate_pitch":
+      return fallbackPitchDeck(data)
+
     default:
       return null
   }
 }
 
-function getCacheKey(action: string, data: any): string {
-  return `${action}:${JSON.stringify(data)}`
+// Built straight from the project's own data, so even the placeholder deck is about this project
+function fallbackPitchDeck(data: GeminiRequest["data"]): PitchDeck {
+  const analysis = data.analysis
+  const slides: PitchDeck["slides"] = [
+    { title: "The Problem", bullets: [analysis?.problem_statement || "Describe the problem you solve."], notes: "" },
+    { title: "Who It's For", bullets: analysis?.target_users?.length ? analysis.target_users : ["Your target users"], notes: "" },
+    { title: "Our Solution", bullets: analysis?.features?.length ? analysis.features : ["Your key features"], notes: "" },
+    { title: "What We Built", bullets: data.completedTasks?.length ? data.completedTasks.slice(0, 6) : ["Your progress so far"], notes: "" },
+    {
+      title: "Demo",
+      bullets: [data.demoUrl ? `Live at ${data.demoUrl}` : "Walk through the main flow"],
+      notes: "Show the main user journey end to end.",
+    },
+    { title: "Tech Stack", bullets: analysis?.tech_stack_suggestions?.length ? analysis.tech_stack_suggestions : ["Your stack"], notes: "" },
+    { title: "Team", bullets: data.team?.length ? data.team.map((m) => m.name) : ["Your team"], notes: "" },
+    { title: "What's Next", bullets: ["Next milestones after the hackathon"], notes: "" },
+  ]
+  return { title: data.projectName || "Our Project", tagline: analysis?.problem_statement.split(". ")[0] || "", slides }
 }
-async function callAI(prompt: string): Promise<string> {
-  let lastError: Error | null = null
 
-  for (const model of FREE_MODELS) {
-    try {
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "https://hackmate.vercel.app",
-            "X-Title": "HackMate AI",
-          },
-          body: JSON.stringify({
-            model,
-            messages: [{ role: "user", content: prompt.slice(0, 2000) }], // token safety
-          }),
-        }
-      )
+// The provider comes from HACKMATE_AI_PROVIDER; prompts here stay provider-agnostic
+async function callAI(prompt: string, action: string, meter?: AIUsageMeter): Promise<string> {
+  return getAIProvider().complete([{ role: "user", content: prompt }], { action, meter })
+}
 
-      // Handle rate limit
-      if (response.status === 429) {
-        console.warn(`⚠️ ${model} rate-limited. Waiting...`)
-        await new Promise((res) => setTimeout(res, 2000)) // cooldown
-        continue
-      }
+type UsageOutcome = AIUsageRecord["outcome"]
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        lastError = new Error(errorText)
-        continue
-      }
+/**
+ * Stores one usage record for the project, written with the caller's token so the
+ * rules apply. Fire-and-forget: accounting never holds up or fails the AI response.
+ * Offline backends have no token and record nothing.
+ */
+function recordUsage(
+  identity: RequestIdentity,
+  projectId: string | undefined,
+  action: string,
+  meter: AIUsageMeter,
+  startedAt: number,
+  outcome: UsageOutcome,
+) {
+  if (!identity.idToken || !projectId) return
+
+  const record: Omit<AIUsageRecord, "usage_id"> = {
+    project_id: projectId,
+    user_id: identity.uid,
+    action,
+    provider: getAIProvider().name,
+    model: meter.model || "unknown",
+    calls: meter.calls,
+    prompt_chars: meter.promptChars,
+    response_chars: meter.responseChars,
+    latency_ms: Date.now() - startedAt,
+    outcome,
+    created_at: new Date(),
+  }
+  createDocument("ai_usage", record, identity.idToken).catch((error) => {
+    console.warn("Could not record AI usage:", error)
+  })
+}
+
+/**
+ * The project as the mentor sees it. With Firebase Auth it is read here with the caller's token
+ * and anything the client sent about it is ignored. The offline store backends keep their data
+ * in the browser, so there the client's copy is all there is.
+ */
+async function loadMentorProject(
+  identity: RequestIdentity,
+  projectId: string,
+  data: GeminiRequest["data"],
+): Promise<MentorProjectContext | null> {
+  if (!identity.idToken) return data.project ?? null
+  const idToken = identity.idToken
+
+  const project = await getDocument<Project>(`projects/${projectId}`, idToken)
+  if (!project) throw new Error("Couldn't load the project for the mentor")
+  const [tasks, event, profiles] = await Promise.all([
+    queryDocuments<Task>("tasks", "project_id", projectId, idToken),
+    project.hackathon_event ? getDocument<HackathonEvent>(`hackathon_events/${project.hackathon_event}`, idToken) : null,
+    Promise.all(project.members.map((id) => getDocument<ProjectMember>(`users/${id}`, idToken))),
+  ])
+  const names = new Map(project.members.map((id, i) => [id, profiles[i]?.name || "Teammate"]))
+
+  return {
+    name: project.name,
+    idea: project.idea ?? null,
+    time_remaining: formatTimeRemaining(hackathonWindow(project, event), Date.now()),
+    github_repo: project.github_repo,
+    members: [...names.values()],
+    tasks: tasks.map((t) => ({
+      title: t.title,
+      status: t.status,
+      priority: t.priority,
+      assignee: t.assigned_to ? names.get(t.assigned_to) : undefined,
+      blocked_by: getBlockers(t, tasks).map((b) => b.title),
+    })),
+  }
+}
 
-      const data = await response.json()
-      const content = data?.choices?.[0]?.message?.content
+/**
+ * Assembles the mentor conversation: project context (plus recent commits fetched here),
+ * the stored summary, and as many recent turns as fit the token budget. Turns that fall
+ * out of the window are folded into the summary, returned as `memory` when it changed.
+ */
+async function buildMentorChat(
+  data: GeminiRequest["data"],
+  project: MentorProjectContext | null,
+  meter?: AIUsageMeter,
+): Promise<{ messages: AIMessage[]; memory: MentorMemorySnapshot | null; memoryChanged: boolean }> {
+  const question = data.question || ""
+  if (!project) {
+    // Older clients send a preformatted context string and no history
+    const context = `Project context:\n${data.context || "Hackathon project"}`
+    return { messages: buildMentorMessages({ context, memory: null, recent: [], question }), memory: null, memoryChanged: false }
+  }
 
-      if (content) return content
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error("Unknown error")
-      continue
-    }
+  const commits = project.github_repo ? await fetchRecentCommitMessages(project.github_repo) : []
+  const { recent, older } = splitHistory(data.history ?? [], data.memory ?? null)
+  const memory = await summarizeHistory(getAIProvider(), data.memory ?? null, older, meter)
+
+  return {
+    messages: buildMentorMessages({
+      context: buildProjectContext(project, commits),
+      memory,
+      recent,
+      question,
+      tools: true,
+    }),
+    memory,
+    memoryChanged: memory !== (data.memory ?? null),
   }
+}
 
-  throw lastError || new Error("All AI models failed")
+const STREAM_HEADERS = {
+  "Content-Type": "text/plain; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+}
+
+/**
+ * Streams the mentor's reply as plain text chunks. The first chunk is awaited before
+ * responding, so a provider that fails outright still gets the usual 503 JSON error.
+ * The provider call is aborted when the client disconnects or cancels the read.
+ * `onSettled` runs once with how the stream ended.
+ */
+async function streamMentorReply(
+  request: NextRequest,
+  data: GeminiRequest["data"],
+  project: MentorProjectContext | null,
+  cacheKey: string,
+  meter: AIUsageMeter,
+  onSettled: (outcome: UsageOutcome) => void,
+): Promise<Response> {
+  const controller = new AbortController()
+  request.signal.addEventListener("abort", () => controller.abort())
+
+  const { messages, memory, memoryChanged } = await buildMentorChat(data, project, meter)
+  const headers: Record<string, string> = { ...STREAM_HEADERS }
+  // The summary is settled before the first token, so it can travel as a header
+  if (memoryChanged && memory) headers["X-Mentor-Memory"] = encodeURIComponent(JSON.stringify(memory))
+
+  const chunks = streamAI(messages, {
+    action: "mentor_chat",
+    signal: controller.signal,
+    meter,
+  })[Symbol.asyncIterator]()
+  const first = await chunks.next()
+
+  const encoder = new TextEncoder()
+  let reply = ""
+
+  const body = new ReadableStream<Uint8Array>({
+    start(stream) {
+      if (!first.done) {
+        reply += first.value
+        stream.enqueue(encoder.encode(first.value))
+      }
+    },
+    async pull(stream) {
+      try {
+        const next = await chunks.next()
+        if (next.done) {
+          if (reply) await getAICache().set("mentor_chat", cacheKey, reply)
+          onSettled("ok")
+          stream.close()
+          return
+        }
+        reply += next.value
+        stream.enqueue(encoder.encode(next.value))
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("AI stream error:", error)
+        onSettled(controller.signal.aborted ? "cancelled" : "error")
+        stream.error(error)
+      }
+    },
+    cancel() {
+      controller.abort()
+      onSettled("cancelled")
+    },
+  })
+
+  return new Response(body, { headers })
 }
 
 export async function POST(request: NextRequest) {
+  const identity = await authenticateRequest(request)
+  if (!identity) {
+    return NextResponse.json({ error: "Sign in to use the AI features" }, { status: 401 })
+  }
+
+  let report: ((outcome: UsageOutcome) => void) | null = null
+
   try {
     const body: GeminiRequest = await request.json()
-    const { action, data } = body
+    const { action, data, projectId } = body
 
-    const cacheKey = getCacheKey(action, data)
-    const cached = responseCache.get(cacheKey)
+    if (!projectId) {
+      if (!UNSCOPED_ACTIONS.includes(action)) {
+        return NextResponse.json({ error: "projectId is required for this action" }, { status: 400 })
+      }
+    } else if (!(await isProjectMember(projectId, identity))) {
+      return NextResponse.json({ error: "You are not a member of this project" }, { status: 403 })
+    }
 
-    // ✅ Cache check for ALL actions (including mentor_chat)
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return NextResponse.json({ result: cached.result, cached: true })
+    // mentor_chat bypasses the cache by default; the TTL policy decides per action
+    const cache = getAICache()
+    const cacheKey = aiCacheKey(action, data, getAIProvider().model, PROMPT_VERSIONS[action] ?? 1)
+    const cached = await cache.get(action, cacheKey)
+    if (cached !== null) {
+      if (action === "mentor_chat" && body.stream) {
+        return new Response(cached, { headers: STREAM_HEADERS })
+      }
+      return NextResponse.json({ result: cached, cached: true })
+    }
+
+    // Check both buckets before spending from either, so a refusal costs nothing
+    const cost = ACTION_COST[action] ?? 1
+    const limits = [userLimiter.peek(identity.uid, cost)]
+    if (projectId) limits.push(projectLimiter.peek(projectId, cost))
+    const refused = limits.find((limit) => !limit.allowed)
+    if (refused) {
+      return NextResponse.json(
+        { error: "AI rate limit reached. Please wait a moment.", retryAfter: refused.retryAfter },
+        { status: 429 }
+      )
+    }
+    userLimiter.take(identity.uid, cost)
+    if (projectId) projectLimiter.take(projectId, cost)
+
+    const meter = createUsageMeter()
+    const startedAt = Date.now()
+    let settled = false
+    report = (outcome) => {
+      if (settled) return
+      settled = true
+      recordUsage(identity, projectId, action, meter, startedAt, outcome)
+    }
+
+    const mentorProject = action === "mentor_chat" ? await loadMentorProject(identity, projectId!, data) : null
+    if (action === "mentor_chat" && body.stream) {
+      return await streamMentorReply(request, data, mentorProject, cacheKey, meter, report)
     }
 
     let result = ""
@@ -325,14 +551,7 @@ Return this EXACT JSON structure with NO extra text:
   "tech_stack_suggestions": ["technology 1", "technology 2", "technology 3"]
 }`
 
-          result = await callAI(prompt)
-          parsedResult = cleanAndParseJSON(result, 'object')
-
-          // Validate required fields
-          if (!parsedResult.problem_statement || !Array.isArray(parsedResult.target_users)) {
-            throw new Error('Invalid response structure')
-          }
-
+          parsedResult = await completeStructured([{ role: "user", content: prompt }], ideaAnalysisSchema, { action, meter })
           result = JSON.stringify(parsedResult)
           break
         }
@@ -344,44 +563,120 @@ Project: ${data.projectName}
 Features: ${data.features?.join(", ") || "Basic functionality"}
 Duration: ${data.duration}
 
-Return this EXACT JSON array with NO extra text:
-[
-  {"title": "Task name", "description": "Brief description", "effort": "Low"},
-  {"title": "Task name", "description": "Brief description", "effort": "Medium"},
-  {"title": "Task name", "description": "Brief description", "effort": "High"}
-]
+Return this EXACT JSON object with NO extra text:
+{
+  "tasks": [
+    {"title": "Task name", "description": "Brief description", "effort": "Low"},
+    {"title": "Task name", "description": "Brief description", "effort": "Medium"},
+    {"title": "Task name", "description": "Brief description", "effort": "High"}
+  ]
+}
 
 Generate 6-8 realistic tasks. Use only "Low", "Medium", or "High" for effort.`
 
-          result = await callAI(prompt)
-          parsedResult = cleanAndParseJSON(result, 'array')
+          parsedResult = await completeStructured([{ role: "user", content: prompt }], generatedTasksSchema, { action, meter })
+          result = JSON.stringify(parsedResult)
+          break
+        }
 
-          // Validate array structure
-          if (!Array.isArray(parsedResult) || parsedResult.length === 0) {
-            throw new Error('Invalid task array')
-          }
+        case "breakdown_task": {
+          const team = data.team?.length
+            ? data.team.map((m) => `- ${m.name}: ${m.skills.join(", ") || "no skills listed"}`).join("\n")
+            : "- (no teammates listed)"
+          const prompt = `You are a hackathon planning assistant. Break this task into concrete subtasks and return ONLY valid JSON.
+
+Task: ${data.task?.title}
+Description: ${data.task?.description || "None"}
+Effort: ${data.task?.effort || "Medium"}
+Priority: ${data.task?.priority || "Medium"}
+
+Team members and their skills:
+${team}
 
-          // Validate each task
-          parsedResult = parsedResult.map((task: any) => ({
-            title: task.title || "Untitled Task",
-            description: task.description || "No description provided",
-            effort: ["Low", "Medium", "High"].includes(task.effort) ? task.effort : "Medium"
-          }))
+Return this EXACT JSON object with NO extra text:
+{
+  "subtasks": [
+    {"title": "Subtask name", "estimate_minutes": 30, "assignee": "Member name or null", "depends_on": []},
+    {"title": "Subtask name", "estimate_minutes": 60, "assignee": "Member name or null", "depends_on": [1]}
+  ]
+}
+
+Generate 3-8 subtasks in the order they should be done. "estimate_minutes" is a realistic whole number of minutes.
+"assignee" is the team member whose skills fit best, spelled exactly as listed, or null.
+"depends_on" lists the 1-based numbers of earlier subtasks that must be finished first.`
 
+          parsedResult = await completeStructured([{ role: "user", content: prompt }], taskBreakdownSchema, { action, meter })
           result = JSON.stringify(parsedResult)
           break
         }
 
-        case "mentor_chat": {
-          const prompt = `You are HackMate AI mentor for hackathon teams.
-Be concise, practical, and actionable.
+        case "rank_assignees": {
+          const team = (data.team ?? [])
+            .map((m) => `- ${m.name}${m.role ? ` (${m.role})` : ""}: ${m.skills.join(", ") || "no skills listed"}`)
+            .join("\n")
+          const taskList = (data.tasks ?? [])
+            .map((t, i) => `${i + 1}. ${t.title}${t.description ? ` - ${t.description}` : ""}${t.tags?.length ? ` [${t.tags.join(", ")}]` : ""}`)
+            .join("\n")
+          const prompt = `You are a hackathon team lead. For each task, rank the team members whose skills fit it best and return ONLY valid JSON.
 
-Context: ${data.context || "Hackathon project"}
-Question: ${data.question}
+Team members and their skills:
+${team}
 
-Provide a helpful response in 3-5 sentences. Focus on actionable advice.`
+Tasks:
+${taskList}
 
-          result = await callAI(prompt)
+Return this EXACT JSON object with NO extra text:
+{
+  "rankings": [
+    {"task": 1, "members": ["Best fit name", "Second best name"]}
+  ]
+}
+
+Include every task by its number. List at most 3 members per task, spelled exactly as above, best fit first.`
+
+          parsedResult = await completeStructured([{ role: "user", content: prompt }], assigneeRankingSchema, { action, meter })
+          result = JSON.stringify(parsedResult)
+          break
+        }
+
+        case "generate_pitch": {
+          const analysis = data.analysis
+          const prompt = `You are a hackathon pitch coach. Write the slide outline for a 3-minute pitch and return ONLY valid JSON.
+
+Project: ${data.projectName}
+Problem: ${analysis?.problem_statement || "Not analyzed yet"}
+Target users: ${analysis?.target_users?.join(", ") || "Unknown"}
+Planned features: ${analysis?.features?.join(", ") || "Unknown"}
+Tech stack: ${analysis?.tech_stack_suggestions?.join(", ") || "Unknown"}
+Risks: ${analysis?.risks?.join(", ") || "None listed"}
+Completed work: ${data.completedTasks?.join("; ") || "Nothing marked done yet"}
+Demo URL: ${data.demoUrl || "None"}
+Team: ${data.team?.map((m) => `${m.name}${m.role ? ` (${m.role})` : ""}`).join(", ") || "Unknown"}
+
+Return this EXACT JSON object with NO extra text:
+{
+  "title": "Project name",
+  "tagline": "One-line pitch",
+  "slides": [
+    {"title": "Slide title", "bullets": ["Short point", "Short point"], "notes": "What the presenter says"}
+  ]
+}
+
+Write 6-9 slides covering problem, solution, demo, how it works, progress, team and what's next.
+Keep bullets under 12 words, at most 4 per slide. Only claim features that appear in the completed work.`
+
+          parsedResult = await completeStructured([{ role: "user", content: prompt }], pitchDeckSchema, { action, meter })
+          result = JSON.stringify(parsedResult)
+          break
+        }
+
+        case "mentor_chat": {
+          const chat = await buildMentorChat(data, mentorProject, meter)
+          result = await getAIProvider().complete(chat.messages, { action, meter })
+          if (chat.memoryChanged) {
+            report("ok")
+            return NextResponse.json({ result, memory: chat.memory })
+          }
           // For chat, we don't need JSON parsing
           break
         }
@@ -448,7 +743,7 @@ CRITICAL MERMAID RULES:
 \`\`\`
 `
 
-          result = await callAI(prompt)
+          result = await callAI(prompt, action, meter)
           break
         }
 
@@ -458,31 +753,32 @@ CRITICAL MERMAID RULES:
     } catch (aiError) {
       console.warn(`AI failed for ${action}, using fallback:`, aiError)
 
-      // Use fallback responses for structured data
-      if (action === "analyze_idea" || action === "generate_tasks") {
-        const fallback = getFallbackResponse(action, data)
-        if (fallback) {
-          result = JSON.stringify(fallback)
-        } else {
-          throw aiError
-        }
-      } else {
-        throw aiError
-      }
+      // Placeholder data for structured actions, flagged so the UI can say so and never cached
+      const fallback = getFallbackResponse(action, data)
+      if (!fallback) throw aiError
+      report("fallback")
+      return NextResponse.json({ result: JSON.stringify(fallback), fallback: true })
     }
 
-    // ✅ Cache response
-    responseCache.set(cacheKey, {
-      result,
-      timestamp: Date.now(),
-    })
+    await cache.set(action, cacheKey, result)
 
+    report("ok")
     return NextResponse.json({ result })
   } catch (error) {
     console.error("AI API Error:", error)
+    report?.("error")
     return NextResponse.json(
       { error: "AI is temporarily busy. Please try again." },
       { status: 503 }
     )
   }
 }
+
+/** Cache hit, miss and bypass counts per action, for any signed-in user */
+export async function GET(request: NextRequest) {
+  if (!(await authenticateRequest(request))) {
+    return NextResponse.json({ error: "Sign in to view AI cache statistics" }, { status: 401 })
+  }
+  const cache = getAICache()
+  return NextResponse.json({ backend: cache.backend, stats: await cache.stats() })
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server"
+import { githubHeaders, parseGitHubRepo } from "@/lib/github"
 
 export async function GET(req: NextRequest) {
   const searchParams = req.nextUrl.searchParams
@@ -9,33 +10,17 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    // Parse URL to get owner and repo
-    // Handles formats like:
-    // https://github.com/owner/repo
-    // https://github.com/owner/repo.git
-    const urlParts = repoUrl.replace(/\.git$/, "").split("/")
-    const repoIndex = urlParts.indexOf("github.com")
-    
-    if (repoIndex === -1 || urlParts.length < repoIndex + 3) {
+    const parsed = parseGitHubRepo(repoUrl)
+
+    if (!parsed) {
       return NextResponse.json({ error: "Invalid GitHub URL" }, { status: 400 })
     }
 
-    const owner = urlParts[repoIndex + 1]
-    const repo = urlParts[repoIndex + 2]
+    const { owner, repo } = parsed
 
     const apiUrl = `https://api.github.com/repos/${owner}/${repo}/commits?per_page=10`
-    
-    const headers: HeadersInit = {
-      "Accept": "application/vnd.github.v3+json",
-      "User-Agent": "HackMate-AI-Project",
-    }
-
-    // Add token if available
-    if (process.env.GITHUB_ACCESS_TOKEN) {
-      headers["Authorization"] = `token ${process.env.GITHUB_ACCESS_TOKEN}`
-    }
 
-    const response = await fetch(apiUrl, { headers })
+    const response = await fetch(apiUrl, { headers: githubHeaders() })
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
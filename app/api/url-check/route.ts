@@ -0,0 +1,123 @@
+import type { LookupAddress } from "node:dns"
+import { lookup } from "node:dns/promises"
+import { BlockList, isIP } from "node:net"
+import { NextRequest, NextResponse } from "next/server"
+import { Agent, fetch } from "undici"
+import { authenticateRequest } from "@/lib/api-auth"
+
+const MAX_REDIRECTS = 5
+
+// Addresses that would let the check probe the server's own network. BlockList matches
+// IPv4-mapped IPv6 addresses against the IPv4 ranges; NAT64 ones are blocked whole.
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+/**
+ * Resolves the host and returns its addresses, or null if any of them is private. The URL parser
+ * has already turned decimal, hex and octal IPv4 forms into dotted quads, and literals resolve to themselves.
+ */
+async function publicAddresses(url: URL): Promise<LookupAddress[] | null> {
+  if (!["http:", "https:"].includes(url.protocol)) return null
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1")
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true })
+    const allPublic = addresses.every(
+      ({ address, family }) => isIP(address) && !PRIVATE_RANGES.check(address, family === 6 ? "ipv6" : "ipv4"),
+    )
+    return addresses.length > 0 && allPublic ? addresses : null
+  } catch {
+    return null
+  }
+}
+
+// Connects only to the addresses that were checked, so the host can't re-resolve somewhere private in between
+function pinnedAgent(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, addresses)
+        else callback(null, addresses[0].address, addresses[0].family)
+      },
+    },
+  })
+}
+
+// Follows redirects by hand so every hop is checked before it is requested
+async function probe(start: URL, signal: AbortSignal): Promise<{ ok: boolean; status: number }> {
+  let url = start
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const addresses = await publicAddresses(url)
+    if (!addresses) throw new Error("Redirected to an address that can't be checked")
+
+    const dispatcher = pinnedAgent(addresses)
+    try {
+      // Some hosts reject HEAD, so fall back to a GET before calling the URL unreachable
+      let response = await fetch(url, { method: "HEAD", redirect: "manual", signal, dispatcher })
+      if (response.status === 405 || response.status === 501) {
+        response = await fetch(url, { method: "GET", redirect: "manual", signal, dispatcher })
+      }
+
+      const location = response.headers.get("location")
+      if (response.status < 300 || response.status >= 400 || !location) return { ok: response.ok, status: response.status }
+      url = new URL(location, url)
+    } finally {
+      // Only the status matters, so drop any body rather than wait for it
+      await dispatcher.destroy()
+    }
+  }
+  throw new Error("Too many redirects")
+}
+
+// Used by the submission checklist to confirm a demo URL responds; browsers can't check cross-origin URLs themselves
+export async function GET(req: NextRequest) {
+  if (!(await authenticateRequest(req))) {
+    return NextResponse.json({ error: "Sign in to check URLs" }, { status: 401 })
+  }
+
+  const target = req.nextUrl.searchParams.get("url")
+
+  if (!target) {
+    return NextResponse.json({ error: "URL is required" }, { status: 400 })
+  }
+
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    return NextResponse.json({ error: "Invalid URL" }, { status: 400 })
+  }
+
+  if (!(await publicAddresses(url))) {
+    return NextResponse.json({ error: "Only public http(s) URLs can be checked" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await probe(url, AbortSignal.timeout(8000)))
+  } catch (error: any) {
+    return NextResponse.json({ ok: false, status: 0, error: error.message || "Request failed" })
+  }
+}
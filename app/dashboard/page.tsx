@@ -3,7 +3,16 @@
 import { useEffect, useState, useCallback } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
-import { getUserProjects, createProject, joinProjectByCode } from "@/lib/firestore"
+import {
+  getUserProjects,
+  createProject,
+  joinProjectByCode,
+  getTrashedProjects,
+  restoreProject,
+  deleteProject,
+  purgeExpiredProjects,
+} from "@/lib/firestore"
+import { trashExpiresAt } from "@/lib/store/shared"
 import type { Project } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -17,6 +26,16 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import {
@@ -33,6 +52,9 @@ import {
   RefreshCw,
   AlertTriangle,
   FileText,
+  Trash,
+  RotateCcw,
+  Trophy,
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { formatDistanceToNow } from "date-fns"
@@ -58,6 +80,11 @@ export default function DashboardPage() {
   const [isJoining, setIsJoining] = useState(false)
   const [joiningMessage, setJoiningMessage] = useState("")
   const [isOfflineMode, setIsOfflineMode] = useState(false)
+  const [trashedProjects, setTrashedProjects] = useState<Project[]>([])
+  const [trashActionId, setTrashActionId] = useState<string | null>(null)
+  // Deleting forever can't be undone, so the name has to be typed back first
+  const [purgeTarget, setPurgeTarget] = useState<Project | null>(null)
+  const [purgeConfirmName, setPurgeConfirmName] = useState("")
 
   useEffect(() => {
     if (!loading && !user) {
@@ -75,8 +102,12 @@ export default function DashboardPage() {
     setLoadError(false)
 
     try {
-      const userProjects = await getUserProjects(user.uid)
+      // Clear out anything whose restore window has passed before listing the trash
+      await purgeExpiredProjects(user.uid).catch((error) => console.error("Failed to purge trash:", error))
+
+      const [userProjects, trashed] = await Promise.all([getUserProjects(user.uid), getTrashedProjects(user.uid)])
       setProjects(userProjects)
+      setTrashedProjects(trashed)
       setIsOfflineMode(false)
     } catch (error: any) {
       console.error("Failed to load projects:", error)
@@ -204,6 +235,46 @@ export default function DashboardPage() {
     }
   }
 
+  const handleRestoreProject = async (project: Project) => {
+    setTrashActionId(project.project_id)
+    try {
+      await restoreProject(project.project_id)
+      toast({
+        title: "Project restored",
+        description: `${project.name} is back in your projects.`,
+      })
+      await loadProjects()
+    } catch (error: any) {
+      toast({
+        title: "Restore failed",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setTrashActionId(null)
+    }
+  }
+
+  const handlePurgeProject = async (project: Project) => {
+    setTrashActionId(project.project_id)
+    try {
+      await deleteProject(project.project_id)
+      setTrashedProjects((prev) => prev.filter((p) => p.project_id !== project.project_id))
+      toast({
+        title: "Project deleted",
+        description: `${project.name} has been permanently deleted.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Delete failed",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setTrashActionId(null)
+    }
+  }
+
   const handleLogout = async () => {
     await logout()
     router.push("/")
@@ -388,6 +459,11 @@ export default function DashboardPage() {
             </DialogContent>
           </Dialog>
 
+          <Button variant="outline" size="lg" onClick={() => router.push("/events")}>
+            <Trophy className="h-5 w-5 mr-2" />
+            Events
+          </Button>
+
           <Button variant="outline" size="lg" onClick={() => router.push("/docs-generator")}>
             <FileText className="h-5 w-5 mr-2" />
             Generate Docs
@@ -498,6 +574,92 @@ export default function DashboardPage() {
             </div>
           )
         }
+
+        {/* Trash */}
+        {trashedProjects.length > 0 && (
+          <div className="mt-12">
+            <div className="mb-4 flex items-center gap-2">
+              <Trash className="h-5 w-5 text-muted-foreground" />
+              <h2 className="text-xl font-semibold">Trash</h2>
+              <Badge variant="secondary">{trashedProjects.length}</Badge>
+            </div>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {trashedProjects.map((project) => (
+                <Card key={project.project_id} className="border-dashed opacity-80">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{project.name}</CardTitle>
+                    <CardDescription>
+                      {project.deleted_at &&
+                        `Permanently deleted ${formatDistanceToNow(trashExpiresAt(project.deleted_at), { addSuffix: true })}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={trashActionId === project.project_id}
+                      onClick={() => handleRestoreProject(project)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="flex-1"
+                      disabled={trashActionId === project.project_id}
+                      onClick={() => {
+                        setPurgeConfirmName("")
+                        setPurgeTarget(project)
+                      }}
+                    >
+                      {trashActionId === project.project_id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Trash className="h-4 w-4 mr-2" />
+                          Delete Forever
+                        </>
+                      )}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {purgeTarget?.name} forever?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The project, its tasks, chat, resources and schedule are removed for everyone. This can&apos;t be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="purge-confirm">Type the project name to confirm</Label>
+              <Input
+                id="purge-confirm"
+                value={purgeConfirmName}
+                onChange={(e) => setPurgeConfirmName(e.target.value)}
+                placeholder={purgeTarget?.name}
+                autoComplete="off"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-white hover:bg-destructive/90"
+                disabled={!purgeTarget || purgeConfirmName.trim() !== purgeTarget.name.trim()}
+                onClick={() => purgeTarget && handlePurgeProject(purgeTarget)}
+              >
+                Delete Forever
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </main>
     </div>
   )
@@ -43,7 +43,7 @@ export default function DemoPage({ params }: { params: Promise<{ id: string }> }
     )
   }
 
-  if (!project || !project.demo_mode) {
+  if (!project || !project.demo_mode || project.deleted_at) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Card className="max-w-md">
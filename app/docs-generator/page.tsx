@@ -9,12 +9,15 @@ import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Loader2, ArrowLeft, Sparkles, Copy, FileText, Download, Printer } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { aiAuthHeaders } from "@/lib/ai-client"
 import ReactMarkdown from "react-markdown"
 import { MermaidDiagram } from "@/components/mermaid-diagram"
 
 export default function DocsGeneratorPage() {
     const router = useRouter()
     const { toast } = useToast()
+    const { user } = useAuth()
 
     const [projectName, setProjectName] = useState("")
     const [techStack, setTechStack] = useState("")
@@ -25,6 +28,15 @@ export default function DocsGeneratorPage() {
     const [generatedDocs, setGeneratedDocs] = useState("")
 
     const handleGenerate = async () => {
+        if (!user) {
+            toast({
+                title: "Sign in required",
+                description: "Sign in to generate documentation.",
+                variant: "destructive",
+            })
+            return
+        }
+
         if (!projectName.trim() || !techStack.trim() || !description.trim()) {
             toast({
                 title: "Missing fields",
@@ -40,7 +52,7 @@ export default function DocsGeneratorPage() {
         try {
             const response = await fetch("/api/gemini", {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
+                headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
                 body: JSON.stringify({
                     action: "generate_docs",
                     data: {
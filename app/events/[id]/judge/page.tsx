@@ -0,0 +1,291 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useAuth } from "@/lib/auth-context"
+import {
+  saveJudgeScore,
+  subscribeToEventProjects,
+  subscribeToEventScores,
+  subscribeToHackathonEvent,
+} from "@/lib/firestore"
+import { JUDGEABLE_STATUSES, conflictReason, eventRubric, isScorecardComplete } from "@/lib/judging"
+import type { HackathonEvent, JudgeScore, Project } from "@/lib/types"
+import { JudgeScorecard } from "@/components/judge-scorecard"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, ArrowRight, CheckCircle2, ExternalLink, Github, Loader2, ShieldAlert } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+export default function JudgeConsolePage() {
+  const params = useParams()
+  const eventId = params.id as string
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [event, setEvent] = useState<HackathonEvent | null>(null)
+  const [isLoadingEvent, setIsLoadingEvent] = useState(true)
+  const [teams, setTeams] = useState<Project[]>([])
+  const [scores, setScores] = useState<JudgeScore[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+    const unsubEvent = subscribeToHackathonEvent(eventId, (e) => {
+      setEvent(e)
+      setIsLoadingEvent(false)
+    })
+    const unsubTeams = subscribeToEventProjects(eventId, setTeams)
+    const unsubScores = subscribeToEventScores(eventId, setScores)
+    return () => {
+      unsubEvent()
+      unsubTeams()
+      unsubScores()
+    }
+  }, [user, eventId])
+
+  const submissions = useMemo(() => teams.filter((t) => JUDGEABLE_STATUSES.includes(t.status)), [teams])
+  const rubric = useMemo(() => (event ? eventRubric(event) : []), [event])
+  const myScores = useMemo(() => scores.filter((s) => s.judge_id === user?.uid), [scores, user])
+
+  // Open the first submission this judge still has to score
+  useEffect(() => {
+    if (selectedId || !user || submissions.length === 0) return
+    const pending = submissions.find(
+      (p) => !conflictReason(p, user.uid, scores) && !myScores.some((s) => s.project_id === p.project_id),
+    )
+    setSelectedId((pending ?? submissions[0]).project_id)
+  }, [submissions, selectedId])
+
+  if (loading || isLoadingEvent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (!event || !event.judges?.includes(user.uid)) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Only this event's judges can open the judge console.</p>
+        <Button variant="outline" onClick={() => router.push(`/events/${eventId}`)}>
+          Back to event
+        </Button>
+      </div>
+    )
+  }
+
+  const selectedIndex = submissions.findIndex((p) => p.project_id === selectedId)
+  const selected = selectedIndex >= 0 ? submissions[selectedIndex] : null
+  const selectedConflict = selected ? conflictReason(selected, user.uid, scores) : null
+  const existing = selected ? myScores.find((s) => s.project_id === selected.project_id) : undefined
+  const scoredCount = submissions.filter((p) => myScores.some((s) => s.project_id === p.project_id && isScorecardComplete(rubric, s))).length
+  const locked = event.status === "completed"
+
+  const goTo = (offset: number) => {
+    const next = submissions[selectedIndex + offset]
+    if (next) setSelectedId(next.project_id)
+  }
+
+  const handleSave = async (values: Record<string, number>, comment: string) => {
+    if (!selected) return
+    try {
+      await saveJudgeScore({
+        event_id: event.event_id,
+        project_id: selected.project_id,
+        judge_id: user.uid,
+        scores: values,
+        comment: comment || undefined,
+      })
+      toast({ title: "Score saved", description: selected.name })
+      goTo(1)
+    } catch (error: any) {
+      toast({
+        title: "Failed to save score",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRecuse = async () => {
+    if (!selected) return
+    try {
+      await saveJudgeScore({
+        event_id: event.event_id,
+        project_id: selected.project_id,
+        judge_id: user.uid,
+        scores: {},
+        recused: true,
+      })
+      toast({ title: "Conflict declared", description: `You won't score ${selected.name}.` })
+      goTo(1)
+    } catch (error: any) {
+      toast({
+        title: "Failed to declare conflict",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => router.push(`/events/${event.event_id}`)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Judge Console</h1>
+              <p className="text-muted-foreground">
+                {event.name} · {scoredCount}/{submissions.length} scored
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => router.push(`/events/${event.event_id}/results`)}>
+            Leaderboard
+          </Button>
+        </div>
+
+        {submissions.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="text-center text-muted-foreground">No projects have been submitted yet.</CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[16rem_1fr_22rem]">
+            {/* Queue */}
+            <Card className="h-fit">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Submissions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {submissions.map((project) => {
+                  const conflict = conflictReason(project, user.uid, scores)
+                  const card = myScores.find((s) => s.project_id === project.project_id)
+                  return (
+                    <button
+                      key={project.project_id}
+                      className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                        project.project_id === selectedId ? "bg-muted font-medium" : ""
+                      }`}
+                      onClick={() => setSelectedId(project.project_id)}
+                    >
+                      <span className="flex-1 truncate">{project.name}</span>
+                      {conflict ? (
+                        <ShieldAlert className="h-4 w-4 text-amber-500" />
+                      ) : card && isScorecardComplete(rubric, card) ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      ) : null}
+                    </button>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Demo view */}
+            {selected && (
+              <Card className="overflow-hidden">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle>{selected.name}</CardTitle>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" disabled={selectedIndex <= 0} onClick={() => goTo(-1)}>
+                        <ArrowLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={selectedIndex >= submissions.length - 1}
+                        onClick={() => goTo(1)}
+                      >
+                        <ArrowRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {selected.github_repo && (
+                      <a href={selected.github_repo} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+                        <Github className="h-3 w-3" /> Repository
+                      </a>
+                    )}
+                    {selected.demo_url && (
+                      <a href={selected.demo_url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+                        <ExternalLink className="h-3 w-3" /> Live demo
+                      </a>
+                    )}
+                    {selected.pitch_deck_url && (
+                      <a href={selected.pitch_deck_url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+                        <ExternalLink className="h-3 w-3" /> Pitch deck
+                      </a>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                  {selected.demo_mode ? (
+                    <iframe
+                      key={selected.project_id}
+                      src={`/demo/${selected.project_id}`}
+                      title={`${selected.name} demo`}
+                      className="w-full h-[70vh] border-t"
+                    />
+                  ) : (
+                    <p className="p-6 text-sm text-muted-foreground">
+                      This team hasn't turned on demo mode, so only their links are available.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Scorecard */}
+            {selected && (
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="text-base">Scorecard</CardTitle>
+                  <CardDescription>
+                    {locked ? "Judging has closed" : "Scores are normalised against your other scorecards"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {selectedConflict ? (
+                    <div className="flex items-center gap-2 text-sm text-amber-700">
+                      <ShieldAlert className="h-4 w-4" />
+                      {selectedConflict} - you are excluded from scoring this project.
+                    </div>
+                  ) : (
+                    <JudgeScorecard
+                      key={selected.project_id}
+                      rubric={rubric}
+                      existing={existing}
+                      disabled={locked}
+                      onSave={handleSave}
+                      onRecuse={handleRecuse}
+                    />
+                  )}
+                  {existing && !existing.recused && (
+                    <Badge variant="secondary" className="mt-4">Scored</Badge>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,515 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { format, formatDistanceToNow } from "date-fns"
+import { useAuth } from "@/lib/auth-context"
+import {
+  getJudgeCode,
+  getUserProjects,
+  getUserRole,
+  joinEventAsJudge,
+  registerProjectForEvent,
+  subscribeToEventProjects,
+  subscribeToHackathonEvent,
+  unregisterProjectFromEvent,
+  updateHackathonEvent,
+} from "@/lib/firestore"
+import { EVENT_STATUS_LABELS, eventStatus, isRegistrationOpen, teamSizeError } from "@/lib/events"
+import { eventRubric } from "@/lib/judging"
+import { can, resolveRole } from "@/lib/permissions"
+import type { HackathonEvent, Project, RubricCriterion } from "@/lib/types"
+import { EventFormDialog, type EventDraft } from "@/components/event-form-dialog"
+import { RubricEditor } from "@/components/rubric-editor"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ArrowLeft,
+  BarChart3,
+  CalendarDays,
+  ClipboardCheck,
+  Gavel,
+  KeyRound,
+  Loader2,
+  Pencil,
+  ScrollText,
+  Timer,
+  Trophy,
+  Users,
+} from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+export default function EventPage() {
+  const params = useParams()
+  const eventId = params.id as string
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [event, setEvent] = useState<HackathonEvent | null>(null)
+  const [isLoadingEvent, setIsLoadingEvent] = useState(true)
+  const [teams, setTeams] = useState<Project[]>([])
+  const [manageableProjects, setManageableProjects] = useState<Project[]>([])
+  const [selectedProjectId, setSelectedProjectId] = useState("")
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [currentTime, setCurrentTime] = useState(() => Date.now())
+  const [judgeCode, setJudgeCode] = useState("")
+  const [eventJudgeCode, setEventJudgeCode] = useState<string | null>(null)
+  const [isJoiningJudges, setIsJoiningJudges] = useState(false)
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    const interval = setInterval(() => setCurrentTime(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+    const unsubEvent = subscribeToHackathonEvent(eventId, (e) => {
+      setEvent(e)
+      setIsLoadingEvent(false)
+    })
+    const unsubTeams = subscribeToEventProjects(eventId, setTeams)
+    return () => {
+      unsubEvent()
+      unsubTeams()
+    }
+  }, [user, eventId])
+
+  const isEventOrganizer = !!user && event?.created_by === user.uid
+  useEffect(() => {
+    if (!isEventOrganizer) return
+    getJudgeCode(eventId)
+      .then(setEventJudgeCode)
+      .catch((error) => console.error("Failed to load judge code:", error))
+  }, [isEventOrganizer, eventId])
+
+  // Only projects the user may change settings on can be registered
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+    getUserProjects(user.uid)
+      .then(async (projects) => {
+        const roles = await Promise.all(projects.map((p) => getUserRole(p.project_id, user.uid)))
+        if (cancelled) return
+        setManageableProjects(projects.filter((p, i) => can(resolveRole(p, user.uid, roles[i]), "settings:edit")))
+      })
+      .catch((error) => console.error("Failed to load projects:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [user, teams])
+
+  const candidates = useMemo(
+    () => manageableProjects.filter((p) => p.hackathon_event !== eventId),
+    [manageableProjects, eventId],
+  )
+
+  if (loading || isLoadingEvent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Event not found.</p>
+        <Button variant="outline" onClick={() => router.push("/events")}>
+          Back to events
+        </Button>
+      </div>
+    )
+  }
+
+  const status = eventStatus(event, currentTime)
+  const registrationOpen = isRegistrationOpen(event, currentTime)
+  const isOrganizer = event.created_by === user.uid
+  const isJudge = !!event.judges?.includes(user.uid)
+  const selectedProject = candidates.find((p) => p.project_id === selectedProjectId)
+  const selectedSizeError = selectedProject ? teamSizeError(event, selectedProject.members.length) : null
+  const countdownTarget = status === "upcoming" ? event.start_date : event.end_date
+
+  const handleRegister = async () => {
+    if (!selectedProject) return
+    setIsRegistering(true)
+    try {
+      await registerProjectForEvent(selectedProject.project_id, event.event_id)
+      toast({ title: "Team registered!", description: `${selectedProject.name} is now part of ${event.name}.` })
+      setSelectedProjectId("")
+    } catch (error: any) {
+      toast({
+        title: "Registration failed",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  const handleWithdraw = async (project: Project) => {
+    try {
+      await unregisterProjectFromEvent(project.project_id)
+      toast({ title: "Team withdrawn", description: `${project.name} left ${event.name}.` })
+    } catch (error: any) {
+      toast({
+        title: "Failed to withdraw",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleJoinAsJudge = async () => {
+    if (!judgeCode.trim()) return
+    setIsJoiningJudges(true)
+    try {
+      const joinedEventId = await joinEventAsJudge(judgeCode.trim().toUpperCase(), user.uid)
+      if (!joinedEventId) {
+        toast({
+          title: "Invalid code",
+          description: "No event found with this judge code.",
+          variant: "destructive",
+        })
+        return
+      }
+      setJudgeCode("")
+      toast({ title: "You're a judge!", description: "Open the judge console to start scoring." })
+      if (joinedEventId !== event.event_id) router.push(`/events/${joinedEventId}`)
+    } catch (error: any) {
+      toast({
+        title: "Failed to join judges",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsJoiningJudges(false)
+    }
+  }
+
+  const handleSaveRubric = async (rubric: RubricCriterion[]) => {
+    try {
+      await updateHackathonEvent(event.event_id, { rubric })
+      toast({ title: "Rubric saved" })
+    } catch (error: any) {
+      toast({
+        title: "Failed to save rubric",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleUpdateEvent = async (updates: Partial<HackathonEvent>) => {
+    try {
+      await updateHackathonEvent(event.event_id, updates)
+    } catch (error: any) {
+      toast({
+        title: "Failed to update event",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-4">
+            <Button variant="ghost" size="icon" onClick={() => router.push("/events")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-3xl font-bold">{event.name}</h1>
+                <Badge variant={status === "active" ? "default" : "secondary"}>{EVENT_STATUS_LABELS[status]}</Badge>
+              </div>
+              {event.theme && <p className="text-muted-foreground">Theme: {event.theme}</p>}
+              <p className="text-sm text-muted-foreground">Organised by {event.organizer}</p>
+            </div>
+          </div>
+          {isOrganizer && (
+            <div className="flex flex-wrap justify-end gap-2">
+              <EventFormDialog
+                title="Save Event"
+                initial={event}
+                trigger={
+                  <Button variant="outline" size="sm">
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                }
+                onSubmit={(draft: EventDraft) => handleUpdateEvent(draft)}
+              />
+              {status !== "judging" && status !== "completed" && (
+                <Button variant="outline" size="sm" onClick={() => handleUpdateEvent({ status: "judging" })}>
+                  <Gavel className="h-4 w-4 mr-2" />
+                  Start Judging
+                </Button>
+              )}
+              {status !== "completed" && (
+                <Button size="sm" onClick={() => handleUpdateEvent({ status: "completed" })}>
+                  <Trophy className="h-4 w-4 mr-2" />
+                  Close Event
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Dates
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm">
+              <div>{format(event.start_date, "EEE MMM d, HH:mm")}</div>
+              <div className="text-muted-foreground">to {format(event.end_date, "EEE MMM d, HH:mm")}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Timer className="h-4 w-4" />
+                {status === "upcoming" ? "Starts" : "Ends"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm font-medium">
+              {status === "upcoming" || status === "active"
+                ? formatDistanceToNow(countdownTarget, { addSuffix: true })
+                : EVENT_STATUS_LABELS[status]}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Teams
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm">
+              <div className="font-medium">{teams.length} registered</div>
+              <div className="text-muted-foreground">Up to {event.max_team_size} members each</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {event.description && <p className="whitespace-pre-wrap">{event.description}</p>}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5 text-amber-500" />
+                Prizes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {event.prizes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No prizes announced yet</p>
+              ) : (
+                <ul className="list-disc pl-5 space-y-1 text-sm">
+                  {event.prizes.map((prize, i) => (
+                    <li key={i}>{prize}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5 text-primary" />
+                Rules
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {event.rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rules published yet</p>
+              ) : (
+                <ol className="list-decimal pl-5 space-y-1 text-sm">
+                  {event.rules.map((rule, i) => (
+                    <li key={i}>{rule}</li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Judging */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Gavel className="h-5 w-5 text-primary" />
+                  Judging
+                </CardTitle>
+                <CardDescription>
+                  {event.judges?.length ?? 0} judge{event.judges?.length === 1 ? "" : "s"} · scores are normalised per judge
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {isJudge && (
+                  <Button size="sm" onClick={() => router.push(`/events/${event.event_id}/judge`)}>
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    Judge Console
+                  </Button>
+                )}
+                {(isOrganizer || isJudge || status === "completed") && (
+                  <Button variant="outline" size="sm" onClick={() => router.push(`/events/${event.event_id}/results`)}>
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    {status === "completed" ? "Results" : "Live Leaderboard"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isOrganizer && (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <KeyRound className="h-4 w-4 text-muted-foreground" />
+                  Judge code:
+                  <Badge variant="outline" className="font-mono">{eventJudgeCode ?? "..."}</Badge>
+                  <span className="text-muted-foreground">share it only with your judges</span>
+                </div>
+                <RubricEditor rubric={eventRubric(event)} disabled={status === "completed"} onSave={handleSaveRubric} />
+              </>
+            )}
+            {!isOrganizer && !isJudge && status !== "completed" && (
+              <div className="flex gap-2 max-w-sm">
+                <Input
+                  placeholder="Judge code"
+                  value={judgeCode}
+                  onChange={(e) => setJudgeCode(e.target.value.toUpperCase())}
+                  maxLength={6}
+                />
+                <Button onClick={handleJoinAsJudge} disabled={!judgeCode.trim() || isJoiningJudges}>
+                  {isJoiningJudges ? <Loader2 className="h-4 w-4 animate-spin" /> : "Join as Judge"}
+                </Button>
+              </div>
+            )}
+            {!isOrganizer && (
+              <div className="space-y-1 text-sm">
+                {eventRubric(event).map((criterion) => (
+                  <div key={criterion.criterion_id} className="flex justify-between gap-2">
+                    <span>{criterion.name}</span>
+                    <span className="text-muted-foreground">
+                      weight {criterion.weight} · out of {criterion.max_score}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Registration */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Register a Team</CardTitle>
+            <CardDescription>
+              {registrationOpen
+                ? "Registered projects use the event's dates for their timer and milestones"
+                : "Registration is closed"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You don't own or administer any unregistered projects.
+              </p>
+            ) : (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={selectedProjectId} onValueChange={setSelectedProjectId} disabled={!registrationOpen}>
+                  <SelectTrigger className="sm:w-72">
+                    <SelectValue placeholder="Choose a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((p) => (
+                      <SelectItem key={p.project_id} value={p.project_id}>
+                        {p.name} ({p.members.length} members)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleRegister}
+                  disabled={!registrationOpen || !selectedProject || !!selectedSizeError || isRegistering}
+                >
+                  {isRegistering ? <Loader2 className="h-4 w-4 animate-spin" /> : "Register"}
+                </Button>
+              </div>
+            )}
+            {selectedSizeError && <p className="text-sm text-destructive">{selectedSizeError}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Participating projects */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Participating Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {teams.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No teams have registered yet</p>
+            ) : (
+              <div className="space-y-2">
+                {teams.map((team) => {
+                  const canManage = manageableProjects.some((p) => p.project_id === team.project_id)
+                  return (
+                    <div key={team.project_id} className="flex items-center gap-3 p-3 rounded-lg border">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{team.name}</div>
+                        {team.idea?.problem_statement && (
+                          <div className="text-xs text-muted-foreground truncate">{team.idea.problem_statement}</div>
+                        )}
+                      </div>
+                      <Badge variant="outline" className="capitalize">{team.status}</Badge>
+                      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Users className="h-4 w-4" />
+                        {team.members.length}
+                      </div>
+                      {canManage && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => router.push(`/project/${team.project_id}`)}>
+                            Open
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleWithdraw(team)}>
+                            Withdraw
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useAuth } from "@/lib/auth-context"
+import { subscribeToEventProjects, subscribeToEventScores, subscribeToHackathonEvent } from "@/lib/firestore"
+import { buildLeaderboard, eventRubric } from "@/lib/judging"
+import type { HackathonEvent, JudgeScore, Project } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, Loader2, Medal, Trophy } from "lucide-react"
+
+const MEDAL_COLORS = ["text-amber-500", "text-slate-400", "text-orange-700"]
+
+export default function EventResultsPage() {
+  const params = useParams()
+  const eventId = params.id as string
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  const [event, setEvent] = useState<HackathonEvent | null>(null)
+  const [isLoadingEvent, setIsLoadingEvent] = useState(true)
+  const [teams, setTeams] = useState<Project[]>([])
+  const [scores, setScores] = useState<JudgeScore[]>([])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+    const unsubEvent = subscribeToHackathonEvent(eventId, (e) => {
+      setEvent(e)
+      setIsLoadingEvent(false)
+    })
+    const unsubTeams = subscribeToEventProjects(eventId, setTeams)
+    const unsubScores = subscribeToEventScores(eventId, setScores)
+    return () => {
+      unsubEvent()
+      unsubTeams()
+      unsubScores()
+    }
+  }, [user, eventId])
+
+  const rubric = useMemo(() => (event ? eventRubric(event) : []), [event])
+  const leaderboard = useMemo(() => buildLeaderboard(rubric, teams, scores), [rubric, teams, scores])
+
+  if (loading || isLoadingEvent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const canView =
+    !!event && (event.status === "completed" || event.created_by === user.uid || !!event.judges?.includes(user.uid))
+
+  if (!event || !canView) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Results are published once the organiser closes the event.</p>
+        <Button variant="outline" onClick={() => router.push(`/events/${eventId}`)}>
+          Back to event
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6 max-w-5xl">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => router.push(`/events/${event.event_id}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Trophy className="h-7 w-7 text-amber-500" />
+              {event.status === "completed" ? "Final Results" : "Live Leaderboard"}
+            </h1>
+            <p className="text-muted-foreground">{event.name}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Leaderboard</CardTitle>
+            <CardDescription>
+              Ranked by the normalised score: each judge's scores are rescaled against their own average so harsh and
+              generous judges count equally. Judges never score their own team or projects they declared a conflict on.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {leaderboard.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No completed scorecards yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Project</TableHead>
+                    {rubric.map((c) => (
+                      <TableHead key={c.criterion_id} className="text-right hidden md:table-cell">
+                        {c.name}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Raw</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((entry) => (
+                    <TableRow key={entry.project.project_id}>
+                      <TableCell>
+                        {entry.rank <= 3 ? (
+                          <Medal className={`h-5 w-5 ${MEDAL_COLORS[entry.rank - 1]}`} />
+                        ) : (
+                          entry.rank
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{entry.project.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {entry.judgeCount} judge{entry.judgeCount === 1 ? "" : "s"}
+                        </div>
+                      </TableCell>
+                      {rubric.map((c) => (
+                        <TableCell key={c.criterion_id} className="text-right hidden md:table-cell">
+                          {entry.criteriaAverages[c.criterion_id].toFixed(1)}
+                          <span className="text-muted-foreground">/{c.max_score}</span>
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right text-muted-foreground">{entry.rawScore.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={entry.rank === 1 ? "default" : "secondary"}>{entry.normalizedScore.toFixed(1)}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { useAuth } from "@/lib/auth-context"
+import { createHackathonEvent, subscribeToHackathonEvents } from "@/lib/firestore"
+import { EVENT_STATUS_LABELS, eventStatus } from "@/lib/events"
+import type { HackathonEvent } from "@/lib/types"
+import { EventFormDialog, type EventDraft } from "@/components/event-form-dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, ArrowRight, CalendarDays, Loader2, Plus, Trophy, Users } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+export default function EventsPage() {
+  const { user, userProfile, loading } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [events, setEvents] = useState<HackathonEvent[]>([])
+  const [isLoadingEvents, setIsLoadingEvents] = useState(true)
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+    return subscribeToHackathonEvents((e) => {
+      setEvents(e)
+      setIsLoadingEvents(false)
+    })
+  }, [user])
+
+  const handleCreateEvent = async (draft: EventDraft) => {
+    if (!user) return
+    try {
+      const eventId = await createHackathonEvent({
+        ...draft,
+        organizer: userProfile?.name || user.displayName || user.email || "Organiser",
+        created_by: user.uid,
+        status: "upcoming",
+      })
+      toast({ title: "Event created!", description: "Share the event page so teams can register." })
+      router.push(`/events/${eventId}`)
+    } catch (error: any) {
+      toast({
+        title: "Failed to create event",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => router.push("/dashboard")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">Hackathon Events</h1>
+              <p className="text-muted-foreground">Register your team or organise an event of your own</p>
+            </div>
+          </div>
+          <EventFormDialog
+            title="Create Event"
+            trigger={
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Event
+              </Button>
+            }
+            onSubmit={handleCreateEvent}
+          />
+        </div>
+
+        {isLoadingEvents ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="text-center text-muted-foreground">
+              <CalendarDays className="h-10 w-10 mx-auto mb-3" />
+              No events yet - create the first one.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {events.map((event) => {
+              const status = eventStatus(event)
+              return (
+                <Card
+                  key={event.event_id}
+                  className="hover:shadow-lg transition-shadow cursor-pointer group"
+                  onClick={() => router.push(`/events/${event.event_id}`)}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-xl group-hover:text-primary transition-colors">{event.name}</CardTitle>
+                        {event.theme && <CardDescription className="mt-1">{event.theme}</CardDescription>}
+                      </div>
+                      <Badge variant={status === "active" ? "default" : "secondary"}>{EVENT_STATUS_LABELS[status]}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <CalendarDays className="h-4 w-4" />
+                          {format(event.start_date, "MMM d")} - {format(event.end_date, "MMM d")}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          max {event.max_team_size}
+                        </div>
+                        {event.prizes.length > 0 && (
+                          <div className="flex items-center gap-1">
+                            <Trophy className="h-4 w-4" />
+                            {event.prizes.length}
+                          </div>
+                        )}
+                      </div>
+                      <ArrowRight className="h-5 w-5 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
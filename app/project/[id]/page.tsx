@@ -3,6 +3,8 @@
 import { useState, useEffect, useRef, useMemo } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
+import { format } from "date-fns"
+import ReactMarkdown from "react-markdown"
 import {
   DndContext,
   DragEndEvent,
@@ -18,6 +20,7 @@ import { useSortable } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
 import {
   getProject,
+  getJoinCode,
   updateProjectIdea,
   addTask,
   updateTask,
@@ -28,6 +31,14 @@ import {
   subscribeToProject,
   subscribeToTasks,
   subscribeToMessages,
+  getMessagesBefore,
+  searchHistory,
+  getMentorMemory,
+  saveMentorMemory,
+  resolveMessageToolCall,
+  editMessage,
+  deleteMessage,
+  setMessageReaction,
   getProjectMembers,
   uploadResource,
   subscribeToResources,
@@ -36,11 +47,31 @@ import {
   createNotification,
   subscribeToNotifications,
   markNotificationRead,
-  deleteProject,
+  trashProject,
   deleteResource,
   removeMemberFromProject,
+  setUserRole,
+  subscribeToProjectRoles,
+  createScheduleEvent,
+  updateScheduleEvent,
+  deleteScheduleEvent,
+  subscribeToTeamSchedule,
+  saveWellnessSettings,
+  subscribeToTeamWellness,
+  createMilestone,
+  updateMilestone,
+  syncMilestone,
+  deleteMilestone,
+  subscribeToMilestones,
+  updateSubmissionDeadline,
+  subscribeToHackathonEvent,
+  createSubmission,
+  subscribeToSubmissions,
+  updateSubmissionChecklist,
+  updateProjectStatus,
+  subscribeToAIUsage,
 } from "@/lib/firestore"
-import type { Project, Task, ChatMessage, IdeaAnalysis, ProjectMember, TeamAnalytics, SharedResource, LiveActivity, TeamNotification } from "@/lib/types"
+import type { Project, ProjectRole, HackathonEvent, Milestone, ProjectSubmission, SubmissionCheckId, SubmissionCheckResult, ScheduleEvent, WellnessSettings, Task, ChatMessage, IdeaAnalysis, ProjectMember, TeamAnalytics, SharedResource, LiveActivity, TeamNotification, MentorMemory, MentorToolCall, MentorToolName, AIUsageRecord, Subtask } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -62,7 +93,65 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast"
 import { GithubHistory } from "@/components/github-history"
 import { ProjectHealth } from "@/components/project-health"
+import { TaskDependencyPicker } from "@/components/task-dependency-picker"
+import { SchedulePlanner } from "@/components/schedule-planner"
+import { TeamScheduleOverlay } from "@/components/team-schedule-overlay"
+import { useScheduleReminders } from "@/hooks/use-schedule-reminders"
+import { usePresence } from "@/hooks/use-presence"
+import { WorkSessionCard } from "@/components/work-session-card"
+import { WellnessSettingsDialog } from "@/components/wellness-settings-dialog"
+import { BurnoutAlerts } from "@/components/burnout-alerts"
+import { MilestonesBoard } from "@/components/milestones-board"
+import { SubmissionDialog } from "@/components/submission-dialog"
+import { MentorToolCard } from "@/components/mentor-tool-card"
+import { TeamChat, TypingIndicator } from "@/components/team-chat"
+import { SlashCommandInput } from "@/components/slash-command-input"
+import { HistorySearchDialog } from "@/components/history-search-dialog"
+import { AIUsageCard, type AIUsagePeriod } from "@/components/ai-usage-card"
+import { AutoAssignDialog } from "@/components/auto-assign-dialog"
+import { getStoreBackend } from "@/lib/store"
 import { calculateProjectHealth } from "@/lib/health-utils"
+import { computeCriticalPath, findCycleWith, getBlockers } from "@/lib/task-graph"
+import { pendingSubtaskDependencies, subtaskProgress, toSubtasks } from "@/lib/subtasks"
+import { type AssignmentSuggestion, planAssignments } from "@/lib/auto-assign"
+import { formatTimeRemaining, hackathonWindow } from "@/lib/schedule"
+import { milestoneUpdates, resolveMilestones } from "@/lib/milestones"
+import { DEFAULT_WELLNESS, WellnessPreferences, detectBurnout, generateRoutineEvents } from "@/lib/wellness"
+import { TRASH_RETENTION_DAYS, withoutUndefined } from "@/lib/store/shared"
+import {
+  type Permission,
+  ROLE_LABELS,
+  can,
+  resolveRole,
+  canManageMember,
+  assignableRoles,
+  canDeleteResource,
+  canBeforeDeadline,
+  isPastDeadline,
+} from "@/lib/permissions"
+import { buildSnapshot } from "@/lib/submission"
+import { aiAuthHeaders } from "@/lib/ai-client"
+import type { MentorHistoryMessage, MentorMemorySnapshot, MentorProjectContext } from "@/lib/ai/mentor"
+import { describeToolCall, extractToolCalls, findMemberByName, findTaskByTitle, stripToolBlocks } from "@/lib/ai/mentor-tools"
+import {
+  GENERAL_CHANNEL,
+  channelTaskId,
+  chatChannels,
+  findMentionedMembers,
+  isTeamChatMessage,
+  mentionsMentor,
+  stripMentorMention,
+  taskReference,
+} from "@/lib/chat"
+import {
+  MENTOR_TYPING_KEY,
+  PRESENCE_COLORS,
+  presenceLabel,
+  presenceStatus,
+  typingByKey,
+  viewersByTask,
+} from "@/lib/presence"
+import { isSlashCommand, parseSlashCommand, slashCommandSpec, standupReport, timerReport } from "@/lib/slash-commands"
 import {
   ArrowLeft,
   Lightbulb,
@@ -74,6 +163,7 @@ import {
   Trash2,
   Sparkles,
   Send,
+  Square,
   Clock,
   AlertTriangle,
   BarChart3,
@@ -83,13 +173,10 @@ import {
   Github,
   Calendar,
   CalendarDays,
-  Coffee,
   Moon,
   Utensils,
   Bell,
   Settings,
-  Play,
-  Pause,
   Copy,
   Check,
   Upload,
@@ -101,6 +188,14 @@ import {
   Eye,
   Download,
   Trash,
+  Lock,
+  GitBranch,
+  Flag,
+  UserPlus,
+  ListTree,
+  Trophy,
+  Presentation,
+  Search,
 } from "lucide-react"
 
 interface RetryState {
@@ -109,6 +204,20 @@ interface RetryState {
   action: string | null
 }
 
+// Messages sent to the mentor route; it trims them further to its token budget
+const MENTOR_HISTORY_LIMIT = 60
+// Messages kept live; older ones are fetched a page at a time
+const MESSAGE_PAGE_SIZE = 100
+
+// Applying a mentor action needs the same permission as doing it by hand
+const MENTOR_TOOL_PERMISSIONS: Record<MentorToolName, Permission> = {
+  create_task: "task:edit",
+  update_task: "task:edit",
+  assign_task: "task:edit",
+  add_milestone: "task:edit",
+  post_note: "resource:create",
+}
+
 export default function ProjectPage() {
   const params = useParams()
   const router = useRouter()
@@ -120,16 +229,29 @@ export default function ProjectPage() {
   const [project, setProject] = useState<Project | null>(null)
   const [tasks, setTasks] = useState<Task[]>([])
   const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [olderMessages, setOlderMessages] = useState<ChatMessage[]>([])
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false)
+  const [showHistorySearch, setShowHistorySearch] = useState(false)
   const [members, setMembers] = useState<ProjectMember[]>([])
   const [resources, setResources] = useState<SharedResource[]>([])
   const [activities, setActivities] = useState<LiveActivity[]>([])
   const [notifications, setNotifications] = useState<TeamNotification[]>([])
+  const [roles, setRoles] = useState<Record<string, ProjectRole>>({})
+  const [scheduleEvents, setScheduleEvents] = useState<ScheduleEvent[]>([])
+  const [milestones, setMilestones] = useState<Milestone[]>([])
+  const [hackathonEvent, setHackathonEvent] = useState<HackathonEvent | null>(null)
+  const [submissions, setSubmissions] = useState<ProjectSubmission[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   // Schedule state
-  const [currentWorkSession, setCurrentWorkSession] = useState<{ start: Date; duration: number } | null>(null)
-  const [nextBreakTime, setNextBreakTime] = useState<Date | null>(null)
+  const [workSessionStart, setWorkSessionStart] = useState<Date | null>(null)
+  const [teamWellness, setTeamWellness] = useState<WellnessSettings[]>([])
+
+  // AI usage, visible to owners and admins
+  const [aiUsage, setAIUsage] = useState<AIUsageRecord[]>([])
+  const [aiUsagePeriod, setAIUsagePeriod] = useState<AIUsagePeriod>("24h")
 
   // Drag and drop state
   const [activeTask, setActiveTask] = useState<Task | null>(null)
@@ -145,6 +267,10 @@ export default function ProjectPage() {
   const [ideaInput, setIdeaInput] = useState("")
   const [isAnalyzingIdea, setIsAnalyzingIdea] = useState(false)
   const [isGeneratingTasks, setIsGeneratingTasks] = useState(false)
+  const [breakingDownTaskId, setBreakingDownTaskId] = useState<string | null>(null)
+  const [autoAssignOpen, setAutoAssignOpen] = useState(false)
+  const [autoAssignPlan, setAutoAssignPlan] = useState<AssignmentSuggestion[]>([])
+  const [isRankingAssignees, setIsRankingAssignees] = useState(false)
 
   // Task creation state
   const [newTaskTitle, setNewTaskTitle] = useState("")
@@ -152,9 +278,15 @@ export default function ProjectPage() {
   const [newTaskEffort, setNewTaskEffort] = useState<"Low" | "Medium" | "High">("Medium")
   const [newTaskPriority, setNewTaskPriority] = useState<"Low" | "Medium" | "High" | "Critical">("Medium")
   const [newTaskAssignee, setNewTaskAssignee] = useState<string | null>(null)
+  const [newTaskDependencies, setNewTaskDependencies] = useState<string[]>([])
   const [isAddingTask, setIsAddingTask] = useState(false)
   const [addTaskDialogOpen, setAddTaskDialogOpen] = useState(false)
 
+  // Dependency editing state
+  const [dependencyTask, setDependencyTask] = useState<Task | null>(null)
+  const [dependencyDraft, setDependencyDraft] = useState<string[]>([])
+  const [isSavingDependencies, setIsSavingDependencies] = useState(false)
+
   // Chat state
   const [chatInput, setChatInput] = useState("")
   const [isSendingMessage, setIsSendingMessage] = useState(false)
@@ -168,6 +300,7 @@ export default function ProjectPage() {
 
   // Copy functionality state
   const [copied, setCopied] = useState(false)
+  const [joinCode, setJoinCode] = useState<string | null>(null)
 
   // Delete project state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
@@ -200,6 +333,17 @@ export default function ProjectPage() {
 
   const retryTimerRef = useRef<NodeJS.Timeout | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Mentor reply text received so far; null when no reply is streaming
+  const [streamingReply, setStreamingReply] = useState<string | null>(null)
+  const [mentorThreadId, setMentorThreadId] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState("idea")
+  const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null)
+  const [chatChannelId, setChatChannelId] = useState(GENERAL_CHANNEL)
+  // The card whose subtasks are open, for the "viewing" hint teammates see
+  const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null)
+  const mentorAbortRef = useRef<AbortController | null>(null)
+  const liveMessagesRef = useRef<ChatMessage[]>([])
+  const [mentorMemory, setMentorMemory] = useState<MentorMemory | null>(null)
 
   // Commit count state for health score
   const [commitsCount, setCommitsCount] = useState(0)
@@ -210,21 +354,41 @@ export default function ProjectPage() {
   // Calculate time remaining - use Date.now() on server to get a number we can safely use
   const [currentTime, setCurrentTime] = useState(() => Date.now())
 
-  const timeRemaining = useMemo(() => {
-    if (!project) return "Loading..."
-
-    const start = new Date(project.created_at)
-    const duration = project.duration === "24h" ? 24 : 48
-    const end = new Date(start.getTime() + duration * 60 * 60 * 1000)
-    const remaining = end.getTime() - currentTime
-
-    if (remaining <= 0) return "Time's up! ⏰"
+  // The team overlay needs everyone's blocks; the planner and reminders only the user's own
+  const myScheduleEvents = useMemo(
+    () => scheduleEvents.filter((e) => e.user_id === user?.uid),
+    [scheduleEvents, user?.uid],
+  )
 
-    const hours = Math.floor(remaining / (1000 * 60 * 60))
-    const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60))
+  // Members who never opened the wellness settings fall back to the defaults
+  const wellnessByUser = useMemo(
+    () => Object.fromEntries(teamWellness.map((w) => [w.user_id, w])) as Record<string, WellnessPreferences>,
+    [teamWellness],
+  )
+  const myWellness = (user && wellnessByUser[user.uid]) || DEFAULT_WELLNESS
+
+  useScheduleReminders(myScheduleEvents, myWellness.reminder_notifications)
+
+  // A task counts as open while its dependencies are edited, its subtasks are expanded or its channel is on screen
+  const viewingTaskId =
+    dependencyTask?.task_id ??
+    (activeTab === "tasks" ? expandedTaskId : activeTab === "chat" ? channelTaskId(chatChannelId) : null)
+  const { presence, now: presenceNow, setTyping } = usePresence(projectId, user?.uid, viewingTaskId)
+  const presenceByUser = useMemo(() => new Map(presence.map((p) => [p.user_id, p])), [presence])
+  const onlineMembers = members.filter((m) => presenceStatus(presenceByUser.get(m.user_id), presenceNow) === "online")
+  const awayMembers = members.filter((m) => presenceStatus(presenceByUser.get(m.user_id), presenceNow) === "away")
+
+  // Other people only, with ids resolved to names; departed members' stale sessions are dropped
+  const presenceNames = (ids: string[]) => ids.flatMap((id) => members.find((m) => m.user_id === id)?.name ?? [])
+  const typingNames = Object.fromEntries(
+    [...typingByKey(presence, presenceNow, user?.uid)].map(([key, ids]) => [key, presenceNames(ids)]),
+  )
+  const taskViewers = viewersByTask(presence, presenceNow, user?.uid)
 
-    return `${hours}h ${minutes}m remaining`
-  }, [project?.created_at, project?.duration, currentTime])
+  const timeRemaining = useMemo(() => {
+    if (!project) return "Loading..."
+    return formatTimeRemaining(hackathonWindow(project, hackathonEvent), currentTime)
+  }, [project?.created_at, project?.duration, project?.submission_deadline, hackathonEvent, currentTime])
 
   // Set hasMounted on client and initialize currentTime
   useEffect(() => {
@@ -257,6 +421,14 @@ export default function ProjectPage() {
       if (retryTimerRef.current) clearInterval(retryTimerRef.current)
     }
   }, [retryState.retryAfter > 0])
+
+  // Stop a streaming mentor reply when leaving the page
+  useEffect(() => () => mentorAbortRef.current?.abort(), [])
+
+  // Keep the newest mentor text in view while it streams
+  useEffect(() => {
+    if (streamingReply !== null) messagesEndRef.current?.scrollIntoView({ block: "end" })
+  }, [streamingReply])
   // Load project data
   useEffect(() => {
     if (authLoading) return
@@ -278,9 +450,19 @@ export default function ProjectPage() {
           return
         }
 
+        if (projectData.deleted_at) {
+          setError("This project is in the trash. Restore it from the dashboard to keep working on it.")
+          setLoading(false)
+          return
+        }
+
         setProject(projectData)
         setLoading(false)
 
+        getJoinCode(projectId)
+          .then((code) => mounted && setJoinCode(code))
+          .catch((err) => console.error("Failed to load join code:", err))
+
         // Load project members
         if (projectData.members && projectData.members.length > 0) {
           try {
@@ -303,8 +485,22 @@ export default function ProjectPage() {
             if (mounted) setTasks(t)
           })
 
-          const unsubMessages = subscribeToMessages(projectId, (m) => {
-            if (mounted) setMessages(m)
+          const unsubMessages = subscribeToMessages(projectId, MESSAGE_PAGE_SIZE, (m) => {
+            if (!mounted) return
+            // Messages that newer ones push out of the live window move to the loaded pages instead of vanishing
+            const previous = liveMessagesRef.current
+            const edge = m.length > 0 ? previous.findIndex((p) => p.message_id === m[0].message_id) : -1
+            if (edge > 0) {
+              const pushedOut = previous.slice(0, edge)
+              setOlderMessages((older) => {
+                const loaded = new Set(older.map((o) => o.message_id))
+                return [...older, ...pushedOut.filter((o) => !loaded.has(o.message_id))]
+              })
+            }
+            liveMessagesRef.current = m
+            setMessages(m)
+            // A full page may have more behind it; "load older" settles it
+            setHasOlderMessages((prev) => prev || m.length >= MESSAGE_PAGE_SIZE)
           })
 
           const unsubResources = subscribeToResources(projectId, (r) => {
@@ -319,6 +515,26 @@ export default function ProjectPage() {
             if (mounted) setNotifications(n)
           })
 
+          const unsubRoles = subscribeToProjectRoles(projectId, (r) => {
+            if (mounted) setRoles(r)
+          })
+
+          const unsubSchedule = subscribeToTeamSchedule(projectId, (e) => {
+            if (mounted) setScheduleEvents(e)
+          })
+
+          const unsubWellness = subscribeToTeamWellness(projectId, (w) => {
+            if (mounted) setTeamWellness(w)
+          })
+
+          const unsubMilestones = subscribeToMilestones(projectId, (m) => {
+            if (mounted) setMilestones(m)
+          })
+
+          const unsubSubmissions = subscribeToSubmissions(projectId, (s) => {
+            if (mounted) setSubmissions(s)
+          })
+
           return () => {
             unsubProject()
             unsubTasks()
@@ -326,6 +542,11 @@ export default function ProjectPage() {
             unsubResources()
             unsubActivities()
             unsubNotifications()
+            unsubRoles()
+            unsubSchedule()
+            unsubWellness()
+            unsubMilestones()
+            unsubSubmissions()
           }
         }, 300)
       } catch (err: any) {
@@ -362,6 +583,92 @@ export default function ProjectPage() {
     fetchCommitCount()
   }, [project?.github_repo])
 
+  // Summary of older mentor conversation, sent along with each question
+  useEffect(() => {
+    if (!user) return
+    getMentorMemory(projectId).then(setMentorMemory)
+  }, [projectId, user])
+
+  // Role of the signed-in user, used for every permission check below
+  const currentRole: ProjectRole = project && user ? resolveRole(project, user.uid, roles[user.uid]) : "viewer"
+  const getMemberRole = (memberId: string): ProjectRole =>
+    project ? resolveRole(project, memberId, roles[memberId]) : "viewer"
+
+  // Registered projects take their timer and milestone window from the event
+  useEffect(() => {
+    const eventId = project?.hackathon_event
+    if (!eventId) {
+      setHackathonEvent(null)
+      return
+    }
+    return subscribeToHackathonEvent(eventId, setHackathonEvent)
+  }, [project?.hackathon_event])
+
+  // Only admins may read usage records, so don't subscribe for anyone else
+  const canViewAIUsage = can(currentRole, "settings:edit")
+  useEffect(() => {
+    if (!canViewAIUsage) {
+      setAIUsage([])
+      return
+    }
+    const hours = aiUsagePeriod === "24h" ? 24 : 7 * 24
+    return subscribeToAIUsage(projectId, new Date(Date.now() - hours * 60 * 60 * 1000), setAIUsage)
+  }, [projectId, canViewAIUsage, aiUsagePeriod])
+
+  // Milestone status and anchored deadlines are derived; persist them whenever they drift
+  const resolvedMilestones = useMemo(
+    () => (project ? resolveMilestones(milestones, tasks, hackathonWindow(project, hackathonEvent), currentTime) : []),
+    [milestones, tasks, project, hackathonEvent, currentTime],
+  )
+
+  useEffect(() => {
+    if (!user || !can(currentRole, "task:edit")) return
+    for (const { milestone, updates } of milestoneUpdates(resolvedMilestones)) {
+      syncMilestone(milestone.milestone_id, updates)
+        .then((reached) => {
+          if (!reached) return
+          return addActivity({
+            project_id: projectId,
+            user_id: user.uid,
+            type: "status_change",
+            description: `Milestone reached: ${milestone.name}`,
+          })
+        })
+        .catch((error) => console.error("Failed to sync milestone:", error))
+    }
+  }, [resolvedMilestones, currentRole, projectId, user])
+
+  // Loaded pages plus the live window; a message can sit in both while the window moves past it
+  const liveIds = new Set(messages.map((m) => m.message_id))
+  const allMessages = [...olderMessages.filter((m) => !liveIds.has(m.message_id)), ...messages]
+
+  // One collection holds both conversations: team chat posts carry a channel, mentor turns don't
+  const mentorMessages = allMessages.filter((m) => !isTeamChatMessage(m))
+  const teamMessages = allMessages.filter(isTeamChatMessage)
+  const unreadMentions = notifications.filter((n) => n.type === "mention" && !n.read)
+
+  // Mentions count as read once the Team Chat tab is open, including ones arriving while it is
+  useEffect(() => {
+    if (activeTab !== "chat") return
+    unreadMentions.forEach((n) => markNotificationRead(n.notification_id).catch(() => {}))
+  }, [activeTab, unreadMentions.length])
+
+  // Members can still chat after the submission deadline, but the project content is frozen
+  const pastDeadline = project ? isPastDeadline(project, currentTime) : false
+  const hasPermission = (permission: Permission) => canBeforeDeadline(currentRole, permission, pastDeadline)
+
+  const requirePermission = (permission: Permission, action: string) => {
+    if (hasPermission(permission)) return true
+    toast({
+      title: "Permission denied",
+      description: can(currentRole, permission)
+        ? `The submission deadline has passed - only admins can ${action} now.`
+        : `${ROLE_LABELS[currentRole]}s can't ${action}.`,
+      variant: "destructive",
+    })
+    return false
+  }
+
   // API retry helper
   const callApiWithRetry = async (action: string, apiCall: () => Promise<Response>) => {
     const response = await apiCall()
@@ -382,17 +689,19 @@ export default function ProjectPage() {
 
   // Idea analysis handler
   const handleAnalyzeIdea = async () => {
-    if (!ideaInput.trim() || !project) return
+    if (!ideaInput.trim() || !project || !user) return
     if (retryState.isRetrying) return
+    if (!requirePermission("idea:edit", "analyze the idea")) return
 
     setIsAnalyzingIdea(true)
     try {
-      const data = await callApiWithRetry("analyze", () =>
+      const data = await callApiWithRetry("analyze", async () =>
         fetch("/api/gemini", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
           body: JSON.stringify({
             action: "analyze_idea",
+            projectId,
             data: {
               idea: ideaInput,
               duration: project.duration,
@@ -417,10 +726,18 @@ export default function ProjectPage() {
       await updateProjectIdea(projectId, analysis)
       setProject((prev) => (prev ? { ...prev, idea: analysis } : prev))
 
-      toast({
-        title: "Idea analyzed!",
-        description: "Your project plan is ready.",
-      })
+      toast(
+        data.fallback
+          ? {
+              title: "Placeholder analysis saved",
+              description: "The AI couldn't produce a valid analysis, so this is generic text. Analyze again to replace it.",
+              variant: "destructive",
+            }
+          : {
+              title: "Idea analyzed!",
+              description: "Your project plan is ready.",
+            },
+      )
       setIdeaInput("")
     } catch (error: any) {
       toast({
@@ -435,17 +752,19 @@ export default function ProjectPage() {
 
   // Task generation handler
   const handleGenerateTasks = async () => {
-    if (!project?.idea?.features?.length) return
+    if (!project?.idea?.features?.length || !user) return
     if (retryState.isRetrying) return
+    if (!requirePermission("task:edit", "generate tasks")) return
 
     setIsGeneratingTasks(true)
     try {
-      const data = await callApiWithRetry("tasks", () =>
+      const data = await callApiWithRetry("tasks", async () =>
         fetch("/api/gemini", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
           body: JSON.stringify({
             action: "generate_tasks",
+            projectId,
             data: {
               features: project.idea?.features || [],
               projectName: project.name,
@@ -491,10 +810,18 @@ export default function ProjectPage() {
       }
 
       if (successCount > 0) {
-        toast({
-          title: "Tasks generated!",
-          description: `${successCount} tasks added to your board.`,
-        })
+        toast(
+          data.fallback
+            ? {
+                title: "Placeholder tasks added",
+                description: `The AI couldn't produce valid tasks, so ${successCount} generic tasks were added instead.`,
+                variant: "destructive",
+              }
+            : {
+                title: "Tasks generated!",
+                description: `${successCount} tasks added to your board.`,
+              },
+        )
       } else {
         throw new Error("Failed to add any tasks to the board")
       }
@@ -509,9 +836,206 @@ export default function ProjectPage() {
       setIsGeneratingTasks(false)
     }
   }
+  // Splits one task into estimated, suggested-assignee subtasks stored on the task itself
+  const handleBreakdownTask = async (task: Task) => {
+    if (!user || breakingDownTaskId) return
+    if (retryState.isRetrying) return
+    if (!requirePermission("task:edit", "break down tasks")) return
+
+    setBreakingDownTaskId(task.task_id)
+    try {
+      const data = await callApiWithRetry("breakdown", async () =>
+        fetch("/api/gemini", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
+          body: JSON.stringify({
+            action: "breakdown_task",
+            projectId,
+            data: {
+              task: { title: task.title, description: task.description, effort: task.effort, priority: task.priority },
+              team: members.map((m) => ({ name: m.name, skills: m.skills || [] })),
+            },
+          }),
+        }),
+      )
+
+      let subtasks: Subtask[]
+      try {
+        subtasks = toSubtasks(JSON.parse(data.result), members)
+      } catch (parseError) {
+        console.error("JSON parsing failed:", data.result)
+        throw new Error("AI returned invalid response format. Please try again.")
+      }
+
+      setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? { ...t, subtasks } : t)))
+      await updateTask(task.task_id, { subtasks })
+
+      toast(
+        data.fallback
+          ? {
+              title: "Placeholder subtasks added",
+              description: "The AI couldn't break this task down, so generic steps were added instead.",
+              variant: "destructive",
+            }
+          : {
+              title: "Task broken down!",
+              description: `${subtasks.length} subtasks added to "${task.title}".`,
+            },
+      )
+    } catch (error: any) {
+      setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? { ...t, subtasks: task.subtasks } : t)))
+      toast({
+        title: "Breakdown failed",
+        description: error.message || "Please try again in a moment.",
+        variant: "destructive",
+      })
+    } finally {
+      setBreakingDownTaskId(null)
+    }
+  }
+
+  const handleUpdateSubtasks = async (taskId: string, subtasks: Subtask[]) => {
+    const originalTask = tasks.find((t) => t.task_id === taskId)
+    if (!originalTask) return
+    if (!requirePermission("task:edit", "update subtasks")) return
+
+    setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, subtasks } : t)))
+    try {
+      await updateTask(taskId, { subtasks })
+    } catch (error) {
+      setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, subtasks: originalTask.subtasks } : t)))
+      toast({
+        title: "Failed to update subtasks",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Auto-assign: a rule-based plan, optionally refined by an AI ranking, applied only after review
+  const buildAssignmentPlan = (aiRanking?: Record<string, string[]>) =>
+    project
+      ? planAssignments(tasks, members, scheduleEvents, {
+          now: Date.now(),
+          until: hackathonWindow(project, hackathonEvent).end.getTime(),
+          aiRanking,
+        })
+      : []
+
+  const openAutoAssign = () => {
+    if (!requirePermission("task:edit", "assign tasks")) return
+    const plan = buildAssignmentPlan()
+    if (plan.length === 0) {
+      toast({ title: "Nothing to assign", description: "Every open task already has an owner." })
+      return
+    }
+    setAutoAssignPlan(plan)
+    setAutoAssignOpen(true)
+  }
+
+  const handleRankAssignees = async () => {
+    if (!user || retryState.isRetrying) return
+    const planned = autoAssignPlan
+      .map((s) => tasks.find((t) => t.task_id === s.task_id))
+      .filter((t): t is Task => !!t)
+
+    setIsRankingAssignees(true)
+    try {
+      const data = await callApiWithRetry("rank_assignees", async () =>
+        fetch("/api/gemini", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
+          body: JSON.stringify({
+            action: "rank_assignees",
+            projectId,
+            data: {
+              tasks: planned.map((t) => ({ title: t.title, description: t.description, tags: t.tags })),
+              team: members
+                .filter((m) => m.availability !== "offline")
+                .map((m) => ({ name: m.name, skills: m.skills || [], role: m.role })),
+            },
+          }),
+        }),
+      )
+
+      // The AI refers to tasks by their number in the prompt and to members by name
+      const rankings: { task: number; members: string[] }[] = JSON.parse(data.result)
+      const aiRanking: Record<string, string[]> = {}
+      for (const ranking of rankings) {
+        const task = planned[ranking.task - 1]
+        if (!task) continue
+        aiRanking[task.task_id] = ranking.members.flatMap((name) => {
+          try {
+            return [findMemberByName(members, name).user_id]
+          } catch {
+            return []
+          }
+        })
+      }
+
+      setAutoAssignPlan(buildAssignmentPlan(aiRanking))
+      toast({ title: "Plan refined", description: "Skill matches now include the AI's ranking." })
+    } catch (error: any) {
+      toast({
+        title: "AI ranking unavailable",
+        description: `${error.message || "Please try again in a moment."} The rule-based plan is unchanged.`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsRankingAssignees(false)
+    }
+  }
+
+  const handleApplyAutoAssign = async (assignments: { task_id: string; user_id: string }[]) => {
+    if (!user || assignments.length === 0) return
+    if (!requirePermission("task:edit", "assign tasks")) return
+
+    const assigneeOf = new Map(assignments.map((a) => [a.task_id, a.user_id]))
+    const previous = tasks
+    setTasks((prev) => prev.map((t) => (assigneeOf.has(t.task_id) ? { ...t, assigned_to: assigneeOf.get(t.task_id)! } : t)))
+
+    try {
+      await Promise.all(assignments.map((a) => updateTask(a.task_id, { assigned_to: a.user_id })))
+
+      await addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type: "task_update",
+        description: `Auto-assigned ${assignments.length} task${assignments.length === 1 ? "" : "s"}`,
+        metadata: { source: "auto_assign" },
+      })
+
+      // One notification per teammate, listing everything they were given
+      const byAssignee = new Map<string, string[]>()
+      for (const a of assignments) {
+        const title = tasks.find((t) => t.task_id === a.task_id)?.title || "a task"
+        byAssignee.set(a.user_id, [...(byAssignee.get(a.user_id) ?? []), `"${title}"`])
+      }
+      for (const [assignee, titles] of byAssignee) {
+        if (assignee === user.uid) continue
+        await createNotification({
+          project_id: projectId,
+          user_id: assignee,
+          type: "task_assigned",
+          title: titles.length === 1 ? "Task Assigned" : `${titles.length} Tasks Assigned`,
+          message: `${user.displayName || "Team member"} assigned you ${titles.join(", ")}`,
+          read: false,
+        })
+      }
+
+      toast({ title: "Tasks assigned!", description: `${assignments.length} tasks now have an owner.` })
+    } catch (error) {
+      setTasks(previous)
+      toast({
+        title: "Failed to apply assignments",
+        variant: "destructive",
+      })
+    }
+  }
+
   // Task management handlers
   const handleAddTask = async () => {
     if (!newTaskTitle.trim()) return
+    if (!requirePermission("task:edit", "add tasks")) return
 
     setIsAddingTask(true)
     try {
@@ -523,6 +1047,7 @@ export default function ProjectPage() {
         effort: newTaskEffort,
         priority: newTaskPriority,
         assigned_to: newTaskAssignee,
+        dependencies: newTaskDependencies,
       })
 
       if (newTask) {
@@ -534,6 +1059,7 @@ export default function ProjectPage() {
       setNewTaskEffort("Medium")
       setNewTaskPriority("Medium")
       setNewTaskAssignee(null)
+      setNewTaskDependencies([])
       setAddTaskDialogOpen(false)
       toast({ title: "Task added!" })
     } catch (error: any) {
@@ -547,9 +1073,29 @@ export default function ProjectPage() {
     }
   }
 
-  const handleUpdateTaskStatus = async (taskId: string, status: Task["status"]) => {
+  // Resolves to whether the move was made, so callers only confirm real moves
+  const handleUpdateTaskStatus = async (taskId: string, status: Task["status"]): Promise<boolean> => {
     const originalTask = tasks.find(t => t.task_id === taskId)
-    if (!originalTask || !user) return
+    if (!originalTask || !user) return false
+    if (!requirePermission("task:edit", "move tasks")) return false
+
+    // Blocked tasks can't be finished, and starting one early only gets a warning
+    const blockers = status === "ToDo" ? [] : getBlockers(originalTask, tasks)
+    if (blockers.length > 0) {
+      const names = blockers.map((b) => `"${b.title}"`).join(", ")
+      if (status === "Done") {
+        toast({
+          title: "Task is blocked",
+          description: `Finish ${names} before marking "${originalTask.title}" as done.`,
+          variant: "destructive",
+        })
+        return false
+      }
+      toast({
+        title: "Starting a blocked task",
+        description: `"${originalTask.title}" still depends on ${names}.`,
+      })
+    }
 
     // Optimistic update
     setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, status } : t)))
@@ -576,6 +1122,7 @@ export default function ProjectPage() {
           read: false,
         })
       }
+      return true
     } catch (error) {
       // Revert on error
       setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, status: originalTask.status } : t)))
@@ -584,10 +1131,12 @@ export default function ProjectPage() {
         description: "Failed to update task status.",
         variant: "destructive",
       })
+      return false
     }
   }
 
   const handleAssignTask = async (taskId: string, assignedTo: string | null) => {
+    if (!requirePermission("task:edit", "assign tasks")) return
     setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, assigned_to: assignedTo } : t)))
     try {
       await updateTask(taskId, { assigned_to: assignedTo })
@@ -606,6 +1155,7 @@ export default function ProjectPage() {
   }
 
   const handleDeleteTask = async (taskId: string) => {
+    if (!requirePermission("task:edit", "delete tasks")) return
     const taskToDelete = tasks.find((t) => t.task_id === taskId)
     setTasks((prev) => prev.filter((t) => t.task_id !== taskId))
     try {
@@ -622,118 +1172,889 @@ export default function ProjectPage() {
     }
   }
 
-  // Drag and drop handlers
-  const handleDragStart = (event: DragStartEvent) => {
-    const { active } = event
-    const task = tasks.find((t) => t.task_id === active.id)
-    setActiveTask(task || null)
+  const openDependencyDialog = (task: Task) => {
+    setDependencyTask(task)
+    setDependencyDraft(task.dependencies || [])
   }
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event
-    setActiveTask(null)
-
-    if (!over) return
-
-    const taskId = active.id as string
-    const newStatus = over.id as string
-
-    // Map droppable IDs to status values
-    const statusMap: Record<string, Task["status"]> = {
-      "todo-column": "ToDo",
-      "inprogress-column": "InProgress",
-      "done-column": "Done"
-    }
-
-    const mappedStatus = statusMap[newStatus]
-    if (!mappedStatus) return
+  const handleSaveDependencies = async () => {
+    if (!dependencyTask || !user) return
+    if (!requirePermission("task:edit", "change dependencies")) return
 
-    const task = tasks.find((t) => t.task_id === taskId)
-    if (task && task.status !== mappedStatus) {
-      handleUpdateTaskStatus(taskId, mappedStatus)
+    const cycle = findCycleWith(tasks, dependencyTask.task_id, dependencyDraft)
+    if (cycle) {
+      const titles = cycle.map((id) => tasks.find((t) => t.task_id === id)?.title || "Unknown task")
       toast({
-        title: "Task moved!",
-        description: `Task moved to ${mappedStatus === "ToDo" ? "To Do" : mappedStatus === "InProgress" ? "In Progress" : "Done"}`,
+        title: "Circular dependency",
+        description: titles.join(" → "),
+        variant: "destructive",
       })
+      return
     }
-  }
-
-  // Chat handler
-  const handleSendMessage = async () => {
-    if (!chatInput.trim() || !user) return
-    if (retryState.isRetrying) return
-
-    setIsSendingMessage(true)
-    const userMessage = chatInput
-    setChatInput("")
-
-    const tempUserMsg: ChatMessage = {
-      message_id: `temp-${Date.now()}`,
-      project_id: projectId,
-      sender: user.uid,
-      sender_type: "user",
-      content: userMessage,
-      timestamp: new Date(),
-    }
-    setMessages((prev) => [...prev, tempUserMsg])
 
+    const taskId = dependencyTask.task_id
+    const previous = dependencyTask.dependencies || []
+    setIsSavingDependencies(true)
+    setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, dependencies: dependencyDraft } : t)))
     try {
-      await sendMessage({
+      await updateTask(taskId, { dependencies: dependencyDraft })
+
+      await addActivity({
         project_id: projectId,
-        sender: user.uid,
-        sender_type: "user",
-        content: userMessage,
+        user_id: user.uid,
+        type: "task_update",
+        description: dependencyDraft.length
+          ? `"${dependencyTask.title}" now depends on ${dependencyDraft.length} task${dependencyDraft.length === 1 ? "" : "s"}`
+          : `Cleared dependencies of "${dependencyTask.title}"`,
       })
 
-      const context = project?.idea
-        ? `Project: ${project.name}\nProblem: ${project.idea.problem_statement || "Not defined"}\nFeatures: ${(project.idea.features || []).join(", ")}`
-        : `Project: ${project?.name || "Hackathon Project"}`
-
-      const data = await callApiWithRetry("chat", () =>
-        fetch("/api/gemini", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            action: "mentor_chat",
-            data: {
-              question: userMessage,
-              context,
-            },
-          }),
-        }),
-      )
+      setDependencyTask(null)
+      toast({ title: "Dependencies updated!" })
+    } catch (error) {
+      setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, dependencies: previous } : t)))
+      toast({
+        title: "Failed to update dependencies",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingDependencies(false)
+    }
+  }
 
-      const tempAiMsg: ChatMessage = {
-        message_id: `temp-ai-${Date.now()}`,
-        project_id: projectId,
-        sender: "ai",
-        sender_type: "ai",
-        content: data.result,
-        timestamp: new Date(),
+  // Schedule handlers
+  const handleCreateScheduleEvent = async (event: Omit<ScheduleEvent, "event_id" | "created_at" | "project_id" | "user_id">) => {
+    if (!user) return
+    try {
+      await createScheduleEvent({ ...event, project_id: projectId, user_id: user.uid })
+      if (event.reminder_minutes && typeof Notification !== "undefined" && Notification.permission === "default") {
+        Notification.requestPermission().catch(() => {})
       }
-      setMessages((prev) => [...prev, tempAiMsg])
-
-      await sendMessage({
-        project_id: projectId,
-        sender: "ai",
-        sender_type: "ai",
-        content: data.result,
-      })
+      toast({ title: "Block added!" })
     } catch (error: any) {
       toast({
-        title: "Failed to get AI response",
+        title: "Failed to add block",
         description: error.message,
         variant: "destructive",
       })
-    } finally {
-      setIsSendingMessage(false)
     }
   }
 
-  const handleToggleDemoMode = async (enabled: boolean) => {
-    setProject((prev) => (prev ? { ...prev, demo_mode: enabled } : prev))
+  const handleUpdateScheduleEvent = async (eventId: string, updates: Partial<ScheduleEvent>) => {
+    const original = scheduleEvents.find((e) => e.event_id === eventId)
+    setScheduleEvents((prev) => prev.map((e) => (e.event_id === eventId ? { ...e, ...updates } : e)))
     try {
-      await updateDemoMode(projectId, enabled)
+      await updateScheduleEvent(eventId, updates)
+    } catch (error) {
+      if (original) {
+        setScheduleEvents((prev) => prev.map((e) => (e.event_id === eventId ? original : e)))
+      }
+      toast({
+        title: "Failed to update block",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeleteScheduleEvent = async (eventId: string) => {
+    const original = scheduleEvents.find((e) => e.event_id === eventId)
+    setScheduleEvents((prev) => prev.filter((e) => e.event_id !== eventId))
+    try {
+      await deleteScheduleEvent(eventId)
+    } catch (error) {
+      if (original) {
+        setScheduleEvents((prev) => [...prev, original])
+      }
+      toast({
+        title: "Failed to delete block",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Milestone handlers
+  const handleCreateMilestone = async (milestone: Pick<Milestone, "name" | "description" | "deadline">) => {
+    if (!requirePermission("task:edit", "add milestones")) return
+    try {
+      await createMilestone({ ...milestone, project_id: projectId, type: "custom", status: "upcoming" })
+      toast({ title: "Milestone added!" })
+    } catch (error: any) {
+      toast({
+        title: "Failed to add milestone",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeleteMilestone = async (milestoneId: string) => {
+    if (!requirePermission("task:edit", "delete milestones")) return
+    try {
+      await deleteMilestone(milestoneId)
+      setTasks((prev) => prev.map((t) => (t.milestone_id === milestoneId ? { ...t, milestone_id: null } : t)))
+      toast({ title: "Milestone deleted!" })
+    } catch (error) {
+      toast({
+        title: "Failed to delete milestone",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleToggleMilestone = async (milestone: Milestone, completed: boolean) => {
+    if (!requirePermission("task:edit", "update milestones")) return
+    try {
+      await updateMilestone(milestone.milestone_id, { status: completed ? "completed" : "upcoming" })
+    } catch (error) {
+      toast({
+        title: "Failed to update milestone",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleLinkMilestoneTasks = async (milestoneId: string, taskIds: string[]) => {
+    if (!requirePermission("task:edit", "link tasks")) return
+    const changes = tasks.flatMap((task): { task: Task; milestone_id: string | null }[] => {
+      const linked = taskIds.includes(task.task_id)
+      if (linked && task.milestone_id !== milestoneId) return [{ task, milestone_id: milestoneId }]
+      if (!linked && task.milestone_id === milestoneId) return [{ task, milestone_id: null }]
+      return []
+    })
+    if (changes.length === 0) return
+
+    const previous = tasks
+    setTasks((prev) =>
+      prev.map((t) => {
+        const change = changes.find((c) => c.task.task_id === t.task_id)
+        return change ? { ...t, milestone_id: change.milestone_id } : t
+      }),
+    )
+    try {
+      await Promise.all(changes.map(({ task, milestone_id }) => updateTask(task.task_id, { milestone_id })))
+      toast({ title: "Tasks linked!" })
+    } catch (error) {
+      setTasks(previous)
+      toast({
+        title: "Failed to link tasks",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleUpdateSubmissionDeadline = async (value: string) => {
+    if (!requirePermission("settings:edit", "change the submission deadline")) return
+    const deadline = value ? new Date(value) : null
+    if (deadline && isNaN(deadline.getTime())) return
+    try {
+      await updateSubmissionDeadline(projectId, deadline)
+      setProject((prev) => (prev ? { ...prev, submission_deadline: deadline ?? undefined } : prev))
+    } catch (error: any) {
+      toast({
+        title: "Failed to update deadline",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Submission handlers
+  const handleUpdateChecklist = async (checks: SubmissionCheckId[]) => {
+    if (!requirePermission("project:submit", "change the submission checklist")) return
+    try {
+      await updateSubmissionChecklist(projectId, checks)
+      setProject((prev) => (prev ? { ...prev, submission_checklist: checks } : prev))
+    } catch (error: any) {
+      toast({
+        title: "Failed to update checklist",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSubmitProject = async (checks: SubmissionCheckResult[]) => {
+    if (!user || !project || !requirePermission("project:submit", "submit the project")) return
+    try {
+      await createSubmission({
+        project_id: projectId,
+        submitted_by: user.uid,
+        late: pastDeadline,
+        checks,
+        snapshot: buildSnapshot(project, tasks),
+      })
+      await updateProjectStatus(projectId, "submitted")
+      setProject((prev) => (prev ? { ...prev, status: "submitted" } : prev))
+      await addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type: "status_change",
+        description: pastDeadline ? "Submitted the project (late)" : "Submitted the project",
+      })
+      toast({ title: "Project submitted! 🎉", description: "A snapshot of the project has been saved." })
+    } catch (error: any) {
+      toast({
+        title: "Submission failed",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Wellness handlers
+  const handleSaveWellness = async (settings: WellnessPreferences) => {
+    if (!user) return
+    try {
+      await saveWellnessSettings({ ...settings, user_id: user.uid, project_id: projectId })
+      toast({ title: "Wellness settings saved!" })
+    } catch (error: any) {
+      toast({
+        title: "Failed to save settings",
+        description: error.message,
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  // Swap the previously generated sleep and meal blocks for ones matching the new settings
+  const handleGenerateRoutine = async (settings: WellnessPreferences) => {
+    if (!user || !project) return
+    const { start, end } = hackathonWindow(project, hackathonEvent)
+    const routine = generateRoutineEvents(settings, start, end)
+    try {
+      await Promise.all(
+        myScheduleEvents.filter((e) => e.source === "wellness").map((e) => deleteScheduleEvent(e.event_id)),
+      )
+      await Promise.all(
+        routine.map((event) => createScheduleEvent({ ...event, project_id: projectId, user_id: user.uid })),
+      )
+      toast({
+        title: "Routine added",
+        description: `${routine.length} sleep and meal blocks are on your timeline.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Failed to generate routine",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Drag and drop handlers
+  const handleDragStart = (event: DragStartEvent) => {
+    const { active } = event
+    const task = tasks.find((t) => t.task_id === active.id)
+    setActiveTask(task || null)
+  }
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event
+    setActiveTask(null)
+
+    if (!over) return
+    if (!hasPermission("task:edit")) return
+
+    const taskId = active.id as string
+    const newStatus = over.id as string
+
+    // Map droppable IDs to status values
+    const statusMap: Record<string, Task["status"]> = {
+      "todo-column": "ToDo",
+      "inprogress-column": "InProgress",
+      "done-column": "Done"
+    }
+
+    const mappedStatus = statusMap[newStatus]
+    if (!mappedStatus) return
+
+    const task = tasks.find((t) => t.task_id === taskId)
+    if (task && task.status !== mappedStatus && (await handleUpdateTaskStatus(taskId, mappedStatus))) {
+      toast({
+        title: "Task moved!",
+        description: `Task moved to ${mappedStatus === "ToDo" ? "To Do" : mappedStatus === "InProgress" ? "In Progress" : "Done"}`,
+      })
+    }
+  }
+
+  const memberName = (id?: string | null) => members.find((m) => m.user_id === id)?.name
+
+  // Raw state only; the route budgets the history and formats the context
+  const toMentorHistory = (history: ChatMessage[]): MentorHistoryMessage[] =>
+    history.map((m) => ({
+      role: m.sender_type === "ai" ? "assistant" : "user",
+      content: m.content,
+      author: m.sender_type === "user" ? memberName(m.sender) : undefined,
+      timestamp: new Date(m.timestamp).toISOString(),
+    }))
+
+  const buildMentorProject = (): MentorProjectContext => ({
+    name: project?.name || "Hackathon Project",
+    idea: project?.idea ?? null,
+    time_remaining: timeRemaining || undefined,
+    github_repo: project?.github_repo,
+    members: members.map((m) => m.name),
+    tasks: tasks.map((t) => ({
+      title: t.title,
+      status: t.status,
+      priority: t.priority,
+      assignee: memberName(t.assigned_to),
+      blocked_by: getBlockers(t, tasks).map((b) => b.title),
+    })),
+  })
+
+  // Chat handler
+  const handleSendMessage = async (text = chatInput) => {
+    if (!text.trim() || !user) return
+    if (retryState.isRetrying) return
+    if (!requirePermission("chat:send", "message the mentor")) return
+    setTyping(null)
+
+    if (isSlashCommand(text)) {
+      setChatInput("")
+      await runSlashCommand(text)
+      return
+    }
+
+    setIsSendingMessage(true)
+    const userMessage = text
+    setChatInput("")
+
+    const tempUserMsg: ChatMessage = {
+      message_id: `temp-${Date.now()}`,
+      project_id: projectId,
+      sender: user.uid,
+      sender_type: "user",
+      content: userMessage,
+      timestamp: new Date(),
+    }
+    setMessages((prev) => [...prev, tempUserMsg])
+
+    try {
+      await sendMessage({
+        project_id: projectId,
+        sender: user.uid,
+        sender_type: "user",
+        content: userMessage,
+      })
+
+      const since = mentorMemory ? new Date(mentorMemory.summarized_until).getTime() : -Infinity
+      const history = toMentorHistory(
+        mentorMessages
+          .filter((m) => !m.message_id.startsWith("temp-") && new Date(m.timestamp).getTime() > since)
+          .slice(-MENTOR_HISTORY_LIMIT),
+      )
+
+      const controller = new AbortController()
+      mentorAbortRef.current = controller
+
+      const response = await fetch("/api/gemini", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
+        body: JSON.stringify({
+          action: "mentor_chat",
+          projectId,
+          stream: true,
+          data: {
+            question: userMessage,
+            history,
+            memory: mentorMemory && {
+              summary: mentorMemory.summary,
+              summarized_until: new Date(mentorMemory.summarized_until).toISOString(),
+            },
+            project: buildMentorProject(),
+          },
+        }),
+        signal: controller.signal,
+      })
+      // Errors and rate limits still come back as JSON
+      if (!response.ok || !response.body) {
+        await callApiWithRetry("chat", async () => response)
+        throw new Error("The mentor didn't respond")
+      }
+
+      const memoryHeader = response.headers.get("X-Mentor-Memory")
+      if (memoryHeader) {
+        const snapshot: MentorMemorySnapshot = JSON.parse(decodeURIComponent(memoryHeader))
+        const memory = { project_id: projectId, summary: snapshot.summary, summarized_until: new Date(snapshot.summarized_until) }
+        setMentorMemory({ ...memory, updated_at: new Date() })
+        saveMentorMemory(memory).catch((error) => console.error("Failed to save mentor memory:", error))
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let reply = ""
+      setStreamingReply("")
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        reply += decoder.decode(value, { stream: true })
+        setStreamingReply(reply)
+      }
+      reply += decoder.decode()
+      if (!reply.trim()) throw new Error("The mentor didn't respond")
+
+      // Proposed board changes are stored with the message and wait for a teammate to apply them
+      const { text, calls } = extractToolCalls(reply)
+      const tempAiMsg: ChatMessage = {
+        message_id: `temp-ai-${Date.now()}`,
+        project_id: projectId,
+        sender: "ai",
+        sender_type: "ai",
+        content: text,
+        timestamp: new Date(),
+        tool_calls: calls.length ? calls : undefined,
+      }
+      setMessages((prev) => [...prev, tempAiMsg])
+      setStreamingReply(null)
+
+      await sendMessage({
+        project_id: projectId,
+        sender: "ai",
+        sender_type: "ai",
+        content: text,
+        tool_calls: calls.length ? calls : undefined,
+      })
+    } catch (error: any) {
+      if (error?.name === "AbortError") {
+        toast({ title: "Response cancelled", description: "The partial reply was discarded." })
+      } else {
+        toast({
+          title: "Failed to get AI response",
+          description: error.message,
+          variant: "destructive",
+        })
+      }
+    } finally {
+      mentorAbortRef.current = null
+      setStreamingReply(null)
+      setIsSendingMessage(false)
+    }
+  }
+
+  // Older pages aren't live, so changes made from this client are mirrored into them by hand
+  const patchLocalMessage = (messageId: string, updates: Partial<ChatMessage>) => {
+    const patchList = (list: ChatMessage[]) => list.map((m) => (m.message_id === messageId ? { ...m, ...updates } : m))
+    setMessages(patchList)
+    setOlderMessages(patchList)
+  }
+
+  const handleLoadOlderMessages = async () => {
+    const oldest = allMessages.find((m) => !m.message_id.startsWith("temp-"))
+    if (!oldest) return
+    setIsLoadingOlderMessages(true)
+    try {
+      const page = await getMessagesBefore(projectId, oldest, MESSAGE_PAGE_SIZE)
+      setOlderMessages((prev) => [...page, ...prev])
+      setHasOlderMessages(page.length >= MESSAGE_PAGE_SIZE)
+    } catch (error: any) {
+      toast({ title: "Couldn't load older messages", description: error.message, variant: "destructive" })
+    } finally {
+      setIsLoadingOlderMessages(false)
+    }
+  }
+
+  const handleCancelMentorReply = () => {
+    mentorAbortRef.current?.abort()
+  }
+
+  // Everyone newly @-mentioned (other than the author) gets a notification
+  const notifyMentions = async (content: string, channelId: string, previousContent = "") => {
+    if (!user) return
+    const already = new Set(findMentionedMembers(previousContent, members).map((m) => m.user_id))
+    const mentioned = findMentionedMembers(content, members).filter((m) => m.user_id !== user.uid && !already.has(m.user_id))
+    const channelName = chatChannels(milestones, tasks, teamMessages).find((c) => c.channel_id === channelId)?.name ?? "team chat"
+    await Promise.all(
+      mentioned.map((m) =>
+        createNotification({
+          project_id: projectId,
+          user_id: m.user_id,
+          type: "mention",
+          title: `${user.displayName || "Team member"} mentioned you in #${channelName}`,
+          message: content.length > 140 ? `${content.slice(0, 140)}...` : content,
+          read: false,
+        }).catch((error) => console.error("Failed to send mention notification:", error)),
+      ),
+    )
+  }
+
+  const handleEditTeamMessage = async (message: ChatMessage, content: string) => {
+    if (!user || message.sender !== user.uid) return
+    try {
+      await editMessage(message.message_id, content)
+      patchLocalMessage(message.message_id, { content, edited_at: new Date() })
+      await notifyMentions(content, message.channel_id!, message.content)
+    } catch (error: any) {
+      toast({ title: "Edit failed", description: error.message, variant: "destructive" })
+    }
+  }
+
+  const handleDeleteTeamMessage = async (message: ChatMessage) => {
+    if (!user || message.sender !== user.uid) return
+    try {
+      await deleteMessage(message.message_id)
+      patchLocalMessage(message.message_id, { content: "", deleted_at: new Date() })
+    } catch (error: any) {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" })
+    }
+  }
+
+  const handleToggleReaction = async (message: ChatMessage, emoji: string) => {
+    if (!user || message.message_id.startsWith("temp-")) return
+    if (!requirePermission("chat:send", "react to messages")) return
+    const reacted = !(message.reactions?.[emoji] ?? []).includes(user.uid)
+    try {
+      await setMessageReaction(message.message_id, emoji, user.uid, reacted)
+      const others = (message.reactions?.[emoji] ?? []).filter((id) => id !== user.uid)
+      patchLocalMessage(message.message_id, {
+        reactions: { ...message.reactions, [emoji]: reacted ? [...others, user.uid] : others },
+      })
+    } catch (error: any) {
+      toast({ title: "Reaction failed", description: error.message, variant: "destructive" })
+    }
+  }
+
+  const handleToggleSubtasks = (taskId: string, open: boolean) => {
+    setExpandedTaskId((current) => (open ? taskId : current === taskId ? null : current))
+  }
+
+  // Task chips in chat jump to the card on the board and flash it
+  const handleOpenTask = (taskId: string) => {
+    setActiveTab("tasks")
+    setHighlightedTaskId(taskId)
+    setTimeout(() => document.getElementById(`task-${taskId}`)?.scrollIntoView({ behavior: "smooth", block: "center" }), 100)
+    setTimeout(() => setHighlightedTaskId((current) => (current === taskId ? null : current)), 2500)
+  }
+
+  // Team chat: a post mentioning @mentor gets the AI's answer as a reply in its thread
+  const handleSendTeamMessage = async (channelId: string, content: string, threadId?: string) => {
+    if (!user) return
+    if (!requirePermission("chat:send", "post in team chat")) return
+
+    if (isSlashCommand(content)) {
+      await runSlashCommand(content, { channelId, threadId })
+      return
+    }
+
+    let messageId: string
+    try {
+      messageId = await sendMessage({
+        project_id: projectId,
+        sender: user.uid,
+        sender_type: "user",
+        content,
+        channel_id: channelId,
+        thread_id: threadId,
+      })
+    } catch (error: any) {
+      toast({ title: "Message not sent", description: error.message, variant: "destructive" })
+      return
+    }
+
+    await notifyMentions(content, channelId)
+    if (!mentionsMentor(content)) return
+    const rootId = threadId ?? messageId
+    const thread = allMessages.filter((m) => m.message_id === rootId || m.thread_id === rootId)
+
+    setMentorThreadId(rootId)
+    try {
+      const data = await callApiWithRetry("chat", async () =>
+        fetch("/api/gemini", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
+          body: JSON.stringify({
+            action: "mentor_chat",
+            projectId,
+            data: {
+              question: stripMentorMention(content) || content,
+              history: toMentorHistory(thread.slice(-MENTOR_HISTORY_LIMIT)),
+              project: buildMentorProject(),
+            },
+          }),
+        }),
+      )
+
+      const { text, calls } = extractToolCalls(data.result)
+      await sendMessage({
+        project_id: projectId,
+        sender: "ai",
+        sender_type: "ai",
+        content: text,
+        tool_calls: calls.length ? calls : undefined,
+        channel_id: channelId,
+        thread_id: rootId,
+      })
+    } catch (error: any) {
+      await sendMessage({
+        project_id: projectId,
+        sender: "system",
+        sender_type: "system",
+        content: `The mentor couldn't reply: ${error.message}`,
+        channel_id: channelId,
+        thread_id: rootId,
+      }).catch((err) => console.error("Failed to post system message:", err))
+    } finally {
+      setMentorThreadId(null)
+    }
+  }
+
+  // Slash commands from either chat; their output goes back to where they were typed
+  const runSlashCommand = async (input: string, target: { channelId?: string; threadId?: string } = {}) => {
+    if (!user) return
+    const parsed = parseSlashCommand(input, { members, tasks })
+    if (!parsed.ok) {
+      toast({ title: "Invalid command", description: parsed.error, variant: "destructive" })
+      return
+    }
+    const { command } = parsed
+    const spec = slashCommandSpec(command.name)
+    if (spec.permission && !requirePermission(spec.permission, `use /${command.name}`)) return
+
+    const actor = user.displayName || "Team member"
+    const post = (content: string) =>
+      sendMessage({
+        project_id: projectId,
+        sender: "system",
+        sender_type: "system",
+        content,
+        channel_id: target.channelId,
+        thread_id: target.threadId,
+      })
+    // Board changes are announced in team chat; the mentor conversation just gets a toast
+    const announce = async (content: string) => {
+      if (target.channelId) await post(content)
+    }
+
+    let description: string
+    try {
+      switch (command.name) {
+        case "task": {
+          const newTask = await addTask({
+            project_id: projectId,
+            title: command.title,
+            description: "",
+            status: "ToDo",
+            effort: "Medium",
+            priority: "Medium",
+            assigned_to: null,
+            dependencies: [],
+          })
+          if (newTask) setTasks((prev) => [...prev, newTask])
+          description = `Created task "${command.title}"`
+          toast({ title: "Task added!" })
+          if (newTask) await announce(`${actor} created ${taskReference(newTask.task_id)}`)
+          break
+        }
+        case "assign": {
+          const { task, member } = command
+          await updateTask(task.task_id, { assigned_to: member.user_id })
+          setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? { ...t, assigned_to: member.user_id } : t)))
+          if (member.user_id !== user.uid) {
+            await createNotification({
+              project_id: projectId,
+              user_id: member.user_id,
+              type: "task_assigned",
+              title: "Task Assigned",
+              message: `${actor} assigned you "${task.title}"`,
+              read: false,
+            })
+          }
+          description = `Assigned "${task.title}" to ${member.name}`
+          toast({ title: "Task assigned!" })
+          await announce(`${actor} assigned ${taskReference(task.task_id)} to @${member.name}`)
+          break
+        }
+        case "done": {
+          const { task } = command
+          const blockers = getBlockers(task, tasks)
+          if (blockers.length > 0) {
+            toast({
+              title: "Task is blocked",
+              description: `Finish ${blockers.map((b) => `"${b.title}"`).join(", ")} before marking "${task.title}" as done.`,
+              variant: "destructive",
+            })
+            return
+          }
+          await updateTask(task.task_id, { status: "Done" })
+          setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? { ...t, status: "Done" } : t)))
+          if (task.assigned_to && task.assigned_to !== user.uid) {
+            await createNotification({
+              project_id: projectId,
+              user_id: task.assigned_to,
+              type: "task_assigned",
+              title: "Task Updated",
+              message: `${actor} moved "${task.title}" to Done`,
+              read: false,
+            })
+          }
+          description = `Moved "${task.title}" to Done`
+          toast({ title: "Task done!" })
+          await announce(`${actor} finished ${taskReference(task.task_id)} 🎉`)
+          break
+        }
+        case "standup":
+          await post(standupReport(tasks, members, Date.now()))
+          description = "Posted a standup"
+          break
+        case "timer":
+          await post(timerReport(timeRemaining, resolvedMilestones, Date.now()))
+          description = "Posted the time remaining"
+          break
+        case "remind": {
+          const start = Date.now() + command.minutes * 60 * 1000
+          await createScheduleEvent({
+            project_id: projectId,
+            user_id: user.uid,
+            title: "Reminder",
+            type: "reminder",
+            start_time: new Date(start),
+            end_time: new Date(start + 5 * 60 * 1000),
+            description: command.text,
+            reminder_minutes: 1,
+            completed: false,
+            source: "manual",
+          })
+          if (typeof Notification !== "undefined" && Notification.permission === "default") {
+            Notification.requestPermission().catch(() => {})
+          }
+          description = `Set a reminder for ${format(start, "HH:mm")}`
+          toast({ title: "Reminder set", description: `${format(start, "HH:mm")}: ${command.text}` })
+          break
+        }
+        case "ask":
+          if (target.channelId) await handleSendTeamMessage(target.channelId, `@mentor ${command.question}`, target.threadId)
+          else await handleSendMessage(command.question)
+          description = "Asked the AI mentor"
+          break
+      }
+    } catch (error: any) {
+      toast({ title: `/${command.name} failed`, description: error.message, variant: "destructive" })
+      return
+    }
+
+    await addActivity({
+      project_id: projectId,
+      user_id: user.uid,
+      type: spec.activity,
+      description,
+      metadata: { source: "slash_command", command: command.name, input },
+    }).catch((error) => console.error("Failed to log slash command:", error))
+  }
+
+  // Runs one of the mentor's proposed changes through the same operations the board uses
+  const applyMentorToolCall = async (call: MentorToolCall): Promise<LiveActivity["type"]> => {
+    const args = call.args
+    switch (call.tool) {
+      case "create_task":
+        await addTask({
+          project_id: projectId,
+          title: args.title,
+          description: args.description,
+          status: "ToDo",
+          effort: args.effort,
+          priority: args.priority,
+          assigned_to: args.assignee ? findMemberByName(members, args.assignee).user_id : null,
+        })
+        return "task_update"
+      case "update_task": {
+        const task = findTaskByTitle(tasks, args.task)
+        // Same rule as dragging a card to Done
+        const blockers = args.status === "Done" ? getBlockers(task, tasks) : []
+        if (blockers.length > 0) {
+          throw new Error(`Finish ${blockers.map((b) => `"${b.title}"`).join(", ")} before marking "${task.title}" as done.`)
+        }
+        await updateTask(
+          task.task_id,
+          withoutUndefined({ title: args.title, description: args.description, status: args.status, priority: args.priority }),
+        )
+        return "task_update"
+      }
+      case "assign_task": {
+        const task = findTaskByTitle(tasks, args.task)
+        await updateTask(task.task_id, {
+          assigned_to: args.assignee ? findMemberByName(members, args.assignee).user_id : null,
+        })
+        return "task_update"
+      }
+      case "add_milestone":
+        await createMilestone({
+          project_id: projectId,
+          name: args.name,
+          description: args.description,
+          deadline: new Date(args.deadline),
+          type: "custom",
+          status: "upcoming",
+        })
+        return "status_change"
+      case "post_note":
+        await uploadResource({
+          project_id: projectId,
+          name: args.title,
+          type: "note",
+          content: args.content,
+          uploaded_by: user!.uid,
+          tags: ["ai-mentor"],
+        })
+        return "file_upload"
+    }
+  }
+
+  const handleResolveToolCall = async (message: ChatMessage, call: MentorToolCall, apply: boolean) => {
+    if (!user || message.message_id.startsWith("temp-")) return
+    if (call.status !== "pending" && call.status !== "failed") return
+    if (apply && !requirePermission(MENTOR_TOOL_PERMISSIONS[call.tool], "apply that change")) return
+
+    const showCall = (next: MentorToolCall) =>
+      patchLocalMessage(message.message_id, {
+        tool_calls: (message.tool_calls ?? []).map((c) => (c.call_id === call.call_id ? next : c)),
+      })
+
+    // Claim the call before touching the board, so two teammates clicking at once can't both apply it
+    const claim: MentorToolCall = { ...call, status: apply ? "applying" : "dismissed", resolved_by: user.uid, error: undefined }
+    try {
+      if (!(await resolveMessageToolCall(message.message_id, claim, call.status))) {
+        toast({ title: "Already handled", description: "A teammate got to this change first." })
+        return
+      }
+    } catch (error) {
+      console.error("Failed to record mentor action:", error)
+      toast({ title: "Couldn't update this change", description: "Please try again.", variant: "destructive" })
+      return
+    }
+    showCall(claim)
+    if (!apply) return
+
+    let resolved: MentorToolCall
+    try {
+      const type = await applyMentorToolCall(call)
+      resolved = { ...claim, status: "applied" }
+      await addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type,
+        description: `AI mentor: ${describeToolCall(call)}`,
+        metadata: { source: "ai_mentor", tool: call.tool, message_id: message.message_id },
+      })
+      toast({ title: "Change applied", description: describeToolCall(call) })
+    } catch (error: any) {
+      // Failed calls can be retried, so hand it back rather than leave it claimed
+      resolved = { ...claim, status: "failed", error: error.message || "Could not apply this change" }
+      toast({ title: "Couldn't apply change", description: resolved.error, variant: "destructive" })
+    }
+
+    showCall(resolved)
+    try {
+      await resolveMessageToolCall(message.message_id, resolved, "applying")
+    } catch (error) {
+      console.error("Failed to record mentor action:", error)
+    }
+  }
+
+  const handleToggleDemoMode = async (enabled: boolean) => {
+    if (!requirePermission("demo:toggle", "change demo mode")) return
+    setProject((prev) => (prev ? { ...prev, demo_mode: enabled } : prev))
+    try {
+      await updateDemoMode(projectId, enabled)
       toast({
         title: enabled ? "Demo mode enabled" : "Demo mode disabled",
         description: enabled ? "Anyone with the link can view this project" : "Project is now private",
@@ -743,7 +2064,8 @@ export default function ProjectPage() {
     }
   }
 
-  const handleUpdateProjectUrls = async (urls: { github_repo?: string; demo_url?: string }) => {
+  const handleUpdateProjectUrls = async (urls: { github_repo?: string; demo_url?: string; pitch_deck_url?: string }) => {
+    if (!requirePermission("settings:edit", "edit project settings")) return
     try {
       await updateProjectUrls(projectId, urls)
       setProject((prev) => (prev ? { ...prev, ...urls } : prev))
@@ -785,7 +2107,7 @@ export default function ProjectPage() {
 
   const handleCopyJoinCode = async () => {
     try {
-      await navigator.clipboard.writeText(project?.join_code || "")
+      await navigator.clipboard.writeText(joinCode || "")
       setCopied(true)
       toast({
         title: "Copied!",
@@ -857,14 +2179,7 @@ export default function ProjectPage() {
 
   const handleDeleteProject = async () => {
     if (!project || !user) return
-    if (project.created_by !== user.uid) {
-      toast({
-        title: "Permission denied",
-        description: "Only the project owner can delete this project.",
-        variant: "destructive",
-      })
-      return
-    }
+    if (!requirePermission("project:delete", "delete this project")) return
     if (deleteConfirmText !== project.name) {
       toast({
         title: "Confirmation required",
@@ -876,10 +2191,10 @@ export default function ProjectPage() {
 
     setIsDeletingProject(true)
     try {
-      await deleteProject(projectId)
+      await trashProject(projectId)
       toast({
-        title: "Project deleted",
-        description: "The project has been permanently deleted.",
+        title: "Project moved to trash",
+        description: `You can restore it from the dashboard within ${TRASH_RETENTION_DAYS} days.`,
       })
       router.push("/dashboard")
     } catch (error: any) {
@@ -899,11 +2214,10 @@ export default function ProjectPage() {
   const handleDeleteResource = async (resource: SharedResource) => {
     if (!user) return
 
-    // Check if user is the uploader
-    if (resource.uploaded_by !== user.uid) {
+    if (!canDeleteResource(currentRole, resource, user.uid, pastDeadline)) {
       toast({
         title: "Permission denied",
-        description: "Only the uploader can delete this resource.",
+        description: "Only the uploader or a project admin can delete this resource.",
         variant: "destructive",
       })
       return
@@ -937,21 +2251,22 @@ export default function ProjectPage() {
   const handleRemoveMember = async (memberId: string, memberName: string) => {
     if (!user || !project) return
 
-    // Check if user is the project creator
-    if (project.created_by !== user.uid) {
+    if (!requirePermission("member:remove", "remove members")) return
+
+    // Prevent removing self
+    if (memberId === user.uid) {
       toast({
-        title: "Permission denied",
-        description: "Only the project creator can remove members.",
+        title: "Cannot remove yourself",
+        description: "You cannot remove yourself from the project.",
         variant: "destructive",
       })
       return
     }
 
-    // Prevent removing self
-    if (memberId === user.uid) {
+    if (!canManageMember(currentRole, getMemberRole(memberId))) {
       toast({
-        title: "Cannot remove yourself",
-        description: "Project creators cannot remove themselves from the project.",
+        title: "Permission denied",
+        description: `You can't remove a ${ROLE_LABELS[getMemberRole(memberId)].toLowerCase()}.`,
         variant: "destructive",
       })
       return
@@ -1056,8 +2371,46 @@ export default function ProjectPage() {
     }
   }
 
+  const handleChangeRole = async (member: ProjectMember, role: ProjectRole) => {
+    if (!user || !project) return
+    const previousRole = getMemberRole(member.user_id)
+    if (!canManageMember(currentRole, previousRole) || !assignableRoles(currentRole).includes(role)) {
+      toast({
+        title: "Permission denied",
+        description: "You can only change roles below your own.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setRoles((prev) => ({ ...prev, [member.user_id]: role }))
+    try {
+      await setUserRole(projectId, member.user_id, role)
+
+      await addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type: "status_change",
+        description: `Changed ${member.name}'s role to ${ROLE_LABELS[role]}`,
+      })
+
+      toast({
+        title: "Role updated",
+        description: `${member.name} is now ${ROLE_LABELS[role].toLowerCase()}.`,
+      })
+    } catch (error: any) {
+      setRoles((prev) => ({ ...prev, [member.user_id]: previousRole }))
+      toast({
+        title: "Role update failed",
+        description: error.message || "Failed to change role.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleAddResource = async () => {
     if (!resourceName.trim() || !user) return
+    if (!requirePermission("resource:create", "share resources")) return
     if (resourceType === "link" && !resourceUrl.trim()) return
     if (resourceType === "note" && !resourceContent.trim()) return
     if (resourceType === "file" && !selectedFile) return
@@ -1156,6 +2509,11 @@ export default function ProjectPage() {
   const todoTasks = tasks.filter((t) => t.status === "ToDo")
   const inProgressTasks = tasks.filter((t) => t.status === "InProgress")
   const doneTasks = tasks.filter((t) => t.status === "Done")
+  const criticalPath = computeCriticalPath(tasks)
+  // The event's dates when the project is registered for one, so every clock on the page agrees
+  const scheduleWindow = hackathonWindow(project, hackathonEvent)
+  const windowHours = (scheduleWindow.end.getTime() - scheduleWindow.start.getTime()) / (60 * 60 * 1000)
+  const burnoutWarnings = detectBurnout(members, activities, wellnessByUser, currentTime)
 
   return (
     <div className="min-h-screen bg-background">
@@ -1170,7 +2528,18 @@ export default function ProjectPage() {
               <div>
                 <h1 className="text-xl font-bold">{project.name}</h1>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Badge variant="outline">{project.duration}</Badge>
+                  {hackathonEvent ? (
+                    <Badge
+                      variant="outline"
+                      className="cursor-pointer hover:bg-accent transition-colors"
+                      onClick={() => router.push(`/events/${hackathonEvent.event_id}`)}
+                    >
+                      <Trophy className="mr-1 h-3 w-3" />
+                      {hackathonEvent.name}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">{project.duration}</Badge>
+                  )}
                   <div className="flex items-center gap-1">
                     <span>Code:</span>
                     <Badge
@@ -1178,7 +2547,7 @@ export default function ProjectPage() {
                       className="cursor-pointer hover:bg-accent transition-colors"
                       onClick={handleCopyJoinCode}
                     >
-                      {project.join_code}
+                      {joinCode ?? "..."}
                       {copied ? (
                         <Check className="ml-1 h-3 w-3 text-green-600" />
                       ) : (
@@ -1211,17 +2580,34 @@ export default function ProjectPage() {
                   <span className="text-sm text-muted-foreground">{user.email}</span>
                 </div>
               )}
+              {pastDeadline && !hasPermission("task:edit") && can(currentRole, "task:edit") && (
+                <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-700">
+                  <Lock className="h-3 w-3" />
+                  Locked after deadline
+                </Badge>
+              )}
+              <SubmissionDialog
+                project={project}
+                tasks={tasks}
+                submissions={submissions}
+                canSubmit={hasPermission("project:submit")}
+                pastDeadline={pastDeadline}
+                onChecklistChange={handleUpdateChecklist}
+                onSubmit={handleSubmitProject}
+                authHeaders={async () => (user ? aiAuthHeaders(user) : {})}
+              />
               <div className="flex items-center gap-2">
                 <Switch
                   id="demo-mode"
                   checked={project.demo_mode}
                   onCheckedChange={handleToggleDemoMode}
+                  disabled={!hasPermission("demo:toggle")}
                 />
                 <Label htmlFor="demo-mode" className="text-sm">
                   Demo Mode
                 </Label>
               </div>
-              {project.created_by === user?.uid && (
+              {hasPermission("project:delete") && (
                 <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
                   <DialogTrigger asChild>
                     <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">
@@ -1232,18 +2618,20 @@ export default function ProjectPage() {
                     <DialogHeader>
                       <DialogTitle className="text-red-600">Delete Project</DialogTitle>
                       <DialogDescription>
-                        This action cannot be undone. This will permanently delete the project, all tasks, messages, and shared resources.
+                        The project will be moved to the trash. You can restore it from the dashboard within {TRASH_RETENTION_DAYS} days, after which it is permanently deleted.
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 pt-4">
                       <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                         <p className="text-sm text-red-800 font-medium mb-2">
-                          ⚠️ This will permanently delete:
+                          ⚠️ When the trash is emptied this permanently deletes:
                         </p>
                         <ul className="text-sm text-red-700 space-y-1">
-                          <li>• All project tasks and progress</li>
-                          <li>• Team chat messages</li>
+                          <li>• All project tasks, milestones and progress</li>
+                          <li>• Team chat messages and notifications</li>
                           <li>• Shared resources and files</li>
+                          <li>• Schedules, wellness settings and team roles</li>
+                          <li>• Submission snapshots</li>
                           <li>• Project analytics and history</li>
                         </ul>
                       </div>
@@ -1283,7 +2671,7 @@ export default function ProjectPage() {
                           ) : (
                             <>
                               <Trash className="mr-2 h-4 w-4" />
-                              Delete Project
+                              Move to Trash
                             </>
                           )}
                         </Button>
@@ -1395,8 +2783,16 @@ export default function ProjectPage() {
       </header>
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
-        <Tabs defaultValue="idea" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:grid-cols-6 max-w-4xl h-auto">
+        <Tabs
+          value={activeTab}
+          onValueChange={(tab) => {
+            setActiveTab(tab)
+            // Cards unmount with their tab, and their subtasks come back collapsed
+            setExpandedTaskId(null)
+          }}
+          className="space-y-6"
+        >
+          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8 max-w-5xl h-auto">
             <TabsTrigger value="idea" className="flex items-center gap-2">
               <Lightbulb className="h-4 w-4" />
               <span className="hidden sm:inline">Idea</span>
@@ -1405,6 +2801,10 @@ export default function ProjectPage() {
               <CheckSquare className="h-4 w-4" />
               <span className="hidden sm:inline">Tasks</span>
             </TabsTrigger>
+            <TabsTrigger value="milestones" className="flex items-center gap-2">
+              <Flag className="h-4 w-4" />
+              <span className="hidden sm:inline">Milestones</span>
+            </TabsTrigger>
             <TabsTrigger value="schedule" className="flex items-center gap-2">
               <CalendarDays className="h-4 w-4" />
               <span className="hidden sm:inline">Schedule</span>
@@ -1413,6 +2813,15 @@ export default function ProjectPage() {
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Analytics</span>
             </TabsTrigger>
+            <TabsTrigger value="chat" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Team Chat</span>
+              {unreadMentions.length > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-xs">
+                  {unreadMentions.length}
+                </Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger value="mentor" className="flex items-center gap-2">
               <MessageCircle className="h-4 w-4" />
               <span className="hidden sm:inline">Mentor</span>
@@ -1444,7 +2853,7 @@ export default function ProjectPage() {
                   />
                   <Button
                     onClick={handleAnalyzeIdea}
-                    disabled={!ideaInput.trim() || isAnalyzingIdea || retryState.isRetrying}
+                    disabled={!ideaInput.trim() || isAnalyzingIdea || retryState.isRetrying || !hasPermission("idea:edit")}
                     className="w-full"
                   >
                     {isAnalyzingIdea ? (
@@ -1497,7 +2906,7 @@ export default function ProjectPage() {
                         <Button
                           size="sm"
                           onClick={handleGenerateTasks}
-                          disabled={isGeneratingTasks || retryState.isRetrying}
+                          disabled={isGeneratingTasks || retryState.isRetrying || !hasPermission("task:edit")}
                         >
                           {isGeneratingTasks ? (
                             <Loader2 className="h-4 w-4 animate-spin" />
@@ -1562,7 +2971,7 @@ export default function ProjectPage() {
                 {/* Project Health Score in Idea Tab too for visibility */}
                 <div className="md:col-span-2">
                   <ProjectHealth
-                    project={project}
+                    window={scheduleWindow}
                     tasks={tasks}
                     members={members}
                     commitsCount={commitsCount}
@@ -1576,110 +2985,169 @@ export default function ProjectPage() {
           <TabsContent value="tasks" className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-lg font-semibold">Task Board</h2>
-              <Dialog open={addTaskDialogOpen} onOpenChange={setAddTaskDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button size="sm">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Task
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Add New Task</DialogTitle>
-                    <DialogDescription>Create a new task for your project</DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 pt-4">
-                    <Input
-                      placeholder="Task title"
-                      value={newTaskTitle}
-                      onChange={(e) => setNewTaskTitle(e.target.value)}
-                    />
-                    <Textarea
-                      placeholder="Task description (optional)"
-                      value={newTaskDescription}
-                      onChange={(e) => setNewTaskDescription(e.target.value)}
-                      rows={3}
-                    />
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" onClick={openAutoAssign} disabled={!hasPermission("task:edit")}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Auto-assign
+                </Button>
+                <AutoAssignDialog
+                  open={autoAssignOpen}
+                  onOpenChange={setAutoAssignOpen}
+                  plan={autoAssignPlan}
+                  tasks={tasks}
+                  members={members}
+                  isRanking={isRankingAssignees}
+                  onRankWithAI={handleRankAssignees}
+                  onApply={handleApplyAutoAssign}
+                />
+                <Dialog open={addTaskDialogOpen} onOpenChange={setAddTaskDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" disabled={!hasPermission("task:edit")}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Task
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add New Task</DialogTitle>
+                      <DialogDescription>Create a new task for your project</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-4">
+                      <Input
+                        placeholder="Task title"
+                        value={newTaskTitle}
+                        onChange={(e) => setNewTaskTitle(e.target.value)}
+                      />
+                      <Textarea
+                        placeholder="Task description (optional)"
+                        value={newTaskDescription}
+                        onChange={(e) => setNewTaskDescription(e.target.value)}
+                        rows={3}
+                      />
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Effort Level</Label>
+                          <Select value={newTaskEffort} onValueChange={(value) => setNewTaskEffort(value as "Low" | "Medium" | "High")}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="Low">Low</SelectItem>
+                              <SelectItem value="Medium">Medium</SelectItem>
+                              <SelectItem value="High">High</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Priority</Label>
+                          <Select value={newTaskPriority} onValueChange={(value) => setNewTaskPriority(value as "Low" | "Medium" | "High" | "Critical")}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="Low">Low</SelectItem>
+                              <SelectItem value="Medium">Medium</SelectItem>
+                              <SelectItem value="High">High</SelectItem>
+                              <SelectItem value="Critical">Critical</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
 
-                    <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label>Effort Level</Label>
-                        <Select value={newTaskEffort} onValueChange={(value) => setNewTaskEffort(value as "Low" | "Medium" | "High")}>
+                        <Label>Assign to</Label>
+                        <Select value={newTaskAssignee || "unassigned"} onValueChange={(value) => setNewTaskAssignee(value === "unassigned" ? null : value)}>
                           <SelectTrigger>
-                            <SelectValue />
+                            <SelectValue>
+                              {newTaskAssignee ? (
+                                (() => {
+                                  const member = members.find(m => m.user_id === newTaskAssignee)
+                                  return member ? (
+                                    <div className="flex items-center gap-2">
+                                      <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
+                                        {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                                      </div>
+                                      <span>{member.name}</span>
+                                    </div>
+                                  ) : "Unassigned"
+                                })()
+                              ) : (
+                                "Unassigned"
+                              )}
+                            </SelectValue>
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="Low">Low</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="High">High</SelectItem>
+                            <SelectItem value="unassigned">
+                              <span className="text-muted-foreground">Unassigned</span>
+                            </SelectItem>
+                            {members.map((member, i) => (
+                              <SelectItem key={`${member.user_id}-${i}`} value={member.user_id}>
+                                <div className="flex items-center gap-2">
+                                  <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
+                                    {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                                  </div>
+                                  <span>{member.name}</span>
+                                </div>
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
 
                       <div className="space-y-2">
-                        <Label>Priority</Label>
-                        <Select value={newTaskPriority} onValueChange={(value) => setNewTaskPriority(value as "Low" | "Medium" | "High" | "Critical")}>
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="Low">Low</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="High">High</SelectItem>
-                            <SelectItem value="Critical">Critical</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <Label>Blocked by</Label>
+                        <TaskDependencyPicker
+                          tasks={tasks}
+                          taskId={null}
+                          value={newTaskDependencies}
+                          onChange={setNewTaskDependencies}
+                        />
                       </div>
-                    </div>
 
-                    <div className="space-y-2">
-                      <Label>Assign to</Label>
-                      <Select value={newTaskAssignee || "unassigned"} onValueChange={(value) => setNewTaskAssignee(value === "unassigned" ? null : value)}>
-                        <SelectTrigger>
-                          <SelectValue>
-                            {newTaskAssignee ? (
-                              (() => {
-                                const member = members.find(m => m.user_id === newTaskAssignee)
-                                return member ? (
-                                  <div className="flex items-center gap-2">
-                                    <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
-                                      {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
-                                    </div>
-                                    <span>{member.name}</span>
-                                  </div>
-                                ) : "Unassigned"
-                              })()
-                            ) : (
-                              "Unassigned"
-                            )}
-                          </SelectValue>
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="unassigned">
-                            <span className="text-muted-foreground">Unassigned</span>
-                          </SelectItem>
-                          {members.map((member, i) => (
-                            <SelectItem key={`${member.user_id}-${i}`} value={member.user_id}>
-                              <div className="flex items-center gap-2">
-                                <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
-                                  {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
-                                </div>
-                                <span>{member.name}</span>
-                              </div>
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <Button onClick={handleAddTask} disabled={!newTaskTitle.trim() || isAddingTask} className="w-full">
+                        {isAddingTask ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Task"}
+                      </Button>
                     </div>
-
-                    <Button onClick={handleAddTask} disabled={!newTaskTitle.trim() || isAddingTask} className="w-full">
-                      {isAddingTask ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Task"}
-                    </Button>
-                  </div>
-                </DialogContent>
-              </Dialog>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
 
+            {criticalPath.taskIds.length > 1 && (
+              <div className="flex items-center gap-2 rounded-lg border border-amber-500/40 bg-amber-500/5 px-3 py-2 text-sm">
+                <GitBranch className="h-4 w-4 text-amber-600 shrink-0" />
+                <span className="font-medium">Critical path</span>
+                <span className="text-muted-foreground truncate">
+                  {criticalPath.taskIds.map((id) => tasks.find((t) => t.task_id === id)?.title).join(" → ")}
+                </span>
+                <Badge variant="outline" className="ml-auto shrink-0">~{criticalPath.hours}h of work</Badge>
+              </div>
+            )}
+
+            <Dialog open={!!dependencyTask} onOpenChange={(open) => !open && setDependencyTask(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Dependencies</DialogTitle>
+                  <DialogDescription>
+                    Pick the tasks that must be done before "{dependencyTask?.title}" can be completed.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <TaskDependencyPicker
+                    tasks={tasks}
+                    taskId={dependencyTask?.task_id ?? null}
+                    value={dependencyDraft}
+                    onChange={setDependencyDraft}
+                  />
+                  <Button onClick={handleSaveDependencies} disabled={isSavingDependencies} className="w-full">
+                    {isSavingDependencies ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Dependencies"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+
             <DndContext
               sensors={sensors}
               onDragStart={handleDragStart}
@@ -1702,6 +3170,16 @@ export default function ProjectPage() {
                         onDelete={handleDeleteTask}
                         onAssign={handleAssignTask}
                         members={members}
+                        readOnly={!hasPermission("task:edit")}
+                        blockers={getBlockers(task, tasks)}
+                        onCriticalPath={criticalPath.taskIds.includes(task.task_id)}
+                        onEditDependencies={openDependencyDialog}
+                        onBreakdown={handleBreakdownTask}
+                        isBreakingDown={breakingDownTaskId === task.task_id}
+                        onUpdateSubtasks={handleUpdateSubtasks}
+                        highlighted={highlightedTaskId === task.task_id}
+                        viewers={presenceNames(taskViewers.get(task.task_id) ?? [])}
+                        onToggleSubtasks={handleToggleSubtasks}
                       />
                     ))}
                     {todoTasks.length === 0 && (
@@ -1726,6 +3204,16 @@ export default function ProjectPage() {
                         onDelete={handleDeleteTask}
                         onAssign={handleAssignTask}
                         members={members}
+                        readOnly={!hasPermission("task:edit")}
+                        blockers={getBlockers(task, tasks)}
+                        onCriticalPath={criticalPath.taskIds.includes(task.task_id)}
+                        onEditDependencies={openDependencyDialog}
+                        onBreakdown={handleBreakdownTask}
+                        isBreakingDown={breakingDownTaskId === task.task_id}
+                        onUpdateSubtasks={handleUpdateSubtasks}
+                        highlighted={highlightedTaskId === task.task_id}
+                        viewers={presenceNames(taskViewers.get(task.task_id) ?? [])}
+                        onToggleSubtasks={handleToggleSubtasks}
                       />
                     ))}
                     {inProgressTasks.length === 0 && (
@@ -1750,6 +3238,16 @@ export default function ProjectPage() {
                         onDelete={handleDeleteTask}
                         onAssign={handleAssignTask}
                         members={members}
+                        readOnly={!hasPermission("task:edit")}
+                        blockers={getBlockers(task, tasks)}
+                        onCriticalPath={criticalPath.taskIds.includes(task.task_id)}
+                        onEditDependencies={openDependencyDialog}
+                        onBreakdown={handleBreakdownTask}
+                        isBreakingDown={breakingDownTaskId === task.task_id}
+                        onUpdateSubtasks={handleUpdateSubtasks}
+                        highlighted={highlightedTaskId === task.task_id}
+                        viewers={presenceNames(taskViewers.get(task.task_id) ?? [])}
+                        onToggleSubtasks={handleToggleSubtasks}
                       />
                     ))}
                     {doneTasks.length === 0 && (
@@ -1778,6 +3276,21 @@ export default function ProjectPage() {
               </DragOverlay>
             </DndContext>
           </TabsContent>
+          {/* Milestones Tab */}
+          <TabsContent value="milestones" className="space-y-6">
+            <MilestonesBoard
+              milestones={resolvedMilestones}
+              tasks={tasks}
+              windowStart={scheduleWindow.start}
+              windowEnd={scheduleWindow.end}
+              now={currentTime}
+              canEdit={hasPermission("task:edit")}
+              onCreate={handleCreateMilestone}
+              onDelete={handleDeleteMilestone}
+              onToggleComplete={handleToggleMilestone}
+              onLinkTasks={handleLinkMilestoneTasks}
+            />
+          </TabsContent>
           {/* Schedule Tab */}
           <TabsContent value="schedule" className="space-y-6">
             <div className="grid gap-6 md:grid-cols-2">
@@ -1793,15 +3306,15 @@ export default function ProjectPage() {
                   <div className="text-center space-y-4">
                     <div className="text-3xl font-bold text-primary">{timeRemaining}</div>
                     <div className="text-sm text-muted-foreground">
-                      Started: {project.created_at ? new Date(project.created_at).toLocaleDateString() : "Unknown"}
+                      Started: {scheduleWindow.start.toLocaleDateString()}
                     </div>
                     <div className="w-full bg-muted rounded-full h-2">
                       <div
                         className="bg-primary h-2 rounded-full transition-all duration-300"
                         style={{
                           width: `${Math.max(0, Math.min(100,
-                            ((new Date().getTime() - new Date(project.created_at).getTime()) /
-                              ((project.duration === "24h" ? 24 : 48) * 60 * 60 * 1000)) * 100
+                            ((currentTime - scheduleWindow.start.getTime()) /
+                              (scheduleWindow.end.getTime() - scheduleWindow.start.getTime())) * 100
                           ))}%`
                         }}
                       />
@@ -1810,55 +3323,12 @@ export default function ProjectPage() {
                 </CardContent>
               </Card>
 
-              {/* Work Session Tracker */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Coffee className="h-5 w-5 text-amber-500" />
-                    Work Session
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {currentWorkSession ? (
-                      <div className="text-center">
-                        <div className="text-lg font-medium text-green-600">Session Active</div>
-                        <div className="text-sm text-muted-foreground">
-                          Started: {currentWorkSession.start.toLocaleTimeString()}
-                        </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="mt-2"
-                          onClick={() => setCurrentWorkSession(null)}
-                        >
-                          <Pause className="mr-2 h-4 w-4" />
-                          End Session
-                        </Button>
-                      </div>
-                    ) : (
-                      <div className="text-center">
-                        <div className="text-lg font-medium text-muted-foreground">No Active Session</div>
-                        <Button
-                          size="sm"
-                          className="mt-2"
-                          onClick={() => setCurrentWorkSession({ start: new Date(), duration: 25 })}
-                        >
-                          <Play className="mr-2 h-4 w-4" />
-                          Start Work Session
-                        </Button>
-                      </div>
-                    )}
-
-                    {nextBreakTime && (
-                      <div className="text-center p-3 bg-amber-50 border border-amber-200 rounded-lg">
-                        <div className="text-sm font-medium text-amber-800">Next Break</div>
-                        <div className="text-xs text-amber-600">{nextBreakTime.toLocaleTimeString()}</div>
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
+              <WorkSessionCard
+                sessionStart={workSessionStart}
+                settings={myWellness}
+                onStart={() => setWorkSessionStart(new Date())}
+                onStop={() => setWorkSessionStart(null)}
+              />
 
               {/* Quick Schedule */}
               <Card className="md:col-span-2">
@@ -1868,14 +3338,14 @@ export default function ProjectPage() {
                     Suggested Schedule
                   </CardTitle>
                   <CardDescription>
-                    Recommended timeline for your {project.duration} hackathon
+                    Recommended timeline for your {Math.round(windowHours)}h hackathon
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     {(() => {
-                      const start = new Date(project.created_at)
-                      const duration = project.duration === "24h" ? 24 : 48
+                      const start = scheduleWindow.start
+                      const duration = windowHours
                       const phases = [
                         { name: "Planning & Setup", percent: 15, icon: Lightbulb, color: "text-yellow-600" },
                         { name: "Core Development", percent: 50, icon: CheckSquare, color: "text-blue-600" },
@@ -1911,6 +3381,39 @@ export default function ProjectPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <div className="md:col-span-2 flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Focus {myWellness.work_session_duration}m · break {myWellness.break_duration}m · sleep {myWellness.sleep_start_time}–{myWellness.sleep_end_time}
+                </p>
+                <WellnessSettingsDialog
+                  settings={myWellness}
+                  onSave={handleSaveWellness}
+                  onGenerateRoutine={handleGenerateRoutine}
+                />
+              </div>
+
+              <SchedulePlanner
+                events={myScheduleEvents}
+                windowStart={scheduleWindow.start}
+                windowEnd={scheduleWindow.end}
+                now={currentTime}
+                onCreate={handleCreateScheduleEvent}
+                onUpdate={handleUpdateScheduleEvent}
+                onDelete={handleDeleteScheduleEvent}
+              />
+
+              <TeamScheduleOverlay
+                events={scheduleEvents}
+                members={members}
+                windowStart={scheduleWindow.start}
+                windowEnd={scheduleWindow.end}
+                now={currentTime}
+              />
+
+              <div className="md:col-span-2">
+                <BurnoutAlerts warnings={burnoutWarnings} />
+              </div>
             </div>
           </TabsContent>
 
@@ -1918,7 +3421,7 @@ export default function ProjectPage() {
           <TabsContent value="analytics" className="space-y-6">
             <div className="md:max-w-md mx-auto">
               <ProjectHealth
-                project={project}
+                window={scheduleWindow}
                 tasks={tasks}
                 members={members}
                 commitsCount={commitsCount}
@@ -1952,7 +3455,7 @@ export default function ProjectPage() {
                 <CardContent>
                   <div className="text-2xl font-bold text-blue-600">
                     {(() => {
-                      const hoursElapsed = Math.max(1, (new Date().getTime() - new Date(project.created_at).getTime()) / (1000 * 60 * 60))
+                      const hoursElapsed = Math.max(1, (currentTime - scheduleWindow.start.getTime()) / (1000 * 60 * 60))
                       return (doneTasks.length / hoursElapsed).toFixed(1)
                     })()}
                   </div>
@@ -1970,18 +3473,27 @@ export default function ProjectPage() {
                   <CardTitle className="text-sm font-medium">Active Members</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-purple-600">{members.length}</div>
-                  <div className="text-xs text-muted-foreground">Team Members</div>
+                  <div className="text-2xl font-bold text-purple-600">{onlineMembers.length}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Online now{awayMembers.length > 0 && ` · ${awayMembers.length} away`} · {members.length} on the team
+                  </div>
                   <div className="flex items-center gap-1 mt-2">
                     <div className="flex -space-x-1">
-                      {members.slice(0, 3).map((member, i) => (
-                        <div key={i} className="h-6 w-6 rounded-full bg-primary/20 border-2 border-background flex items-center justify-center text-xs font-bold text-primary">
+                      {[...onlineMembers, ...awayMembers].slice(0, 3).map((member) => (
+                        <div
+                          key={member.user_id}
+                          className="relative h-6 w-6 rounded-full bg-primary/20 border-2 border-background flex items-center justify-center text-xs font-bold text-primary"
+                          title={`${member.name}: ${presenceLabel(presenceByUser.get(member.user_id), presenceNow)}`}
+                        >
                           {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                          <span
+                            className={`absolute -bottom-0.5 -right-0.5 h-2 w-2 rounded-full border border-background ${PRESENCE_COLORS[presenceStatus(presenceByUser.get(member.user_id), presenceNow)]}`}
+                          />
                         </div>
                       ))}
-                      {members.length > 3 && (
+                      {onlineMembers.length + awayMembers.length > 3 && (
                         <div className="h-6 w-6 rounded-full bg-muted border-2 border-background flex items-center justify-center text-xs">
-                          +{members.length - 3}
+                          +{onlineMembers.length + awayMembers.length - 3}
                         </div>
                       )}
                     </div>
@@ -1997,8 +3509,8 @@ export default function ProjectPage() {
                 <CardContent>
                   <div className="text-2xl font-bold text-amber-600">
                     {(() => {
-                      const totalHours = project.duration === "24h" ? 24 : 48
-                      const elapsedHours = (new Date().getTime() - new Date(project.created_at).getTime()) / (1000 * 60 * 60)
+                      const totalHours = windowHours
+                      const elapsedHours = (currentTime - scheduleWindow.start.getTime()) / (1000 * 60 * 60)
                       const efficiency = Math.min(100, (doneTasks.length / Math.max(1, elapsedHours / totalHours * tasks.length)) * 100)
                       return Math.round(efficiency)
                     })()}%
@@ -2106,6 +3618,60 @@ export default function ProjectPage() {
           </TabsContent>
 
           {/* Mentor Tab */}
+          <TabsContent value="chat" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5 text-primary" />
+                      Team Chat
+                    </CardTitle>
+                    <CardDescription>
+                      Talk in #general or in a milestone's or task's channel. Mention @mentor in any thread to ask the AI.
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowHistorySearch(true)}>
+                    <Search className="h-4 w-4 mr-2" />
+                    Search
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <TeamChat
+                  messages={teamMessages}
+                  channels={chatChannels(milestones, tasks, teamMessages)}
+                  channelId={chatChannelId}
+                  onSelectChannel={setChatChannelId}
+                  members={members}
+                  tasks={tasks}
+                  currentUserId={user?.uid ?? ""}
+                  canSend={hasPermission("chat:send")}
+                  mentorThreadId={mentorThreadId}
+                  typing={typingNames}
+                  onTyping={setTyping}
+                  hasOlder={hasOlderMessages}
+                  isLoadingOlder={isLoadingOlderMessages}
+                  onLoadOlder={handleLoadOlderMessages}
+                  onSend={handleSendTeamMessage}
+                  onEdit={handleEditTeamMessage}
+                  onDelete={handleDeleteTeamMessage}
+                  onToggleReaction={handleToggleReaction}
+                  onOpenTask={handleOpenTask}
+                  canApplyToolCall={(call) => hasPermission(MENTOR_TOOL_PERMISSIONS[call.tool])}
+                  onResolveToolCall={handleResolveToolCall}
+                />
+                <HistorySearchDialog
+                  open={showHistorySearch}
+                  onOpenChange={setShowHistorySearch}
+                  members={members}
+                  channels={chatChannels(milestones, tasks, teamMessages)}
+                  onSearch={(query) => searchHistory(projectId, query)}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="mentor" className="space-y-6">
             <Card className="h-[600px] flex flex-col">
               <CardHeader>
@@ -2118,14 +3684,22 @@ export default function ProjectPage() {
               <CardContent className="flex-1 flex flex-col overflow-hidden">
                 <ScrollArea className="flex-1 pr-4">
                   <div className="space-y-4">
-                    {messages.length === 0 && (
+                    {hasOlderMessages && (
+                      <div className="text-center">
+                        <Button variant="ghost" size="sm" onClick={handleLoadOlderMessages} disabled={isLoadingOlderMessages}>
+                          {isLoadingOlderMessages && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                          Load older messages
+                        </Button>
+                      </div>
+                    )}
+                    {mentorMessages.length === 0 && (
                       <div className="text-center text-muted-foreground py-8">
                         <MessageCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
                         <p>Start a conversation with your AI mentor</p>
                         <p className="text-sm mt-2">Ask about priorities, technical challenges, or pitch preparation</p>
                       </div>
                     )}
-                    {messages.map((msg) => (
+                    {mentorMessages.map((msg) => (
                       <div
                         key={msg.message_id}
                         className={`flex ${msg.sender_type === "user" ? "justify-end" : "justify-start"}`}
@@ -2134,33 +3708,70 @@ export default function ProjectPage() {
                           className={`max-w-[80%] rounded-lg px-4 py-2 ${msg.sender_type === "user" ? "bg-primary text-primary-foreground" : "bg-muted"
                             }`}
                         >
-                          <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                          {msg.sender_type === "ai" ? (
+                            <div className="space-y-2">
+                              <div className="prose prose-sm dark:prose-invert max-w-none text-sm">
+                                <ReactMarkdown>{msg.content}</ReactMarkdown>
+                              </div>
+                              {msg.tool_calls?.map((call) => (
+                                <MentorToolCard
+                                  key={call.call_id}
+                                  call={call}
+                                  canApply={hasPermission(MENTOR_TOOL_PERMISSIONS[call.tool]) && !msg.message_id.startsWith("temp-")}
+                                  resolverName={members.find((m) => m.user_id === call.resolved_by)?.name}
+                                  onApply={() => handleResolveToolCall(msg, call, true)}
+                                  onDismiss={() => handleResolveToolCall(msg, call, false)}
+                                />
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                          )}
                         </div>
                       </div>
                     ))}
+                    {streamingReply !== null && (
+                      <div className="flex justify-start">
+                        <div className="max-w-[80%] rounded-lg px-4 py-2 bg-muted">
+                          {streamingReply ? (
+                            <div className="prose prose-sm dark:prose-invert max-w-none text-sm">
+                              <ReactMarkdown>{stripToolBlocks(streamingReply)}</ReactMarkdown>
+                            </div>
+                          ) : (
+                            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                          )}
+                        </div>
+                      </div>
+                    )}
                     <div ref={messagesEndRef} />
                   </div>
                 </ScrollArea>
+                <TypingIndicator names={typingNames[MENTOR_TYPING_KEY]} />
                 <div className="flex gap-2 pt-4 border-t">
-                  <Input
-                    placeholder="Ask your AI mentor anything..."
+                  <SlashCommandInput
+                    placeholder="Ask your AI mentor anything, or type / for commands..."
                     value={chatInput}
-                    onChange={(e) => setChatInput(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSendMessage()}
-                    disabled={isSendingMessage || retryState.isRetrying}
+                    onChange={(value) => {
+                      setChatInput(value)
+                      setTyping(value.trim() ? MENTOR_TYPING_KEY : null)
+                    }}
+                    onSubmit={() => handleSendMessage()}
+                    disabled={isSendingMessage || retryState.isRetrying || !hasPermission("chat:send")}
+                    members={members}
+                    tasks={tasks}
                   />
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={!chatInput.trim() || isSendingMessage || retryState.isRetrying}
-                  >
-                    {isSendingMessage ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : retryState.isRetrying ? (
-                      <Clock className="h-4 w-4" />
-                    ) : (
-                      <Send className="h-4 w-4" />
-                    )}
-                  </Button>
+                  {isSendingMessage ? (
+                    <Button variant="outline" onClick={handleCancelMentorReply} title="Stop generating">
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => handleSendMessage()}
+                      disabled={!chatInput.trim() || retryState.isRetrying}
+                    >
+                      {retryState.isRetrying ? <Clock className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -2198,16 +3809,25 @@ export default function ProjectPage() {
                       members.map((member, i) => (
                         <div key={`${member.user_id}-${i}`} className="flex items-center justify-between p-4 border rounded-lg">
                           <div className="flex items-center gap-3">
-                            <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center font-bold text-primary text-lg">
+                            <div className="relative h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center font-bold text-primary text-lg">
                               {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                              <span
+                                className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-background ${PRESENCE_COLORS[presenceStatus(presenceByUser.get(member.user_id), presenceNow)]}`}
+                              />
                             </div>
                             <div>
                               <p className="font-medium">{member.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {member.user_id === user?.uid ? "You" : presenceLabel(presenceByUser.get(member.user_id), presenceNow)}
+                              </p>
                               <p className="text-sm text-muted-foreground">{member.email}</p>
                               <div className="flex items-center gap-2 mt-1">
                                 <Badge variant="outline" className="text-xs">
                                   {member.role || "Member"}
                                 </Badge>
+                                <Badge variant={getMemberRole(member.user_id) === "viewer" ? "secondary" : "default"} className="text-xs">
+                                  {ROLE_LABELS[getMemberRole(member.user_id)]}
+                                </Badge>
                                 <div className="flex items-center gap-1">
                                   <div className={`h-2 w-2 rounded-full ${member.availability === "available" ? "bg-green-500" :
                                     member.availability === "busy" ? "bg-yellow-500" : "bg-red-500"
@@ -2227,7 +3847,24 @@ export default function ProjectPage() {
                                 </a>
                               </Button>
                             )}
-                            {project.created_by === user?.uid && member.user_id !== user?.uid && (
+                            {member.user_id !== user?.uid && canManageMember(currentRole, getMemberRole(member.user_id)) && (
+                              <Select
+                                value={getMemberRole(member.user_id)}
+                                onValueChange={(value) => handleChangeRole(member, value as ProjectRole)}
+                              >
+                                <SelectTrigger className="h-8 w-28 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {assignableRoles(currentRole).map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {ROLE_LABELS[role]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            {member.user_id !== user?.uid && hasPermission("member:remove") && canManageMember(currentRole, getMemberRole(member.user_id)) && (
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -2267,6 +3904,7 @@ export default function ProjectPage() {
                         placeholder="https://github.com/user/repo"
                         value={project.github_repo || ""}
                         onChange={(e) => handleUpdateProjectUrls({ github_repo: e.target.value })}
+                        disabled={!hasPermission("settings:edit")}
                       />
                     </div>
                   </div>
@@ -2278,7 +3916,56 @@ export default function ProjectPage() {
                         placeholder="https://your-demo.com"
                         value={project.demo_url || ""}
                         onChange={(e) => handleUpdateProjectUrls({ demo_url: e.target.value })}
+                        disabled={!hasPermission("settings:edit")}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Pitch Deck</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="https://slides.example.com/your-deck"
+                        value={project.pitch_deck_url || ""}
+                        onChange={(e) => handleUpdateProjectUrls({ pitch_deck_url: e.target.value })}
+                        disabled={!hasPermission("settings:edit")}
                       />
+                      <Button variant="outline" onClick={() => router.push(`/project/${projectId}/pitch`)}>
+                        <Presentation className="h-4 w-4 mr-2" />
+                        Editor
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Submission Deadline</Label>
+                    <Input
+                      type="datetime-local"
+                      value={project.submission_deadline ? format(new Date(project.submission_deadline), "yyyy-MM-dd'T'HH:mm") : ""}
+                      onChange={(e) => handleUpdateSubmissionDeadline(e.target.value)}
+                      disabled={!hasPermission("settings:edit")}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Timers and milestones run until this time instead of the{" "}
+                      {hackathonEvent ? "event's end" : `${project.duration} default`}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Hackathon Event</Label>
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-muted-foreground truncate">
+                        {hackathonEvent
+                          ? `${hackathonEvent.name} · up to ${hackathonEvent.max_team_size} members`
+                          : "Not registered for an event"}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => router.push(hackathonEvent ? `/events/${hackathonEvent.event_id}` : "/events")}
+                      >
+                        {hackathonEvent ? "View Event" : "Browse Events"}
+                      </Button>
                     </div>
                   </div>
 
@@ -2354,6 +4041,16 @@ export default function ProjectPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              {canViewAIUsage && (
+                <AIUsageCard
+                  records={aiUsage}
+                  members={members}
+                  period={aiUsagePeriod}
+                  onPeriodChange={setAIUsagePeriod}
+                  recording={getStoreBackend() === "firestore"}
+                />
+              )}
             </div>
 
             {/* Shared Resources */}
@@ -2366,7 +4063,7 @@ export default function ProjectPage() {
                   </div>
                   <Dialog open={resourceDialogOpen} onOpenChange={handleResourceDialogClose}>
                     <DialogTrigger asChild>
-                      <Button size="sm">
+                      <Button size="sm" disabled={!hasPermission("resource:create")}>
                         <Plus className="mr-2 h-4 w-4" />
                         Add Resource
                       </Button>
@@ -2470,7 +4167,7 @@ export default function ProjectPage() {
                   {resources.length > 0 ? (
                     resources.map((resource) => {
                       const uploader = members.find(m => m.user_id === resource.uploaded_by)
-                      const canDelete = resource.uploaded_by === user?.uid
+                      const canDelete = user ? canDeleteResource(currentRole, resource, user.uid, pastDeadline) : false
 
                       return (
                         <Card key={resource.resource_id} className="relative">
@@ -2610,13 +4307,34 @@ function TaskCard({
   onDelete,
   onAssign,
   members,
+  readOnly = false,
+  blockers = [],
+  onCriticalPath = false,
+  onEditDependencies,
+  onBreakdown,
+  isBreakingDown = false,
+  onUpdateSubtasks,
+  highlighted = false,
+  viewers = [],
+  onToggleSubtasks,
 }: {
   task: Task
   onStatusChange: (id: string, status: Task["status"]) => void
   onDelete: (id: string) => void
   onAssign: (id: string, assignedTo: string | null) => void
   members: ProjectMember[]
+  readOnly?: boolean
+  blockers?: Task[]
+  onCriticalPath?: boolean
+  onEditDependencies?: (task: Task) => void
+  onBreakdown?: (task: Task) => void
+  isBreakingDown?: boolean
+  onUpdateSubtasks?: (taskId: string, subtasks: Subtask[]) => void
+  highlighted?: boolean
+  viewers?: string[] // teammates who have this task open
+  onToggleSubtasks?: (taskId: string, open: boolean) => void
 }) {
+  const [showSubtasks, setShowSubtasks] = useState(false)
   const {
     attributes,
     listeners,
@@ -2626,6 +4344,7 @@ function TaskCard({
     isDragging,
   } = useSortable({
     id: task.task_id,
+    disabled: readOnly,
     transition: {
       duration: 100, // Ultra-fast transition
       easing: 'cubic-bezier(0.34, 1.56, 0.64, 1)', // Bouncy smooth easing
@@ -2651,19 +4370,53 @@ function TaskCard({
   }
 
   const assignedMember = members.find(m => m.user_id === task.assigned_to)
+  const subtasks = task.subtasks ?? []
+  const progress = subtaskProgress(task)
+
+  const toggleSubtask = (subtaskId: string) => {
+    onUpdateSubtasks?.(task.task_id, subtasks.map((s) => (s.subtask_id === subtaskId ? { ...s, done: !s.done } : s)))
+  }
 
   return (
     <div
       ref={setNodeRef}
+      id={`task-${task.task_id}`}
       style={style}
       {...attributes}
       {...listeners}
-      className={`p-3 bg-background border rounded-lg space-y-2 cursor-grab active:cursor-grabbing select-none ${isDragging ? "opacity-70 shadow-2xl scale-110 z-50 rotate-3 ring-2 ring-primary/50" : "hover:shadow-lg hover:scale-[1.02]"
+      className={`p-3 bg-background border rounded-lg space-y-2 cursor-grab active:cursor-grabbing select-none ${onCriticalPath ? "border-amber-500/70 ring-1 ring-amber-500/40" : ""} ${highlighted ? "ring-2 ring-primary" : ""} ${isDragging ? "opacity-70 shadow-2xl scale-110 z-50 rotate-3 ring-2 ring-primary/50" : "hover:shadow-lg hover:scale-[1.02]"
         } transition-all duration-100 ease-out will-change-transform`}
     >
       <div className="flex items-start justify-between gap-2">
         <p className="text-sm font-medium flex-1 pointer-events-none">{task.title}</p>
-        <Button
+        {!readOnly && onEditDependencies && <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 pointer-events-auto opacity-60 hover:opacity-100 transition-opacity duration-100"
+          title="Edit dependencies"
+          onClick={(e) => {
+            e.stopPropagation()
+            e.preventDefault()
+            onEditDependencies(task)
+          }}
+        >
+          <Link className="h-3 w-3" />
+        </Button>}
+        {!readOnly && onBreakdown && subtasks.length === 0 && <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 pointer-events-auto opacity-60 hover:opacity-100 transition-opacity duration-100"
+          title="Break down with AI"
+          disabled={isBreakingDown}
+          onClick={(e) => {
+            e.stopPropagation()
+            e.preventDefault()
+            onBreakdown(task)
+          }}
+        >
+          {isBreakingDown ? <Loader2 className="h-3 w-3 animate-spin" /> : <ListTree className="h-3 w-3" />}
+        </Button>}
+        {!readOnly && <Button
           variant="ghost"
           size="icon"
           className="h-6 w-6 shrink-0 pointer-events-auto opacity-60 hover:opacity-100 transition-opacity duration-100"
@@ -2674,13 +4427,107 @@ function TaskCard({
           }}
         >
           <Trash2 className="h-3 w-3" />
-        </Button>
+        </Button>}
       </div>
 
       {task.description && (
         <p className="text-xs text-muted-foreground pointer-events-none">{task.description}</p>
       )}
 
+      {progress && (
+        <div className="space-y-1">
+          <button
+            type="button"
+            className="w-full flex items-center justify-between text-xs text-muted-foreground pointer-events-auto hover:text-foreground"
+            onClick={(e) => {
+              e.stopPropagation()
+              e.preventDefault()
+              setShowSubtasks(!showSubtasks)
+              onToggleSubtasks?.(task.task_id, !showSubtasks)
+            }}
+          >
+            <span className="flex items-center gap-1">
+              <ListTree className="h-3 w-3" />
+              {progress.done}/{progress.total} subtasks
+            </span>
+            <span>{progress.doneMinutes}/{progress.totalMinutes} min · {progress.percent}%</span>
+          </button>
+          <div className="w-full bg-muted rounded-full h-1.5 pointer-events-none">
+            <div
+              className="bg-green-500 h-1.5 rounded-full transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          {showSubtasks && (
+            <div className="space-y-1 pt-1">
+              {subtasks.map((subtask) => {
+                const waitingOn = pendingSubtaskDependencies(subtask, subtasks)
+                const assignee = members.find((m) => m.user_id === subtask.assigned_to)
+                return (
+                  <label
+                    key={subtask.subtask_id}
+                    className="flex items-start gap-2 text-xs pointer-events-auto cursor-pointer"
+                    title={waitingOn.length ? `After: ${waitingOn.map((s) => s.title).join(", ")}` : undefined}
+                    onPointerDown={(e) => e.stopPropagation()}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-0.5"
+                      checked={subtask.done}
+                      disabled={readOnly || !onUpdateSubtasks}
+                      onChange={() => toggleSubtask(subtask.subtask_id)}
+                    />
+                    <span className={`flex-1 ${subtask.done ? "line-through text-muted-foreground" : ""} ${waitingOn.length && !subtask.done ? "text-muted-foreground" : ""}`}>
+                      {subtask.title}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">
+                      {subtask.estimate_minutes}m{assignee ? ` · ${assignee.name.split(" ")[0]}` : ""}
+                    </span>
+                  </label>
+                )
+              })}
+              {!readOnly && onUpdateSubtasks && (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:text-destructive pointer-events-auto"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onUpdateSubtasks(task.task_id, [])
+                  }}
+                >
+                  Clear subtasks
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {viewers.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground pointer-events-none" title={viewers.join(", ")}>
+          <Eye className="h-3 w-3" />
+          {viewers.length === 1 ? `${viewers[0]} is viewing` : `${viewers[0]} and ${viewers.length - 1} more are viewing`}
+        </p>
+      )}
+
+      {(blockers.length > 0 || onCriticalPath) && (
+        <div className="flex flex-wrap items-center gap-1 pointer-events-none">
+          {blockers.length > 0 && (
+            <Badge variant="outline" className="text-xs gap-1 border-red-500/40 text-red-600" title={blockers.map((b) => b.title).join(", ")}>
+              <Lock className="h-3 w-3" />
+              Blocked by {blockers.length}
+            </Badge>
+          )}
+          {onCriticalPath && (
+            <Badge variant="outline" className="text-xs gap-1 border-amber-500/40 text-amber-600">
+              <GitBranch className="h-3 w-3" />
+              Critical path
+            </Badge>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between gap-2">
         <div className="flex items-center gap-2">
           <Badge variant="secondary" className={`${effortColors[task.effort as keyof typeof effortColors] || ""} pointer-events-none transition-all duration-100 flex items-center gap-1`} title="Effort">
@@ -2700,6 +4547,7 @@ function TaskCard({
           onValueChange={(value) => {
             onStatusChange(task.task_id, value as Task["status"])
           }}
+          disabled={readOnly}
         >
           <SelectTrigger
             className="h-7 w-28 text-xs pointer-events-auto transition-all duration-100 hover:bg-accent"
@@ -2727,6 +4575,7 @@ function TaskCard({
             const assignedTo = value === "unassigned" ? null : value
             onAssign(task.task_id, assignedTo)
           }}
+          disabled={readOnly}
         >
           <SelectTrigger
             className="h-7 w-32 text-xs pointer-events-auto transition-all duration-100 hover:bg-accent"
@@ -0,0 +1,423 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useAuth } from "@/lib/auth-context"
+import {
+  addActivity,
+  getProjectMembers,
+  subscribeToProject,
+  subscribeToProjectRoles,
+  subscribeToResources,
+  subscribeToTasks,
+  updateProjectUrls,
+  updateResource,
+  uploadResource,
+} from "@/lib/firestore"
+import type { PitchDeck, PitchSlide, Project, ProjectMember, ProjectRole, SharedResource, Task } from "@/lib/types"
+import { type Permission, canBeforeDeadline, isPastDeadline, resolveRole } from "@/lib/permissions"
+import { PITCH_DECK_TAG, findPitchDeckResource, parsePitchDeck, pitchDeckToHTML, pitchDeckToPDF } from "@/lib/pitch"
+import { aiAuthHeaders } from "@/lib/ai-client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowDown, ArrowLeft, ArrowUp, Download, FileText, Loader2, Plus, Presentation, Save, Sparkles, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+const EMPTY_SLIDE: PitchSlide = { title: "New slide", bullets: [], notes: "" }
+
+function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export default function PitchDeckPage() {
+  const params = useParams()
+  const projectId = params.id as string
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [project, setProject] = useState<Project | null>(null)
+  const [isLoadingProject, setIsLoadingProject] = useState(true)
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [roles, setRoles] = useState<Record<string, ProjectRole>>({})
+  const [resources, setResources] = useState<SharedResource[]>([])
+
+  const [deck, setDeck] = useState<PitchDeck | null>(null)
+  const [selected, setSelected] = useState(0)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+    const unsubProject = subscribeToProject(projectId, async (p) => {
+      setProject(p)
+      setIsLoadingProject(false)
+      if (p) setMembers(await getProjectMembers(p.members))
+    })
+    const unsubTasks = subscribeToTasks(projectId, setTasks)
+    const unsubRoles = subscribeToProjectRoles(projectId, setRoles)
+    const unsubResources = subscribeToResources(projectId, setResources)
+    return () => {
+      unsubProject()
+      unsubTasks()
+      unsubRoles()
+      unsubResources()
+    }
+  }, [user, projectId])
+
+  const savedResource = findPitchDeckResource(resources)
+
+  // Show the saved deck until there are local edits, so a teammate's save doesn't clobber them
+  useEffect(() => {
+    if (isDirty) return
+    const saved = parsePitchDeck(savedResource?.content)
+    if (saved) setDeck(saved)
+  }, [savedResource?.content, isDirty])
+
+  if (loading || isLoadingProject) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (!project || !project.members.includes(user.uid)) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Only project members can open the pitch deck.</p>
+        <Button variant="outline" onClick={() => router.push("/dashboard")}>
+          Back to dashboard
+        </Button>
+      </div>
+    )
+  }
+
+  const role = resolveRole(project, user.uid, roles[user.uid])
+  const hasPermission = (permission: Permission) => canBeforeDeadline(role, permission, isPastDeadline(project, Date.now()))
+  const canEdit = hasPermission("resource:create")
+  const fileBase = project.name.replace(/[^a-z0-9]/gi, "_").toLowerCase() || "pitch"
+
+  const slide = deck?.slides[selected]
+
+  const editDeck = (update: (deck: PitchDeck) => PitchDeck) => {
+    setDeck((prev) => (prev ? update(prev) : prev))
+    setIsDirty(true)
+  }
+
+  const editSlide = (changes: Partial<PitchSlide>) =>
+    editDeck((d) => ({ ...d, slides: d.slides.map((s, i) => (i === selected ? { ...s, ...changes } : s)) }))
+
+  const moveSlide = (offset: number) => {
+    const target = selected + offset
+    if (!deck || target < 0 || target >= deck.slides.length) return
+    editDeck((d) => {
+      const slides = [...d.slides]
+      ;[slides[selected], slides[target]] = [slides[target], slides[selected]]
+      return { ...d, slides }
+    })
+    setSelected(target)
+  }
+
+  const addSlide = () => {
+    if (!deck) return
+    editDeck((d) => ({ ...d, slides: [...d.slides.slice(0, selected + 1), EMPTY_SLIDE, ...d.slides.slice(selected + 1)] }))
+    setSelected(selected + 1)
+  }
+
+  const removeSlide = () => {
+    if (!deck || deck.slides.length <= 1) return
+    editDeck((d) => ({ ...d, slides: d.slides.filter((_, i) => i !== selected) }))
+    setSelected(Math.max(0, selected - 1))
+  }
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    try {
+      const response = await fetch("/api/gemini", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await aiAuthHeaders(user)) },
+        body: JSON.stringify({
+          action: "generate_pitch",
+          projectId,
+          data: {
+            projectName: project.name,
+            analysis: project.idea ?? null,
+            completedTasks: tasks.filter((t) => t.status === "Done").map((t) => t.title),
+            demoUrl: project.demo_url || undefined,
+            team: members.map((m) => ({ name: m.name, skills: m.skills || [], role: m.role })),
+          },
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok || data.error) throw new Error(data.error || "Failed to generate the pitch deck")
+
+      const generated = parsePitchDeck(data.result)
+      if (!generated) throw new Error("AI returned invalid response format. Please try again.")
+
+      setDeck(generated)
+      setSelected(0)
+      setIsDirty(true)
+      toast(
+        data.fallback
+          ? {
+              title: "Placeholder deck created",
+              description: "The AI couldn't write the outline, so this deck is filled from your project plan.",
+              variant: "destructive",
+            }
+          : { title: "Pitch deck drafted!", description: "Review the slides, then save to share them." },
+      )
+    } catch (error: any) {
+      toast({ title: "Generation failed", description: error.message, variant: "destructive" })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Stored as a shared resource and, for those allowed to, linked as the project's pitch deck
+  const handleSave = async () => {
+    if (!deck) return
+    setIsSaving(true)
+    try {
+      const content = JSON.stringify(deck)
+      const name = `${deck.title} pitch deck`
+      if (savedResource) {
+        await updateResource(savedResource.resource_id, { name, content })
+      } else {
+        await uploadResource({
+          project_id: projectId,
+          name,
+          type: "document",
+          uploaded_by: user.uid,
+          tags: [PITCH_DECK_TAG],
+          content,
+          file_type: "application/json",
+        })
+      }
+
+      const pitchUrl = `${window.location.origin}/project/${projectId}/pitch`
+      // An existing link (e.g. to slides made elsewhere) is left alone
+      const link = !project.pitch_deck_url
+      if (link) await updateProjectUrls(projectId, { pitch_deck_url: pitchUrl })
+      const linked = link || project.pitch_deck_url === pitchUrl
+
+      await addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type: "file_upload",
+        description: savedResource ? "Updated the pitch deck" : "Created the pitch deck",
+      })
+
+      setIsDirty(false)
+      toast({
+        title: "Pitch deck saved!",
+        description: linked
+          ? "It's linked as the project's pitch deck."
+          : "It's in Shared Resources. The project already links another pitch deck, which an admin can change.",
+      })
+    } catch (error: any) {
+      toast({ title: "Failed to save", description: error.message, variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleExportPDF = async () => {
+    if (!deck) return
+    try {
+      downloadFile((await pitchDeckToPDF(deck)) as BlobPart, `${fileBase}_pitch.pdf`, "application/pdf")
+    } catch (error) {
+      console.error("PDF export failed:", error)
+      toast({ title: "Failed to export PDF", variant: "destructive" })
+    }
+  }
+
+  const handleExportHTML = () => {
+    if (!deck) return
+    downloadFile(pitchDeckToHTML(deck), `${fileBase}_pitch.html`, "text/html")
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => router.push(`/project/${projectId}`)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                <Presentation className="h-6 w-6 text-primary" />
+                Pitch Deck
+              </h1>
+              <p className="text-sm text-muted-foreground">{project.name}</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleGenerate} disabled={!canEdit || isGenerating}>
+              {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+              {deck ? "Regenerate" : "Generate with AI"}
+            </Button>
+            <Button variant="outline" onClick={handleExportPDF} disabled={!deck}>
+              <Download className="mr-2 h-4 w-4" />
+              PDF
+            </Button>
+            <Button variant="outline" onClick={handleExportHTML} disabled={!deck}>
+              <FileText className="mr-2 h-4 w-4" />
+              HTML slideshow
+            </Button>
+            <Button onClick={handleSave} disabled={!deck || !isDirty || !canEdit || isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {!deck ? (
+          <Card>
+            <CardContent className="py-16 text-center space-y-2">
+              <Presentation className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">No pitch deck yet</p>
+              <p className="text-sm text-muted-foreground">
+                Generate an outline from your idea analysis, finished tasks and demo link, then edit it here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[240px_1fr]">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Slides</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {deck.slides.map((s, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => setSelected(i)}
+                    className={`w-full text-left text-sm px-2 py-1.5 rounded-md truncate ${i === selected ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                  >
+                    {i + 1}. {s.title}
+                  </button>
+                ))}
+                {canEdit && (
+                  <div className="flex gap-1 pt-2">
+                    <Button size="icon" variant="outline" className="h-8 w-8" title="Add slide" onClick={addSlide}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" className="h-8 w-8" title="Move up" onClick={() => moveSlide(-1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" className="h-8 w-8" title="Move down" onClick={() => moveSlide(1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-8 w-8"
+                      title="Delete slide"
+                      onClick={removeSlide}
+                      disabled={deck.slides.length <= 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cover</CardTitle>
+                  <CardDescription>The first slide of every export</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Title</Label>
+                    <Input
+                      value={deck.title}
+                      disabled={!canEdit}
+                      onChange={(e) => editDeck((d) => ({ ...d, title: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Tagline</Label>
+                    <Input
+                      value={deck.tagline}
+                      disabled={!canEdit}
+                      onChange={(e) => editDeck((d) => ({ ...d, tagline: e.target.value }))}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {slide && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Slide {selected + 1}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="aspect-video rounded-lg bg-slate-900 text-slate-50 p-8 flex flex-col justify-center">
+                      <h2 className="text-2xl font-bold mb-4">{slide.title}</h2>
+                      <ul className="list-disc pl-6 space-y-1 text-lg">
+                        {slide.bullets.map((b, i) => (
+                          <li key={i}>{b}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Title</Label>
+                      <Input value={slide.title} disabled={!canEdit} onChange={(e) => editSlide({ title: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Bullets (one per line)</Label>
+                      <Textarea
+                        rows={5}
+                        value={slide.bullets.join("\n")}
+                        disabled={!canEdit}
+                        onChange={(e) => editSlide({ bullets: e.target.value.split("\n") })}
+                        onBlur={() => editSlide({ bullets: slide.bullets.map((b) => b.trim()).filter(Boolean) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Speaker notes</Label>
+                      <Textarea
+                        rows={3}
+                        value={slide.notes}
+                        disabled={!canEdit}
+                        onChange={(e) => editSlide({ notes: e.target.value })}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
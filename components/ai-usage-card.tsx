@@ -0,0 +1,171 @@
+"use client"
+
+import { useMemo } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Gauge } from "lucide-react"
+import { AIUsageRecord, ProjectMember } from "@/lib/types"
+
+export type AIUsagePeriod = "24h" | "7d"
+
+const RECENT_LIMIT = 10
+
+const OUTCOME_VARIANTS: Record<AIUsageRecord["outcome"], "default" | "secondary" | "destructive" | "outline"> = {
+    ok: "default",
+    fallback: "secondary",
+    cancelled: "outline",
+    error: "destructive",
+}
+
+interface UsageTotals {
+    key: string
+    requests: number
+    calls: number
+    chars: number
+}
+
+function totalsBy(records: AIUsageRecord[], keyOf: (record: AIUsageRecord) => string): UsageTotals[] {
+    const totals = new Map<string, UsageTotals>()
+    for (const record of records) {
+        const key = keyOf(record)
+        const entry = totals.get(key) ?? { key, requests: 0, calls: 0, chars: 0 }
+        entry.requests++
+        entry.calls += record.calls
+        entry.chars += record.prompt_chars + record.response_chars
+        totals.set(key, entry)
+    }
+    return [...totals.values()].sort((a, b) => b.chars - a.chars)
+}
+
+function formatChars(chars: number): string {
+    return chars >= 1000 ? `${(chars / 1000).toFixed(1)}k` : String(chars)
+}
+
+interface AIUsageCardProps {
+    records: AIUsageRecord[]
+    members: ProjectMember[]
+    period: AIUsagePeriod
+    onPeriodChange: (period: AIUsagePeriod) => void
+    /** False on the offline store backends, which have no usage records */
+    recording: boolean
+}
+
+export function AIUsageCard({ records, members, period, onPeriodChange, recording }: AIUsageCardProps) {
+    const memberName = (userId: string) => members.find((m) => m.user_id === userId)?.name || "Former member"
+
+    const byMember = useMemo(() => totalsBy(records, (r) => r.user_id), [records])
+    const byAction = useMemo(() => totalsBy(records, (r) => r.action), [records])
+    const totalChars = records.reduce((sum, r) => sum + r.prompt_chars + r.response_chars, 0)
+    const averageLatency = records.length
+        ? Math.round(records.reduce((sum, r) => sum + r.latency_ms, 0) / records.length)
+        : 0
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Gauge className="h-5 w-5 text-indigo-500" />
+                        AI Usage
+                    </div>
+                    <div className="flex gap-1">
+                        {(["24h", "7d"] as const).map((option) => (
+                            <Button
+                                key={option}
+                                size="sm"
+                                variant={period === option ? "default" : "outline"}
+                                onClick={() => onPeriodChange(option)}
+                            >
+                                {option}
+                            </Button>
+                        ))}
+                    </div>
+                </CardTitle>
+                <CardDescription>AI requests made for this project, by teammate and by feature</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!recording ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        Usage is only recorded with the Firestore backend
+                    </p>
+                ) : records.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No AI requests in the last {period}</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            <div className="rounded-lg border p-2">
+                                <div className="text-lg font-semibold">{records.length}</div>
+                                <div className="text-xs text-muted-foreground">Requests</div>
+                            </div>
+                            <div className="rounded-lg border p-2">
+                                <div className="text-lg font-semibold">{formatChars(totalChars)}</div>
+                                <div className="text-xs text-muted-foreground">Characters</div>
+                            </div>
+                            <div className="rounded-lg border p-2">
+                                <div className="text-lg font-semibold">{(averageLatency / 1000).toFixed(1)}s</div>
+                                <div className="text-xs text-muted-foreground">Avg latency</div>
+                            </div>
+                        </div>
+
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-1">
+                                <p className="text-sm font-medium">By teammate</p>
+                                {byMember.map((t) => (
+                                    <div key={t.key} className="flex justify-between text-sm">
+                                        <span className="truncate">{memberName(t.key)}</span>
+                                        <span className="text-muted-foreground">
+                                            {t.requests} req · {formatChars(t.chars)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="space-y-1">
+                                <p className="text-sm font-medium">By feature</p>
+                                {byAction.map((t) => (
+                                    <div key={t.key} className="flex justify-between text-sm">
+                                        <span className="truncate">{t.key}</span>
+                                        <span className="text-muted-foreground">
+                                            {t.calls} calls · {formatChars(t.chars)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>When</TableHead>
+                                    <TableHead>Who</TableHead>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead>Model</TableHead>
+                                    <TableHead className="text-right">Latency</TableHead>
+                                    <TableHead>Outcome</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {records.slice(0, RECENT_LIMIT).map((r) => (
+                                    <TableRow key={r.usage_id}>
+                                        <TableCell className="text-xs text-muted-foreground">
+                                            {formatDistanceToNow(r.created_at, { addSuffix: true })}
+                                        </TableCell>
+                                        <TableCell className="text-sm">{memberName(r.user_id)}</TableCell>
+                                        <TableCell className="text-sm">{r.action}</TableCell>
+                                        <TableCell className="text-xs text-muted-foreground max-w-[140px] truncate">{r.model}</TableCell>
+                                        <TableCell className="text-right text-sm">{(r.latency_ms / 1000).toFixed(1)}s</TableCell>
+                                        <TableCell>
+                                            <Badge variant={OUTCOME_VARIANTS[r.outcome]} className="text-xs">{r.outcome}</Badge>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
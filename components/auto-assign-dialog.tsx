@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Sparkles, UserPlus } from "lucide-react"
+import { AssignmentSuggestion } from "@/lib/auto-assign"
+import { ProjectMember, Task } from "@/lib/types"
+
+const UNASSIGNED = "unassigned"
+
+interface AutoAssignDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    plan: AssignmentSuggestion[]
+    tasks: Task[]
+    members: ProjectMember[]
+    isRanking: boolean
+    // Re-plans with the AI's skill ranking folded into the rule-based scores
+    onRankWithAI: () => Promise<void>
+    onApply: (assignments: { task_id: string; user_id: string }[]) => Promise<void>
+}
+
+export function AutoAssignDialog({
+    open,
+    onOpenChange,
+    plan,
+    tasks,
+    members,
+    isRanking,
+    onRankWithAI,
+    onApply,
+}: AutoAssignDialogProps) {
+    const [draft, setDraft] = useState<Record<string, string>>({})
+    const [isApplying, setIsApplying] = useState(false)
+
+    // Every new plan replaces any manual tweaks to the previous one
+    useEffect(() => {
+        setDraft(Object.fromEntries(plan.map((s) => [s.task_id, s.user_id ?? UNASSIGNED])))
+    }, [plan])
+
+    const assignments = Object.entries(draft)
+        .filter(([, userId]) => userId !== UNASSIGNED)
+        .map(([task_id, user_id]) => ({ task_id, user_id }))
+
+    const handleApply = async () => {
+        setIsApplying(true)
+        try {
+            await onApply(assignments)
+            onOpenChange(false)
+        } finally {
+            setIsApplying(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Auto-assign Tasks</DialogTitle>
+                    <DialogDescription>
+                        Suggested owners for unassigned tasks, balanced by awake time left and matched on skills.
+                        Change or clear any row before applying.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                    {plan.map((suggestion) => {
+                        const task = tasks.find((t) => t.task_id === suggestion.task_id)
+                        if (!task) return null
+                        return (
+                            <div key={suggestion.task_id} className="flex items-start gap-3 p-2 rounded-lg border">
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-medium truncate">{task.title}</span>
+                                        <Badge variant="outline" className="text-xs shrink-0">{task.priority}</Badge>
+                                        <Badge variant="secondary" className="text-xs shrink-0">{task.effort}</Badge>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">{suggestion.reasons.join(" · ")}</p>
+                                </div>
+                                <Select
+                                    value={draft[suggestion.task_id] ?? UNASSIGNED}
+                                    onValueChange={(value) => setDraft((prev) => ({ ...prev, [suggestion.task_id]: value }))}
+                                >
+                                    <SelectTrigger className="h-8 w-36 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={UNASSIGNED}>Leave unassigned</SelectItem>
+                                        {members.map((m) => (
+                                            <SelectItem key={m.user_id} value={m.user_id}>
+                                                {m.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )
+                    })}
+                </div>
+                <DialogFooter className="gap-2">
+                    <Button variant="outline" onClick={onRankWithAI} disabled={isRanking || isApplying}>
+                        {isRanking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                        Refine with AI
+                    </Button>
+                    <Button onClick={handleApply} disabled={assignments.length === 0 || isApplying || isRanking}>
+                        {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                        Apply {assignments.length} assignment{assignments.length === 1 ? "" : "s"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
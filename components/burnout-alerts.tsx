@@ -0,0 +1,45 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { HeartPulse, Moon } from "lucide-react"
+import { BurnoutWarning } from "@/lib/wellness"
+
+interface BurnoutAlertsProps {
+    warnings: BurnoutWarning[]
+}
+
+export function BurnoutAlerts({ warnings }: BurnoutAlertsProps) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <HeartPulse className="h-5 w-5 text-rose-500" />
+                    Burnout Watch
+                </CardTitle>
+                <CardDescription>Teammates still active during their sleep window in the last 24h</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {warnings.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">Everyone is keeping healthy hours 🌙</p>
+                ) : (
+                    <div className="space-y-2">
+                        {warnings.map(({ member, lateActions, lastSeen }) => (
+                            <div key={member.user_id} className="flex items-center gap-3 p-2 rounded-lg border border-rose-200 bg-rose-50/50">
+                                <Moon className="h-4 w-4 text-rose-500" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium truncate">{member.name}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                        Last active {formatDistanceToNow(lastSeen, { addSuffix: true })}
+                                    </div>
+                                </div>
+                                <Badge variant="destructive" className="text-xs">{lateActions} late actions</Badge>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
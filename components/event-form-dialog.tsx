@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { HackathonEvent } from "@/lib/types"
+
+export type EventDraft = Pick<
+    HackathonEvent,
+    "name" | "description" | "theme" | "start_date" | "end_date" | "max_team_size" | "prizes" | "rules"
+>
+
+interface EventFormDialogProps {
+    trigger: React.ReactNode
+    title: string
+    initial?: EventDraft
+    onSubmit: (draft: EventDraft) => Promise<void>
+}
+
+const toInput = (date: Date) => format(new Date(date), "yyyy-MM-dd'T'HH:mm")
+
+// One prize or rule per line
+const toLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean)
+
+export function EventFormDialog({ trigger, title, initial, onSubmit }: EventFormDialogProps) {
+    const [open, setOpen] = useState(false)
+    const [name, setName] = useState("")
+    const [description, setDescription] = useState("")
+    const [theme, setTheme] = useState("")
+    const [start, setStart] = useState("")
+    const [end, setEnd] = useState("")
+    const [maxTeamSize, setMaxTeamSize] = useState("4")
+    const [prizes, setPrizes] = useState("")
+    const [rules, setRules] = useState("")
+    const [isSaving, setIsSaving] = useState(false)
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next)
+        if (!next) return
+        const startDate = initial?.start_date ?? new Date(Date.now() + 24 * 60 * 60 * 1000)
+        setName(initial?.name ?? "")
+        setDescription(initial?.description ?? "")
+        setTheme(initial?.theme ?? "")
+        setStart(toInput(startDate))
+        setEnd(toInput(initial?.end_date ?? new Date(new Date(startDate).getTime() + 48 * 60 * 60 * 1000)))
+        setMaxTeamSize(String(initial?.max_team_size ?? 4))
+        setPrizes(initial?.prizes.join("\n") ?? "")
+        setRules(initial?.rules.join("\n") ?? "")
+    }
+
+    const startDate = new Date(start)
+    const endDate = new Date(end)
+    const teamSize = parseInt(maxTeamSize, 10)
+    const validationError = !name.trim()
+        ? "Name is required"
+        : isNaN(startDate.getTime()) || isNaN(endDate.getTime())
+            ? "Pick a start and end date"
+            : endDate <= startDate
+                ? "The event must end after it starts"
+                : !(teamSize >= 1)
+                    ? "Teams need room for at least one member"
+                    : null
+
+    const handleSubmit = async () => {
+        if (validationError) return
+        setIsSaving(true)
+        try {
+            await onSubmit({
+                name: name.trim(),
+                description: description.trim(),
+                theme: theme.trim(),
+                start_date: startDate,
+                end_date: endDate,
+                max_team_size: teamSize,
+                prizes: toLines(prizes),
+                rules: toLines(rules),
+            })
+            setOpen(false)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>Registered teams run their timers and milestones on these dates</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="event-name">Name</Label>
+                        <Input id="event-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Spring Hack 2026" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="event-theme">Theme</Label>
+                        <Input id="event-theme" value={theme} onChange={(e) => setTheme(e.target.value)} placeholder="AI for good" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="event-description">Description</Label>
+                        <Textarea id="event-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Starts</Label>
+                            <Input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Ends</Label>
+                            <Input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} />
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="event-team-size">Max team size</Label>
+                        <Input
+                            id="event-team-size"
+                            type="number"
+                            min={1}
+                            value={maxTeamSize}
+                            onChange={(e) => setMaxTeamSize(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="event-prizes">Prizes (one per line)</Label>
+                        <Textarea id="event-prizes" value={prizes} onChange={(e) => setPrizes(e.target.value)} rows={3} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="event-rules">Rules (one per line)</Label>
+                        <Textarea id="event-rules" value={rules} onChange={(e) => setRules(e.target.value)} rows={3} />
+                    </div>
+                    {validationError && name && <p className="text-sm text-destructive">{validationError}</p>}
+                    <Button onClick={handleSubmit} disabled={!!validationError || isSaving} className="w-full">
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : title}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Search } from "lucide-react"
+import { ChatChannel } from "@/lib/chat"
+import { HistorySearchHit, HistorySearchQuery, ProjectMember } from "@/lib/types"
+
+const ANYONE = "anyone"
+const ANY_AUTHOR = "any"
+
+interface HistorySearchDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    members: ProjectMember[]
+    channels: ChatChannel[]
+    onSearch: (query: HistorySearchQuery) => Promise<HistorySearchHit[]>
+}
+
+// Bolds the query's words in a result snippet
+function highlight(text: string, query: string) {
+    const words = query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((w) => w.length >= 2)
+        .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    if (words.length === 0) return text
+    const pattern = new RegExp(`(${words.join("|")})`, "gi")
+    return text.split(pattern).map((part, i) => (i % 2 === 1 ? <mark key={i}>{part}</mark> : part))
+}
+
+export function HistorySearchDialog({ open, onOpenChange, members, channels, onSearch }: HistorySearchDialogProps) {
+    const [text, setText] = useState("")
+    const [sender, setSender] = useState(ANYONE)
+    const [authorType, setAuthorType] = useState(ANY_AUTHOR)
+    const [from, setFrom] = useState("")
+    const [to, setTo] = useState("")
+    const [includeNotes, setIncludeNotes] = useState(true)
+    const [results, setResults] = useState<HistorySearchHit[] | null>(null)
+    const [isSearching, setIsSearching] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const memberName = (id: string) => members.find((m) => m.user_id === id)?.name || "Former member"
+    const channelName = (id?: string) => (id ? `#${channels.find((c) => c.channel_id === id)?.name ?? "archived"}` : "Mentor")
+
+    const handleSearch = async () => {
+        if (text.trim().length < 2) return
+        setIsSearching(true)
+        setError(null)
+        try {
+            setResults(
+                await onSearch({
+                    text: text.trim(),
+                    sender: sender === ANYONE ? undefined : sender,
+                    author_type: authorType === ANY_AUTHOR ? undefined : (authorType as "user" | "ai"),
+                    from: from ? new Date(`${from}T00:00:00`) : undefined,
+                    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+                    include_notes: includeNotes,
+                }),
+            )
+        } catch (err: any) {
+            setError(err.message || "Search failed")
+        } finally {
+            setIsSearching(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Search History</DialogTitle>
+                    <DialogDescription>
+                        Find messages from team chat and the mentor, and shared notes. Every word has to match.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-3">
+                    <div className="flex gap-2">
+                        <Input
+                            autoFocus
+                            placeholder="Search words..."
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                        />
+                        <Button onClick={handleSearch} disabled={isSearching || text.trim().length < 2}>
+                            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                        </Button>
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-4">
+                        <div className="space-y-1">
+                            <Label className="text-xs">From</Label>
+                            <Select value={sender} onValueChange={setSender}>
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANYONE}>Anyone</SelectItem>
+                                    {members.map((m) => (
+                                        <SelectItem key={m.user_id} value={m.user_id}>
+                                            {m.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Written by</Label>
+                            <Select value={authorType} onValueChange={setAuthorType} disabled={sender !== ANYONE}>
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY_AUTHOR}>Humans and AI</SelectItem>
+                                    <SelectItem value="user">Humans only</SelectItem>
+                                    <SelectItem value="ai">AI only</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">After</Label>
+                            <Input type="date" className="h-8 text-xs" value={from} onChange={(e) => setFrom(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Before</Label>
+                            <Input type="date" className="h-8 text-xs" value={to} onChange={(e) => setTo(e.target.value)} />
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Switch id="search-notes" checked={includeNotes} onCheckedChange={setIncludeNotes} />
+                        <Label htmlFor="search-notes" className="text-sm">
+                            Include shared notes
+                        </Label>
+                    </div>
+                </div>
+                <div className="space-y-2 max-h-[45vh] overflow-y-auto pr-1">
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    {results?.length === 0 && <p className="text-sm text-center text-muted-foreground py-6">No matches</p>}
+                    {results?.map((hit) =>
+                        hit.kind === "message" ? (
+                            <div key={hit.message.message_id} className="p-2 rounded-lg border space-y-1">
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                    <span className="font-medium text-foreground">
+                                        {hit.message.sender_type === "ai"
+                                            ? "AI Mentor"
+                                            : hit.message.sender_type === "system"
+                                              ? "HackMate"
+                                              : memberName(hit.message.sender)}
+                                    </span>
+                                    <Badge variant="outline" className="text-xs">
+                                        {channelName(hit.message.channel_id)}
+                                    </Badge>
+                                    <span>{format(new Date(hit.message.timestamp), "MMM d, HH:mm")}</span>
+                                </div>
+                                <p className="text-sm whitespace-pre-wrap line-clamp-3">{highlight(hit.message.content, text)}</p>
+                            </div>
+                        ) : (
+                            <div key={hit.resource.resource_id} className="p-2 rounded-lg border space-y-1">
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                    <span className="font-medium text-foreground">{hit.resource.name}</span>
+                                    <Badge variant="secondary" className="text-xs">
+                                        Note
+                                    </Badge>
+                                    <span>
+                                        {memberName(hit.resource.uploaded_by)} · {format(new Date(hit.resource.created_at), "MMM d, HH:mm")}
+                                    </span>
+                                </div>
+                                <p className="text-sm whitespace-pre-wrap line-clamp-3">{highlight(hit.resource.content ?? "", text)}</p>
+                            </div>
+                        ),
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
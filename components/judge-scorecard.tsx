@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, ShieldAlert } from "lucide-react"
+import { weightedScore } from "@/lib/judging"
+import { JudgeScore, RubricCriterion } from "@/lib/types"
+
+interface JudgeScorecardProps {
+    rubric: RubricCriterion[]
+    existing?: JudgeScore
+    disabled?: boolean
+    onSave: (scores: Record<string, number>, comment: string) => Promise<void>
+    onRecuse: () => Promise<void>
+}
+
+export function JudgeScorecard({ rubric, existing, disabled, onSave, onRecuse }: JudgeScorecardProps) {
+    const [scores, setScores] = useState<Record<string, number>>({})
+    const [comment, setComment] = useState("")
+    const [isSaving, setIsSaving] = useState(false)
+
+    // Start every project from the judge's saved card, or the middle of each scale.
+    // Keyed on the save time so other judges' snapshots don't wipe unsaved edits.
+    const savedAt = existing ? new Date(existing.updated_at).getTime() : 0
+    useEffect(() => {
+        setScores(
+            Object.fromEntries(
+                rubric.map((c) => [c.criterion_id, existing?.scores[c.criterion_id] ?? Math.round(c.max_score / 2)])
+            )
+        )
+        setComment(existing?.comment ?? "")
+    }, [existing?.score_id, savedAt, rubric])
+
+    const run = async (action: () => Promise<void>) => {
+        setIsSaving(true)
+        try {
+            await action()
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-5">
+            {rubric.map((criterion) => (
+                <div key={criterion.criterion_id} className="space-y-2">
+                    <div className="flex items-baseline justify-between gap-2">
+                        <Label>{criterion.name}</Label>
+                        <span className="text-sm font-medium">
+                            {scores[criterion.criterion_id] ?? 0} / {criterion.max_score}
+                        </span>
+                    </div>
+                    {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+                    <Slider
+                        min={0}
+                        max={criterion.max_score}
+                        step={1}
+                        value={[scores[criterion.criterion_id] ?? 0]}
+                        disabled={disabled}
+                        onValueChange={([value]) => setScores((prev) => ({ ...prev, [criterion.criterion_id]: value }))}
+                    />
+                </div>
+            ))}
+            <div className="space-y-2">
+                <Label>Feedback for the team (optional)</Label>
+                <Textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={3} disabled={disabled} />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">
+                    Weighted: {Math.round(weightedScore(rubric, scores) * 100)}%
+                </span>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={disabled || isSaving} onClick={() => run(onRecuse)}>
+                        <ShieldAlert className="h-4 w-4 mr-2" />
+                        Declare Conflict
+                    </Button>
+                    <Button size="sm" disabled={disabled || isSaving} onClick={() => run(() => onSave(scores, comment.trim()))}>
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : existing && !existing.recused ? "Update Score" : "Save & Next"}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    )
+}
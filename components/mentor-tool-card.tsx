@@ -0,0 +1,77 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Check, Flag, Loader2, StickyNote, UserPlus, Wand2, X } from "lucide-react"
+import { describeToolCall } from "@/lib/ai/mentor-tools"
+import { MentorToolCall, MentorToolName } from "@/lib/types"
+
+const TOOL_ICONS: Record<MentorToolName, typeof Wand2> = {
+    create_task: Wand2,
+    update_task: Wand2,
+    assign_task: UserPlus,
+    add_milestone: Flag,
+    post_note: StickyNote,
+}
+
+const STATUS_LABELS: Record<"applying" | "applied" | "dismissed", string> = {
+    applying: "Being applied",
+    applied: "Applied",
+    dismissed: "Dismissed",
+}
+
+interface MentorToolCardProps {
+    call: MentorToolCall
+    canApply: boolean
+    resolverName?: string
+    onApply: () => Promise<void>
+    onDismiss: () => Promise<void>
+}
+
+export function MentorToolCard({ call, canApply, resolverName, onApply, onDismiss }: MentorToolCardProps) {
+    const [isWorking, setIsWorking] = useState(false)
+    const Icon = TOOL_ICONS[call.tool]
+
+    const run = async (action: () => Promise<void>) => {
+        setIsWorking(true)
+        try {
+            await action()
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    return (
+        <div className="rounded-md border bg-background p-3 text-sm space-y-2">
+            <div className="flex items-start gap-2">
+                <Icon className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <p className="font-medium">{describeToolCall(call)}</p>
+                    {call.tool === "post_note" && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{call.args.content}</p>
+                    )}
+                    {call.error && <p className="text-xs text-destructive">{call.error}</p>}
+                </div>
+            </div>
+            {/* A failed call keeps its buttons so it can be retried once the cause is fixed */}
+            {call.status === "pending" || call.status === "failed" ? (
+                <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" disabled={!canApply || isWorking} onClick={() => run(onDismiss)}>
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                    </Button>
+                    <Button size="sm" disabled={!canApply || isWorking} onClick={() => run(onApply)}>
+                        {isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                        Apply
+                    </Button>
+                </div>
+            ) : (
+                <Badge variant={call.status === "applied" ? "default" : "secondary"}>
+                    {STATUS_LABELS[call.status]}
+                    {resolverName && ` by ${resolverName}`}
+                </Badge>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { CheckCircle2, Flag, Link, Loader2, Plus, Trash2 } from "lucide-react"
+import { MilestoneStatus, ResolvedMilestone } from "@/lib/milestones"
+import { Milestone, Task } from "@/lib/types"
+
+const statusStyles: Record<MilestoneStatus, { label: string; badge: string; dot: string }> = {
+    upcoming: { label: "Upcoming", badge: "bg-slate-500/10 text-slate-600", dot: "bg-slate-400" },
+    active: { label: "Active", badge: "bg-blue-500/10 text-blue-600", dot: "bg-blue-500" },
+    completed: { label: "Completed", badge: "bg-green-500/10 text-green-600", dot: "bg-green-500" },
+    overdue: { label: "Overdue", badge: "bg-red-500/10 text-red-600", dot: "bg-red-500" },
+}
+
+interface MilestonesBoardProps {
+    milestones: ResolvedMilestone[]
+    tasks: Task[]
+    windowStart: Date
+    windowEnd: Date
+    now: number
+    canEdit: boolean
+    onCreate: (milestone: Pick<Milestone, "name" | "description" | "deadline">) => Promise<void>
+    onDelete: (milestoneId: string) => Promise<void>
+    onToggleComplete: (milestone: Milestone, completed: boolean) => Promise<void>
+    onLinkTasks: (milestoneId: string, taskIds: string[]) => Promise<void>
+}
+
+export function MilestonesBoard({
+    milestones,
+    tasks,
+    windowStart,
+    windowEnd,
+    now,
+    canEdit,
+    onCreate,
+    onDelete,
+    onToggleComplete,
+    onLinkTasks,
+}: MilestonesBoardProps) {
+    // New milestone form
+    const [createOpen, setCreateOpen] = useState(false)
+    const [name, setName] = useState("")
+    const [description, setDescription] = useState("")
+    const [deadlineInput, setDeadlineInput] = useState("")
+    const [isSaving, setIsSaving] = useState(false)
+
+    // Task linking
+    const [linking, setLinking] = useState<ResolvedMilestone | null>(null)
+    const [linkDraft, setLinkDraft] = useState<string[]>([])
+
+    const startMs = windowStart.getTime()
+    const span = Math.max(windowEnd.getTime() - startMs, 1)
+    const position = (time: number) => Math.min(Math.max(((time - startMs) / span) * 100, 0), 100)
+
+    const openCreate = (open: boolean) => {
+        setCreateOpen(open)
+        if (open) setDeadlineInput(format(new Date(Math.max(now, startMs) + 60 * 60 * 1000), "yyyy-MM-dd'T'HH:mm"))
+    }
+
+    const handleCreate = async () => {
+        const deadline = new Date(deadlineInput)
+        if (!name.trim() || isNaN(deadline.getTime())) return
+        setIsSaving(true)
+        try {
+            await onCreate({ name: name.trim(), description: description.trim(), deadline })
+            setName("")
+            setDescription("")
+            setCreateOpen(false)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const openLinking = (entry: ResolvedMilestone) => {
+        setLinking(entry)
+        setLinkDraft(entry.tasks.map((t) => t.task_id))
+    }
+
+    const handleLink = async () => {
+        if (!linking) return
+        setIsSaving(true)
+        try {
+            await onLinkTasks(linking.milestone.milestone_id, linkDraft)
+            setLinking(null)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                        <div>
+                            <CardTitle className="flex items-center gap-2">
+                                <Flag className="h-5 w-5 text-primary" />
+                                Milestones
+                            </CardTitle>
+                            <CardDescription>
+                                {format(windowStart, "MMM d, HH:mm")} → {format(windowEnd, "MMM d, HH:mm")}
+                            </CardDescription>
+                        </div>
+                        <Dialog open={createOpen} onOpenChange={openCreate}>
+                            <DialogTrigger asChild>
+                                <Button size="sm" disabled={!canEdit}>
+                                    <Plus className="mr-2 h-4 w-4" />
+                                    Add Milestone
+                                </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                                <DialogHeader>
+                                    <DialogTitle>Add Milestone</DialogTitle>
+                                    <DialogDescription>Custom checkpoints keep the fixed deadline you pick</DialogDescription>
+                                </DialogHeader>
+                                <div className="space-y-4 pt-4">
+                                    <Input placeholder="Milestone name" value={name} onChange={(e) => setName(e.target.value)} />
+                                    <Textarea
+                                        placeholder="Description (optional)"
+                                        value={description}
+                                        onChange={(e) => setDescription(e.target.value)}
+                                        rows={2}
+                                    />
+                                    <div className="space-y-2">
+                                        <Label>Deadline</Label>
+                                        <Input type="datetime-local" value={deadlineInput} onChange={(e) => setDeadlineInput(e.target.value)} />
+                                    </div>
+                                    <Button onClick={handleCreate} disabled={!name.trim() || !deadlineInput || isSaving} className="w-full">
+                                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Milestone"}
+                                    </Button>
+                                </div>
+                            </DialogContent>
+                        </Dialog>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {/* Timeline */}
+                    <div className="relative h-16 mx-4">
+                        <div className="absolute top-7 left-0 right-0 h-1 rounded-full bg-muted" />
+                        <div
+                            className="absolute top-7 left-0 h-1 rounded-full bg-primary/60"
+                            style={{ width: `${position(now)}%` }}
+                        />
+                        {milestones.map(({ milestone, deadline, status }) => (
+                            <div
+                                key={milestone.milestone_id}
+                                className="absolute top-0 -translate-x-1/2 flex flex-col items-center"
+                                style={{ left: `${position(deadline.getTime())}%` }}
+                                title={`${milestone.name} · ${format(deadline, "MMM d, HH:mm")}`}
+                            >
+                                <span className="text-[10px] text-muted-foreground whitespace-nowrap max-w-24 truncate">{milestone.name}</span>
+                                <span className={`mt-1 h-4 w-4 rounded-full border-2 border-background ${statusStyles[status].dot}`} />
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {milestones.map((entry) => {
+                    const { milestone, deadline, status, tasks: linked, completedTasks } = entry
+                    const style = statusStyles[status]
+                    return (
+                        <Card key={milestone.milestone_id} className={status === "active" ? "border-blue-500/50" : ""}>
+                            <CardHeader className="pb-2">
+                                <div className="flex items-start justify-between gap-2">
+                                    <CardTitle className="text-base">{milestone.name}</CardTitle>
+                                    <Badge variant="secondary" className={style.badge}>{style.label}</Badge>
+                                </div>
+                                {milestone.description && <CardDescription>{milestone.description}</CardDescription>}
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                <div className="text-xs text-muted-foreground">
+                                    Due {format(deadline, "EEE MMM d, HH:mm")} ({formatDistanceToNow(deadline, { addSuffix: true })})
+                                    {typeof milestone.anchor !== "number" && " · fixed date"}
+                                </div>
+
+                                {linked.length > 0 ? (
+                                    <div className="space-y-1">
+                                        <div className="flex justify-between text-xs">
+                                            <span>{completedTasks}/{linked.length} tasks done</span>
+                                            <span>{Math.round((completedTasks / linked.length) * 100)}%</span>
+                                        </div>
+                                        <Progress value={(completedTasks / linked.length) * 100} className="h-1.5" />
+                                    </div>
+                                ) : (
+                                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                                        <Checkbox
+                                            checked={milestone.status === "completed"}
+                                            disabled={!canEdit}
+                                            onCheckedChange={(checked) => onToggleComplete(milestone, checked === true)}
+                                        />
+                                        No linked tasks - mark as reached by hand
+                                    </label>
+                                )}
+
+                                <div className="flex items-center gap-2">
+                                    <Button variant="outline" size="sm" className="flex-1" disabled={!canEdit} onClick={() => openLinking(entry)}>
+                                        <Link className="mr-2 h-3 w-3" />
+                                        Link Tasks
+                                    </Button>
+                                    {milestone.type === "custom" && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-8 w-8"
+                                            disabled={!canEdit}
+                                            onClick={() => onDelete(milestone.milestone_id)}
+                                        >
+                                            <Trash2 className="h-3 w-3" />
+                                        </Button>
+                                    )}
+                                    {status === "completed" && <CheckCircle2 className="h-4 w-4 text-green-500" />}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )
+                })}
+                {milestones.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-8 md:col-span-2 lg:col-span-3">No milestones yet</p>
+                )}
+            </div>
+
+            <Dialog open={!!linking} onOpenChange={(open) => !open && setLinking(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Link Tasks</DialogTitle>
+                        <DialogDescription>
+                            "{linking?.milestone.name}" completes once every linked task is done. A task belongs to one milestone at a time.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-4">
+                        {tasks.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No tasks on the board yet.</p>
+                        ) : (
+                            <ScrollArea className="h-60 rounded-md border p-2">
+                                <div className="space-y-1">
+                                    {tasks.map((task) => {
+                                        const elsewhere = task.milestone_id && task.milestone_id !== linking?.milestone.milestone_id
+                                        return (
+                                            <label key={task.task_id} className="flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer hover:bg-muted">
+                                                <Checkbox
+                                                    checked={linkDraft.includes(task.task_id)}
+                                                    onCheckedChange={(checked) =>
+                                                        setLinkDraft((prev) =>
+                                                            checked === true ? [...prev, task.task_id] : prev.filter((id) => id !== task.task_id)
+                                                        )
+                                                    }
+                                                />
+                                                <span className="flex-1 truncate">{task.title}</span>
+                                                {elsewhere && linkDraft.includes(task.task_id) && <Badge variant="outline" className="text-[10px]">Moves here</Badge>}
+                                            </label>
+                                        )
+                                    })}
+                                </div>
+                            </ScrollArea>
+                        )}
+                        <Button onClick={handleLink} disabled={isSaving} className="w-full">
+                            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Links"}
+                        </Button>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -5,22 +5,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { Activity, Info, TrendingUp, Users, Clock, Code } from "lucide-react"
+import { Activity, Info, TrendingUp, Users, Clock, Code, GitBranch } from "lucide-react"
 import { calculateProjectHealth } from "@/lib/health-utils"
-import { Project, Task, ProjectMember } from "@/lib/types"
+import { Task, ProjectMember } from "@/lib/types"
 
 interface ProjectHealthProps {
-    project: Project
+    // The hackathon's start and end, from hackathonWindow()
+    window: { start: Date; end: Date }
     tasks: Task[]
     members: ProjectMember[]
     commitsCount?: number
     now?: number
 }
 
-export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }: ProjectHealthProps) {
+export function ProjectHealth({ window, tasks, members, commitsCount = 0, now }: ProjectHealthProps) {
     const health = useMemo(
-        () => calculateProjectHealth(project, tasks, members, commitsCount, now),
-        [project, tasks, members, commitsCount, now]
+        () => calculateProjectHealth(window, tasks, members, commitsCount, now),
+        [window, tasks, members, commitsCount, now]
     )
 
     const getFactorIcon = (label: string) => {
@@ -29,6 +30,7 @@ export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }
             case "Time": return <Clock className="h-3 w-3" />
             case "Code": return <Code className="h-3 w-3" />
             case "Team": return <Users className="h-3 w-3" />
+            case "Path": return <GitBranch className="h-3 w-3" />
             default: return <Activity className="h-3 w-3" />
         }
     }
@@ -64,7 +66,7 @@ export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }
                                     </div>
                                 ))}
                                 <p className="text-[10px] text-muted-foreground mt-2 italic">
-                                    Score is calculated based on code activity, task progress, and member collaboration.
+                                    Score is calculated based on code activity, task progress, member collaboration, and whether the critical path still fits in the time left.
                                 </p>
                             </TooltipContent>
                         </Tooltip>
@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { rubricError } from "@/lib/judging"
+import { RubricCriterion } from "@/lib/types"
+
+interface RubricEditorProps {
+    rubric: RubricCriterion[]
+    disabled?: boolean
+    onSave: (rubric: RubricCriterion[]) => Promise<void>
+}
+
+export function RubricEditor({ rubric, disabled, onSave }: RubricEditorProps) {
+    const [draft, setDraft] = useState<RubricCriterion[]>(rubric)
+    const [isSaving, setIsSaving] = useState(false)
+
+    // Pick up changes saved elsewhere
+    useEffect(() => {
+        setDraft(rubric)
+    }, [rubric])
+
+    const update = (index: number, updates: Partial<RubricCriterion>) =>
+        setDraft((prev) => prev.map((c, i) => (i === index ? { ...c, ...updates } : c)))
+
+    const addCriterion = () =>
+        setDraft((prev) => [
+            ...prev,
+            { criterion_id: `criterion_${Date.now().toString(36)}`, name: "", weight: 1, max_score: 10 },
+        ])
+
+    const totalWeight = draft.reduce((sum, c) => sum + (c.weight || 0), 0)
+    const error = rubricError(draft)
+
+    const handleSave = async () => {
+        if (error) return
+        setIsSaving(true)
+        try {
+            // Firestore rejects undefined nested fields, so blank descriptions are dropped outright
+            await onSave(
+                draft.map(({ description, ...c }) => ({
+                    ...c,
+                    name: c.name.trim(),
+                    ...(description?.trim() ? { description: description.trim() } : {}),
+                }))
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 text-xs text-muted-foreground">
+                <Label>Criterion</Label>
+                <Label>Weight</Label>
+                <Label>Max</Label>
+                <span />
+            </div>
+            {draft.map((criterion, index) => (
+                <div key={criterion.criterion_id} className="space-y-1">
+                    <div className="grid grid-cols-[1fr_5rem_5rem_2rem] gap-2 items-center">
+                        <Input
+                            value={criterion.name}
+                            placeholder="e.g. Innovation"
+                            disabled={disabled}
+                            onChange={(e) => update(index, { name: e.target.value })}
+                        />
+                        <Input
+                            type="number"
+                            min={0}
+                            value={criterion.weight}
+                            disabled={disabled}
+                            onChange={(e) => update(index, { weight: parseFloat(e.target.value) })}
+                        />
+                        <Input
+                            type="number"
+                            min={1}
+                            value={criterion.max_score}
+                            disabled={disabled}
+                            onChange={(e) => update(index, { max_score: parseInt(e.target.value, 10) })}
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={disabled || draft.length === 1}
+                            onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            className="h-8 text-xs"
+                            value={criterion.description ?? ""}
+                            placeholder="What judges should look for (optional)"
+                            disabled={disabled}
+                            onChange={(e) => update(index, { description: e.target.value })}
+                        />
+                        <span className="w-12 text-right text-xs text-muted-foreground">
+                            {totalWeight > 0 ? Math.round(((criterion.weight || 0) / totalWeight) * 100) : 0}%
+                        </span>
+                    </div>
+                </div>
+            ))}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={addCriterion} disabled={disabled}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Criterion
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={disabled || !!error || isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Rubric"}
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,316 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { Bell, CalendarDays, Loader2, Plus, Trash2 } from "lucide-react"
+import { REMINDER_OPTIONS, SCHEDULE_EVENT_TYPES, ScheduleEventType, formatTimeRange, snapToMinutes } from "@/lib/schedule"
+import { ScheduleEvent } from "@/lib/types"
+
+const HOUR_WIDTH = 48 // px per hour on the timeline
+const HOUR_MS = 60 * 60 * 1000
+const MIN_BLOCK_MS = 15 * 60 * 1000
+
+type NewScheduleEvent = Omit<ScheduleEvent, "event_id" | "created_at" | "project_id" | "user_id">
+
+interface SchedulePlannerProps {
+    events: ScheduleEvent[] // the current user's events only
+    windowStart: Date
+    windowEnd: Date
+    now: number
+    onCreate: (event: NewScheduleEvent) => Promise<void>
+    onUpdate: (eventId: string, updates: Partial<ScheduleEvent>) => Promise<void>
+    onDelete: (eventId: string) => Promise<void>
+}
+
+interface ResizeState {
+    eventId: string
+    edge: "start" | "end"
+    originX: number
+    originTime: number
+    time: number
+}
+
+export function SchedulePlanner({ events, windowStart, windowEnd, now, onCreate, onUpdate, onDelete }: SchedulePlannerProps) {
+    const [resize, setResize] = useState<ResizeState | null>(null)
+    const resizeRef = useRef<ResizeState | null>(null)
+
+    // New block form
+    const [dialogOpen, setDialogOpen] = useState(false)
+    const [title, setTitle] = useState("")
+    const [type, setType] = useState<ScheduleEventType>("work")
+    const [startInput, setStartInput] = useState("")
+    const [durationMinutes, setDurationMinutes] = useState(60)
+    const [reminderMinutes, setReminderMinutes] = useState(10)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const startMs = windowStart.getTime()
+    const totalHours = Math.ceil((windowEnd.getTime() - startMs) / HOUR_MS)
+    const width = totalHours * HOUR_WIDTH
+    const toX = (time: number) => ((time - startMs) / HOUR_MS) * HOUR_WIDTH
+
+    const hourTicks = useMemo(
+        () => Array.from({ length: totalHours + 1 }, (_, i) => new Date(startMs + i * HOUR_MS)),
+        [startMs, totalHours]
+    )
+
+    // Dragging an edge resizes the block; the change is only saved on release
+    const isResizing = resize !== null
+    useEffect(() => {
+        if (!isResizing) return
+
+        const handleMove = (e: PointerEvent) => {
+            const current = resizeRef.current
+            if (!current) return
+            const delta = ((e.clientX - current.originX) / HOUR_WIDTH) * HOUR_MS
+            const next = { ...current, time: snapToMinutes(current.originTime + delta) }
+            resizeRef.current = next
+            setResize(next)
+        }
+
+        const handleUp = () => {
+            const current = resizeRef.current
+            resizeRef.current = null
+            setResize(null)
+            if (!current || current.time === current.originTime) return
+
+            const event = events.find((ev) => ev.event_id === current.eventId)
+            if (!event) return
+            const start = current.edge === "start" ? current.time : new Date(event.start_time).getTime()
+            const end = current.edge === "end" ? current.time : new Date(event.end_time).getTime()
+            if (end - start < MIN_BLOCK_MS) return
+
+            onUpdate(event.event_id, { start_time: new Date(start), end_time: new Date(end) })
+        }
+
+        window.addEventListener("pointermove", handleMove)
+        window.addEventListener("pointerup", handleUp)
+        return () => {
+            window.removeEventListener("pointermove", handleMove)
+            window.removeEventListener("pointerup", handleUp)
+        }
+    }, [isResizing, events, onUpdate])
+
+    const beginResize = (e: React.PointerEvent, event: ScheduleEvent, edge: "start" | "end") => {
+        e.preventDefault()
+        e.stopPropagation()
+        const originTime = new Date(edge === "start" ? event.start_time : event.end_time).getTime()
+        const state = { eventId: event.event_id, edge, originX: e.clientX, originTime, time: originTime }
+        resizeRef.current = state
+        setResize(state)
+    }
+
+    // Apply an in-flight resize so the block follows the pointer
+    const displayRange = (event: ScheduleEvent) => {
+        let start = new Date(event.start_time).getTime()
+        let end = new Date(event.end_time).getTime()
+        if (resize?.eventId === event.event_id) {
+            if (resize.edge === "start") start = Math.min(resize.time, end - MIN_BLOCK_MS)
+            else end = Math.max(resize.time, start + MIN_BLOCK_MS)
+        }
+        return { start, end }
+    }
+
+    const openDialog = (open: boolean) => {
+        setDialogOpen(open)
+        if (open) {
+            const defaultStart = snapToMinutes(Math.max(now, startMs), 30)
+            setStartInput(format(new Date(defaultStart), "yyyy-MM-dd'T'HH:mm"))
+        }
+    }
+
+    const handleCreate = async () => {
+        const start = new Date(startInput)
+        if (!title.trim() || isNaN(start.getTime()) || durationMinutes <= 0) return
+
+        setIsSaving(true)
+        try {
+            await onCreate({
+                title: title.trim(),
+                type,
+                start_time: start,
+                end_time: new Date(start.getTime() + durationMinutes * 60 * 1000),
+                reminder_minutes: reminderMinutes || undefined,
+                completed: false,
+            })
+            setTitle("")
+            setDialogOpen(false)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Card className="md:col-span-2">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarDays className="h-5 w-5 text-blue-500" />
+                            My Timeline
+                        </CardTitle>
+                        <CardDescription>Drag the edges of a block to resize it</CardDescription>
+                    </div>
+                    <Dialog open={dialogOpen} onOpenChange={openDialog}>
+                        <DialogTrigger asChild>
+                            <Button size="sm">
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Block
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                            <DialogHeader>
+                                <DialogTitle>Add Schedule Block</DialogTitle>
+                                <DialogDescription>Plan work, breaks, sleep and meetings on your timeline</DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-4 pt-4">
+                                <Input placeholder="Title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label>Type</Label>
+                                        <Select value={type} onValueChange={(value) => setType(value as ScheduleEventType)}>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(SCHEDULE_EVENT_TYPES) as ScheduleEventType[]).map((t) => (
+                                                    <SelectItem key={t} value={t}>{SCHEDULE_EVENT_TYPES[t].label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Reminder</Label>
+                                        <Select value={String(reminderMinutes)} onValueChange={(value) => setReminderMinutes(Number(value))}>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {REMINDER_OPTIONS.map((m) => (
+                                                    <SelectItem key={m} value={String(m)}>{m === 0 ? "None" : `${m} min before`}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label>Starts</Label>
+                                        <Input type="datetime-local" value={startInput} onChange={(e) => setStartInput(e.target.value)} />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Duration (minutes)</Label>
+                                        <Input
+                                            type="number"
+                                            min={15}
+                                            step={15}
+                                            value={durationMinutes}
+                                            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                                        />
+                                    </div>
+                                </div>
+                                <Button onClick={handleCreate} disabled={!title.trim() || !startInput || isSaving} className="w-full">
+                                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Block"}
+                                </Button>
+                            </div>
+                        </DialogContent>
+                    </Dialog>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="overflow-x-auto rounded-lg border bg-muted/20">
+                    <div className="relative" style={{ width, height: 84 }}>
+                        {hourTicks.map((tick, i) => (
+                            <div
+                                key={i}
+                                className="absolute top-0 h-full border-l border-border/50 text-[10px] text-muted-foreground pl-1"
+                                style={{ left: i * HOUR_WIDTH }}
+                            >
+                                {format(tick, "HH:mm")}
+                            </div>
+                        ))}
+
+                        {now >= startMs && now <= windowEnd.getTime() && (
+                            <div className="absolute top-0 h-full w-0.5 bg-red-500 z-20" style={{ left: toX(now) }} title="Now" />
+                        )}
+
+                        {events.map((event) => {
+                            const { start, end } = displayRange(event)
+                            const meta = SCHEDULE_EVENT_TYPES[event.type]
+                            return (
+                                <div
+                                    key={event.event_id}
+                                    className={`absolute top-6 h-12 rounded-md text-white text-xs px-2 py-1 overflow-hidden select-none z-10 ${meta.color} ${event.completed ? "opacity-50" : "opacity-90"}`}
+                                    style={{ left: toX(start), width: Math.max(toX(end) - toX(start), 8) }}
+                                    title={`${event.title} (${formatTimeRange({ start_time: new Date(start), end_time: new Date(end) })})`}
+                                >
+                                    <div
+                                        className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-black/20 hover:bg-black/40"
+                                        onPointerDown={(e) => beginResize(e, event, "start")}
+                                    />
+                                    <div className={`font-medium truncate ${event.completed ? "line-through" : ""}`}>{event.title}</div>
+                                    <div className="truncate opacity-80">{meta.label}</div>
+                                    <div
+                                        className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-black/20 hover:bg-black/40"
+                                        onPointerDown={(e) => beginResize(e, event, "end")}
+                                    />
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+
+                {events.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No blocks planned yet</p>
+                ) : (
+                    <ScrollArea className="h-64">
+                        <div className="space-y-2 pr-3">
+                            {events.map((event) => (
+                                <div key={event.event_id} className="flex items-center gap-3 p-2 rounded-lg border">
+                                    <Checkbox
+                                        checked={event.completed}
+                                        onCheckedChange={(checked) => onUpdate(event.event_id, { completed: checked === true })}
+                                    />
+                                    <div className={`h-2 w-2 rounded-full ${SCHEDULE_EVENT_TYPES[event.type].color}`} />
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`text-sm font-medium truncate ${event.completed ? "line-through text-muted-foreground" : ""}`}>
+                                            {event.title}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {format(new Date(event.start_time), "EEE")} {formatTimeRange(event)}
+                                        </div>
+                                    </div>
+                                    {!!event.reminder_minutes && (
+                                        <Badge variant="outline" className="text-xs gap-1">
+                                            <Bell className="h-3 w-3" />
+                                            {event.reminder_minutes}m
+                                        </Badge>
+                                    )}
+                                    <Badge variant="secondary" className="text-xs">{SCHEDULE_EVENT_TYPES[event.type].label}</Badge>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(event.event_id)}>
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { isSlashCommand, parseSlashCommand, slashCommandSuggestions } from "@/lib/slash-commands"
+import { ProjectMember, Task } from "@/lib/types"
+
+interface SlashCommandInputProps {
+    value: string
+    onChange: (value: string) => void
+    // Only called for plain messages and commands that parse
+    onSubmit: () => void
+    placeholder: string
+    disabled: boolean
+    members: ProjectMember[]
+    tasks: Task[]
+    className?: string
+}
+
+// A chat input that autocompletes "/commands" and their @member and #task arguments
+export function SlashCommandInput({ value, onChange, onSubmit, placeholder, disabled, members, tasks, className }: SlashCommandInputProps) {
+    const [selected, setSelected] = useState(0)
+    const [dismissed, setDismissed] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const suggestions = dismissed
+        ? []
+        : slashCommandSuggestions(value, { members, tasks }).filter((s) => s.value.trim() !== value.trim())
+    const active = Math.min(selected, suggestions.length - 1)
+
+    const change = (next: string) => {
+        onChange(next)
+        setSelected(0)
+        setDismissed(false)
+        setError(null)
+    }
+
+    const submit = () => {
+        if (isSlashCommand(value)) {
+            const parsed = parseSlashCommand(value, { members, tasks })
+            if (!parsed.ok) {
+                setError(parsed.error)
+                return
+            }
+        }
+        setError(null)
+        onSubmit()
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                e.preventDefault()
+                const step = e.key === "ArrowDown" ? 1 : -1
+                setSelected((active + step + suggestions.length) % suggestions.length)
+                return
+            }
+            if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+                e.preventDefault()
+                change(suggestions[active].value)
+                return
+            }
+            if (e.key === "Escape") {
+                setDismissed(true)
+                return
+            }
+        }
+        if (e.key === "Enter" && !e.shiftKey) submit()
+    }
+
+    return (
+        <div className={`relative flex-1 ${className ?? ""}`}>
+            {suggestions.length > 0 && (
+                <div className="absolute bottom-full left-0 right-0 mb-1 z-20 max-h-60 overflow-y-auto rounded-md border bg-popover p-1 shadow-md">
+                    {suggestions.map((s, i) => (
+                        <button
+                            key={s.value}
+                            type="button"
+                            className={`flex w-full items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-left text-sm ${i === active ? "bg-accent text-accent-foreground" : "hover:bg-muted"}`}
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => change(s.value)}
+                        >
+                            <span className="truncate font-medium">{s.label}</span>
+                            <span className="shrink-0 text-xs text-muted-foreground">{s.detail}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            {error && suggestions.length === 0 && (
+                <p className="absolute bottom-full left-0 right-0 mb-1 z-20 rounded-md border border-destructive/50 bg-background px-2 py-1 text-xs text-destructive">
+                    {error}
+                </p>
+            )}
+            <Input
+                placeholder={placeholder}
+                value={value}
+                onChange={(e) => change(e.target.value)}
+                onKeyDown={handleKeyDown}
+                aria-invalid={!!error}
+                disabled={disabled}
+            />
+        </div>
+    )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { CheckCircle2, Loader2, Send, XCircle } from "lucide-react"
+import { SUBMISSION_CHECKS, requiredChecks, runSubmissionChecks } from "@/lib/submission"
+import { Project, ProjectSubmission, SubmissionCheckId, SubmissionCheckResult, Task } from "@/lib/types"
+
+interface SubmissionDialogProps {
+    project: Project
+    tasks: Task[]
+    submissions: ProjectSubmission[]
+    canSubmit: boolean
+    pastDeadline: boolean
+    onChecklistChange: (checks: SubmissionCheckId[]) => Promise<void>
+    onSubmit: (checks: SubmissionCheckResult[]) => Promise<void>
+    // Identifies the user to the API routes the network checks call
+    authHeaders: () => Promise<Record<string, string>>
+}
+
+export function SubmissionDialog({
+    project,
+    tasks,
+    submissions,
+    canSubmit,
+    pastDeadline,
+    onChecklistChange,
+    onSubmit,
+    authHeaders,
+}: SubmissionDialogProps) {
+    const [open, setOpen] = useState(false)
+    const [results, setResults] = useState<SubmissionCheckResult[] | null>(null)
+    const [isChecking, setIsChecking] = useState(false)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const required = requiredChecks(project)
+    const allPassed = !!results && results.every((r) => r.passed)
+    const lastSubmission = submissions[0]
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next)
+        if (!next) setResults(null)
+    }
+
+    const handleToggleCheck = async (id: SubmissionCheckId, enabled: boolean) => {
+        setResults(null)
+        await onChecklistChange(enabled ? [...required, id] : required.filter((c) => c !== id))
+    }
+
+    const handleRunChecks = async () => {
+        setIsChecking(true)
+        try {
+            setResults(await runSubmissionChecks(project, tasks, await authHeaders()))
+        } finally {
+            setIsChecking(false)
+        }
+    }
+
+    const handleSubmit = async () => {
+        if (!results || !allPassed) return
+        setIsSubmitting(true)
+        try {
+            await onSubmit(results)
+            handleOpenChange(false)
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button size="sm" variant={project.status === "submitted" ? "outline" : "default"}>
+                    <Send className="h-4 w-4 mr-2" />
+                    {project.status === "submitted" ? "Resubmit" : "Submit Project"}
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Submit Project</DialogTitle>
+                    <DialogDescription>
+                        {project.submission_deadline
+                            ? `Deadline: ${format(new Date(project.submission_deadline), "EEE MMM d, HH:mm")}`
+                            : "No submission deadline set"}
+                        {pastDeadline && " - the deadline has passed, this will be marked late"}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 pt-2">
+                    <div className="space-y-2">
+                        {SUBMISSION_CHECKS.map((check) => {
+                            const enabled = required.includes(check.id)
+                            const result = results?.find((r) => r.id === check.id)
+                            return (
+                                <div key={check.id} className="flex items-start gap-3 rounded-lg border p-3">
+                                    <Checkbox
+                                        checked={enabled}
+                                        disabled={!canSubmit}
+                                        onCheckedChange={(checked) => handleToggleCheck(check.id, checked === true)}
+                                        className="mt-0.5"
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`text-sm font-medium ${enabled ? "" : "text-muted-foreground line-through"}`}>
+                                            {check.label}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">{result?.detail ?? check.description}</div>
+                                    </div>
+                                    {result &&
+                                        (result.passed ? (
+                                            <CheckCircle2 className="h-5 w-5 text-green-500" />
+                                        ) : (
+                                            <XCircle className="h-5 w-5 text-red-500" />
+                                        ))}
+                                </div>
+                            )
+                        })}
+                    </div>
+
+                    {lastSubmission && (
+                        <p className="text-xs text-muted-foreground">
+                            Last submitted {format(lastSubmission.submitted_at, "MMM d, HH:mm")}
+                            {lastSubmission.late && " (late)"} · {submissions.length} snapshot{submissions.length === 1 ? "" : "s"}
+                        </p>
+                    )}
+
+                    <div className="flex gap-2">
+                        <Button variant="outline" className="flex-1" onClick={handleRunChecks} disabled={isChecking}>
+                            {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Run Checks"}
+                        </Button>
+                        <Button className="flex-1" onClick={handleSubmit} disabled={!canSubmit || !allPassed || isSubmitting}>
+                            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit"}
+                        </Button>
+                    </div>
+                    {!canSubmit && (
+                        <Badge variant="secondary" className="w-full justify-center">
+                            Only owners and admins can submit
+                        </Badge>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { findCycleWith } from "@/lib/task-graph"
+import { Task } from "@/lib/types"
+
+interface TaskDependencyPickerProps {
+    tasks: Task[]
+    // The task being edited, or null while creating a new one
+    taskId: string | null
+    value: string[]
+    onChange: (dependencies: string[]) => void
+    disabled?: boolean
+}
+
+const statusLabels: Record<Task["status"], string> = {
+    ToDo: "To Do",
+    InProgress: "In Progress",
+    Done: "Done",
+}
+
+export function TaskDependencyPicker({ tasks, taskId, value, onChange, disabled = false }: TaskDependencyPickerProps) {
+    const candidates = tasks.filter((t) => t.task_id !== taskId)
+
+    if (candidates.length === 0) {
+        return <p className="text-xs text-muted-foreground">No other tasks to depend on yet.</p>
+    }
+
+    const toggle = (id: string, checked: boolean) => {
+        onChange(checked ? [...value, id] : value.filter((d) => d !== id))
+    }
+
+    return (
+        <ScrollArea className="h-40 rounded-md border p-2">
+            <div className="space-y-1">
+                {candidates.map((candidate) => {
+                    const checked = value.includes(candidate.task_id)
+                    // A brand new task has no dependents yet, so it can never close a loop
+                    const createsCycle = !checked && taskId !== null
+                        && findCycleWith(tasks, taskId, [...value, candidate.task_id]) !== null
+
+                    return (
+                        <label
+                            key={candidate.task_id}
+                            className={`flex items-center gap-2 rounded px-2 py-1 text-sm ${createsCycle ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:bg-muted"}`}
+                            title={createsCycle ? "This task already depends on the one you're editing" : undefined}
+                        >
+                            <Checkbox
+                                checked={checked}
+                                disabled={disabled || createsCycle}
+                                onCheckedChange={(state) => toggle(candidate.task_id, state === true)}
+                            />
+                            <span className="flex-1 truncate">{candidate.title}</span>
+                            <Badge variant="outline" className="text-[10px]">
+                                {createsCycle ? "Cycle" : statusLabels[candidate.status]}
+                            </Badge>
+                        </label>
+                    )
+                })}
+            </div>
+        </ScrollArea>
+    )
+}
@@ -0,0 +1,509 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import ReactMarkdown from "react-markdown"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { MentorToolCard } from "@/components/mentor-tool-card"
+import { SlashCommandInput } from "@/components/slash-command-input"
+import {
+    AtSign,
+    Bot,
+    CheckSquare,
+    Flag,
+    Hash,
+    Loader2,
+    MessageSquare,
+    Pencil,
+    Send,
+    SmilePlus,
+    Trash2,
+    X,
+} from "lucide-react"
+import {
+    ChatChannel,
+    ChatChannelKind,
+    REACTION_EMOJIS,
+    channelPosts,
+    parseChatContent,
+    taskReference,
+    threadReplies,
+} from "@/lib/chat"
+import { typingLabel } from "@/lib/presence"
+import { ChatMessage, MentorToolCall, ProjectMember, Task } from "@/lib/types"
+
+const CHANNEL_ICONS: Record<ChatChannelKind, typeof Hash> = {
+    general: Hash,
+    milestone: Flag,
+    task: CheckSquare,
+}
+
+const CHANNEL_GROUPS: { kind: ChatChannelKind; label: string }[] = [
+    { kind: "general", label: "Channels" },
+    { kind: "milestone", label: "Milestones" },
+    { kind: "task", label: "Tasks" },
+]
+
+const TASK_STATUS_COLORS: Record<Task["status"], string> = {
+    ToDo: "bg-slate-400",
+    InProgress: "bg-blue-500",
+    Done: "bg-green-500",
+}
+
+interface TeamChatProps {
+    messages: ChatMessage[]
+    channels: ChatChannel[]
+    channelId: string
+    onSelectChannel: (channelId: string) => void
+    members: ProjectMember[]
+    tasks: Task[]
+    currentUserId: string
+    canSend: boolean
+    // The thread the mentor is answering in, if any
+    mentorThreadId: string | null
+    // Names of teammates typing, keyed by channel or thread id
+    typing: Record<string, string[]>
+    onTyping: (key: string | null) => void
+    hasOlder: boolean
+    isLoadingOlder: boolean
+    onLoadOlder: () => Promise<void>
+    onSend: (channelId: string, content: string, threadId?: string) => Promise<void>
+    onEdit: (message: ChatMessage, content: string) => Promise<void>
+    onDelete: (message: ChatMessage) => Promise<void>
+    onToggleReaction: (message: ChatMessage, emoji: string) => Promise<void>
+    // Shows the task on the board
+    onOpenTask: (taskId: string) => void
+    canApplyToolCall: (call: MentorToolCall) => boolean
+    onResolveToolCall: (message: ChatMessage, call: MentorToolCall, apply: boolean) => Promise<void>
+}
+
+interface ComposerProps {
+    value: string
+    onChange: (value: string) => void
+    onSubmit: () => void
+    placeholder: string
+    disabled: boolean
+    members: ProjectMember[]
+    tasks: Task[]
+}
+
+// The message input, with pickers that insert "@Name" and "#task-id" and autocomplete for "/commands"
+function Composer({ value, onChange, onSubmit, placeholder, disabled, members, tasks }: ComposerProps) {
+    const insert = (token: string) => onChange(`${value}${value && !value.endsWith(" ") ? " " : ""}${token} `)
+
+    return (
+        <div className="flex gap-2 p-3 border-t">
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="shrink-0" title="Mention someone" disabled={disabled}>
+                        <AtSign className="h-4 w-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                    <DropdownMenuItem onClick={() => insert("@mentor")}>
+                        <Bot className="h-4 w-4 mr-2" />
+                        AI Mentor
+                    </DropdownMenuItem>
+                    {members.map((m) => (
+                        <DropdownMenuItem key={m.user_id} onClick={() => insert(`@${m.name}`)}>
+                            {m.name}
+                        </DropdownMenuItem>
+                    ))}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="shrink-0" title="Reference a task" disabled={disabled || tasks.length === 0}>
+                        <Hash className="h-4 w-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+                    <DropdownMenuLabel>Tasks</DropdownMenuLabel>
+                    {tasks.map((t) => (
+                        <DropdownMenuItem key={t.task_id} onClick={() => insert(taskReference(t.task_id))}>
+                            <span className={`h-2 w-2 rounded-full mr-2 shrink-0 ${TASK_STATUS_COLORS[t.status]}`} />
+                            <span className="truncate">{t.title}</span>
+                        </DropdownMenuItem>
+                    ))}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <SlashCommandInput
+                placeholder={placeholder}
+                value={value}
+                onChange={onChange}
+                onSubmit={onSubmit}
+                disabled={disabled}
+                members={members}
+                tasks={tasks}
+            />
+            <Button onClick={onSubmit} disabled={disabled || !value.trim()}>
+                <Send className="h-4 w-4" />
+            </Button>
+        </div>
+    )
+}
+
+export function TypingIndicator({ names }: { names?: string[] }) {
+    return <p className="h-5 px-4 text-xs italic text-muted-foreground truncate">{typingLabel(names ?? [])}</p>
+}
+
+export function TeamChat({
+    messages,
+    channels,
+    channelId,
+    onSelectChannel,
+    members,
+    tasks,
+    currentUserId,
+    canSend,
+    mentorThreadId,
+    typing,
+    onTyping,
+    hasOlder,
+    isLoadingOlder,
+    onLoadOlder,
+    onSend,
+    onEdit,
+    onDelete,
+    onToggleReaction,
+    onOpenTask,
+    canApplyToolCall,
+    onResolveToolCall,
+}: TeamChatProps) {
+    const [threadId, setThreadId] = useState<string | null>(null)
+    const [postInput, setPostInput] = useState("")
+    const [replyInput, setReplyInput] = useState("")
+    const [editing, setEditing] = useState<{ messageId: string; content: string } | null>(null)
+    const postsEndRef = useRef<HTMLDivElement>(null)
+    const repliesEndRef = useRef<HTMLDivElement>(null)
+
+    const channel = channels.find((c) => c.channel_id === channelId) ?? channels[0]
+    const posts = channel ? channelPosts(messages, channel.channel_id) : []
+    const thread = threadId ? messages.find((m) => m.message_id === threadId) : undefined
+    const replies = thread ? threadReplies(messages, thread.message_id) : []
+
+    // Follow new posts, but stay put when older ones are loaded above
+    const lastPostId = posts[posts.length - 1]?.message_id
+    useEffect(() => {
+        postsEndRef.current?.scrollIntoView({ block: "end" })
+    }, [lastPostId, channelId])
+
+    useEffect(() => {
+        repliesEndRef.current?.scrollIntoView({ block: "end" })
+    }, [replies.length, threadId])
+
+    const senderName = (message: ChatMessage) => {
+        if (message.sender_type === "ai") return "AI Mentor"
+        if (message.sender_type === "system") return "HackMate"
+        return members.find((m) => m.user_id === message.sender)?.name || "Former member"
+    }
+
+    const selectChannel = (id: string) => {
+        onSelectChannel(id)
+        setThreadId(null)
+    }
+
+    const send = async (content: string, clear: () => void, replyTo?: string) => {
+        if (!channel || !content.trim()) return
+        clear()
+        onTyping(null)
+        await onSend(channel.channel_id, content.trim(), replyTo)
+    }
+
+    const saveEdit = async (message: ChatMessage) => {
+        if (!editing || !editing.content.trim()) return
+        const content = editing.content.trim()
+        setEditing(null)
+        if (content !== message.content) await onEdit(message, content)
+    }
+
+    const renderContent = (content: string) =>
+        parseChatContent(content, members, tasks).map((segment, i) => {
+            if (segment.type === "mention") {
+                return (
+                    <span
+                        key={i}
+                        className={`rounded px-1 font-medium ${segment.member.user_id === currentUserId ? "bg-amber-500/20 text-amber-700 dark:text-amber-400" : "bg-primary/10 text-primary"}`}
+                    >
+                        @{segment.member.name}
+                    </span>
+                )
+            }
+            if (segment.type === "task") {
+                return (
+                    <button
+                        key={i}
+                        type="button"
+                        onClick={() => onOpenTask(segment.task.task_id)}
+                        className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs align-middle hover:bg-muted"
+                        title={`${segment.task.status} · ${segment.task.priority}`}
+                    >
+                        <span className={`h-2 w-2 rounded-full ${TASK_STATUS_COLORS[segment.task.status]}`} />
+                        <span className={segment.task.status === "Done" ? "line-through" : ""}>{segment.task.title}</span>
+                    </button>
+                )
+            }
+            return <span key={i}>{segment.text}</span>
+        })
+
+    const renderReactions = (message: ChatMessage) => {
+        const reactions = Object.entries(message.reactions ?? {}).filter(([, users]) => users.length > 0)
+        if (reactions.length === 0) return null
+        return (
+            <div className="flex flex-wrap gap-1">
+                {reactions.map(([emoji, users]) => {
+                    const mine = users.includes(currentUserId)
+                    return (
+                        <button
+                            key={emoji}
+                            type="button"
+                            disabled={!canSend}
+                            onClick={() => onToggleReaction(message, emoji)}
+                            title={users.map((id) => members.find((m) => m.user_id === id)?.name || "Former member").join(", ")}
+                            className={`rounded-full border px-2 text-xs ${mine ? "border-primary bg-primary/10" : "hover:bg-muted"}`}
+                        >
+                            {emoji} {users.length}
+                        </button>
+                    )
+                })}
+            </div>
+        )
+    }
+
+    const renderMessage = (message: ChatMessage, showReplies: boolean) => {
+        if (message.sender_type === "system") {
+            return (
+                <p key={message.message_id} className="text-xs text-center text-muted-foreground italic py-1">
+                    {message.content}
+                </p>
+            )
+        }
+        const replyCount = showReplies ? threadReplies(messages, message.message_id).length : 0
+        const isDeleted = !!message.deleted_at
+        const isOwn = message.sender_type === "user" && message.sender === currentUserId && !message.message_id.startsWith("temp-")
+        const isEditing = editing?.messageId === message.message_id
+
+        return (
+            <div key={message.message_id} className="group space-y-1">
+                <div className="flex items-baseline gap-2">
+                    <span className="text-sm font-medium flex items-center gap-1">
+                        {message.sender_type === "ai" && <Bot className="h-3.5 w-3.5 text-primary" />}
+                        {senderName(message)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}
+                        {message.edited_at && !isDeleted && " (edited)"}
+                    </span>
+                    {!isDeleted && !isEditing && canSend && (
+                        <div className="ml-auto flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Popover>
+                                <PopoverTrigger asChild>
+                                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Add reaction">
+                                        <SmilePlus className="h-3 w-3" />
+                                    </Button>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-1 flex gap-1" align="end">
+                                    {REACTION_EMOJIS.map((emoji) => (
+                                        <button
+                                            key={emoji}
+                                            type="button"
+                                            className="rounded p-1 text-lg hover:bg-muted"
+                                            onClick={() => onToggleReaction(message, emoji)}
+                                        >
+                                            {emoji}
+                                        </button>
+                                    ))}
+                                </PopoverContent>
+                            </Popover>
+                            {isOwn && (
+                                <>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        title="Edit"
+                                        onClick={() => setEditing({ messageId: message.message_id, content: message.content })}
+                                    >
+                                        <Pencil className="h-3 w-3" />
+                                    </Button>
+                                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Delete" onClick={() => onDelete(message)}>
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+                {isDeleted ? (
+                    <p className="text-sm italic text-muted-foreground">This message was deleted</p>
+                ) : isEditing ? (
+                    <div className="flex gap-2">
+                        <Input
+                            autoFocus
+                            value={editing.content}
+                            onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && !e.shiftKey) saveEdit(message)
+                                if (e.key === "Escape") setEditing(null)
+                            }}
+                        />
+                        <Button size="sm" onClick={() => saveEdit(message)} disabled={!editing.content.trim()}>
+                            Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                            Cancel
+                        </Button>
+                    </div>
+                ) : message.sender_type === "ai" ? (
+                    <div className="space-y-2">
+                        <div className="prose prose-sm dark:prose-invert max-w-none text-sm">
+                            <ReactMarkdown>{message.content}</ReactMarkdown>
+                        </div>
+                        {message.tool_calls?.map((call) => (
+                            <MentorToolCard
+                                key={call.call_id}
+                                call={call}
+                                canApply={canApplyToolCall(call) && !message.message_id.startsWith("temp-")}
+                                resolverName={members.find((m) => m.user_id === call.resolved_by)?.name}
+                                onApply={() => onResolveToolCall(message, call, true)}
+                                onDismiss={() => onResolveToolCall(message, call, false)}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm whitespace-pre-wrap">{renderContent(message.content)}</p>
+                )}
+                {!isDeleted && renderReactions(message)}
+                {showReplies && (
+                    <button
+                        type="button"
+                        onClick={() => setThreadId(message.message_id)}
+                        className={`text-xs text-primary hover:underline flex items-center gap-1 ${replyCount ? "" : "opacity-0 group-hover:opacity-100"}`}
+                    >
+                        <MessageSquare className="h-3 w-3" />
+                        {replyCount ? `${replyCount} repl${replyCount === 1 ? "y" : "ies"}` : "Reply in thread"}
+                    </button>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div className="grid gap-4 h-[600px] md:grid-cols-[220px_1fr]">
+            <ScrollArea className="border rounded-lg p-2">
+                {CHANNEL_GROUPS.map(({ kind, label }) => {
+                    const group = channels.filter((c) => c.kind === kind)
+                    if (group.length === 0) return null
+                    return (
+                        <div key={kind} className="mb-3">
+                            <p className="px-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">{label}</p>
+                            {group.map((c) => {
+                                const Icon = CHANNEL_ICONS[c.kind]
+                                return (
+                                    <button
+                                        key={c.channel_id}
+                                        type="button"
+                                        onClick={() => selectChannel(c.channel_id)}
+                                        className={`w-full flex items-center gap-2 px-2 py-1 rounded-md text-sm text-left ${c.channel_id === channel?.channel_id ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                                    >
+                                        <Icon className="h-3.5 w-3.5 shrink-0" />
+                                        <span className="truncate">{c.name}</span>
+                                    </button>
+                                )
+                            })}
+                        </div>
+                    )
+                })}
+            </ScrollArea>
+
+            <div className={`grid gap-4 min-h-0 ${thread ? "lg:grid-cols-2" : ""}`}>
+                <div className="flex flex-col border rounded-lg min-h-0">
+                    <div className="px-4 py-2 border-b font-medium flex items-center gap-2">
+                        <Hash className="h-4 w-4 text-muted-foreground" />
+                        <span className="truncate">{channel?.name}</span>
+                    </div>
+                    <ScrollArea className="flex-1 px-4">
+                        <div className="space-y-4 py-4">
+                            {hasOlder && (
+                                <div className="text-center">
+                                    <Button variant="ghost" size="sm" onClick={onLoadOlder} disabled={isLoadingOlder}>
+                                        {isLoadingOlder && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                                        Load older messages
+                                    </Button>
+                                </div>
+                            )}
+                            {posts.length === 0 && (
+                                <p className="text-sm text-center text-muted-foreground py-8">
+                                    No messages yet. Mention @mentor to bring the AI into the conversation.
+                                </p>
+                            )}
+                            {posts.map((m) => renderMessage(m, true))}
+                            <div ref={postsEndRef} />
+                        </div>
+                    </ScrollArea>
+                    <TypingIndicator names={channel ? typing[channel.channel_id] : undefined} />
+                    <Composer
+                        value={postInput}
+                        onChange={(value) => {
+                            setPostInput(value)
+                            onTyping(value.trim() && channel ? channel.channel_id : null)
+                        }}
+                        onSubmit={() => send(postInput, () => setPostInput(""))}
+                        placeholder={canSend ? `Message #${channel?.name ?? "general"}, or type / for commands` : "Viewers can't post"}
+                        disabled={!canSend}
+                        members={members}
+                        tasks={tasks}
+                    />
+                </div>
+
+                {thread && (
+                    <div className="flex flex-col border rounded-lg min-h-0">
+                        <div className="px-4 py-2 border-b font-medium flex items-center justify-between">
+                            <span>Thread</span>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setThreadId(null)}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <ScrollArea className="flex-1 px-4">
+                            <div className="space-y-4 py-4">
+                                {renderMessage(thread, false)}
+                                <div className="border-t" />
+                                {replies.map((m) => renderMessage(m, false))}
+                                {mentorThreadId === thread.message_id && (
+                                    <p className="text-xs text-muted-foreground flex items-center gap-2">
+                                        <Loader2 className="h-3 w-3 animate-spin" />
+                                        The mentor is replying...
+                                    </p>
+                                )}
+                                <div ref={repliesEndRef} />
+                            </div>
+                        </ScrollArea>
+                        <TypingIndicator names={typing[thread.message_id]} />
+                        <Composer
+                            value={replyInput}
+                            onChange={(value) => {
+                                setReplyInput(value)
+                                onTyping(value.trim() ? thread.message_id : null)
+                            }}
+                            onSubmit={() => send(replyInput, () => setReplyInput(""), thread.message_id)}
+                            placeholder="Reply, or ask @mentor"
+                            disabled={!canSend}
+                            members={members}
+                            tasks={tasks}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
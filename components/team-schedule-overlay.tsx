@@ -0,0 +1,101 @@
+"use client"
+
+import { useMemo } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Users } from "lucide-react"
+import { SCHEDULE_EVENT_TYPES, ScheduleEventType, eventAt } from "@/lib/schedule"
+import { ProjectMember, ScheduleEvent } from "@/lib/types"
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface TeamScheduleOverlayProps {
+    events: ScheduleEvent[] // every member's events
+    members: ProjectMember[]
+    windowStart: Date
+    windowEnd: Date
+    now: number
+}
+
+export function TeamScheduleOverlay({ events, members, windowStart, windowEnd, now }: TeamScheduleOverlayProps) {
+    const hours = useMemo(() => {
+        const count = Math.ceil((windowEnd.getTime() - windowStart.getTime()) / HOUR_MS)
+        return Array.from({ length: count }, (_, i) => windowStart.getTime() + i * HOUR_MS)
+    }, [windowStart, windowEnd])
+
+    // Who is doing what right now, for the summary badges
+    const current = members.map((member) => ({ member, event: eventAt(events, member.user_id, now) }))
+    const asleep = current.filter((c) => c.event?.type === "sleep").length
+    const working = current.filter((c) => c.event?.type === "work").length
+
+    return (
+        <Card className="md:col-span-2">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Users className="h-5 w-5 text-purple-500" />
+                            Team Overlay
+                        </CardTitle>
+                        <CardDescription>Who is working, eating or asleep at each hour</CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                        <Badge variant="secondary">{working} working now</Badge>
+                        <Badge variant="secondary">{asleep} asleep now</Badge>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div className="overflow-x-auto">
+                    <table className="text-xs border-separate border-spacing-0.5">
+                        <thead>
+                            <tr>
+                                <th className="sticky left-0 bg-background text-left pr-2 font-medium">Member</th>
+                                {hours.map((hour) => (
+                                    <th
+                                        key={hour}
+                                        className={`w-7 font-normal text-[10px] ${now >= hour && now < hour + HOUR_MS ? "text-red-500 font-bold" : "text-muted-foreground"}`}
+                                    >
+                                        {format(hour, "HH")}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {current.map(({ member, event }) => (
+                                <tr key={member.user_id}>
+                                    <td className="sticky left-0 bg-background pr-2 whitespace-nowrap">
+                                        {member.name}
+                                        {event && (
+                                            <span className="ml-1 text-muted-foreground">({SCHEDULE_EVENT_TYPES[event.type].label.toLowerCase()})</span>
+                                        )}
+                                    </td>
+                                    {hours.map((hour) => {
+                                        // Sample the middle of the hour so short blocks at the edges don't dominate
+                                        const slot = eventAt(events, member.user_id, hour + HOUR_MS / 2)
+                                        return (
+                                            <td
+                                                key={hour}
+                                                className={`h-5 w-7 rounded-sm ${slot ? SCHEDULE_EVENT_TYPES[slot.type].color : "bg-muted"} ${now >= hour && now < hour + HOUR_MS ? "ring-1 ring-red-500" : ""}`}
+                                                title={slot ? `${member.name}: ${slot.title}` : `${member.name}: free`}
+                                            />
+                                        )
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {(Object.keys(SCHEDULE_EVENT_TYPES) as ScheduleEventType[]).map((type) => (
+                        <span key={type} className="flex items-center gap-1">
+                            <span className={`h-2 w-2 rounded-sm ${SCHEDULE_EVENT_TYPES[type].color}`} />
+                            {SCHEDULE_EVENT_TYPES[type].label}
+                        </span>
+                    ))}
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
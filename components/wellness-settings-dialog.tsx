@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { HeartPulse, Loader2 } from "lucide-react"
+import { WellnessPreferences } from "@/lib/wellness"
+
+interface WellnessSettingsDialogProps {
+    settings: WellnessPreferences
+    onSave: (settings: WellnessPreferences) => Promise<void>
+    // Replaces the member's generated sleep and meal blocks using the saved settings
+    onGenerateRoutine: (settings: WellnessPreferences) => Promise<void>
+}
+
+export function WellnessSettingsDialog({ settings, onSave, onGenerateRoutine }: WellnessSettingsDialogProps) {
+    const [open, setOpen] = useState(false)
+    const [draft, setDraft] = useState<WellnessPreferences>(settings)
+    const [isSaving, setIsSaving] = useState(false)
+    const [generateRoutine, setGenerateRoutine] = useState(true)
+
+    // Start from the latest saved values every time the dialog opens
+    useEffect(() => {
+        if (open) setDraft(settings)
+    }, [open, settings])
+
+    const update = <K extends keyof WellnessPreferences>(key: K, value: WellnessPreferences[K]) =>
+        setDraft((prev) => ({ ...prev, [key]: value }))
+
+    const updateMeal = (meal: keyof WellnessPreferences["meal_times"], value: string) =>
+        setDraft((prev) => ({ ...prev, meal_times: { ...prev.meal_times, [meal]: value } }))
+
+    const handleSave = async () => {
+        if (draft.work_session_duration <= 0 || draft.break_duration <= 0) return
+        setIsSaving(true)
+        try {
+            await onSave(draft)
+            if (generateRoutine) await onGenerateRoutine(draft)
+            setOpen(false)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                    <HeartPulse className="mr-2 h-4 w-4" />
+                    Wellness Settings
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Wellness Settings</DialogTitle>
+                    <DialogDescription>Your focus rhythm, sleep window and meal times</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Work session (min)</Label>
+                            <Input
+                                type="number"
+                                min={5}
+                                value={draft.work_session_duration}
+                                onChange={(e) => update("work_session_duration", Number(e.target.value))}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Break (min)</Label>
+                            <Input
+                                type="number"
+                                min={1}
+                                value={draft.break_duration}
+                                onChange={(e) => update("break_duration", Number(e.target.value))}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Sleep from</Label>
+                            <Input type="time" value={draft.sleep_start_time} onChange={(e) => update("sleep_start_time", e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Sleep until</Label>
+                            <Input type="time" value={draft.sleep_end_time} onChange={(e) => update("sleep_end_time", e.target.value)} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                        {(["breakfast", "lunch", "dinner"] as const).map((meal) => (
+                            <div key={meal} className="space-y-2">
+                                <Label className="capitalize">{meal}</Label>
+                                <Input type="time" value={draft.meal_times[meal]} onChange={(e) => updateMeal(meal, e.target.value)} />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <Label htmlFor="burnout-prevention">Burnout prevention</Label>
+                            <p className="text-xs text-muted-foreground">Longer break every 4th session, late-night warnings</p>
+                        </div>
+                        <Switch
+                            id="burnout-prevention"
+                            checked={draft.burnout_prevention}
+                            onCheckedChange={(checked) => update("burnout_prevention", checked)}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="reminder-notifications">Reminders</Label>
+                        <Switch
+                            id="reminder-notifications"
+                            checked={draft.reminder_notifications}
+                            onCheckedChange={(checked) => update("reminder_notifications", checked)}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <Label htmlFor="generate-routine">Add sleep & meal blocks</Label>
+                            <p className="text-xs text-muted-foreground">Replaces previously generated blocks on your timeline</p>
+                        </div>
+                        <Switch id="generate-routine" checked={generateRoutine} onCheckedChange={setGenerateRoutine} />
+                    </div>
+
+                    <Button onClick={handleSave} disabled={isSaving} className="w-full">
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Settings"}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
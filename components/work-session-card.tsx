@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { Coffee, Pause, Play } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { WellnessPreferences, pomodoroState } from "@/lib/wellness"
+
+interface WorkSessionCardProps {
+    sessionStart: Date | null
+    settings: WellnessPreferences
+    onStart: () => void
+    onStop: () => void
+}
+
+function formatCountdown(ms: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+    const minutes = Math.floor(totalSeconds / 60)
+    const seconds = totalSeconds % 60
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+export function WorkSessionCard({ sessionStart, settings, onStart, onStop }: WorkSessionCardProps) {
+    const { toast } = useToast()
+    const [now, setNow] = useState(() => Date.now())
+    const lastPhaseRef = useRef<string | null>(null)
+
+    // Tick every second only while a session is running
+    useEffect(() => {
+        if (!sessionStart) return
+        setNow(Date.now())
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [sessionStart])
+
+    const state = sessionStart ? pomodoroState(sessionStart, settings, now) : null
+
+    // Announce each switch between work and break
+    useEffect(() => {
+        if (!state) {
+            lastPhaseRef.current = null
+            return
+        }
+        const key = `${state.phase}-${state.cycle}`
+        if (lastPhaseRef.current && lastPhaseRef.current !== key && settings.reminder_notifications) {
+            toast(
+                state.phase === "break"
+                    ? {
+                        title: state.isLongBreak ? "Time for a long break 🌿" : "Time for a break ☕",
+                        description: `Step away for ${Math.round((state.phaseEndsAt.getTime() - now) / 60000)} minutes.`,
+                    }
+                    : { title: "Back to work 💪", description: `Session ${state.cycle} has started.` }
+            )
+        }
+        lastPhaseRef.current = key
+    }, [state?.phase, state?.cycle])
+
+    const phaseLength = state ? state.phaseEndsAt.getTime() - state.phaseStartedAt.getTime() : 0
+    const remaining = state ? state.phaseEndsAt.getTime() - now : 0
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Coffee className="h-5 w-5 text-amber-500" />
+                    Work Session
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-4">
+                    {state && sessionStart ? (
+                        <div className="text-center space-y-2">
+                            <Badge variant={state.phase === "work" ? "default" : "secondary"}>
+                                {state.phase === "work" ? `Focus · session ${state.cycle}` : state.isLongBreak ? "Long break" : "Break"}
+                            </Badge>
+                            <div className={`text-3xl font-bold ${state.phase === "work" ? "text-green-600" : "text-amber-600"}`}>
+                                {formatCountdown(remaining)}
+                            </div>
+                            <Progress value={phaseLength > 0 ? 100 - (remaining / phaseLength) * 100 : 0} className="h-1.5" />
+                            <div className="text-sm text-muted-foreground">
+                                Started: {sessionStart.toLocaleTimeString()}
+                            </div>
+                            <Button variant="outline" size="sm" className="mt-2" onClick={onStop}>
+                                <Pause className="mr-2 h-4 w-4" />
+                                End Session
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="text-center">
+                            <div className="text-lg font-medium text-muted-foreground">No Active Session</div>
+                            <div className="text-xs text-muted-foreground">
+                                {settings.work_session_duration} min focus / {settings.break_duration} min break
+                            </div>
+                            <Button size="sm" className="mt-2" onClick={onStart}>
+                                <Play className="mr-2 h-4 w-4" />
+                                Start Work Session
+                            </Button>
+                        </div>
+                    )}
+
+                    {state && (
+                        <div className="text-center p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                            <div className="text-sm font-medium text-amber-800">Next Break</div>
+                            <div className="text-xs text-amber-600">{state.nextBreakAt.toLocaleTimeString()}</div>
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
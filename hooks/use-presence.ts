@@ -0,0 +1,142 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { endPresenceSession, subscribeToPresence, updatePresence } from "@/lib/firestore"
+import { HEARTBEAT_MS, IDLE_AFTER_MS, OFFLINE_AFTER_MS, TYPING_IDLE_MS, TYPING_TTL_MS } from "@/lib/presence"
+import type { MemberPresence, PresenceSession } from "@/lib/types"
+
+type SessionState = Omit<PresenceSession, "last_seen">
+
+function newSessionId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Keeps a presence session alive for this tab and returns the whole team's.
+ * The session goes "away" while the tab is hidden or idle and carries the task
+ * the user has open; `setTyping` marks where they are typing until they pause.
+ */
+export function usePresence(projectId: string, userId: string | undefined, viewingTask: string | null) {
+  const [presence, setPresence] = useState<MemberPresence[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const sessionIdRef = useRef("")
+  const lastInputRef = useRef(Date.now())
+  const sentRef = useRef<SessionState | null>(null)
+  const sentAtRef = useRef(0)
+  const typingRef = useRef<string | null>(null)
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const viewingRef = useRef(viewingTask)
+  const prunedRef = useRef<string | null>(null)
+
+  // Writes only when something changed, unless it's a heartbeat
+  const send = useCallback(
+    (heartbeat = false) => {
+      if (!userId || !sessionIdRef.current) return
+      const session: SessionState = {
+        state: document.hidden || Date.now() - lastInputRef.current > IDLE_AFTER_MS ? "away" : "active",
+        typing_in: typingRef.current,
+        viewing_task: viewingRef.current,
+      }
+      const sent = sentRef.current
+      const changed =
+        !sent || sent.state !== session.state || sent.typing_in !== session.typing_in || sent.viewing_task !== session.viewing_task
+      if (!changed && !heartbeat) return
+      sentRef.current = session
+      sentAtRef.current = Date.now()
+      updatePresence(projectId, userId, sessionIdRef.current, session).catch((error) =>
+        console.error("Failed to update presence:", error),
+      )
+    },
+    [projectId, userId],
+  )
+
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToPresence(projectId, (next) => {
+      setPresence(next)
+      setNow(Date.now())
+    })
+  }, [projectId, userId])
+
+  useEffect(() => {
+    viewingRef.current = viewingTask
+    send()
+  }, [viewingTask, send])
+
+  useEffect(() => {
+    if (!userId) return
+    const sessionId = newSessionId()
+    sessionIdRef.current = sessionId
+    sentRef.current = null
+    send(true)
+
+    const heartbeat = setInterval(() => {
+      send(true)
+      setNow(Date.now())
+    }, HEARTBEAT_MS)
+    const handleInput = () => {
+      const wasIdle = Date.now() - lastInputRef.current > IDLE_AFTER_MS
+      lastInputRef.current = Date.now()
+      if (wasIdle) send()
+    }
+    const handleVisibility = () => {
+      if (!document.hidden) lastInputRef.current = Date.now()
+      send()
+    }
+    // Best effort: a tab that can't say goodbye simply stops heartbeating
+    const end = () => {
+      endPresenceSession(projectId, userId, sessionId).catch(() => {})
+    }
+
+    window.addEventListener("pointerdown", handleInput)
+    window.addEventListener("pointermove", handleInput, { passive: true })
+    window.addEventListener("keydown", handleInput)
+    window.addEventListener("pagehide", end)
+    document.addEventListener("visibilitychange", handleVisibility)
+    return () => {
+      clearInterval(heartbeat)
+      clearTimeout(typingTimerRef.current)
+      window.removeEventListener("pointerdown", handleInput)
+      window.removeEventListener("pointermove", handleInput)
+      window.removeEventListener("keydown", handleInput)
+      window.removeEventListener("pagehide", end)
+      document.removeEventListener("visibilitychange", handleVisibility)
+      sessionIdRef.current = ""
+      end()
+    }
+  }, [projectId, userId, send])
+
+  // Tabs that crashed or lost their connection leave sessions behind; clear ours once
+  useEffect(() => {
+    if (!userId || prunedRef.current === projectId) return
+    const own = presence.find((p) => p.user_id === userId)
+    if (!own) return
+    prunedRef.current = projectId
+    const cutoff = Date.now() - OFFLINE_AFTER_MS
+    for (const [sessionId, session] of Object.entries(own.sessions)) {
+      if (sessionId !== sessionIdRef.current && new Date(session.last_seen).getTime() < cutoff) {
+        endPresenceSession(projectId, userId, sessionId).catch(() => {})
+      }
+    }
+  }, [presence, projectId, userId])
+
+  /** Call on every keystroke with the channel, thread or MENTOR_TYPING_KEY; null once sent */
+  const setTyping = useCallback(
+    (key: string | null) => {
+      clearTimeout(typingTimerRef.current)
+      typingRef.current = key
+      lastInputRef.current = Date.now()
+      // Re-send well inside the TTL so a long message keeps the indicator up
+      send(key !== null && Date.now() - sentAtRef.current > TYPING_TTL_MS / 3)
+      if (key) {
+        typingTimerRef.current = setTimeout(() => {
+          typingRef.current = null
+          send()
+        }, TYPING_IDLE_MS)
+      }
+    },
+    [send],
+  )
+
+  return { presence, now, setTyping }
+}
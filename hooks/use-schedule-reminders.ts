@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { dueReminders, formatTimeRange } from "@/lib/schedule"
+import type { ScheduleEvent } from "@/lib/types"
+
+const CHECK_INTERVAL_MS = 30 * 1000
+
+/**
+ * Fires a toast (and a browser notification when permitted) once per event
+ * when its `reminder_minutes` window opens.
+ */
+export function useScheduleReminders(events: ScheduleEvent[], enabled = true) {
+  const { toast } = useToast()
+  const remindedRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const check = () => {
+      for (const event of dueReminders(events, Date.now())) {
+        if (remindedRef.current.has(event.event_id)) continue
+        remindedRef.current.add(event.event_id)
+
+        const minutes = Math.max(1, Math.round((new Date(event.start_time).getTime() - Date.now()) / 60000))
+        // Reminders set from chat carry their own text instead of a time block
+        const description =
+          event.type === "reminder" ? event.description || "Reminder" : `Starts in ${minutes} min (${formatTimeRange(event)})`
+        toast({ title: `⏰ ${event.title}`, description })
+
+        if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+          new Notification(event.title, { body: description })
+        }
+      }
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [events, enabled, toast])
+}
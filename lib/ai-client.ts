@@ -0,0 +1,8 @@
+import type { User } from "firebase/auth"
+
+/** Headers that identify the signed-in user to /api/gemini and /api/url-check */
+export async function aiAuthHeaders(user: User): Promise<Record<string, string>> {
+  // Local sessions from the offline store backends aren't Firebase users and have no ID token
+  if (typeof user.getIdToken !== "function") return { "X-Hackmate-Local-User": user.uid }
+  return { Authorization: `Bearer ${await user.getIdToken()}` }
+}
@@ -0,0 +1,288 @@
+import { createHash } from "crypto"
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+
+export type AICacheBackend = "memory" | "fs" | "redis" | "off"
+export type AICacheOutcome = "hit" | "miss" | "bypass"
+export type AICacheStats = Record<string, Record<AICacheOutcome, number>>
+
+/**
+ * Where cached replies live. Every backend holds plain strings with an expiry and
+ * keeps per-action hit, miss and bypass counters alongside them.
+ */
+export interface AICacheStore {
+  readonly name: AICacheBackend
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  count(action: string, outcome: AICacheOutcome): Promise<void>
+  stats(): Promise<AICacheStats>
+}
+
+/**
+ * How long each action's replies stay fresh. Chat is never cached: two teammates asking
+ * the same question should each get their own answer. Unlisted actions bypass too.
+ */
+export const DEFAULT_AI_CACHE_TTLS: Record<string, number> = {
+  analyze_idea: 24 * 60 * 60 * 1000, // 24 hours
+  generate_tasks: 60 * 60 * 1000, // 1 hour
+  breakdown_task: 60 * 60 * 1000, // 1 hour
+  rank_assignees: 15 * 60 * 1000, // 15 minutes
+  generate_pitch: 60 * 60 * 1000, // 1 hour
+  generate_docs: 60 * 60 * 1000, // 1 hour
+  mentor_chat: 0,
+}
+
+const MAX_MEMORY_ENTRIES = 500
+
+function emptyCounters(): Record<AICacheOutcome, number> {
+  return { hit: 0, miss: 0, bypass: 0 }
+}
+
+// Sorted keys and collapsed whitespace, so equivalent requests share one entry
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().replace(/\s+/g, " ")
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null && v !== "")
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)]),
+    )
+  }
+  return value
+}
+
+/**
+ * The cache key for one request. The model and prompt version are part of it, so a
+ * model switch or a reworded prompt never serves replies produced by the old one.
+ */
+export function aiCacheKey(action: string, data: unknown, model: string, promptVersion: number): string {
+  const digest = createHash("sha256").update(JSON.stringify(normalize(data))).digest("hex")
+  return `ai:${action}:v${promptVersion}:${model}:${digest}`
+}
+
+export function createMemoryCacheStore(): AICacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>()
+  const counters: AICacheStats = {}
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value
+    },
+    async set(key, value, ttlMs) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      entries.delete(key)
+      if (entries.size >= MAX_MEMORY_ENTRIES) entries.delete(entries.keys().next().value!)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    },
+    async count(action, outcome) {
+      counters[action] ??= emptyCounters()
+      counters[action][outcome]++
+    },
+    async stats() {
+      return structuredClone(counters)
+    },
+  }
+}
+
+/**
+ * One JSON file per entry under `dir`, so replies survive restarts of a long-lived
+ * server. Serverless instances only share it if `dir` is on shared storage.
+ */
+export function createFileCacheStore(dir: string): AICacheStore {
+  const entryPath = (key: string) => join(dir, `${createHash("sha256").update(key).digest("hex")}.json`)
+  const statsPath = join(dir, "stats.json")
+  let dirReady: Promise<unknown> | null = null
+  const ensureDir = () => (dirReady ??= mkdir(dir, { recursive: true }))
+
+  const readStats = async (): Promise<AICacheStats> => {
+    try {
+      return JSON.parse(await readFile(statsPath, "utf8"))
+    } catch {
+      return {}
+    }
+  }
+
+  return {
+    name: "fs",
+    async get(key) {
+      await ensureDir()
+      try {
+        const entry = JSON.parse(await readFile(entryPath(key), "utf8")) as { value: string; expiresAt: number }
+        if (entry.expiresAt > Date.now()) return entry.value
+        await rm(entryPath(key), { force: true })
+      } catch {
+        // Missing or half-written file: a miss
+      }
+      return null
+    },
+    async set(key, value, ttlMs) {
+      await ensureDir()
+      await writeFile(entryPath(key), JSON.stringify({ value, expiresAt: Date.now() + ttlMs }))
+    },
+    // Read-modify-write, so concurrent requests can drop a count; fine for a rough hit rate
+    async count(action, outcome) {
+      await ensureDir()
+      const counters = await readStats()
+      counters[action] ??= emptyCounters()
+      counters[action][outcome]++
+      await writeFile(statsPath, JSON.stringify(counters))
+    },
+    stats: readStats,
+  }
+}
+
+/**
+ * A Redis-compatible server behind an Upstash-style REST endpoint: commands are POSTed
+ * as JSON arrays and answered with `{ result }`. Shared by every server instance.
+ */
+export function createRedisCacheStore(config: { url: string; token?: string; prefix?: string }): AICacheStore {
+  const prefix = config.prefix ?? "hackmate:"
+  const statsKey = `${prefix}ai-cache-stats`
+
+  const command = async (...args: (string | number)[]): Promise<any> => {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      },
+      body: JSON.stringify(args),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok || body.error) throw new Error(`Redis ${args[0]} failed: ${body.error || response.status}`)
+    return body.result
+  }
+
+  return {
+    name: "redis",
+    async get(key) {
+      return (await command("GET", prefix + key)) ?? null
+    },
+    async set(key, value, ttlMs) {
+      await command("SET", prefix + key, value, "PX", ttlMs)
+    },
+    async count(action, outcome) {
+      await command("HINCRBY", statsKey, `${action}:${outcome}`, 1)
+    },
+    async stats() {
+      // HGETALL answers with a flat [field, value, field, value, ...] list
+      const flat: string[] = (await command("HGETALL", statsKey)) ?? []
+      const counters: AICacheStats = {}
+      for (let i = 0; i < flat.length; i += 2) {
+        const [action, outcome] = flat[i].split(":") as [string, AICacheOutcome]
+        counters[action] ??= emptyCounters()
+        counters[action][outcome] = Number(flat[i + 1])
+      }
+      return counters
+    },
+  }
+}
+
+/** `AI_CACHE_TTLS=analyze_idea=3600,generate_docs=0` overrides the defaults, in seconds */
+function parseTTLs(spec: string | undefined): Record<string, number> {
+  const ttls = { ...DEFAULT_AI_CACHE_TTLS }
+  for (const pair of spec?.split(",") ?? []) {
+    const [action, seconds] = pair.split("=").map((s) => s.trim())
+    if (action && seconds && Number.isFinite(Number(seconds))) ttls[action] = Number(seconds) * 1000
+  }
+  return ttls
+}
+
+export interface AICache {
+  readonly backend: AICacheBackend
+  /** The fresh cached reply, or null on a miss or for an action that bypasses the cache */
+  get(action: string, key: string): Promise<string | null>
+  /** Stores a reply under the action's TTL; a no-op for actions that bypass the cache */
+  set(action: string, key: string, value: string): Promise<void>
+  stats(): Promise<AICacheStats>
+}
+
+/**
+ * Applies the TTL policy and counts every lookup. Backend failures are logged and
+ * treated as misses: the cache can slow a request down but never fail it.
+ */
+export function createAICache(store: AICacheStore | null, ttls: Record<string, number> = DEFAULT_AI_CACHE_TTLS): AICache {
+  const ttlFor = (action: string) => (store ? ttls[action] ?? 0 : 0)
+  const safely = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await operation()
+    } catch (error) {
+      console.warn("AI cache error:", error)
+      return fallback
+    }
+  }
+
+  return {
+    backend: store?.name ?? "off",
+    async get(action, key) {
+      if (!store) return null
+      if (ttlFor(action) <= 0) {
+        await safely(() => store.count(action, "bypass"), undefined)
+        return null
+      }
+      const value = await safely(() => store.get(key), null)
+      await safely(() => store.count(action, value === null ? "miss" : "hit"), undefined)
+      return value
+    },
+    async set(action, key, value) {
+      const ttl = ttlFor(action)
+      if (!store || ttl <= 0) return
+      await safely(() => store.set(key, value, ttl), undefined)
+    },
+    async stats() {
+      return store ? safely(() => store.stats(), {}) : {}
+    },
+  }
+}
+
+/**
+ * Backend selected by HACKMATE_AI_CACHE (server-side only):
+ * - "memory" (default): this server instance only, lost on restart or cold start
+ * - "fs": files under AI_CACHE_DIR (default: a folder in the OS temp dir)
+ * - "redis": AI_CACHE_REDIS_URL with an optional AI_CACHE_REDIS_TOKEN
+ * - "off": no caching
+ * AI_CACHE_TTLS overrides the per-action TTLs.
+ */
+export function getAICacheBackend(): AICacheBackend {
+  const backend = process.env.HACKMATE_AI_CACHE
+  return backend === "fs" || backend === "redis" || backend === "off" ? backend : "memory"
+}
+
+function createStore(backend: AICacheBackend): AICacheStore | null {
+  switch (backend) {
+    case "fs":
+      return createFileCacheStore(process.env.AI_CACHE_DIR || join(tmpdir(), "hackmate-ai-cache"))
+    case "redis":
+      if (!process.env.AI_CACHE_REDIS_URL) {
+        console.warn("HACKMATE_AI_CACHE=redis but AI_CACHE_REDIS_URL is not set; using the memory cache")
+        return createMemoryCacheStore()
+      }
+      return createRedisCacheStore({ url: process.env.AI_CACHE_REDIS_URL, token: process.env.AI_CACHE_REDIS_TOKEN })
+    case "off":
+      return null
+    default:
+      return createMemoryCacheStore()
+  }
+}
+
+let activeCache: AICache | null = null
+
+export function getAICache(): AICache {
+  if (!activeCache) activeCache = createAICache(createStore(getAICacheBackend()), parseTTLs(process.env.AI_CACHE_TTLS))
+  return activeCache
+}
+
+// Swap the active cache, e.g. to start each test from an empty memory cache
+export function setAICache(cache: AICache | null): void {
+  activeCache = cache
+}
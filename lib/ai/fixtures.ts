@@ -0,0 +1,46 @@
+// Canned replies for the mock provider, keyed by /api/gemini action.
+// They are shaped like a well-behaved model's output so the parsing code runs for real.
+export const DEFAULT_FIXTURES: Record<string, string> = {
+  analyze_idea: JSON.stringify({
+    problem_statement:
+      "Hackathon teams lose hours deciding what to build and who does what. This project gives them a shared plan from the first minute.",
+    target_users: ["Hackathon teams", "Student developers", "Event organisers"],
+    features: ["Idea analysis", "Task board", "Team chat", "Live progress tracking"],
+    risks: ["Scope creep", "Unreliable third-party APIs", "Demo day connectivity"],
+    tech_stack_suggestions: ["Next.js", "Firebase", "Tailwind CSS"],
+  }),
+  generate_tasks: JSON.stringify([
+    { title: "Set up the repository", description: "Create the project skeleton and CI", effort: "Low" },
+    { title: "Design the data model", description: "Agree on collections and document shapes", effort: "Medium" },
+    { title: "Build the core flow", description: "Implement the main user journey end to end", effort: "High" },
+    { title: "Add authentication", description: "Sign-in and protected routes", effort: "Medium" },
+    { title: "Polish the UI", description: "Empty states, loading states and copy", effort: "Medium" },
+    { title: "Prepare the demo", description: "Script, seed data and slides", effort: "Low" },
+  ]),
+  breakdown_task: JSON.stringify({
+    subtasks: [
+      { title: "Sketch the screen flow", estimate_minutes: 30, assignee: null, depends_on: [] },
+      { title: "Build the API endpoint", estimate_minutes: 90, assignee: null, depends_on: [] },
+      { title: "Wire the UI to the endpoint", estimate_minutes: 60, assignee: null, depends_on: [1, 2] },
+      { title: "Test the happy path", estimate_minutes: 30, assignee: null, depends_on: [3] },
+    ],
+  }),
+  rank_assignees: JSON.stringify({ rankings: [{ task: 1, members: [] }] }),
+  generate_pitch: JSON.stringify({
+    title: "HackMate",
+    tagline: "A shared plan for your hackathon team from minute one",
+    slides: [
+      { title: "The Problem", bullets: ["Teams lose hours deciding what to build"], notes: "Open with the first-hour chaos." },
+      { title: "Our Solution", bullets: ["AI idea analysis", "Shared task board"], notes: "" },
+      { title: "Demo", bullets: ["Create a project", "Generate tasks", "Track progress"], notes: "Run the live demo." },
+      { title: "What's Next", bullets: ["Integrations with event platforms"], notes: "" },
+    ],
+  }),
+  mentor_chat:
+    "Start with the smallest slice that demos end to end, then layer features on top. Write down what you will cut if time runs short, and check in with the team every few hours.",
+  summarize_chat:
+    "The team asked how to scope their demo; the mentor suggested building one end-to-end slice first and listing features to cut.",
+  generate_docs: "# Project Documentation\n\n## Abstract\n\nThis is mock documentation generated without calling a model.\n",
+}
+
+export const DEFAULT_FIXTURE_REPLY = "This is a mock AI reply."
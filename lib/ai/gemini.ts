@@ -0,0 +1,70 @@
+import { readSSEData } from "./sse"
+import type { AIMessage, AICompletionOptions, AIProvider } from "./types"
+
+interface GeminiConfig {
+  apiKey: string
+  model: string
+}
+
+// Gemini takes system prompts separately and calls the assistant "model"
+function toGeminiBody(messages: AIMessage[], options: AICompletionOptions) {
+  const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n")
+  const contents = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: m.content }] }))
+
+  return JSON.stringify({
+    contents,
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    ...(options.json ? { generationConfig: { responseMimeType: "application/json" } } : {}),
+  })
+}
+
+function candidateText(data: any): string {
+  return data?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text ?? "").join("") ?? ""
+}
+
+/** Google's Gemini API called directly, configured with GEMINI_API_KEY and GEMINI_MODEL */
+export function createGeminiProvider(config: GeminiConfig): AIProvider {
+  const request = (method: string, messages: AIMessage[], options: AICompletionOptions) =>
+    fetch(`https://generativelanguage.googleapis.com/v1beta/models/${config.model}:${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-goog-api-key": config.apiKey },
+      body: toGeminiBody(messages, options),
+      signal: options.signal,
+    })
+
+  return {
+    name: "gemini",
+    model: config.model,
+    async complete(messages: AIMessage[], options: AICompletionOptions = {}) {
+      const response = await request("generateContent", messages, options)
+
+      if (!response.ok) {
+        throw new Error(`Gemini request failed (${response.status}): ${await response.text()}`)
+      }
+
+      const text = candidateText(await response.json())
+      if (!text) throw new Error("Gemini returned no content")
+      if (options.meter) options.meter.model = config.model
+      return text
+    },
+    async *stream(messages: AIMessage[], options: AICompletionOptions = {}) {
+      const response = await request("streamGenerateContent?alt=sse", messages, options)
+
+      if (!response.ok) {
+        throw new Error(`Gemini stream failed (${response.status}): ${await response.text()}`)
+      }
+      if (options.meter) options.meter.model = config.model
+
+      for await (const data of readSSEData(response)) {
+        try {
+          const text = candidateText(JSON.parse(data))
+          if (text) yield text
+        } catch {
+          // Ignore frames that aren't JSON
+        }
+      }
+    },
+  }
+}
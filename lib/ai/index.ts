@@ -0,0 +1,105 @@
+import { createGeminiProvider } from "./gemini"
+import { createMockProvider } from "./mock"
+import { createOpenAICompatibleProvider } from "./openai-compatible"
+import { createOpenRouterProvider } from "./openrouter"
+import type { AIMessage, AICompletionOptions, AIProvider, AIUsageMeter } from "./types"
+
+export type { AIProvider, AIMessage, AIRole, AICompletionOptions, AIUsageMeter } from "./types"
+export { createMockProvider } from "./mock"
+
+export type AIProviderName = "openrouter" | "gemini" | "local" | "mock"
+
+/**
+ * Provider selected by HACKMATE_AI_PROVIDER (server-side only):
+ * - "openrouter" (default): OPENROUTER_API_KEY, optional comma-separated OPENROUTER_MODELS
+ * - "gemini": GEMINI_API_KEY, optional GEMINI_MODEL
+ * - "local": an OpenAI-compatible server at LOCAL_AI_BASE_URL running LOCAL_AI_MODEL
+ * - "mock": fixture replies, optionally overridden from the JSON file at AI_MOCK_FIXTURES
+ */
+export function getAIProviderName(): AIProviderName {
+  const name = process.env.HACKMATE_AI_PROVIDER
+  return name === "gemini" || name === "local" || name === "mock" ? name : "openrouter"
+}
+
+function createProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || "",
+        model: process.env.GEMINI_MODEL || "gemini-2.0-flash",
+      })
+    case "local":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_AI_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.LOCAL_AI_MODEL || "llama3.2",
+        apiKey: process.env.LOCAL_AI_API_KEY,
+      })
+    case "mock":
+      return createMockProvider({ fixturesPath: process.env.AI_MOCK_FIXTURES })
+    default:
+      return createOpenRouterProvider({
+        apiKey: process.env.OPENROUTER_API_KEY || "",
+        models: process.env.OPENROUTER_MODELS?.split(",").map((m) => m.trim()).filter(Boolean),
+      })
+  }
+}
+
+export function createUsageMeter(): AIUsageMeter {
+  return { calls: 0, promptChars: 0, responseChars: 0 }
+}
+
+const promptSize = (messages: AIMessage[]) => messages.reduce((sum, m) => sum + m.content.length, 0)
+
+// Counts calls and characters on `options.meter` so providers only have to report their model
+function metered(provider: AIProvider): AIProvider {
+  const stream = provider.stream
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(messages, options = {}) {
+      const { meter } = options
+      if (meter) {
+        meter.calls++
+        meter.promptChars += promptSize(messages)
+      }
+      const reply = await provider.complete(messages, options)
+      if (meter) meter.responseChars += reply.length
+      return reply
+    },
+    ...(stream && {
+      async *stream(messages: AIMessage[], options: AICompletionOptions = {}) {
+        const { meter } = options
+        if (meter) {
+          meter.calls++
+          meter.promptChars += promptSize(messages)
+        }
+        for await (const chunk of stream.call(provider, messages, options)) {
+          if (meter) meter.responseChars += chunk.length
+          yield chunk
+        }
+      },
+    }),
+  }
+}
+
+let activeProvider: AIProvider | null = null
+
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) activeProvider = metered(createProvider(getAIProviderName()))
+  return activeProvider
+}
+
+// Swap the active provider, e.g. to inject a mock with custom fixtures in tests
+export function setAIProvider(provider: AIProvider | null): void {
+  activeProvider = provider && metered(provider)
+}
+
+// Streams from providers that support it and yields the whole reply once from those that don't
+export async function* streamAI(messages: AIMessage[], options: AICompletionOptions = {}): AsyncGenerator<string> {
+  const provider = getAIProvider()
+  if (provider.stream) {
+    yield* provider.stream(messages, options)
+  } else {
+    yield await provider.complete(messages, options)
+  }
+}
@@ -0,0 +1,128 @@
+import { z } from "zod"
+import type { MentorToolCall, MentorToolName, ProjectMember, Task } from "@/lib/types"
+
+const taskPriority = z.enum(["Low", "Medium", "High", "Critical"])
+const taskEffort = z.enum(["Low", "Medium", "High"])
+const text = z.string().trim().min(1)
+
+/** Argument schemas for the board actions the mentor may propose */
+export const MENTOR_TOOL_SCHEMAS = {
+  create_task: z.object({
+    title: text,
+    description: z.string().trim().default(""),
+    priority: taskPriority.default("Medium"),
+    effort: taskEffort.default("Medium"),
+    assignee: text.optional(),
+  }),
+  update_task: z
+    .object({
+      task: text,
+      title: text.optional(),
+      description: z.string().trim().optional(),
+      status: z.enum(["ToDo", "InProgress", "Done"]).optional(),
+      priority: taskPriority.optional(),
+    })
+    .refine((a) => a.title || a.description !== undefined || a.status || a.priority, "Nothing to change"),
+  assign_task: z.object({
+    task: text,
+    // null unassigns
+    assignee: text.nullable(),
+  }),
+  add_milestone: z.object({
+    name: text,
+    description: z.string().trim().default(""),
+    deadline: z.string().refine((d) => !isNaN(new Date(d).getTime()), "Expected an ISO date"),
+  }),
+  post_note: z.object({
+    title: text,
+    content: text,
+  }),
+} satisfies Record<MentorToolName, z.ZodTypeAny>
+
+export type MentorToolArgs<T extends MentorToolName> = z.infer<(typeof MENTOR_TOOL_SCHEMAS)[T]>
+
+/** System-prompt section that teaches the model the action format */
+export const MENTOR_TOOLS_PROMPT = `You can propose changes to the team's board. The team reviews each one before it is applied.
+To propose one, add a fenced block tagged "tool" containing a single JSON object, after your explanation:
+\`\`\`tool
+{"tool": "create_task", "args": {"title": "Add login page", "priority": "High"}}
+\`\`\`
+Available tools:
+- create_task: {"title", "description"?, "priority"?: Low|Medium|High|Critical, "effort"?: Low|Medium|High, "assignee"?: team member name}
+- update_task: {"task": existing task title, "title"?, "description"?, "status"?: ToDo|InProgress|Done, "priority"?}
+- assign_task: {"task": existing task title, "assignee": team member name or null}
+- add_milestone: {"name", "description"?, "deadline": ISO 8601 date}
+- post_note: {"title", "content": Markdown} - shares a note with the team
+Only propose actions when the team asks for changes or one clearly helps. Never claim a change is done.`
+
+const TOOL_BLOCK = /```tool\s*\n([\s\S]*?)```/g
+// A block still being streamed in has no closing fence yet
+const OPEN_TOOL_BLOCK = /```tool[\s\S]*$/
+
+/** The reply without tool blocks, for display while it streams and once it's stored */
+export function stripToolBlocks(content: string): string {
+  return content.replace(TOOL_BLOCK, "").replace(OPEN_TOOL_BLOCK, "").trim()
+}
+
+/**
+ * Pulls the proposed actions out of a finished reply. Blocks that aren't valid JSON
+ * or don't match their tool's schema are dropped rather than shown to the team.
+ */
+export function extractToolCalls(content: string): { text: string; calls: MentorToolCall[] } {
+  const calls: MentorToolCall[] = []
+  for (const [, body] of content.matchAll(TOOL_BLOCK)) {
+    try {
+      const { tool, args } = JSON.parse(body)
+      if (!(tool in MENTOR_TOOL_SCHEMAS)) continue
+      const parsed = MENTOR_TOOL_SCHEMAS[tool as MentorToolName].safeParse(args ?? {})
+      if (!parsed.success) continue
+      calls.push({ call_id: `call-${calls.length + 1}`, tool, args: parsed.data, status: "pending" })
+    } catch {
+      // Not JSON; skip it
+    }
+  }
+  return { text: stripToolBlocks(content), calls }
+}
+
+// Exact title first, then a unique partial match, so the model can paraphrase slightly
+export function findTaskByTitle(tasks: Task[], title: string): Task {
+  const needle = title.trim().toLowerCase()
+  const exact = tasks.find((t) => t.title.toLowerCase() === needle)
+  if (exact) return exact
+  const partial = tasks.filter((t) => t.title.toLowerCase().includes(needle))
+  if (partial.length === 1) return partial[0]
+  throw new Error(partial.length ? `"${title}" matches several tasks` : `No task called "${title}"`)
+}
+
+export function findMemberByName(members: ProjectMember[], name: string): ProjectMember {
+  const needle = name.trim().toLowerCase()
+  const member = members.find(
+    (m) => m.name.toLowerCase() === needle || m.email.toLowerCase() === needle || m.name.toLowerCase().split(" ")[0] === needle,
+  )
+  if (!member) throw new Error(`No team member called "${name}"`)
+  return member
+}
+
+/** One-line summary for the confirmation card and the activity feed */
+export function describeToolCall(call: MentorToolCall): string {
+  const a = call.args
+  switch (call.tool) {
+    case "create_task":
+      return `Create task "${a.title}" (${a.priority})${a.assignee ? ` for ${a.assignee}` : ""}`
+    case "update_task": {
+      const changes = [
+        a.title && `rename to "${a.title}"`,
+        a.status && `move to ${a.status}`,
+        a.priority && `set priority ${a.priority}`,
+        a.description !== undefined && "update the description",
+      ].filter(Boolean)
+      return `Update "${a.task}": ${changes.join(", ")}`
+    }
+    case "assign_task":
+      return a.assignee ? `Assign "${a.task}" to ${a.assignee}` : `Unassign "${a.task}"`
+    case "add_milestone":
+      return `Add milestone "${a.name}" due ${new Date(a.deadline).toLocaleString()}`
+    case "post_note":
+      return `Share a note: "${a.title}"`
+  }
+}
@@ -0,0 +1,169 @@
+import type { IdeaAnalysis, Task } from "@/lib/types"
+import { MENTOR_TOOLS_PROMPT } from "./mentor-tools"
+import type { AIMessage, AIProvider, AIUsageMeter } from "./types"
+
+// Rough but provider-neutral: about four characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/** Recent turns sent verbatim; anything older is folded into the summary */
+export const HISTORY_TOKEN_BUDGET = 1200
+const SUMMARY_MAX_CHARS = 1500
+const MAX_OPEN_TASKS = 12
+
+export interface MentorHistoryMessage {
+  role: "user" | "assistant"
+  content: string
+  /** Who asked, so the mentor can tell teammates apart */
+  author?: string
+  /** ISO timestamp */
+  timestamp: string
+}
+
+/** The project state the route turns into prompt context; loaded server-side except on the offline backends */
+export interface MentorProjectContext {
+  name: string
+  idea?: IdeaAnalysis | null
+  time_remaining?: string
+  github_repo?: string
+  members?: string[]
+  tasks?: (Pick<Task, "title" | "status" | "priority"> & { assignee?: string; blocked_by?: string[] })[]
+}
+
+export interface MentorMemorySnapshot {
+  summary: string
+  /** ISO timestamp of the newest message already in the summary */
+  summarized_until: string
+}
+
+/**
+ * Splits the history into the newest turns that fit `budget` and the older ones that
+ * don't. Messages already covered by the memory are dropped from both.
+ */
+export function splitHistory(
+  history: MentorHistoryMessage[],
+  memory: MentorMemorySnapshot | null,
+  budget = HISTORY_TOKEN_BUDGET,
+): { recent: MentorHistoryMessage[]; older: MentorHistoryMessage[] } {
+  const since = memory ? new Date(memory.summarized_until).getTime() : -Infinity
+  const unsummarized = history.filter((m) => new Date(m.timestamp).getTime() > since)
+
+  let used = 0
+  let cut = unsummarized.length
+  while (cut > 0) {
+    const cost = estimateTokens(unsummarized[cut - 1].content)
+    if (used + cost > budget) break
+    used += cost
+    cut--
+  }
+  return { recent: unsummarized.slice(cut), older: unsummarized.slice(0, cut) }
+}
+
+function transcript(messages: MentorHistoryMessage[]): string {
+  return messages
+    .map((m) => `${m.role === "assistant" ? "Mentor" : m.author || "Team"}: ${m.content}`)
+    .join("\n")
+}
+
+/**
+ * Folds `older` into the running summary with one extra completion. On failure the
+ * previous memory is kept so the chat itself still goes ahead.
+ */
+export async function summarizeHistory(
+  provider: AIProvider,
+  memory: MentorMemorySnapshot | null,
+  older: MentorHistoryMessage[],
+  meter?: AIUsageMeter,
+): Promise<MentorMemorySnapshot | null> {
+  if (older.length === 0) return memory
+
+  const prompt = `Update the running summary of a hackathon team's conversation with their AI mentor.
+Keep decisions, open questions, technical choices and advice the team acted on. Drop small talk.
+Reply with the new summary only, at most 150 words.
+
+Current summary:
+${memory?.summary || "(none yet)"}
+
+New messages:
+${transcript(older)}`
+
+  try {
+    const summary = await provider.complete([{ role: "user", content: prompt }], { action: "summarize_chat", meter })
+    return {
+      summary: summary.trim().slice(0, SUMMARY_MAX_CHARS),
+      summarized_until: older[older.length - 1].timestamp,
+    }
+  } catch (error) {
+    console.warn("Mentor summary failed, keeping the previous one:", error)
+    return memory
+  }
+}
+
+export function buildProjectContext(project: MentorProjectContext, recentCommits: string[] = []): string {
+  const lines = [`Project: ${project.name}`]
+  if (project.time_remaining) lines.push(`Time: ${project.time_remaining}`)
+  if (project.members?.length) lines.push(`Team: ${project.members.join(", ")}`)
+  if (project.idea) {
+    lines.push(`Problem: ${project.idea.problem_statement}`)
+    if (project.idea.features.length) lines.push(`Features: ${project.idea.features.join(", ")}`)
+    if (project.idea.tech_stack_suggestions.length) lines.push(`Tech stack: ${project.idea.tech_stack_suggestions.join(", ")}`)
+  }
+
+  const tasks = project.tasks ?? []
+  const open = tasks.filter((t) => t.status !== "Done")
+  if (tasks.length) {
+    lines.push(`Tasks: ${tasks.length - open.length}/${tasks.length} done`)
+  }
+  if (open.length) {
+    lines.push("Open tasks:")
+    for (const t of open.slice(0, MAX_OPEN_TASKS)) {
+      lines.push(`- [${t.status}, ${t.priority}] ${t.title}${t.assignee ? ` (${t.assignee})` : " (unassigned)"}`)
+    }
+    if (open.length > MAX_OPEN_TASKS) lines.push(`- …and ${open.length - MAX_OPEN_TASKS} more`)
+  }
+
+  const blocked = open.filter((t) => t.blocked_by?.length)
+  if (blocked.length) {
+    lines.push("Blockers:")
+    for (const t of blocked) lines.push(`- ${t.title} is waiting on ${t.blocked_by!.join(", ")}`)
+  }
+
+  if (recentCommits.length) {
+    lines.push("Recent commits:")
+    for (const message of recentCommits) lines.push(`- ${message}`)
+  }
+  return lines.join("\n")
+}
+
+export function buildMentorMessages(options: {
+  context: string
+  memory: MentorMemorySnapshot | null
+  recent: MentorHistoryMessage[]
+  question: string
+  /** Describe the board actions the mentor may propose */
+  tools?: boolean
+}): AIMessage[] {
+  const system = [
+    "You are HackMate AI mentor for hackathon teams.",
+    "Be concise, practical, and actionable. Answer in 3-5 sentences unless asked for more, and use Markdown where it helps.",
+    "Ground your advice in the project state below.",
+    "",
+    options.context,
+  ]
+  if (options.memory?.summary) {
+    system.push("", "Earlier in this conversation:", options.memory.summary)
+  }
+  if (options.tools) {
+    system.push("", MENTOR_TOOLS_PROMPT)
+  }
+
+  return [
+    { role: "system", content: system.join("\n") },
+    ...options.recent.map((m) => ({
+      role: m.role,
+      content: m.role === "user" && m.author ? `${m.author}: ${m.content}` : m.content,
+    })),
+    { role: "user", content: options.question },
+  ]
+}
@@ -0,0 +1,54 @@
+import { readFileSync } from "fs"
+import { DEFAULT_FIXTURES, DEFAULT_FIXTURE_REPLY } from "./fixtures"
+import type { AIMessage, AICompletionOptions, AIProvider } from "./types"
+
+const STREAM_CHUNK_DELAY_MS = 30
+
+interface MockConfig {
+  /** JSON file of `{ [action]: reply }` merged over the built-in fixtures */
+  fixturesPath?: string
+  fixtures?: Record<string, string>
+}
+
+function loadFixtures(config: MockConfig): Record<string, string> {
+  let fromFile: Record<string, string> = {}
+  if (config.fixturesPath) {
+    try {
+      fromFile = JSON.parse(readFileSync(config.fixturesPath, "utf8"))
+    } catch (error) {
+      console.error(`Could not read AI fixtures from ${config.fixturesPath}:`, error)
+    }
+  }
+  return { ...DEFAULT_FIXTURES, ...fromFile, ...config.fixtures }
+}
+
+/**
+ * Answers from fixtures without touching the network, so the app runs offline and
+ * the same prompt always gets the same reply.
+ */
+export function createMockProvider(config: MockConfig = {}): AIProvider {
+  const fixtures = loadFixtures(config)
+  const reply = (action?: string) => (action && fixtures[action]) || DEFAULT_FIXTURE_REPLY
+  const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError")
+  }
+
+  return {
+    name: "mock",
+    model: "mock",
+    async complete(_messages: AIMessage[], options: AICompletionOptions = {}) {
+      throwIfAborted(options.signal)
+      if (options.meter) options.meter.model = "mock"
+      return reply(options.action)
+    },
+    // Word by word with a short pause, so streaming UI can be exercised offline
+    async *stream(_messages: AIMessage[], options: AICompletionOptions = {}) {
+      if (options.meter) options.meter.model = "mock"
+      for (const chunk of reply(options.action).match(/\S+\s*|\s+/g) ?? []) {
+        throwIfAborted(options.signal)
+        await new Promise((res) => setTimeout(res, STREAM_CHUNK_DELAY_MS))
+        yield chunk
+      }
+    },
+  }
+}
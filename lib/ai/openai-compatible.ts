@@ -0,0 +1,98 @@
+import { readSSEData } from "./sse"
+import type { AIMessage, AICompletionOptions, AIProvider } from "./types"
+
+// OpenAI-style JSON mode; servers that don't support it ignore the field
+export function responseFormat(options: AICompletionOptions): Record<string, unknown> {
+  return options.json ? { response_format: { type: "json_object" } } : {}
+}
+
+// POST to any OpenAI-style /chat/completions endpoint and return the first choice's text
+export async function chatCompletion(
+  baseUrl: string,
+  model: string,
+  messages: AIMessage[],
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  extraBody: Record<string, unknown> = {},
+): Promise<{ status: number; content?: string; error?: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ model, messages, ...extraBody }),
+    signal,
+  })
+
+  if (!response.ok) {
+    return { status: response.status, error: await response.text() }
+  }
+
+  const data = await response.json()
+  return { status: response.status, content: data?.choices?.[0]?.message?.content }
+}
+
+// Same endpoint with `stream: true`; the caller checks `response.ok` before reading deltas
+export function streamChatCompletion(
+  baseUrl: string,
+  model: string,
+  messages: AIMessage[],
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  return fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ model, messages, stream: true }),
+    signal,
+  })
+}
+
+// Yields the text of each `choices[0].delta` until the `[DONE]` sentinel
+export async function* readChatDeltas(response: Response): AsyncGenerator<string> {
+  for await (const data of readSSEData(response)) {
+    if (data === "[DONE]") return
+    try {
+      const text = JSON.parse(data)?.choices?.[0]?.delta?.content
+      if (text) yield text
+    } catch {
+      // Keep-alive comments and partial frames carry no text
+    }
+  }
+}
+
+interface OpenAICompatibleConfig {
+  baseUrl: string
+  model: string
+  apiKey?: string
+}
+
+/**
+ * A local OpenAI-compatible server such as llama.cpp's `llama-server` or Ollama.
+ * Configured with LOCAL_AI_BASE_URL, LOCAL_AI_MODEL and, if the server wants one, LOCAL_AI_API_KEY.
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  return {
+    name: "local",
+    model: config.model,
+    async complete(messages: AIMessage[], options: AICompletionOptions = {}) {
+      const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+      const result = await chatCompletion(
+        config.baseUrl,
+        config.model,
+        messages,
+        headers,
+        options.signal,
+        responseFormat(options),
+      )
+      if (!result.content) throw new Error(result.error || `Local model returned no content (${result.status})`)
+      if (options.meter) options.meter.model = config.model
+      return result.content
+    },
+    async *stream(messages: AIMessage[], options: AICompletionOptions = {}) {
+      const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+      const response = await streamChatCompletion(config.baseUrl, config.model, messages, headers, options.signal)
+      if (!response.ok) throw new Error(`Local model stream failed (${response.status}): ${await response.text()}`)
+      if (options.meter) options.meter.model = config.model
+      yield* readChatDeltas(response)
+    },
+  }
+}
@@ -0,0 +1,104 @@
+import { chatCompletion, readChatDeltas, responseFormat, streamChatCompletion } from "./openai-compatible"
+import type { AIMessage, AICompletionOptions, AIProvider } from "./types"
+
+/**
+ * Stable FREE models (order matters)
+ * Gemini free is LAST because it rate-limits a lot
+ */
+export const FREE_MODELS = [
+  "meta-llama/llama-3.2-3b-instruct:free",
+  "mistralai/mistral-7b-instruct:free",
+  "huggingfaceh4/zephyr-7b-beta:free",
+  "google/gemini-2.0-flash-exp:free",
+]
+
+// Free models have small context windows; roomy enough for the mentor's budgeted system prompt
+const MAX_MESSAGE_CHARS = 6000
+
+interface OpenRouterConfig {
+  apiKey: string
+  models?: string[]
+}
+
+/** Tries each model in turn, moving on when one is rate-limited or fails */
+export function createOpenRouterProvider(config: OpenRouterConfig): AIProvider {
+  const models = config.models?.length ? config.models : FREE_MODELS
+  const headers = {
+    Authorization: `Bearer ${config.apiKey}`,
+    "HTTP-Referer": "https://hackmate.vercel.app",
+    "X-Title": "HackMate AI",
+  }
+  const trim = (messages: AIMessage[]) => messages.map((m) => ({ ...m, content: m.content.slice(0, MAX_MESSAGE_CHARS) })) // token safety
+
+  return {
+    name: "openrouter",
+    model: models.join(","),
+    async complete(messages: AIMessage[], options: AICompletionOptions = {}) {
+      let lastError: Error | null = null
+      const trimmed = trim(messages)
+
+      for (const model of models) {
+        try {
+          const result = await chatCompletion(
+            "https://openrouter.ai/api/v1",
+            model,
+            trimmed,
+            headers,
+            options.signal,
+            responseFormat(options),
+          )
+
+          // Handle rate limit
+          if (result.status === 429) {
+            console.warn(`⚠️ ${model} rate-limited. Waiting...`)
+            await new Promise((res) => setTimeout(res, 2000)) // cooldown
+            continue
+          }
+
+          if (result.content) {
+            if (options.meter) options.meter.model = model
+            return result.content
+          }
+          lastError = new Error(result.error || `${model} returned no content`)
+        } catch (err) {
+          if (options.signal?.aborted) throw err
+          lastError = err instanceof Error ? err : new Error("Unknown error")
+        }
+      }
+
+      throw lastError || new Error("All AI models failed")
+    },
+    // Falls back across models only until one starts answering; a stream that breaks midway is not retried
+    async *stream(messages: AIMessage[], options: AICompletionOptions = {}) {
+      let lastError: Error | null = null
+      const trimmed = trim(messages)
+
+      for (const model of models) {
+        let response: Response
+        try {
+          response = await streamChatCompletion("https://openrouter.ai/api/v1", model, trimmed, headers, options.signal)
+        } catch (err) {
+          if (options.signal?.aborted) throw err
+          lastError = err instanceof Error ? err : new Error("Unknown error")
+          continue
+        }
+
+        if (response.status === 429) {
+          console.warn(`⚠️ ${model} rate-limited. Waiting...`)
+          await new Promise((res) => setTimeout(res, 2000)) // cooldown
+          continue
+        }
+        if (!response.ok) {
+          lastError = new Error(await response.text())
+          continue
+        }
+
+        if (options.meter) options.meter.model = model
+        yield* readChatDeltas(response)
+        return
+      }
+
+      throw lastError || new Error("All AI models failed")
+    },
+  }
+}
@@ -0,0 +1,66 @@
+import { z } from "zod"
+import type { IdeaAnalysis } from "@/lib/types"
+
+const stringList = z.array(z.string().trim().min(1)).min(1)
+
+export const ideaAnalysisSchema = z.object({
+  problem_statement: z.string().trim().min(1),
+  target_users: stringList,
+  features: stringList,
+  risks: z.array(z.string().trim().min(1)),
+  tech_stack_suggestions: z.array(z.string().trim().min(1)),
+}) satisfies z.ZodType<IdeaAnalysis>
+
+export const generatedTaskSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().default(""),
+  effort: z.enum(["Low", "Medium", "High"]).catch("Medium"),
+  priority: z.enum(["Low", "Medium", "High", "Critical"]).optional().catch(undefined),
+})
+
+export type GeneratedTask = z.infer<typeof generatedTaskSchema>
+
+// JSON mode only allows a top-level object, so tasks are asked for as `{ "tasks": [...] }`;
+// a bare array is still accepted from models that ignore the wrapper
+export const generatedTasksSchema = z
+  .union([z.array(generatedTaskSchema), z.object({ tasks: z.array(generatedTaskSchema) }).transform((o) => o.tasks)])
+  .refine((tasks) => tasks.length > 0, "Expected at least one task")
+
+
+export const generatedSubtaskSchema = z.object({
+  title: z.string().trim().min(1),
+  estimate_minutes: z.coerce.number().int().positive().max(480).catch(30),
+  assignee: z.string().trim().nullable().optional().catch(null),
+  // 1-based step numbers of earlier subtasks
+  depends_on: z.array(z.coerce.number().int().positive()).optional().catch([]),
+})
+
+export type GeneratedSubtask = z.infer<typeof generatedSubtaskSchema>
+
+export const taskBreakdownSchema = z
+  .object({ subtasks: z.array(generatedSubtaskSchema).min(1).max(12) })
+  .transform((o) => o.subtasks)
+
+// Tasks are referred to by their 1-based number in the prompt, members by name
+export const assigneeRankingSchema = z
+  .object({
+    rankings: z
+      .array(z.object({ task: z.coerce.number().int().positive(), members: z.array(z.string().trim().min(1)).catch([]) }))
+      .min(1),
+  })
+  .transform((o) => o.rankings)
+
+export const pitchDeckSchema = z.object({
+  title: z.string().trim().min(1),
+  tagline: z.string().trim().default(""),
+  slides: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1),
+        bullets: z.array(z.string().trim().min(1)).default([]),
+        notes: z.string().trim().default(""),
+      }),
+    )
+    .min(3)
+    .max(12),
+})
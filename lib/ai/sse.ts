@@ -0,0 +1,30 @@
+/**
+ * Yields the payload of each `data:` line in a server-sent events body.
+ * Both OpenAI-style and Gemini streaming endpoints speak this format.
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events can be split across network chunks, so keep the trailing partial line
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (trimmed.startsWith("data:")) yield trimmed.slice(5).trim()
+      }
+    }
+    const last = buffer.trim()
+    if (last.startsWith("data:")) yield last.slice(5).trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
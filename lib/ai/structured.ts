@@ -0,0 +1,75 @@
+import type { z } from "zod"
+import { getAIProvider } from "./index"
+import type { AIMessage, AICompletionOptions } from "./types"
+
+/** Thrown when the model still hasn't produced valid output after every repair attempt */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly lastReply: string,
+  ) {
+    super(message)
+    this.name = "StructuredOutputError"
+  }
+}
+
+// Models often wrap JSON in a fenced block or a sentence of preamble; take the outermost value
+export function extractJSON(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const body = (fenced ? fenced[1] : text).trim()
+  const start = body.search(/[[{]/)
+  if (start < 0) return body
+  const close = body[start] === "{" ? "}" : "]"
+  const end = body.lastIndexOf(close)
+  return end > start ? body.slice(start, end + 1) : body.slice(start)
+}
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+export function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParseResult<T> {
+  let json: unknown
+  try {
+    json = JSON.parse(extractJSON(text))
+  } catch (error) {
+    return { ok: false, error: `The reply is not valid JSON (${error instanceof Error ? error.message : "parse error"})` }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) return { ok: true, value: result.data }
+  const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+  return { ok: false, error: `The JSON does not match the required shape: ${issues.join("; ")}` }
+}
+
+/**
+ * Asks for JSON, validates it against `schema` and, when it doesn't fit, sends the
+ * reply back with the validation error so the model can correct it. Gives up after
+ * `maxRepairs` corrections with a StructuredOutputError.
+ */
+export async function completeStructured<T>(
+  messages: AIMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: AICompletionOptions & { maxRepairs?: number } = {},
+): Promise<T> {
+  const { maxRepairs = 2, ...completionOptions } = options
+  const conversation = [...messages]
+  let lastError = ""
+  let reply = ""
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    reply = await getAIProvider().complete(conversation, { ...completionOptions, json: true })
+    const parsed = parseStructured(reply, schema)
+    if (parsed.ok) return parsed.value
+
+    lastError = parsed.error
+    console.warn(`Structured output rejected (attempt ${attempt + 1}): ${lastError}`)
+    conversation.push(
+      { role: "assistant", content: reply },
+      {
+        role: "user",
+        content: `${lastError}. Reply again with ONLY the corrected JSON, no explanation or code fences.`,
+      },
+    )
+  }
+
+  throw new StructuredOutputError(lastError, reply)
+}
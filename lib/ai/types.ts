@@ -0,0 +1,38 @@
+export type AIRole = "system" | "user" | "assistant"
+
+export interface AIMessage {
+  role: AIRole
+  content: string
+}
+
+/** What one API request spent on the model; every call made for it adds to the same meter */
+export interface AIUsageMeter {
+  calls: number
+  promptChars: number
+  responseChars: number
+  /** The model that produced the latest reply, set by the provider */
+  model?: string
+}
+
+export interface AICompletionOptions {
+  /** The /api/gemini action the prompt was built for; the mock provider picks its fixture by it */
+  action?: string
+  signal?: AbortSignal
+  /** Ask for a JSON-only reply where the provider has a JSON mode; others rely on the prompt */
+  json?: boolean
+  meter?: AIUsageMeter
+}
+
+/**
+ * A chat-completion backend. Prompt code builds messages and never needs to know
+ * which provider answers them; `getAIProvider()` picks one from the environment.
+ */
+export interface AIProvider {
+  readonly name: string
+  /** The configured model, or models in fallback order; part of the response cache key */
+  readonly model: string
+  /** Resolves with the assistant's reply text; throws when no usable reply came back */
+  complete(messages: AIMessage[], options?: AICompletionOptions): Promise<string>
+  /** Yields the reply as it is generated; providers without it are streamed as one chunk by `streamAI` */
+  stream?(messages: AIMessage[], options?: AICompletionOptions): AsyncIterable<string>
+}
@@ -0,0 +1,46 @@
+import { verifyFirebaseIdToken } from "./firebase-token"
+import { getDocument } from "./firestore-rest"
+
+export interface RequestIdentity {
+  uid: string
+  /** The caller's Firebase ID token; absent for offline store backends */
+  idToken?: string
+}
+
+// Offline store backends have no Firebase Auth; the browser's local session id is all there is
+const usesFirebaseAuth = () => !["memory", "local"].includes(process.env.NEXT_PUBLIC_HACKMATE_STORE || "")
+
+/** The signed-in caller, or null when the request carries no valid credentials */
+export async function authenticateRequest(request: Request): Promise<RequestIdentity | null> {
+  if (!usesFirebaseAuth()) {
+    const uid = request.headers.get("x-hackmate-local-user")
+    return uid ? { uid } : null
+  }
+
+  const idToken = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1]
+  if (!idToken) return null
+  try {
+    const claims = await verifyFirebaseIdToken(idToken, process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || "")
+    return { uid: claims.uid, idToken }
+  } catch (error) {
+    console.warn("Rejected ID token:", error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+const MEMBERSHIP_TTL = 5 * 60 * 1000 // 5 minutes
+const membershipCache = new Map<string, { member: boolean; checkedAt: number }>()
+
+/** Reads the project with the caller's own token, so the rules decide; cached briefly per user */
+export async function isProjectMember(projectId: string, identity: RequestIdentity): Promise<boolean> {
+  if (!identity.idToken) return true
+
+  const key = `${identity.uid}:${projectId}`
+  const cached = membershipCache.get(key)
+  if (cached && Date.now() - cached.checkedAt < MEMBERSHIP_TTL) return cached.member
+
+  const project = await getDocument<{ members?: string[] }>(`projects/${projectId}`, identity.idToken)
+  const member = !!project?.members?.includes(identity.uid)
+  membershipCache.set(key, { member, checkedAt: Date.now() })
+  return member
+}
@@ -12,8 +12,10 @@ import {
   signOut,
   updateProfile,
 } from "firebase/auth"
-import { doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore"
-import { getFirebaseAuth, getFirebaseDb } from "./firebase"
+import { getFirebaseAuth } from "./firebase"
+import { getUserProfile, saveUserProfile, mergeUserProfile } from "./firestore"
+import { getStoreBackend } from "./store"
+import type { ProjectMember } from "./types"
 
 export interface UserProfile {
   user_id: string
@@ -45,6 +47,42 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+const LOCAL_SESSION_KEY = "hackmate-local-user"
+
+// Offline store backends have no Firebase Auth, so sessions live in localStorage instead
+const useLocalAuth = getStoreBackend() !== "firestore"
+
+interface LocalSession {
+  uid: string
+  email: string | null
+  displayName: string | null
+  isAnonymous: boolean
+}
+
+function toLocalUser(session: LocalSession): User {
+  return { ...session, providerData: [] } as unknown as User
+}
+
+function readLocalSession(): LocalSession | null {
+  try {
+    const saved = window.localStorage.getItem(LOCAL_SESSION_KEY)
+    return saved ? (JSON.parse(saved) as LocalSession) : null
+  } catch {
+    return null
+  }
+}
+
+function startLocalSession(displayName: string | null, email: string | null, isAnonymous: boolean): User {
+  const session: LocalSession = {
+    uid: `local_${(email || displayName || "guest").replace(/[^a-z0-9]/gi, "").toLowerCase()}_${Date.now().toString(36)}`,
+    email,
+    displayName,
+    isAnonymous,
+  }
+  window.localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session))
+  return toLocalUser(session)
+}
+
 function createDefaultProfile(user: User): UserProfile {
   return {
     user_id: user.uid,
@@ -66,8 +104,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    if (useLocalAuth) {
+      const session = readLocalSession()
+      if (session) {
+        const localUser = toLocalUser(session)
+        setUser(localUser)
+        setUserProfile(createDefaultProfile(localUser))
+        getUserProfile(session.uid)
+          .then((profile) => profile && setUserProfile(profile as UserProfile))
+          .catch(() => {})
+      }
+      setLoading(false)
+      return
+    }
+
     const auth = getFirebaseAuth()
-    const db = getFirebaseDb()
 
     if (!auth) {
       setLoading(false)
@@ -83,15 +134,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setLoading(false)
 
         // Try to fetch real profile in background (non-blocking)
-        if (db) {
-          try {
-            const profileDoc = await getDoc(doc(db, "users", user.uid))
-            if (profileDoc.exists()) {
-              setUserProfile(profileDoc.data() as UserProfile)
-            }
-          } catch (error) {
-            // Silently fail - we already have default profile
+        try {
+          const profile = await getUserProfile(user.uid)
+          if (profile) {
+            setUserProfile(profile as UserProfile)
           }
+        } catch (error) {
+          // Silently fail - we already have default profile
         }
       } else {
         setUserProfile(null)
@@ -103,7 +152,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [])
 
   const createUserProfile = async (user: User, name: string, isGuest = false) => {
-    const db = getFirebaseDb()
     const profile: UserProfile = {
       user_id: user.uid,
       name: name || (isGuest ? `Guest_${user.uid.slice(0, 6)}` : "User"),
@@ -118,21 +166,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
     setUserProfile(profile)
 
-    if (db) {
-      setDoc(doc(db, "users", user.uid), {
-        ...profile,
-        created_at: serverTimestamp(),
-      }).catch(() => {})
-    }
+    saveUserProfile(profile as ProjectMember).catch(() => {})
   }
 
   const signInWithEmail = async (email: string, password: string) => {
+    if (useLocalAuth) {
+      const localUser = startLocalSession(email.split("@")[0], email, false)
+      setUser(localUser)
+      await createUserProfile(localUser, localUser.displayName || "User")
+      return
+    }
     const auth = getFirebaseAuth()
     if (!auth) throw new Error("Auth not initialized")
     await signInWithEmailAndPassword(auth, email, password)
   }
 
   const signUpWithEmail = async (email: string, password: string, name: string) => {
+    if (useLocalAuth) {
+      const localUser = startLocalSession(name, email, false)
+      setUser(localUser)
+      await createUserProfile(localUser, name)
+      return
+    }
     const auth = getFirebaseAuth()
     if (!auth) throw new Error("Auth not initialized")
     const result = await createUserWithEmailAndPassword(auth, email, password)
@@ -141,30 +196,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const signInWithGoogle = async () => {
+    if (useLocalAuth) throw new Error("Google sign-in is unavailable in offline mode")
     const auth = getFirebaseAuth()
-    const db = getFirebaseDb()
     if (!auth) throw new Error("Auth not initialized")
 
     const provider = new GoogleAuthProvider()
     const result = await signInWithPopup(auth, provider)
 
-    if (db) {
-      try {
-        const profileDoc = await getDoc(doc(db, "users", result.user.uid))
-        if (!profileDoc.exists()) {
-          await createUserProfile(result.user, result.user.displayName || "User")
-        } else {
-          setUserProfile(profileDoc.data() as UserProfile)
-        }
-      } catch {
+    try {
+      const profile = await getUserProfile(result.user.uid)
+      if (!profile) {
         await createUserProfile(result.user, result.user.displayName || "User")
+      } else {
+        setUserProfile(profile as UserProfile)
       }
-    } else {
+    } catch {
       await createUserProfile(result.user, result.user.displayName || "User")
     }
   }
 
   const signInAsGuest = async () => {
+    if (useLocalAuth) {
+      const localUser = startLocalSession(null, null, true)
+      setUser(localUser)
+      await createUserProfile(localUser, "", true)
+      return
+    }
     const auth = getFirebaseAuth()
     if (!auth) throw new Error("Auth not initialized")
     const result = await signInAnonymously(auth)
@@ -172,35 +229,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const logout = async () => {
+    if (user) {
+      mergeUserProfile(user.uid, { online_status: false }).catch(() => {})
+    }
+
+    if (useLocalAuth) {
+      window.localStorage.removeItem(LOCAL_SESSION_KEY)
+      setUser(null)
+      setUserProfile(null)
+      return
+    }
+
     const auth = getFirebaseAuth()
-    const db = getFirebaseDb()
     if (!auth) return
 
-    if (user && db) {
-      setDoc(doc(db, "users", user.uid), { online_status: false }, { merge: true }).catch(() => {})
-    }
     await signOut(auth)
     setUser(null)
     setUserProfile(null)
   }
 
   const updateUserSkills = async (skills: string[]) => {
-    const db = getFirebaseDb()
     if (user) {
       setUserProfile((prev) => (prev ? { ...prev, skills } : null))
-      if (db) {
-        setDoc(doc(db, "users", user.uid), { skills }, { merge: true }).catch(() => {})
-      }
+      mergeUserProfile(user.uid, { skills }).catch(() => {})
     }
   }
 
   const updateUserProfile = async (updates: Partial<UserProfile>) => {
-    const db = getFirebaseDb()
     if (user) {
       setUserProfile((prev) => (prev ? { ...prev, ...updates } : null))
-      if (db) {
-        setDoc(doc(db, "users", user.uid), updates, { merge: true }).catch(() => {})
-      }
+      mergeUserProfile(user.uid, updates as Partial<ProjectMember>).catch(() => {})
     }
   }
 
@@ -0,0 +1,147 @@
+import { EFFORT_HOURS } from "./task-graph"
+import { eventAt } from "./schedule"
+import type { ProjectMember, ScheduleEvent, Task } from "./types"
+
+const HOUR_MS = 60 * 60 * 1000
+
+const PRIORITY_ORDER: Record<Task["priority"], number> = { Critical: 0, High: 1, Medium: 2, Low: 3 }
+
+// Scoring weights: a skill match outweighs a small load difference, an AI pick breaks close calls
+const SKILL_WEIGHT = 2
+const AI_RANK_BONUS = [3, 2, 1]
+const LOAD_WEIGHT = 3
+const BUSY_PENALTY = 1
+
+export interface AssignmentSuggestion {
+  task_id: string
+  /** null when nobody awake has room for the task before the deadline */
+  user_id: string | null
+  /** Why this member was picked, or why nobody was */
+  reasons: string[]
+}
+
+export interface AutoAssignOptions {
+  now: number
+  /** End of the planning window, normally the hackathon's end */
+  until: number
+  /** Members per task_id, best first, from the optional AI ranking pass */
+  aiRanking?: Record<string, string[]>
+}
+
+interface Candidate {
+  member: ProjectMember
+  /** Awake hours left before `until` */
+  capacity: number
+  /** Effort hours of open tasks already on their plate, including ones planned here */
+  load: number
+  asleepNow: boolean
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9+#.]+/).filter(Boolean))
+}
+
+/** The member's skills that appear in the task's title, description or tags */
+export function matchingSkills(task: Pick<Task, "title" | "description" | "tags">, member: ProjectMember): string[] {
+  const text = [task.title, task.description, ...(task.tags ?? [])].join(" ").toLowerCase()
+  const words = tokenize(text)
+  return (member.skills ?? []).filter((skill) => {
+    const needle = skill.trim().toLowerCase()
+    if (!needle) return false
+    // Multi-word skills ("machine learning") match as a phrase, single words as a whole word
+    return needle.includes(" ") ? text.includes(needle) : words.has(needle)
+  })
+}
+
+// Hours of `userId`'s sleep blocks inside [from, to), with overlapping blocks merged
+function sleepHours(events: ScheduleEvent[], userId: string, from: number, to: number): number {
+  const blocks = events
+    .filter((e) => e.user_id === userId && e.type === "sleep")
+    .map((e) => [Math.max(from, new Date(e.start_time).getTime()), Math.min(to, new Date(e.end_time).getTime())])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0])
+
+  let total = 0
+  let coveredUntil = from
+  for (const [start, end] of blocks) {
+    const effectiveStart = Math.max(start, coveredUntil)
+    if (end > effectiveStart) total += end - effectiveStart
+    coveredUntil = Math.max(coveredUntil, end)
+  }
+  return total / HOUR_MS
+}
+
+/**
+ * Proposes an assignee for every open, unassigned task. Offline members are skipped;
+ * everyone else gets work in proportion to the awake hours they have left, preferring
+ * matching skills. Critical tasks only go to members who aren't asleep right now.
+ * Nothing is written: the plan is reviewed and applied by the caller.
+ */
+export function planAssignments(
+  tasks: Task[],
+  members: ProjectMember[],
+  schedule: ScheduleEvent[],
+  { now, until, aiRanking = {} }: AutoAssignOptions,
+): AssignmentSuggestion[] {
+  const horizon = Math.max(0, until - now) / HOUR_MS
+  const candidates: Candidate[] = members
+    .filter((m) => m.availability !== "offline")
+    .map((member) => ({
+      member,
+      capacity: horizon - sleepHours(schedule, member.user_id, now, until),
+      load: tasks
+        .filter((t) => t.assigned_to === member.user_id && t.status !== "Done")
+        .reduce((sum, t) => sum + EFFORT_HOURS[t.effort], 0),
+      asleepNow: eventAt(schedule, member.user_id, now)?.type === "sleep",
+    }))
+
+  // Urgent and big tasks first, so they get the pick of the team
+  const open = tasks
+    .filter((t) => t.status !== "Done" && !t.assigned_to)
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || EFFORT_HOURS[b.effort] - EFFORT_HOURS[a.effort])
+
+  return open.map((task) => {
+    const hours = EFFORT_HOURS[task.effort]
+    const ranking = aiRanking[task.task_id] ?? []
+
+    let best: { candidate: Candidate; score: number; skills: string[] } | null = null
+    for (const candidate of candidates) {
+      if (candidate.capacity - candidate.load < hours) continue
+      if (task.priority === "Critical" && candidate.asleepNow) continue
+
+      const skills = matchingSkills(task, candidate.member)
+      const rank = ranking.indexOf(candidate.member.user_id)
+      const score =
+        Math.min(skills.length, 3) * SKILL_WEIGHT +
+        (rank >= 0 ? AI_RANK_BONUS[rank] ?? 0 : 0) -
+        (candidate.load / Math.max(candidate.capacity, 1)) * LOAD_WEIGHT -
+        (candidate.member.availability === "busy" ? BUSY_PENALTY : 0)
+
+      if (!best || score > best.score || (score === best.score && candidate.load < best.candidate.load)) {
+        best = { candidate, score, skills }
+      }
+    }
+
+    if (!best) {
+      return {
+        task_id: task.task_id,
+        user_id: null,
+        reasons: [
+          task.priority === "Critical"
+            ? `Nobody awake now has ${hours}h free before the deadline`
+            : `Nobody has ${hours}h of awake time free before the deadline`,
+        ],
+      }
+    }
+
+    const { candidate, skills } = best
+    const reasons: string[] = []
+    if (skills.length) reasons.push(`Skills: ${skills.join(", ")}`)
+    if (ranking[0] === candidate.member.user_id) reasons.push("AI's top pick")
+    reasons.push(`${Math.round(candidate.load)}h of ${Math.round(candidate.capacity)}h awake time already planned`)
+    if (candidate.member.availability === "busy") reasons.push("Marked busy")
+
+    candidate.load += hours
+    return { task_id: task.task_id, user_id: candidate.member.user_id, reasons }
+  })
+}
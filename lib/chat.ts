@@ -0,0 +1,133 @@
+import type { ChatMessage, Milestone, ProjectMember, Task } from "./types"
+
+export const GENERAL_CHANNEL = "general"
+
+// firestore.rules only accepts reactions with these; keep the two lists in step
+export const REACTION_EMOJIS = ["👍", "🎉", "❤️", "😄", "👀", "🚀"]
+
+export type ChatChannelKind = "general" | "milestone" | "task"
+
+export interface ChatChannel {
+  channel_id: string
+  kind: ChatChannelKind
+  name: string
+}
+
+const MENTOR_MENTION = /(^|\s)@mentor\b/i
+const TASK_REFERENCE = /#([A-Za-z0-9_-]+)/
+
+export type ChatSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; member: ProjectMember }
+  | { type: "task"; task: Task }
+
+export function milestoneChannelId(milestoneId: string): string {
+  return `milestone:${milestoneId}`
+}
+
+export function taskChannelId(taskId: string): string {
+  return `task:${taskId}`
+}
+
+/** The task a channel belongs to, if it's a task channel */
+export function channelTaskId(channelId: string): string | null {
+  return channelId.startsWith("task:") ? channelId.slice("task:".length) : null
+}
+
+/**
+ * Channels aren't stored: every project has #general, plus one per milestone and one
+ * per task. Done tasks drop out of the list unless someone already talked there.
+ */
+export function chatChannels(milestones: Milestone[], tasks: Task[], messages: ChatMessage[]): ChatChannel[] {
+  const active = new Set(messages.map((m) => m.channel_id))
+  return [
+    { channel_id: GENERAL_CHANNEL, kind: "general", name: "general" },
+    ...[...milestones]
+      .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
+      .map((m): ChatChannel => ({ channel_id: milestoneChannelId(m.milestone_id), kind: "milestone", name: m.name })),
+    ...tasks
+      .filter((t) => t.status !== "Done" || active.has(taskChannelId(t.task_id)))
+      .map((t): ChatChannel => ({ channel_id: taskChannelId(t.task_id), kind: "task", name: t.title })),
+  ]
+}
+
+/** Team chat messages only; the Mentor tab's conversation has no channel */
+export function isTeamChatMessage(message: ChatMessage): boolean {
+  return !!message.channel_id
+}
+
+/** Top-level posts in a channel, oldest first */
+export function channelPosts(messages: ChatMessage[], channelId: string): ChatMessage[] {
+  return messages.filter((m) => m.channel_id === channelId && !m.thread_id)
+}
+
+/** Replies to a thread, oldest first, without the post that started it */
+export function threadReplies(messages: ChatMessage[], threadId: string): ChatMessage[] {
+  return messages.filter((m) => m.thread_id === threadId)
+}
+
+export function mentionsMentor(text: string): boolean {
+  return MENTOR_MENTION.test(text)
+}
+
+/** The question for the mentor, with the "@mentor" that summoned it removed */
+export function stripMentorMention(text: string): string {
+  return text.replace(new RegExp(MENTOR_MENTION.source, "gi"), " ").replace(/\s+/g, " ").trim()
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// "@Ada Lovelace", longest names first so "@Ada Lovelace" wins over a member called "Ada"
+function mentionPattern(members: ProjectMember[]): RegExp | null {
+  const names = members
+    .map((m) => m.name.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  return names.length ? new RegExp(`@(${names.join("|")})(?![\\w])`, "gi") : null
+}
+
+/** Members named with "@Full Name" in the text, each once */
+export function findMentionedMembers(text: string, members: ProjectMember[]): ProjectMember[] {
+  const pattern = mentionPattern(members)
+  if (!pattern) return []
+  const names = new Set([...text.matchAll(pattern)].map((match) => match[1].toLowerCase()))
+  return members.filter((m) => names.has(m.name.trim().toLowerCase()))
+}
+
+export function taskReference(taskId: string): string {
+  return `#${taskId}`
+}
+
+/**
+ * Splits a message into plain text, member mentions and references to existing tasks.
+ * Unknown names and task ids stay as text.
+ */
+export function parseChatContent(text: string, members: ProjectMember[], tasks: Task[]): ChatSegment[] {
+  const mentions = mentionPattern(members)
+  const pattern = new RegExp([mentions?.source, TASK_REFERENCE.source].filter(Boolean).join("|"), "gi")
+  const segments: ChatSegment[] = []
+  let last = 0
+  const pushText = (value: string) => {
+    if (!value) return
+    const previous = segments[segments.length - 1]
+    if (previous?.type === "text") previous.text += value
+    else segments.push({ type: "text", text: value })
+  }
+
+  for (const match of text.matchAll(pattern)) {
+    pushText(text.slice(last, match.index))
+    last = match.index! + match[0].length
+    // With mentions in the pattern the task id is the second group, otherwise the first
+    const [name, taskId] = mentions ? [match[1], match[2]] : [undefined, match[1]]
+    const member = name ? members.find((m) => m.name.trim().toLowerCase() === name.toLowerCase()) : undefined
+    const task = taskId ? tasks.find((t) => t.task_id === taskId) : undefined
+    if (member) segments.push({ type: "mention", member })
+    else if (task) segments.push({ type: "task", task })
+    else pushText(match[0])
+  }
+  pushText(text.slice(last))
+  return segments
+}
@@ -4,17 +4,30 @@
  */
 
 export function validateEnvironment() {
-  const requiredEnvVars = {
-    // Firebase config
+  // Firebase config is only needed when the Firestore store backend is active
+  const usesFirestore = !["memory", "local"].includes(process.env.NEXT_PUBLIC_HACKMATE_STORE || "")
+
+  const firebaseEnvVars = {
     NEXT_PUBLIC_FIREBASE_API_KEY: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
     NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
     NEXT_PUBLIC_FIREBASE_PROJECT_ID: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
     NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
     NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
     NEXT_PUBLIC_FIREBASE_APP_ID: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
-    
-    // OpenRouter API
-    OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+  }
+
+  // Each AI provider needs its own key; the local and mock providers need none
+  const aiProvider = process.env.HACKMATE_AI_PROVIDER || "openrouter"
+  const aiEnvVars: Record<string, string | undefined> =
+    aiProvider === "gemini"
+      ? { GEMINI_API_KEY: process.env.GEMINI_API_KEY }
+      : aiProvider === "local" || aiProvider === "mock"
+        ? {}
+        : { OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY }
+
+  const requiredEnvVars = {
+    ...(usesFirestore ? firebaseEnvVars : {}),
+    ...aiEnvVars,
   }
 
   const missing: string[] = []
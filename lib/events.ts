@@ -0,0 +1,38 @@
+import type { HackathonEvent, Project } from "./types"
+
+export type EventStatus = HackathonEvent["status"]
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  upcoming: "Upcoming",
+  active: "Live",
+  judging: "Judging",
+  completed: "Completed",
+}
+
+// Judging and completion are set by the organiser; before that the dates decide
+export function eventStatus(event: Pick<HackathonEvent, "start_date" | "end_date" | "status">, now: number = Date.now()): EventStatus {
+  if (event.status === "judging" || event.status === "completed") return event.status
+  if (now < new Date(event.start_date).getTime()) return "upcoming"
+  if (now < new Date(event.end_date).getTime()) return "active"
+  return "judging"
+}
+
+export function isRegistrationOpen(event: Pick<HackathonEvent, "start_date" | "end_date" | "status">, now: number = Date.now()): boolean {
+  const status = eventStatus(event, now)
+  return status === "upcoming" || status === "active"
+}
+
+/** Why a team of `teamSize` can't be part of the event, or null when it can */
+export function teamSizeError(event: Pick<HackathonEvent, "name" | "max_team_size">, teamSize: number): string | null {
+  if (!event.max_team_size || teamSize <= event.max_team_size) return null
+  return `${event.name} allows at most ${event.max_team_size} members per team (this team has ${teamSize})`
+}
+
+/** Checks run before a project is registered for an event; throws with a user-facing message */
+export function assertCanRegister(event: HackathonEvent, project: Pick<Project, "members">, now: number = Date.now()): void {
+  if (!isRegistrationOpen(event, now)) {
+    throw new Error(`Registration for ${event.name} is closed`)
+  }
+  const sizeError = teamSizeError(event, project.members.length)
+  if (sizeError) throw new Error(sizeError)
+}
@@ -0,0 +1,120 @@
+/**
+ * Verifies Firebase Auth ID tokens on the server without the Admin SDK, following
+ * https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+ */
+
+const JWKS_URL = "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com"
+// Tolerate small clock differences between Google and this server
+const CLOCK_SKEW_SECONDS = 60
+
+export interface FirebaseTokenClaims {
+  uid: string
+  email?: string
+  exp: number
+}
+
+let keyCache: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null
+
+async function signingKeys(): Promise<Map<string, CryptoKey>> {
+  if (keyCache && keyCache.expiresAt > Date.now()) return keyCache.keys
+
+  const response = await fetch(JWKS_URL)
+  if (!response.ok) throw new Error(`Could not fetch Firebase signing keys (${response.status})`)
+  const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid: string })[] }
+
+  const imported = new Map<string, CryptoKey>()
+  for (const jwk of keys) {
+    imported.set(
+      jwk.kid,
+      await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"]),
+    )
+  }
+
+  // Google rotates the keys; honour the max-age it sends, defaulting to an hour
+  const maxAge = Number(response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] ?? 3600)
+  keyCache = { keys: imported, expiresAt: Date.now() + maxAge * 1000 }
+  return imported
+}
+
+interface TokenHeader {
+  alg: string
+  kid: string
+}
+
+interface TokenPayload {
+  sub: string
+  aud: string
+  iss: string
+  exp: number
+  iat: number
+  email?: string
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function parseHeader(segment: string): TokenHeader {
+  const header = decodeSegment(segment)
+  if (!isRecord(header) || typeof header.alg !== "string" || typeof header.kid !== "string") {
+    throw new Error("Malformed ID token header")
+  }
+  return { alg: header.alg, kid: header.kid }
+}
+
+function parsePayload(segment: string): TokenPayload {
+  const payload = decodeSegment(segment)
+  if (
+    !isRecord(payload) ||
+    typeof payload.sub !== "string" ||
+    typeof payload.aud !== "string" ||
+    typeof payload.iss !== "string" ||
+    typeof payload.exp !== "number" ||
+    typeof payload.iat !== "number"
+  ) {
+    throw new Error("Malformed ID token payload")
+  }
+  return {
+    sub: payload.sub,
+    aud: payload.aud,
+    iss: payload.iss,
+    exp: payload.exp,
+    iat: payload.iat,
+    email: typeof payload.email === "string" ? payload.email : undefined,
+  }
+}
+
+/** Resolves with the token's claims, or throws when it is malformed, forged, expired or for another project */
+export async function verifyFirebaseIdToken(token: string, projectId: string): Promise<FirebaseTokenClaims> {
+  const [headerPart, payloadPart, signaturePart] = token.split(".")
+  if (!headerPart || !payloadPart || !signaturePart) throw new Error("Malformed ID token")
+
+  const header = parseHeader(headerPart)
+  const payload = parsePayload(payloadPart)
+  if (header.alg !== "RS256") throw new Error("Unexpected ID token algorithm")
+
+  const key = (await signingKeys()).get(header.kid)
+  if (!key) throw new Error("ID token signed with an unknown key")
+
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    Buffer.from(signaturePart, "base64url"),
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`),
+  )
+  if (!valid) throw new Error("Invalid ID token signature")
+
+  const now = Math.floor(Date.now() / 1000)
+  if (payload.exp < now - CLOCK_SKEW_SECONDS) throw new Error("ID token has expired")
+  if (payload.iat > now + CLOCK_SKEW_SECONDS) throw new Error("ID token issued in the future")
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error("ID token is for a different Firebase project")
+  }
+  if (!payload.sub) throw new Error("ID token has no subject")
+
+  return { uid: payload.sub, email: payload.email, exp: payload.exp }
+}
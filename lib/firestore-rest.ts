@@ -0,0 +1,81 @@
+/**
+ * Minimal Firestore REST access for API routes. Requests carry the caller's own
+ * ID token, so security rules apply exactly as they do in the browser.
+ */
+
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { timestampValue: string }
+  | { arrayValue: { values?: FirestoreValue[] } }
+  | { mapValue: { fields?: Record<string, FirestoreValue> } }
+
+function documentsUrl(path: string): string {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+  return `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/${path}`
+}
+
+function toValue(value: unknown): FirestoreValue {
+  if (value === null || value === undefined) return { nullValue: null }
+  if (typeof value === "boolean") return { booleanValue: value }
+  if (typeof value === "number") return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value }
+  if (typeof value === "string") return { stringValue: value }
+  if (value instanceof Date) return { timestampValue: value.toISOString() }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toValue) } }
+  return { mapValue: { fields: toFields(value as Record<string, unknown>) } }
+}
+
+function toFields(data: Record<string, unknown>): Record<string, FirestoreValue> {
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined).map(([k, v]) => [k, toValue(v)]))
+}
+
+function fromValue(value: FirestoreValue): unknown {
+  if ("nullValue" in value) return null
+  if ("booleanValue" in value) return value.booleanValue
+  if ("integerValue" in value) return Number(value.integerValue)
+  if ("doubleValue" in value) return value.doubleValue
+  if ("stringValue" in value) return value.stringValue
+  if ("timestampValue" in value) return new Date(value.timestampValue)
+  if ("arrayValue" in value) return (value.arrayValue.values ?? []).map(fromValue)
+  return Object.fromEntries(Object.entries(value.mapValue.fields ?? {}).map(([k, v]) => [k, fromValue(v)]))
+}
+
+/** The document's data, or null when it doesn't exist or the rules deny the read */
+export async function getDocument<T>(path: string, idToken: string): Promise<T | null> {
+  const response = await fetch(documentsUrl(path), { headers: { Authorization: `Bearer ${idToken}` } })
+  if (!response.ok) return null
+  const doc = await response.json()
+  return fromValue({ mapValue: { fields: doc.fields } }) as T
+}
+
+/** Creates a document with a generated id and returns that id */
+export async function createDocument(collection: string, data: Record<string, unknown>, idToken: string): Promise<string> {
+  const response = await fetch(documentsUrl(collection), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify({ fields: toFields(data) }),
+  })
+  if (!response.ok) throw new Error(`Firestore write failed (${response.status}): ${await response.text()}`)
+  const doc = await response.json()
+  return String(doc.name).split("/").pop()!
+}
+
+/** Every document in `collection` whose `field` equals `value`; rules apply to the query as a whole */
+export async function queryDocuments<T>(collection: string, field: string, value: unknown, idToken: string): Promise<T[]> {
+  const response = await fetch(`${documentsUrl("").replace(/\/$/, "")}:runQuery`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId: collection }],
+        where: { fieldFilter: { field: { fieldPath: field }, op: "EQUAL", value: toValue(value) } },
+      },
+    }),
+  })
+  if (!response.ok) throw new Error(`Firestore query failed (${response.status}): ${await response.text()}`)
+  const results: { document?: { fields?: Record<string, FirestoreValue> } }[] = await response.json()
+  return results.flatMap((r) => (r.document ? [fromValue({ mapValue: { fields: r.document.fields } }) as T] : []))
+}
@@ -1,798 +1,386 @@
-import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  getDocs,
-  updateDoc,
-  deleteDoc,
-  query,
-  where,
-  onSnapshot,
-  serverTimestamp,
-  arrayUnion,
-  writeBatch,
-} from "firebase/firestore"
-import { getFirebaseDb } from "./firebase"
-import type { Project, Task, ChatMessage, ProjectMember, SharedResource, LiveActivity, TeamNotification, Milestone, ScheduleEvent, WellnessSettings } from "./types"
-
-function getDb() {
-  const db = getFirebaseDb()
-  if (!db) throw new Error("Database not available")
-  return db
-}
-
-// Generate random join code
-function generateJoinCode(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
-  let code = ""
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length))
-  }
-  return code
+import { getStore } from "./store"
+import { trashExpiresAt } from "./store/shared"
+import type { NewTask, ProjectUrls, Unsubscribe } from "./store"
+import type { Project, ProjectRole, HackathonEvent, JudgeScore, ProjectSubmission, SubmissionCheckId, Task, ChatMessage, ProjectMember, SharedResource, LiveActivity, TeamNotification, Milestone, ScheduleEvent, WellnessSettings, MemberPresence, PresenceSession, MentorMemory, MentorToolCall, AIUsageRecord, HistorySearchQuery, HistorySearchHit } from "./types"
+
+/**
+ * Data-access entry points used throughout the app. Each call is forwarded to the
+ * backend chosen in `lib/store` (Firestore by default).
+ */
+
+// Projects
+export function createProject(name: string, duration: "24h" | "48h", userId: string): Promise<string> {
+  return getStore().createProject(name, duration, userId)
 }
 
-function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
-  return Promise.race([promise, new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms))]).catch(
-    () => fallback,
-  )
+export function getProject(projectId: string): Promise<Project | null> {
+  return getStore().getProject(projectId)
 }
 
-// Projects
-export async function createProject(name: string, duration: "24h" | "48h", userId: string): Promise<string> {
-  const db = getDb()
-  const projectRef = doc(collection(db, "projects"))
-
-  const project = {
-    project_id: projectRef.id,
-    name,
-    duration,
-    created_by: userId,
-    members: [userId],
-    join_code: generateJoinCode(),
-    demo_mode: false,
-    created_at: serverTimestamp(),
-    status: "planning",
-    github_repo: null,
-    demo_url: null,
-    pitch_deck_url: null,
-    submission_deadline: null,
-    hackathon_event: null,
-  }
+export function getUserProjects(userId: string): Promise<Project[]> {
+  return getStore().getUserProjects(userId)
+}
 
-  await setDoc(projectRef, project)
-
-  // Set role in background - don't wait
-  setDoc(doc(db, "project_roles", `${projectRef.id}_${userId}`), {
-    project_id: projectRef.id,
-    user_id: userId,
-    role: "admin",
-  }).catch(() => {})
-
-  // Create default milestones in background
-  createDefaultMilestones(projectRef.id, duration).catch(() => {})
-
-  return projectRef.id
-}
-
-export async function getProject(projectId: string): Promise<Project | null> {
-  try {
-    const db = getDb()
-    const projectDoc = await withTimeout(getDoc(doc(db, "projects", projectId)), 3000, null as any)
-    if (!projectDoc || !projectDoc.exists?.()) return null
-    const data = projectDoc.data()
-    return {
-      ...data,
-      created_at: data.created_at?.toDate?.() || new Date(),
-    } as Project
-  } catch (error) {
-    console.error("Error getting project:", error)
-    return null
-  }
+export function getTrashedProjects(userId: string): Promise<Project[]> {
+  return getStore().getTrashedProjects(userId)
 }
 
-export async function getUserProjects(userId: string): Promise<Project[]> {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "projects"), where("members", "array-contains", userId))
-    const snapshot = await withTimeout(getDocs(q), 3000, { docs: [] } as any)
+export function joinProjectByCode(joinCode: string, userId: string): Promise<string | null> {
+  return getStore().joinProjectByCode(joinCode, userId)
+}
 
-    if (!snapshot.docs) return []
+export function getJoinCode(projectId: string): Promise<string | null> {
+  return getStore().getJoinCode(projectId)
+}
 
-    const projects = snapshot.docs.map((doc: any) => {
-      const data = doc.data()
-      return {
-        ...data,
-        created_at: data.created_at?.toDate?.() || new Date(),
-      } as Project
-    })
+export function updateProjectIdea(projectId: string, idea: Project["idea"]): Promise<void> {
+  return getStore().updateProjectIdea(projectId, idea)
+}
 
-    return projects.sort((a: Project, b: Project) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-  } catch (error) {
-    console.error("Error getting user projects:", error)
-    return []
-  }
+export function updateDemoMode(projectId: string, enabled: boolean): Promise<void> {
+  return getStore().updateDemoMode(projectId, enabled)
 }
 
-export async function joinProjectByCode(joinCode: string, userId: string): Promise<string | null> {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "projects"), where("join_code", "==", joinCode))
-    const snapshot = await withTimeout(getDocs(q), 5000, { empty: true, docs: [] } as any)
-    if (snapshot.empty || !snapshot.docs?.length) return null
+export function toggleDemoMode(projectId: string, enabled: boolean): Promise<void> {
+  return getStore().updateDemoMode(projectId, enabled)
+}
 
-    const projectDoc = snapshot.docs[0]
-    const batch = writeBatch(db)
+export function updateProjectUrls(projectId: string, urls: ProjectUrls): Promise<void> {
+  return getStore().updateProjectUrls(projectId, urls)
+}
 
-    batch.update(doc(db, "projects", projectDoc.id), {
-      members: arrayUnion(userId),
-    })
+export function updateSubmissionDeadline(projectId: string, deadline: Date | null): Promise<void> {
+  return getStore().updateSubmissionDeadline(projectId, deadline)
+}
 
-    batch.set(doc(db, "project_roles", `${projectDoc.id}_${userId}`), {
-      project_id: projectDoc.id,
-      user_id: userId,
-      role: "member",
-    })
+export function updateProjectStatus(projectId: string, status: Project["status"]): Promise<void> {
+  return getStore().updateProjectStatus(projectId, status)
+}
 
-    await batch.commit()
+export function updateSubmissionChecklist(projectId: string, checks: SubmissionCheckId[]): Promise<void> {
+  return getStore().updateSubmissionChecklist(projectId, checks)
+}
 
-    return projectDoc.id
-  } catch (error) {
-    console.error("Error joining project:", error)
-    throw error
+export function trashProject(projectId: string): Promise<void> {
+  return getStore().trashProject(projectId)
+}
+
+export function restoreProject(projectId: string): Promise<void> {
+  return getStore().restoreProject(projectId)
+}
+
+export function deleteProject(projectId: string): Promise<void> {
+  return getStore().deleteProject(projectId)
+}
+
+// Permanently delete the user's trashed projects whose restore window has passed
+export async function purgeExpiredProjects(userId: string, now: number = Date.now()): Promise<number> {
+  const trashed = await getStore().getTrashedProjects(userId)
+  const expired = trashed.filter((p) => p.deleted_at && trashExpiresAt(p.deleted_at).getTime() <= now)
+  for (const project of expired) {
+    await getStore().deleteProject(project.project_id)
   }
+  return expired.length
 }
 
-export async function updateProjectIdea(projectId: string, idea: Project["idea"]): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { idea })
+export function subscribeToProject(projectId: string, callback: (project: Project | null) => void): Unsubscribe {
+  return getStore().subscribeToProject(projectId, callback)
 }
 
-export async function toggleDemoMode(projectId: string, enabled: boolean): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { demo_mode: enabled })
+// Submissions
+export function createSubmission(submission: Omit<ProjectSubmission, "submission_id" | "submitted_at">): Promise<string> {
+  return getStore().createSubmission(submission)
 }
 
-export async function updateDemoMode(projectId: string, enabled: boolean): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { demo_mode: enabled })
+export function subscribeToSubmissions(projectId: string, callback: (submissions: ProjectSubmission[]) => void): Unsubscribe {
+  return getStore().subscribeToSubmissions(projectId, callback)
 }
 
-export async function updateProjectUrls(projectId: string, urls: { github_repo?: string; demo_url?: string; pitch_deck_url?: string }): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), urls)
+// Hackathon events
+export function createHackathonEvent(event: Omit<HackathonEvent, "event_id" | "created_at">): Promise<string> {
+  return getStore().createHackathonEvent(event)
 }
 
-export async function updateProjectStatus(projectId: string, status: Project["status"]): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { status })
+export function updateHackathonEvent(eventId: string, updates: Partial<HackathonEvent>): Promise<void> {
+  return getStore().updateHackathonEvent(eventId, updates)
 }
 
-export async function deleteProject(projectId: string): Promise<void> {
-  const db = getDb()
-  const batch = writeBatch(db)
+export function getJudgeCode(eventId: string): Promise<string | null> {
+  return getStore().getJudgeCode(eventId)
+}
 
-  // Delete all tasks
-  try {
-    const tasksQuery = query(collection(db, "tasks"), where("project_id", "==", projectId))
-    const tasksSnapshot = await getDocs(tasksQuery)
-    tasksSnapshot.docs.forEach((taskDoc) => {
-      batch.delete(taskDoc.ref)
-    })
-  } catch (e) {
-    console.error("Error deleting tasks:", e)
-  }
+export function getHackathonEvent(eventId: string): Promise<HackathonEvent | null> {
+  return getStore().getHackathonEvent(eventId)
+}
 
-  // Delete all chat messages
-  try {
-    const messagesQuery = query(collection(db, "messages"), where("project_id", "==", projectId))
-    const messagesSnapshot = await getDocs(messagesQuery)
-    messagesSnapshot.docs.forEach((msgDoc) => {
-      batch.delete(msgDoc.ref)
-    })
-  } catch (e) {
-    console.error("Error deleting messages:", e)
-  }
+export function subscribeToHackathonEvents(callback: (events: HackathonEvent[]) => void): Unsubscribe {
+  return getStore().subscribeToHackathonEvents(callback)
+}
 
-  // Delete project
-  batch.delete(doc(db, "projects", projectId))
-
-  await batch.commit()
-}
-
-// Subscribe to project updates with error handling
-export function subscribeToProject(projectId: string, callback: (project: Project | null) => void) {
-  try {
-    const db = getDb()
-    return onSnapshot(
-      doc(db, "projects", projectId),
-      (doc) => {
-        if (doc.exists()) {
-          const data = doc.data()
-          callback({
-            ...data,
-            created_at: data.created_at?.toDate?.() || new Date(),
-          } as Project)
-        } else {
-          callback(null)
-        }
-      },
-      (error) => {
-        console.error("Error subscribing to project:", error)
-        callback(null)
-      },
-    )
-  } catch {
-    callback(null)
-    return () => {}
-  }
+export function subscribeToHackathonEvent(eventId: string, callback: (event: HackathonEvent | null) => void): Unsubscribe {
+  return getStore().subscribeToHackathonEvent(eventId, callback)
+}
+
+export function subscribeToEventProjects(eventId: string, callback: (projects: Project[]) => void): Unsubscribe {
+  return getStore().subscribeToEventProjects(eventId, callback)
+}
+
+export function registerProjectForEvent(projectId: string, eventId: string): Promise<void> {
+  return getStore().registerProjectForEvent(projectId, eventId)
+}
+
+export function unregisterProjectFromEvent(projectId: string): Promise<void> {
+  return getStore().unregisterProjectFromEvent(projectId)
+}
+
+// Judging
+export function joinEventAsJudge(judgeCode: string, userId: string): Promise<string | null> {
+  return getStore().joinEventAsJudge(judgeCode, userId)
+}
+
+export function saveJudgeScore(score: Omit<JudgeScore, "score_id" | "updated_at">): Promise<void> {
+  return getStore().saveJudgeScore(score)
+}
+
+export function subscribeToEventScores(eventId: string, callback: (scores: JudgeScore[]) => void): Unsubscribe {
+  return getStore().subscribeToEventScores(eventId, callback)
 }
 
 // Tasks
-export async function createTask(task: Omit<Task, "task_id" | "last_updated">): Promise<string> {
-  const db = getDb()
-  const taskRef = doc(collection(db, "tasks"))
-  
-  // Filter out undefined values to avoid Firestore errors
-  const cleanTask = Object.fromEntries(
-    Object.entries({
-      ...task,
-      task_id: taskRef.id,
-      last_updated: serverTimestamp(),
-    }).filter(([_, value]) => value !== undefined)
-  )
-  
-  await setDoc(taskRef, cleanTask)
-  return taskRef.id
-}
-
-export async function addTask(task: Omit<Task, "task_id" | "last_updated">): Promise<Task | null> {
-  try {
-    const db = getDb()
-    const taskRef = doc(collection(db, "tasks"))
-    
-    // Create the task data without undefined fields
-    const taskData = {
-      ...task,
-      task_id: taskRef.id,
-      last_updated: serverTimestamp(),
-      created_at: serverTimestamp(),
-      priority: task.priority || "Medium",
-      time_spent: 0,
-      dependencies: [],
-      tags: [],
-    }
-    
-    // Only add due_date if it's defined
-    if (task.due_date !== undefined) {
-      taskData.due_date = task.due_date
-    }
-    
-    await setDoc(taskRef, taskData)
-    
-    // Return the task with client-side dates for immediate UI update
-    const newTask = {
-      ...task,
-      task_id: taskRef.id,
-      last_updated: new Date(),
-      created_at: new Date(),
-      priority: task.priority || "Medium",
-      time_spent: 0,
-      dependencies: [],
-      tags: [],
-    }
-    
-    return newTask as Task
-  } catch (error) {
-    console.error("Error adding task:", error)
-    return null
-  }
+export function createTask(task: NewTask): Promise<string> {
+  return getStore().createTask(task)
 }
 
-export async function createTasks(tasks: Omit<Task, "task_id" | "last_updated">[]): Promise<void> {
-  const db = getDb()
-  const batch = writeBatch(db)
-
-  for (const task of tasks) {
-    const taskRef = doc(collection(db, "tasks"))
-    
-    // Filter out undefined values to avoid Firestore errors
-    const cleanTask = Object.fromEntries(
-      Object.entries({
-        ...task,
-        task_id: taskRef.id,
-        last_updated: serverTimestamp(),
-      }).filter(([_, value]) => value !== undefined)
-    )
-    
-    batch.set(taskRef, cleanTask)
-  }
+export function addTask(task: NewTask): Promise<Task | null> {
+  return getStore().addTask(task)
+}
 
-  await batch.commit()
-}
-
-export async function updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
-  const db = getDb()
-  
-  // Filter out undefined values to avoid Firestore errors
-  const cleanUpdates = Object.fromEntries(
-    Object.entries({
-      ...updates,
-      last_updated: serverTimestamp(),
-    }).filter(([_, value]) => value !== undefined)
-  )
-  
-  await updateDoc(doc(db, "tasks", taskId), cleanUpdates)
-}
-
-export async function deleteTask(taskId: string): Promise<void> {
-  const db = getDb()
-  await deleteDoc(doc(db, "tasks", taskId))
-}
-
-export function subscribeToTasks(projectId: string, callback: (tasks: Task[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "tasks"), where("project_id", "==", projectId))
-    return onSnapshot(
-      q,
-      (snapshot) => {
-        const tasks = snapshot.docs.map((doc) => {
-          const data = doc.data()
-          return {
-            ...data,
-            last_updated: data.last_updated?.toDate?.() || new Date(),
-          } as Task
-        })
-        tasks.sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime())
-        callback(tasks)
-      },
-      (error) => {
-        console.error("Error subscribing to tasks:", error)
-        callback([])
-      },
-    )
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function createTasks(tasks: NewTask[]): Promise<void> {
+  return getStore().createTasks(tasks)
 }
 
-// Chat Messages
-export async function sendMessage(message: Omit<ChatMessage, "message_id" | "timestamp">): Promise<string> {
-  const db = getDb()
-  const msgRef = doc(collection(db, "messages"))
-  await setDoc(msgRef, {
-    ...message,
-    message_id: msgRef.id,
-    timestamp: serverTimestamp(),
-  })
-  return msgRef.id
-}
-
-export function subscribeToMessages(projectId: string, callback: (messages: ChatMessage[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "messages"), where("project_id", "==", projectId))
-    return onSnapshot(
-      q,
-      (snapshot) => {
-        const messages = snapshot.docs.map((doc) => {
-          const data = doc.data()
-          return {
-            ...data,
-            timestamp: data.timestamp?.toDate?.() || new Date(),
-          } as ChatMessage
-        })
-        messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-        callback(messages)
-      },
-      (error) => {
-        console.error("Error subscribing to messages:", error)
-        callback([])
-      },
-    )
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+  return getStore().updateTask(taskId, updates)
 }
 
-// Project Members
-export async function getProjectMembers(memberIds: string[]): Promise<ProjectMember[]> {
-  try {
-    const db = getDb()
-    const members: ProjectMember[] = []
-    for (const id of memberIds) {
-      try {
-        const userDoc = await getDoc(doc(db, "users", id))
-        if (userDoc.exists()) {
-          members.push(userDoc.data() as ProjectMember)
-        }
-      } catch (e) {
-        console.error("Error getting member:", e)
-      }
-    }
-    return members
-  } catch {
-    return []
-  }
+export function deleteTask(taskId: string): Promise<void> {
+  return getStore().deleteTask(taskId)
 }
 
-export async function getUserRole(projectId: string, userId: string): Promise<"admin" | "member" | "viewer"> {
-  try {
-    const db = getDb()
-    const roleDoc = await getDoc(doc(db, "project_roles", `${projectId}_${userId}`))
-    if (roleDoc.exists()) {
-      return roleDoc.data().role
-    }
-  } catch (e) {
-    console.error("Error getting user role:", e)
-  }
-  return "viewer"
-}
-
-export function subscribeToProjectMembers(memberIds: string[], callback: (members: ProjectMember[]) => void) {
-  try {
-    const db = getDb()
-    const unsubscribes: (() => void)[] = []
-    const membersMap = new Map<string, ProjectMember>()
-
-    memberIds.forEach((id) => {
-      const unsub = onSnapshot(
-        doc(db, "users", id),
-        (doc) => {
-          if (doc.exists()) {
-            membersMap.set(id, doc.data() as ProjectMember)
-            callback(Array.from(membersMap.values()))
-          }
-        },
-        (error) => {
-          console.error("Error subscribing to member:", error)
-        },
-      )
-      unsubscribes.push(unsub)
-    })
-
-    return () => unsubscribes.forEach((unsub) => unsub())
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function subscribeToTasks(projectId: string, callback: (tasks: Task[]) => void): Unsubscribe {
+  return getStore().subscribeToTasks(projectId, callback)
+}
+
+// Chat messages
+export function sendMessage(message: Omit<ChatMessage, "message_id" | "timestamp">): Promise<string> {
+  return getStore().sendMessage(message)
+}
+
+export function subscribeToMessages(projectId: string, count: number, callback: (messages: ChatMessage[]) => void): Unsubscribe {
+  return getStore().subscribeToMessages(projectId, count, callback)
+}
+
+export function getMessagesBefore(
+  projectId: string,
+  before: Pick<ChatMessage, "timestamp" | "message_id">,
+  count: number,
+): Promise<ChatMessage[]> {
+  return getStore().getMessagesBefore(projectId, before, count)
+}
+
+export function resolveMessageToolCall(
+  messageId: string,
+  resolved: MentorToolCall,
+  from: MentorToolCall["status"],
+): Promise<boolean> {
+  return getStore().resolveMessageToolCall(messageId, resolved, from)
+}
+
+export function editMessage(messageId: string, content: string): Promise<void> {
+  return getStore().editMessage(messageId, content)
+}
+
+export function deleteMessage(messageId: string): Promise<void> {
+  return getStore().deleteMessage(messageId)
+}
+
+export function setMessageReaction(messageId: string, emoji: string, userId: string, reacted: boolean): Promise<void> {
+  return getStore().setMessageReaction(messageId, emoji, userId, reacted)
+}
+
+export function searchHistory(projectId: string, query: HistorySearchQuery): Promise<HistorySearchHit[]> {
+  return getStore().searchHistory(projectId, query)
+}
+
+export function getMentorMemory(projectId: string): Promise<MentorMemory | null> {
+  return getStore().getMentorMemory(projectId)
+}
+
+export function saveMentorMemory(memory: Omit<MentorMemory, "updated_at">): Promise<void> {
+  return getStore().saveMentorMemory(memory)
+}
+
+// AI usage
+export function subscribeToAIUsage(projectId: string, since: Date, callback: (records: AIUsageRecord[]) => void): Unsubscribe {
+  return getStore().subscribeToAIUsage(projectId, since, callback)
+}
+
+// Members, roles and profiles
+export function getProjectMembers(memberIds: string[]): Promise<ProjectMember[]> {
+  return getStore().getProjectMembers(memberIds)
+}
+
+export function getUserRole(projectId: string, userId: string): Promise<ProjectRole> {
+  return getStore().getUserRole(projectId, userId)
+}
+
+export function setUserRole(projectId: string, userId: string, role: ProjectRole): Promise<void> {
+  return getStore().setUserRole(projectId, userId, role)
+}
+
+export function subscribeToProjectRoles(projectId: string, callback: (roles: Record<string, ProjectRole>) => void): Unsubscribe {
+  return getStore().subscribeToProjectRoles(projectId, callback)
+}
+
+export function subscribeToProjectMembers(memberIds: string[], callback: (members: ProjectMember[]) => void): Unsubscribe {
+  return getStore().subscribeToProjectMembers(memberIds, callback)
+}
+
+export function removeMemberFromProject(projectId: string, userId: string): Promise<void> {
+  return getStore().removeMemberFromProject(projectId, userId)
+}
+
+export function getUserProfile(userId: string): Promise<ProjectMember | null> {
+  return getStore().getUserProfile(userId)
+}
+
+export function saveUserProfile(profile: ProjectMember): Promise<void> {
+  return getStore().saveUserProfile(profile)
+}
+
+export function mergeUserProfile(userId: string, updates: Partial<ProjectMember>): Promise<void> {
+  return getStore().mergeUserProfile(userId, updates)
 }
 
 // Milestones
-export async function createMilestone(milestone: Omit<Milestone, "milestone_id" | "created_at">): Promise<string> {
-  const db = getDb()
-  const milestoneRef = doc(collection(db, "milestones"))
-  await setDoc(milestoneRef, {
-    ...milestone,
-    milestone_id: milestoneRef.id,
-    created_at: serverTimestamp(),
-  })
-  return milestoneRef.id
-}
-
-export async function updateMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "milestones", milestoneId), updates)
-}
-
-export async function deleteMilestone(milestoneId: string): Promise<void> {
-  const db = getDb()
-  await deleteDoc(doc(db, "milestones", milestoneId))
-}
-
-export function subscribeToMilestones(projectId: string, callback: (milestones: Milestone[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "milestones"), where("project_id", "==", projectId))
-    return onSnapshot(
-      q,
-      (snapshot) => {
-        const milestones = snapshot.docs.map((doc) => {
-          const data = doc.data()
-          return {
-            ...data,
-            deadline: data.deadline?.toDate?.() || new Date(),
-            created_at: data.created_at?.toDate?.() || new Date(),
-          } as Milestone
-        })
-        milestones.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
-        callback(milestones)
-      },
-      (error) => {
-        console.error("Error subscribing to milestones:", error)
-        callback([])
-      },
-    )
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function createMilestone(milestone: Omit<Milestone, "milestone_id" | "created_at">): Promise<string> {
+  return getStore().createMilestone(milestone)
 }
 
-// Schedule Events
-export async function createScheduleEvent(event: Omit<ScheduleEvent, "event_id" | "created_at">): Promise<string> {
-  const db = getDb()
-  const eventRef = doc(collection(db, "schedule_events"))
-  await setDoc(eventRef, {
-    ...event,
-    event_id: eventRef.id,
-    start_time: event.start_time,
-    end_time: event.end_time,
-    created_at: serverTimestamp(),
-  })
-  return eventRef.id
-}
-
-export async function updateScheduleEvent(eventId: string, updates: Partial<ScheduleEvent>): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "schedule_events", eventId), updates)
-}
-
-export async function deleteScheduleEvent(eventId: string): Promise<void> {
-  const db = getDb()
-  await deleteDoc(doc(db, "schedule_events", eventId))
-}
-
-export function subscribeToScheduleEvents(projectId: string, userId: string, callback: (events: ScheduleEvent[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(
-      collection(db, "schedule_events"), 
-      where("project_id", "==", projectId),
-      where("user_id", "==", userId)
-    )
-    return onSnapshot(
-      q,
-      (snapshot) => {
-        const events = snapshot.docs.map((doc) => {
-          const data = doc.data()
-          return {
-            ...data,
-            start_time: data.start_time?.toDate?.() || new Date(),
-            end_time: data.end_time?.toDate?.() || new Date(),
-            created_at: data.created_at?.toDate?.() || new Date(),
-          } as ScheduleEvent
-        })
-        events.sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
-        callback(events)
-      },
-      (error) => {
-        console.error("Error subscribing to schedule events:", error)
-        callback([])
-      },
-    )
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function updateMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<void> {
+  return getStore().updateMilestone(milestoneId, updates)
 }
 
-// Wellness Settings
-export async function saveWellnessSettings(settings: Omit<WellnessSettings, "created_at">): Promise<void> {
-  const db = getDb()
-  const settingsRef = doc(db, "wellness_settings", `${settings.project_id}_${settings.user_id}`)
-  await setDoc(settingsRef, {
-    ...settings,
-    created_at: serverTimestamp(),
-  })
-}
-
-export async function getWellnessSettings(projectId: string, userId: string): Promise<WellnessSettings | null> {
-  try {
-    const db = getDb()
-    const settingsDoc = await getDoc(doc(db, "wellness_settings", `${projectId}_${userId}`))
-    if (!settingsDoc.exists()) return null
-    const data = settingsDoc.data()
-    return {
-      ...data,
-      created_at: data.created_at?.toDate?.() || new Date(),
-    } as WellnessSettings
-  } catch (error) {
-    console.error("Error getting wellness settings:", error)
-    return null
-  }
+export function syncMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<boolean> {
+  return getStore().syncMilestone(milestoneId, updates)
 }
 
-// Helper function to create default milestones for a project
-export async function createDefaultMilestones(projectId: string, duration: "24h" | "48h"): Promise<void> {
-  const db = getDb()
-  const batch = writeBatch(db)
-  const now = new Date()
-  const durationHours = duration === "24h" ? 24 : 48
-
-  const milestones = [
-    {
-      name: "Idea Finalization",
-      description: "Complete idea analysis and feature planning",
-      type: "idea_submission" as const,
-      deadline: new Date(now.getTime() + (durationHours * 0.2) * 60 * 60 * 1000), // 20% through
-    },
-    {
-      name: "Prototype Development",
-      description: "Build working prototype with core features",
-      type: "prototype" as const,
-      deadline: new Date(now.getTime() + (durationHours * 0.7) * 60 * 60 * 1000), // 70% through
-    },
-    {
-      name: "Final Presentation",
-      description: "Complete project and prepare final presentation",
-      type: "final_presentation" as const,
-      deadline: new Date(now.getTime() + durationHours * 60 * 60 * 1000), // End of hackathon
-    },
-  ]
-
-  for (const milestone of milestones) {
-    const milestoneRef = doc(collection(db, "milestones"))
-    batch.set(milestoneRef, {
-      ...milestone,
-      milestone_id: milestoneRef.id,
-      project_id: projectId,
-      status: "upcoming",
-      created_at: serverTimestamp(),
-    })
-  }
+export function deleteMilestone(milestoneId: string): Promise<void> {
+  return getStore().deleteMilestone(milestoneId)
+}
 
-  await batch.commit()
-}
-
-// Shared Resources
-export async function uploadResource(resource: Omit<SharedResource, "resource_id" | "created_at">): Promise<string> {
-  const db = getDb()
-  const resourceRef = doc(collection(db, "shared_resources"))
-  
-  // Filter out undefined values to avoid Firestore errors
-  const cleanResource = Object.fromEntries(
-    Object.entries({
-      ...resource,
-      resource_id: resourceRef.id,
-      created_at: serverTimestamp(),
-    }).filter(([_, value]) => value !== undefined)
-  )
-  
-  await setDoc(resourceRef, cleanResource)
-  return resourceRef.id
-}
-
-export async function getProjectResources(projectId: string): Promise<SharedResource[]> {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "shared_resources"), where("project_id", "==", projectId))
-    const snapshot = await getDocs(q)
-    return snapshot.docs.map(doc => ({
-      ...doc.data(),
-      created_at: doc.data().created_at?.toDate?.() || new Date(),
-    } as SharedResource))
-  } catch (error) {
-    console.error("Error getting resources:", error)
-    return []
-  }
+export function subscribeToMilestones(projectId: string, callback: (milestones: Milestone[]) => void): Unsubscribe {
+  return getStore().subscribeToMilestones(projectId, callback)
 }
 
-export function subscribeToResources(projectId: string, callback: (resources: SharedResource[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(collection(db, "shared_resources"), where("project_id", "==", projectId))
-    return onSnapshot(q, (snapshot) => {
-      const resources = snapshot.docs.map(doc => ({
-        ...doc.data(),
-        created_at: doc.data().created_at?.toDate?.() || new Date(),
-      } as SharedResource))
-      callback(resources)
-    })
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function createDefaultMilestones(projectId: string, start: Date, end: Date): Promise<void> {
+  return getStore().createDefaultMilestones(projectId, start, end)
 }
 
-// Live Activity Feed
-export async function addActivity(activity: Omit<LiveActivity, "activity_id" | "timestamp">): Promise<void> {
-  const db = getDb()
-  const activityRef = doc(collection(db, "live_activities"))
-  
-  // Filter out undefined values
-  const cleanActivity = Object.fromEntries(
-    Object.entries({
-      ...activity,
-      activity_id: activityRef.id,
-      timestamp: serverTimestamp(),
-    }).filter(([_, value]) => value !== undefined)
-  )
-  
-  await setDoc(activityRef, cleanActivity)
-}
-
-export function subscribeToActivities(projectId: string, callback: (activities: LiveActivity[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(
-      collection(db, "live_activities"), 
-      where("project_id", "==", projectId)
-    )
-    return onSnapshot(q, (snapshot) => {
-      const activities = snapshot.docs.map(doc => ({
-        ...doc.data(),
-        timestamp: doc.data().timestamp?.toDate?.() || new Date(),
-      } as LiveActivity))
-      activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      callback(activities.slice(0, 50)) // Limit to 50 recent activities
-    })
-  } catch {
-    callback([])
-    return () => {}
-  }
+// Schedule events
+export function createScheduleEvent(event: Omit<ScheduleEvent, "event_id" | "created_at">): Promise<string> {
+  return getStore().createScheduleEvent(event)
 }
 
-// Team Notifications
-export async function createNotification(notification: Omit<TeamNotification, "notification_id" | "created_at">): Promise<void> {
-  const db = getDb()
-  const notificationRef = doc(collection(db, "team_notifications"))
-  
-  // Filter out undefined values
-  const cleanNotification = Object.fromEntries(
-    Object.entries({
-      ...notification,
-      notification_id: notificationRef.id,
-      created_at: serverTimestamp(),
-    }).filter(([_, value]) => value !== undefined)
-  )
-  
-  await setDoc(notificationRef, cleanNotification)
-}
-
-export function subscribeToNotifications(projectId: string, userId: string, callback: (notifications: TeamNotification[]) => void) {
-  try {
-    const db = getDb()
-    const q = query(
-      collection(db, "team_notifications"), 
-      where("project_id", "==", projectId),
-      where("user_id", "==", userId)
-    )
-    return onSnapshot(q, (snapshot) => {
-      const notifications = snapshot.docs.map(doc => ({
-        ...doc.data(),
-        created_at: doc.data().created_at?.toDate?.() || new Date(),
-      } as TeamNotification))
-      notifications.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      callback(notifications)
-    })
-  } catch {
-    callback([])
-    return () => {}
-  }
+export function updateScheduleEvent(eventId: string, updates: Partial<ScheduleEvent>): Promise<void> {
+  return getStore().updateScheduleEvent(eventId, updates)
 }
 
-export async function markNotificationRead(notificationId: string): Promise<void> {
-  const db = getDb()
-  await updateDoc(doc(db, "team_notifications", notificationId), { read: true })
+export function deleteScheduleEvent(eventId: string): Promise<void> {
+  return getStore().deleteScheduleEvent(eventId)
 }
 
-export async function deleteResource(resourceId: string): Promise<void> {
-  const db = getDb()
-  await deleteDoc(doc(db, "shared_resources", resourceId))
+export function subscribeToScheduleEvents(projectId: string, userId: string, callback: (events: ScheduleEvent[]) => void): Unsubscribe {
+  return getStore().subscribeToScheduleEvents(projectId, userId, callback)
 }
 
-export async function removeMemberFromProject(projectId: string, userId: string): Promise<void> {
-  const db = getDb()
-  const batch = writeBatch(db)
+export function subscribeToTeamSchedule(projectId: string, callback: (events: ScheduleEvent[]) => void): Unsubscribe {
+  return getStore().subscribeToTeamSchedule(projectId, callback)
+}
 
-  // Remove user from project members array
-  const projectRef = doc(db, "projects", projectId)
-  const projectDoc = await getDoc(projectRef)
-  
-  if (projectDoc.exists()) {
-    const currentMembers = projectDoc.data().members || []
-    const updatedMembers = currentMembers.filter((memberId: string) => memberId !== userId)
-    
-    batch.update(projectRef, { members: updatedMembers })
-  }
+// Wellness settings
+export function saveWellnessSettings(settings: Omit<WellnessSettings, "created_at">): Promise<void> {
+  return getStore().saveWellnessSettings(settings)
+}
+
+export function getWellnessSettings(projectId: string, userId: string): Promise<WellnessSettings | null> {
+  return getStore().getWellnessSettings(projectId, userId)
+}
+
+export function subscribeToTeamWellness(projectId: string, callback: (settings: WellnessSettings[]) => void): Unsubscribe {
+  return getStore().subscribeToTeamWellness(projectId, callback)
+}
+
+// Presence
+export function updatePresence(
+  projectId: string,
+  userId: string,
+  sessionId: string,
+  session: Omit<PresenceSession, "last_seen">,
+): Promise<void> {
+  return getStore().updatePresence(projectId, userId, sessionId, session)
+}
+
+export function endPresenceSession(projectId: string, userId: string, sessionId: string): Promise<void> {
+  return getStore().endPresenceSession(projectId, userId, sessionId)
+}
+
+export function subscribeToPresence(projectId: string, callback: (presence: MemberPresence[]) => void): Unsubscribe {
+  return getStore().subscribeToPresence(projectId, callback)
+}
+
+// Shared resources
+export function uploadResource(resource: Omit<SharedResource, "resource_id" | "created_at">): Promise<string> {
+  return getStore().uploadResource(resource)
+}
 
-  // Remove user's project role
-  const roleRef = doc(db, "project_roles", `${projectId}_${userId}`)
-  batch.delete(roleRef)
+export function getProjectResources(projectId: string): Promise<SharedResource[]> {
+  return getStore().getProjectResources(projectId)
+}
+
+export function subscribeToResources(projectId: string, callback: (resources: SharedResource[]) => void): Unsubscribe {
+  return getStore().subscribeToResources(projectId, callback)
+}
+
+export function updateResource(
+  resourceId: string,
+  updates: Partial<Pick<SharedResource, "name" | "content" | "tags">>,
+): Promise<void> {
+  return getStore().updateResource(resourceId, updates)
+}
+
+export function deleteResource(resourceId: string): Promise<void> {
+  return getStore().deleteResource(resourceId)
+}
+
+// Live activity feed
+export function addActivity(activity: Omit<LiveActivity, "activity_id" | "timestamp">): Promise<void> {
+  return getStore().addActivity(activity)
+}
+
+export function subscribeToActivities(projectId: string, callback: (activities: LiveActivity[]) => void): Unsubscribe {
+  return getStore().subscribeToActivities(projectId, callback)
+}
+
+// Team notifications
+export function createNotification(notification: Omit<TeamNotification, "notification_id" | "created_at">): Promise<void> {
+  return getStore().createNotification(notification)
+}
+
+export function subscribeToNotifications(projectId: string, userId: string, callback: (notifications: TeamNotification[]) => void): Unsubscribe {
+  return getStore().subscribeToNotifications(projectId, userId, callback)
+}
 
-  await batch.commit()
-}
\ No newline at end of file
+export function markNotificationRead(notificationId: string): Promise<void> {
+  return getStore().markNotificationRead(notificationId)
+}
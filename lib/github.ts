@@ -0,0 +1,39 @@
+/**
+ * Parses the owner and repo out of URLs like https://github.com/owner/repo
+ * or https://github.com/owner/repo.git; null when it isn't a GitHub repo URL
+ */
+export function parseGitHubRepo(repoUrl: string): { owner: string; repo: string } | null {
+  const urlParts = repoUrl.replace(/\.git$/, "").split("/")
+  const repoIndex = urlParts.indexOf("github.com")
+  if (repoIndex === -1 || urlParts.length < repoIndex + 3) return null
+  return { owner: urlParts[repoIndex + 1], repo: urlParts[repoIndex + 2] }
+}
+
+export function githubHeaders(): HeadersInit {
+  const headers: Record<string, string> = {
+    "Accept": "application/vnd.github.v3+json",
+    "User-Agent": "HackMate-AI-Project",
+  }
+  // Add token if available
+  if (process.env.GITHUB_ACCESS_TOKEN) {
+    headers["Authorization"] = `token ${process.env.GITHUB_ACCESS_TOKEN}`
+  }
+  return headers
+}
+
+// Best-effort first lines of the latest commits, for prompts; any failure just means no commits
+export async function fetchRecentCommitMessages(repoUrl: string, limit = 5): Promise<string[]> {
+  const parsed = parseGitHubRepo(repoUrl)
+  if (!parsed) return []
+  try {
+    const response = await fetch(
+      `https://api.github.com/repos/${parsed.owner}/${parsed.repo}/commits?per_page=${limit}`,
+      { headers: githubHeaders(), signal: AbortSignal.timeout(5000) },
+    )
+    if (!response.ok) return []
+    const data = await response.json()
+    return data.map((commit: any) => String(commit.commit?.message ?? "").split("\n")[0]).filter(Boolean)
+  } catch {
+    return []
+  }
+}
@@ -1,4 +1,5 @@
-import { Project, Task, ProjectMember } from "./types"
+import { Task, ProjectMember } from "./types"
+import { computeCriticalPath } from "./task-graph"
 
 export interface HealthScore {
     score: number
@@ -12,23 +13,23 @@ export interface HealthScore {
     }[]
 }
 
+// `window` is the hackathon's start and end, from hackathonWindow()
 export function calculateProjectHealth(
-    project: Project,
+    window: { start: Date; end: Date },
     tasks: Task[],
     members: ProjectMember[],
     commitsCount: number = 0,
     now: number = Date.now()
 ): HealthScore {
-    // 1. Task Completion (30%)
+    // 1. Task Completion (25%)
     const totalTasks = tasks.length
     const completedTasks = tasks.filter((t) => t.status === "Done").length
     const taskScore = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 100
 
-    // 2. Time Pressure (25%)
-    const start = new Date(project.created_at)
-    const duration = project.duration === "24h" ? 24 : 48
-    const end = new Date(start.getTime() + duration * 60 * 60 * 1000)
-    const totalDurationMs = duration * 60 * 60 * 1000
+    // 2. Time Pressure (20%)
+    const { start, end } = window
+    const totalDurationMs = Math.max(end.getTime() - start.getTime(), 1)
+    const duration = totalDurationMs / (60 * 60 * 1000)
     const elapsedMs = now - start.getTime()
     const progressRatio = Math.min(Math.max(elapsedMs / totalDurationMs, 0), 1)
 
@@ -40,12 +41,12 @@ export function calculateProjectHealth(
         ? Math.min((completionRatio / (progressRatio * 0.8)) * 100, 100)
         : 100
 
-    // 3. Commit Frequency (30%)
+    // 3. Commit Frequency (25%)
     // Expecting at least 2 commits per member per 24h phase for "Full Health"
     const expectedCommits = Math.max(members.length * (duration / 12), 1)
     const commitScore = Math.min((commitsCount / expectedCommits) * 100, 100)
 
-    // 4. Contributor Activity (15%)
+    // 4. Contributor Activity (10%)
     // Check if tasks are balanced among members or if one or two people are carrying everyone
     const assignedTasks = tasks.filter(t => t.assigned_to).length
     const memberActivityMap = tasks.reduce((acc, t) => {
@@ -60,12 +61,21 @@ export function calculateProjectHealth(
         ? (activeMembersCount / members.length) * 100
         : 100
 
+    // 5. Critical Path (20%)
+    // Can the longest chain of dependent, unfinished work still fit in the time left?
+    const remainingHours = Math.max(end.getTime() - now, 0) / (60 * 60 * 1000)
+    const criticalPath = computeCriticalPath(tasks)
+    const pathScore = criticalPath.hours === 0
+        ? 100
+        : Math.min((remainingHours / criticalPath.hours) * 100, 100)
+
     // Final Weighted Score
     const weightedScore = Math.round(
-        taskScore * 0.3 +
-        timeScore * 0.25 +
-        commitScore * 0.3 +
-        activityScore * 0.15
+        taskScore * 0.25 +
+        timeScore * 0.2 +
+        commitScore * 0.25 +
+        activityScore * 0.1 +
+        pathScore * 0.2
     )
 
     let status: HealthScore["status"] = "Healthy"
@@ -88,10 +98,11 @@ export function calculateProjectHealth(
         label,
         color,
         factors: [
-            { label: "Tasks", score: Math.round(taskScore), weight: 0.3 },
-            { label: "Time", score: Math.round(timeScore), weight: 0.25 },
-            { label: "Code", score: Math.round(commitScore), weight: 0.3 },
-            { label: "Team", score: Math.round(activityScore), weight: 0.15 },
+            { label: "Tasks", score: Math.round(taskScore), weight: 0.25 },
+            { label: "Time", score: Math.round(timeScore), weight: 0.2 },
+            { label: "Code", score: Math.round(commitScore), weight: 0.25 },
+            { label: "Team", score: Math.round(activityScore), weight: 0.1 },
+            { label: "Path", score: Math.round(pathScore), weight: 0.2 },
         ],
     }
 }
@@ -0,0 +1,135 @@
+import type { HackathonEvent, JudgeScore, Project, RubricCriterion } from "./types"
+
+// Used until the organiser sets up their own criteria
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { criterion_id: "innovation", name: "Innovation", description: "How novel is the idea?", weight: 3, max_score: 10 },
+  { criterion_id: "execution", name: "Technical Execution", description: "Does it work, and how well is it built?", weight: 3, max_score: 10 },
+  { criterion_id: "impact", name: "Impact", description: "Would real users benefit?", weight: 2, max_score: 10 },
+  { criterion_id: "presentation", name: "Presentation", description: "Clarity of the demo and pitch", weight: 2, max_score: 10 },
+]
+
+// Project statuses that have something to judge
+export const JUDGEABLE_STATUSES: Project["status"][] = ["submitted", "judging", "completed"]
+
+export function eventRubric(event: Pick<HackathonEvent, "rubric">): RubricCriterion[] {
+  return event.rubric?.length ? event.rubric : DEFAULT_RUBRIC
+}
+
+export function scoreId(eventId: string, projectId: string, judgeId: string): string {
+  return `${eventId}_${projectId}_${judgeId}`
+}
+
+/** Why the rubric can't be saved, or null when it's valid */
+export function rubricError(rubric: RubricCriterion[]): string | null {
+  if (rubric.length === 0) return "Add at least one criterion"
+  for (const criterion of rubric) {
+    if (!criterion.name.trim()) return "Every criterion needs a name"
+    if (!(criterion.weight > 0)) return `"${criterion.name}" needs a weight above 0`
+    if (!(criterion.max_score >= 1)) return `"${criterion.name}" needs a max score of at least 1`
+  }
+  return null
+}
+
+export function isScorecardComplete(rubric: RubricCriterion[], score: Pick<JudgeScore, "scores" | "recused">): boolean {
+  return !score.recused && rubric.every((c) => typeof score.scores[c.criterion_id] === "number")
+}
+
+/** Weighted score as a fraction of the maximum (0..1) */
+export function weightedScore(rubric: RubricCriterion[], scores: Record<string, number>): number {
+  const totalWeight = rubric.reduce((sum, c) => sum + c.weight, 0)
+  if (totalWeight === 0) return 0
+  const earned = rubric.reduce((sum, c) => {
+    const value = Math.min(Math.max(scores[c.criterion_id] ?? 0, 0), c.max_score)
+    return sum + (value / c.max_score) * c.weight
+  }, 0)
+  return earned / totalWeight
+}
+
+/**
+ * Why a judge may not score a project, or null. Team members are always excluded;
+ * anyone else can declare a conflict, which leaves a recused scorecard behind.
+ */
+export function conflictReason(
+  project: Pick<Project, "project_id" | "members" | "created_by">,
+  judgeId: string,
+  scores: JudgeScore[],
+): string | null {
+  if (project.created_by === judgeId || project.members.includes(judgeId)) return "Member of this team"
+  if (scores.some((s) => s.project_id === project.project_id && s.judge_id === judgeId && s.recused)) {
+    return "Declared conflict of interest"
+  }
+  return null
+}
+
+export interface LeaderboardEntry {
+  project: Project
+  rank: number
+  rawScore: number // average weighted score, 0..100
+  normalizedScore: number // judge-normalised score on the same 0..100 scale
+  judgeCount: number
+  criteriaAverages: Record<string, number> // criterion_id -> average points awarded
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+const stdDev = (values: number[]) => {
+  const m = mean(values)
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)))
+}
+
+/**
+ * Ranks projects from the judges' scorecards. Each judge's weighted scores are turned into
+ * z-scores so a harsh or generous judge shifts every project equally, then the per-project
+ * average z is mapped back onto the overall 0..100 distribution. Conflicted and incomplete
+ * cards are ignored; projects nobody has scored are left off.
+ */
+export function buildLeaderboard(rubric: RubricCriterion[], projects: Project[], scores: JudgeScore[]): LeaderboardEntry[] {
+  const projectsById = new Map(projects.map((p) => [p.project_id, p]))
+  const cards = scores
+    .filter((s) => isScorecardComplete(rubric, s))
+    .filter((s) => {
+      const project = projectsById.get(s.project_id)
+      return project && !conflictReason(project, s.judge_id, [])
+    })
+    .map((s) => ({ ...s, raw: weightedScore(rubric, s.scores) }))
+  if (cards.length === 0) return []
+
+  const judgeStats = new Map<string, { mean: number; std: number }>()
+  for (const judgeId of new Set(cards.map((c) => c.judge_id))) {
+    const raws = cards.filter((c) => c.judge_id === judgeId).map((c) => c.raw)
+    judgeStats.set(judgeId, { mean: mean(raws), std: stdDev(raws) })
+  }
+  const overallMean = mean(cards.map((c) => c.raw))
+  const overallStd = stdDev(cards.map((c) => c.raw))
+
+  const entries = Array.from(projectsById.values()).flatMap((project): LeaderboardEntry[] => {
+    const projectCards = cards.filter((c) => c.project_id === project.project_id)
+    if (projectCards.length === 0) return []
+
+    const zScores = projectCards.map((c) => {
+      const stats = judgeStats.get(c.judge_id)!
+      return stats.std > 0 ? (c.raw - stats.mean) / stats.std : 0
+    })
+    const normalized = Math.min(Math.max(overallMean + mean(zScores) * overallStd, 0), 1)
+
+    return [
+      {
+        project,
+        rank: 0,
+        rawScore: mean(projectCards.map((c) => c.raw)) * 100,
+        normalizedScore: normalized * 100,
+        judgeCount: projectCards.length,
+        criteriaAverages: Object.fromEntries(
+          rubric.map((c) => [c.criterion_id, mean(projectCards.map((card) => card.scores[c.criterion_id]))]),
+        ),
+      },
+    ]
+  })
+
+  entries.sort((a, b) => b.normalizedScore - a.normalizedScore || b.rawScore - a.rawScore)
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1]
+    const tied = previous && previous.normalizedScore.toFixed(2) === entry.normalizedScore.toFixed(2)
+    entry.rank = tied ? previous.rank : i + 1
+  })
+  return entries
+}
@@ -0,0 +1,73 @@
+import type { Milestone, Task } from "./types"
+
+export type MilestoneStatus = Milestone["status"]
+
+export interface ResolvedMilestone {
+  milestone: Milestone
+  deadline: Date
+  status: MilestoneStatus
+  tasks: Task[]
+  completedTasks: number
+}
+
+// Anchored milestones follow the hackathon window; custom ones keep their fixed date
+export function milestoneDeadline(milestone: Milestone, window: { start: Date; end: Date }): Date {
+  if (typeof milestone.anchor !== "number") return new Date(milestone.deadline)
+  const start = window.start.getTime()
+  return new Date(start + (window.end.getTime() - start) * milestone.anchor)
+}
+
+/**
+ * Derives every milestone's status from its deadline and linked tasks:
+ * - completed: all linked tasks are done (milestones without tasks are completed by hand)
+ * - overdue: the deadline passed first
+ * - active: the earliest milestone still open once the hackathon has started
+ * - upcoming: everything after it
+ */
+export function resolveMilestones(
+  milestones: Milestone[],
+  tasks: Task[],
+  window: { start: Date; end: Date },
+  now: number = Date.now(),
+): ResolvedMilestone[] {
+  const resolved = milestones
+    .map((milestone) => {
+      const linked = tasks.filter((task) => task.milestone_id === milestone.milestone_id)
+      return {
+        milestone,
+        deadline: milestoneDeadline(milestone, window),
+        tasks: linked,
+        completedTasks: linked.filter((task) => task.status === "Done").length,
+        status: "upcoming" as MilestoneStatus,
+      }
+    })
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+
+  let activeAssigned = now < window.start.getTime()
+  for (const entry of resolved) {
+    const done = entry.tasks.length > 0
+      ? entry.completedTasks === entry.tasks.length
+      : entry.milestone.status === "completed"
+
+    if (done) {
+      entry.status = "completed"
+    } else if (now > entry.deadline.getTime()) {
+      entry.status = "overdue"
+    } else if (!activeAssigned) {
+      entry.status = "active"
+      activeAssigned = true
+    }
+  }
+
+  return resolved
+}
+
+// Stored fields that no longer match what resolveMilestones derived
+export function milestoneUpdates(resolved: ResolvedMilestone[]): { milestone: Milestone; updates: Partial<Milestone> }[] {
+  return resolved.flatMap(({ milestone, deadline, status }) => {
+    const updates: Partial<Milestone> = {}
+    if (milestone.status !== status) updates.status = status
+    if (new Date(milestone.deadline).getTime() !== deadline.getTime()) updates.deadline = deadline
+    return Object.keys(updates).length ? [{ milestone, updates }] : []
+  })
+}
@@ -0,0 +1,100 @@
+import type { Project, ProjectRole, SharedResource } from "./types"
+
+export type Permission =
+  | "idea:edit"
+  | "task:edit" // create, update, move, assign and delete tasks
+  | "chat:send"
+  | "resource:create"
+  | "resource:delete:own"
+  | "resource:delete:any"
+  | "member:remove"
+  | "demo:toggle"
+  | "settings:edit"
+  | "role:manage"
+  | "project:delete"
+  | "project:submit"
+
+/**
+ * Permission matrix for project roles.
+ * Keep in sync with the helpers in firestore.rules, which enforce the same table server-side.
+ */
+export const ROLE_PERMISSIONS: Record<ProjectRole, Permission[]> = {
+  owner: [
+    "idea:edit",
+    "task:edit",
+    "chat:send",
+    "resource:create",
+    "resource:delete:own",
+    "resource:delete:any",
+    "member:remove",
+    "demo:toggle",
+    "settings:edit",
+    "role:manage",
+    "project:delete",
+    "project:submit",
+  ],
+  admin: [
+    "idea:edit",
+    "task:edit",
+    "chat:send",
+    "resource:create",
+    "resource:delete:own",
+    "resource:delete:any",
+    "member:remove",
+    "demo:toggle",
+    "settings:edit",
+    "role:manage",
+    "project:submit",
+  ],
+  member: ["idea:edit", "task:edit", "chat:send", "resource:create", "resource:delete:own"],
+  viewer: [],
+}
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+}
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 }
+
+export function can(role: ProjectRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Content edits members lose once the submission deadline has passed; owners and admins keep theirs
+export const DEADLINE_LOCKED_PERMISSIONS: Permission[] = ["idea:edit", "task:edit", "resource:create", "resource:delete:own"]
+
+export function isPastDeadline(project: Pick<Project, "submission_deadline">, now: number = Date.now()): boolean {
+  return !!project.submission_deadline && now > new Date(project.submission_deadline).getTime()
+}
+
+// can() with the submission lock applied
+export function canBeforeDeadline(role: ProjectRole, permission: Permission, pastDeadline: boolean): boolean {
+  if (!can(role, permission)) return false
+  if (!pastDeadline || !DEADLINE_LOCKED_PERMISSIONS.includes(permission)) return true
+  return role === "owner" || role === "admin"
+}
+
+// The creator is always the owner, even on projects created before roles were enforced
+export function resolveRole(project: Pick<Project, "created_by">, userId: string, storedRole?: ProjectRole | null): ProjectRole {
+  if (project.created_by === userId) return "owner"
+  return storedRole && storedRole !== "owner" ? storedRole : "viewer"
+}
+
+// Managing someone (removing them or changing their role) requires outranking them
+export function canManageMember(actorRole: ProjectRole, targetRole: ProjectRole): boolean {
+  return can(actorRole, "role:manage") && ROLE_RANK[actorRole] > ROLE_RANK[targetRole]
+}
+
+// Roles an actor may hand out: never owner, and only roles below their own
+export function assignableRoles(actorRole: ProjectRole): ProjectRole[] {
+  if (!can(actorRole, "role:manage")) return []
+  return (["admin", "member", "viewer"] as ProjectRole[]).filter((role) => ROLE_RANK[role] < ROLE_RANK[actorRole])
+}
+
+export function canDeleteResource(role: ProjectRole, resource: SharedResource, userId: string, pastDeadline = false): boolean {
+  if (can(role, "resource:delete:any")) return true
+  return resource.uploaded_by === userId && canBeforeDeadline(role, "resource:delete:own", pastDeadline)
+}
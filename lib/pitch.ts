@@ -0,0 +1,154 @@
+import { pitchDeckSchema } from "./ai/schemas"
+import type { PitchDeck, SharedResource } from "./types"
+
+export const PITCH_DECK_TAG = "pitch-deck"
+
+// 16:9 slides in PDF points
+const PDF_WIDTH = 960
+const PDF_HEIGHT = 540
+const PDF_MARGIN = 64
+
+/** The newest shared resource holding a pitch deck */
+export function findPitchDeckResource(resources: SharedResource[]): SharedResource | null {
+  return (
+    resources
+      .filter((r) => r.tags?.includes(PITCH_DECK_TAG) && r.content)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] ?? null
+  )
+}
+
+export function parsePitchDeck(content: string | undefined): PitchDeck | null {
+  if (!content) return null
+  try {
+    const parsed = pitchDeckSchema.safeParse(JSON.parse(content))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!)
+}
+
+/**
+ * A single HTML file that presents the deck with no network access: arrow keys or
+ * clicks move between slides, "n" toggles speaker notes and "f" goes fullscreen.
+ */
+export function pitchDeckToHTML(deck: PitchDeck): string {
+  const cover = `<section class="slide cover"><h1>${escapeHTML(deck.title)}</h1><h2>${escapeHTML(deck.tagline)}</h2></section>`
+  const slides = deck.slides.map(
+    (slide) => `<section class="slide">
+<h1>${escapeHTML(slide.title)}</h1>
+<ul>${slide.bullets.map((b) => `<li>${escapeHTML(b)}</li>`).join("")}</ul>
+${slide.notes ? `<aside class="notes">${escapeHTML(slide.notes)}</aside>` : ""}
+</section>`,
+  )
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(deck.title)}</title>
+<style>
+html, body { margin: 0; height: 100%; overflow: hidden; background: #0f172a; color: #f8fafc; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; }
+.slide { position: absolute; inset: 0; display: none; flex-direction: column; justify-content: center; padding: 8vh 8vw; box-sizing: border-box; }
+.slide.active { display: flex; }
+.slide h1 { font-size: 6vh; margin: 0 0 4vh; }
+.cover { align-items: center; text-align: center; }
+.cover h1 { font-size: 9vh; }
+.cover h2 { font-size: 3.5vh; font-weight: 400; color: #94a3b8; margin: 0; }
+ul { font-size: 3.4vh; line-height: 1.5; margin: 0; padding-left: 1.2em; }
+li { margin: 1vh 0; }
+.notes { display: none; position: absolute; left: 8vw; right: 8vw; bottom: 6vh; font-size: 2.2vh; color: #cbd5e1; border-top: 1px solid #334155; padding-top: 1.5vh; }
+body.show-notes .notes { display: block; }
+.counter { position: fixed; right: 3vw; bottom: 2vh; font-size: 2vh; color: #64748b; }
+</style>
+</head>
+<body>
+${[cover, ...slides].join("\n")}
+<div class="counter"></div>
+<script>
+(function () {
+  var slides = document.querySelectorAll(".slide"), counter = document.querySelector(".counter"), index = 0;
+  function show(n) {
+    index = Math.max(0, Math.min(slides.length - 1, n));
+    slides.forEach(function (s, i) { s.classList.toggle("active", i === index); });
+    counter.textContent = (index + 1) + " / " + slides.length;
+  }
+  document.addEventListener("keydown", function (e) {
+    if (e.key === "ArrowRight" || e.key === "PageDown" || e.key === " ") show(index + 1);
+    else if (e.key === "ArrowLeft" || e.key === "PageUp") show(index - 1);
+    else if (e.key === "n") document.body.classList.toggle("show-notes");
+    else if (e.key === "f" && document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+  });
+  document.addEventListener("click", function (e) { show(e.clientX > window.innerWidth / 2 ? index + 1 : index - 1); });
+  show(0);
+})();
+</script>
+</body>
+</html>
+`
+}
+
+// The PDF's built-in Helvetica only covers Latin-1; swap common typography and drop the rest
+function pdfSafe(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\xff]/g, "")
+}
+
+function wrapText(text: string, size: number, maxWidth: number, measure: (s: string, size: number) => number): string[] {
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word
+    if (line && measure(next, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = next
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/** One landscape page per slide, cover first; speaker notes are left out */
+export async function pitchDeckToPDF(deck: PitchDeck): Promise<Uint8Array> {
+  const { pdf, measureText } = await import("tinypdf")
+  const doc = pdf()
+  const textWidth = PDF_WIDTH - PDF_MARGIN * 2
+
+  doc.page(PDF_WIDTH, PDF_HEIGHT, (ctx) => {
+    ctx.rect(0, 0, PDF_WIDTH, PDF_HEIGHT, "#0f172a")
+    ctx.text(pdfSafe(deck.title), PDF_MARGIN, PDF_HEIGHT / 2 + 20, 44, { align: "center", width: textWidth, color: "#f8fafc" })
+    ctx.text(pdfSafe(deck.tagline), PDF_MARGIN, PDF_HEIGHT / 2 - 30, 20, { align: "center", width: textWidth, color: "#94a3b8" })
+  })
+
+  deck.slides.forEach((slide, index) => {
+    doc.page(PDF_WIDTH, PDF_HEIGHT, (ctx) => {
+      ctx.rect(0, PDF_HEIGHT - 8, PDF_WIDTH, 8, "#6366f1")
+      ctx.text(pdfSafe(slide.title), PDF_MARGIN, PDF_HEIGHT - PDF_MARGIN - 20, 32, { color: "#0f172a" })
+
+      // PDF coordinates start at the bottom-left, so each line moves down from the title
+      let y = PDF_HEIGHT - PDF_MARGIN - 80
+      for (const bullet of slide.bullets) {
+        wrapText(pdfSafe(bullet), 20, textWidth - 24, measureText).forEach((line, i) => {
+          if (i === 0) ctx.text("-", PDF_MARGIN, y, 20, { color: "#6366f1" })
+          ctx.text(line, PDF_MARGIN + 24, y, 20, { color: "#1e293b" })
+          y -= 28
+        })
+        y -= 8
+      }
+
+      ctx.text(`${index + 2} / ${deck.slides.length + 1}`, PDF_MARGIN, 24, 10, { align: "right", width: textWidth, color: "#94a3b8" })
+    })
+  })
+
+  return doc.build()
+}
@@ -0,0 +1,77 @@
+import { formatDistance } from "date-fns"
+import type { MemberPresence, PresenceSession } from "./types"
+
+export const HEARTBEAT_MS = 30 * 1000
+// A tab that missed a few heartbeats was closed or lost its connection
+export const OFFLINE_AFTER_MS = 2 * 60 * 1000
+export const IDLE_AFTER_MS = 5 * 60 * 1000
+// Typing refreshes the session, so a stale flag means the tab died mid-sentence
+export const TYPING_TTL_MS = 15 * 1000
+export const TYPING_IDLE_MS = 4 * 1000
+
+/** Typing key for the Mentor tab's conversation */
+export const MENTOR_TYPING_KEY = "mentor"
+
+export type PresenceStatus = "online" | "away" | "offline"
+
+export const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: "bg-green-500",
+  away: "bg-amber-400",
+  offline: "bg-slate-400",
+}
+
+function age(session: PresenceSession, now: number): number {
+  return now - new Date(session.last_seen).getTime()
+}
+
+export function liveSessions(presence: MemberPresence | undefined, now: number): PresenceSession[] {
+  return Object.values(presence?.sessions ?? {}).filter((s) => age(s, now) < OFFLINE_AFTER_MS)
+}
+
+/** Online if any tab is in use, away if tabs are open but idle or hidden */
+export function presenceStatus(presence: MemberPresence | undefined, now: number): PresenceStatus {
+  const sessions = liveSessions(presence, now)
+  if (sessions.length === 0) return "offline"
+  return sessions.some((s) => s.state === "active") ? "online" : "away"
+}
+
+export function presenceLabel(presence: MemberPresence | undefined, now: number): string {
+  const status = presenceStatus(presence, now)
+  if (status === "online") return "Online"
+  if (status === "away") return "Away"
+  return presence ? `Last seen ${formatDistance(new Date(presence.last_seen), now, { addSuffix: true })}` : "Not seen yet"
+}
+
+/** Who is typing where, keyed by chat channel, thread or MENTOR_TYPING_KEY */
+export function typingByKey(presences: MemberPresence[], now: number, excludeUserId?: string): Map<string, string[]> {
+  const typing = new Map<string, string[]>()
+  for (const presence of presences) {
+    if (presence.user_id === excludeUserId) continue
+    const keys = new Set(
+      liveSessions(presence, now)
+        .filter((s) => s.typing_in && age(s, now) < TYPING_TTL_MS)
+        .map((s) => s.typing_in!),
+    )
+    keys.forEach((key) => typing.set(key, [...(typing.get(key) ?? []), presence.user_id]))
+  }
+  return typing
+}
+
+/** Who has each task open, keyed by task id */
+export function viewersByTask(presences: MemberPresence[], now: number, excludeUserId?: string): Map<string, string[]> {
+  const viewers = new Map<string, string[]>()
+  for (const presence of presences) {
+    if (presence.user_id === excludeUserId) continue
+    const tasks = new Set(liveSessions(presence, now).flatMap((s) => (s.viewing_task ? [s.viewing_task] : [])))
+    tasks.forEach((taskId) => viewers.set(taskId, [...(viewers.get(taskId) ?? []), presence.user_id]))
+  }
+  return viewers
+}
+
+/** "Ada is typing...", "Ada and Bob are typing...", "3 people are typing..." */
+export function typingLabel(names: string[]): string | null {
+  if (names.length === 0) return null
+  if (names.length === 1) return `${names[0]} is typing...`
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`
+  return `${names.length} people are typing...`
+}
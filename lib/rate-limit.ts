@@ -0,0 +1,45 @@
+export interface TokenBucketOptions {
+  /** Burst size: how many tokens a fresh bucket holds */
+  capacity: number
+  /** Tokens added back per minute */
+  refillPerMinute: number
+}
+
+export interface TokenBucketLimiter {
+  /** Takes `cost` tokens from `key`'s bucket, or reports how long until that many are available */
+  take(key: string, cost?: number): { allowed: boolean; retryAfter: number }
+  /** Whether `take` would succeed, without spending anything */
+  peek(key: string, cost?: number): { allowed: boolean; retryAfter: number }
+}
+
+/**
+ * In-process token buckets, one per key. Like the AI response cache they live in
+ * this server instance's memory, so each instance enforces its own limits.
+ */
+export function createTokenBucketLimiter({ capacity, refillPerMinute }: TokenBucketOptions): TokenBucketLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+  const perMs = refillPerMinute / 60_000
+
+  const refill = (key: string) => {
+    const now = Date.now()
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now }
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs)
+    bucket.updatedAt = now
+    buckets.set(key, bucket)
+    return bucket
+  }
+
+  const check = (key: string, cost: number, spend: boolean) => {
+    const bucket = refill(key)
+    if (bucket.tokens >= cost) {
+      if (spend) bucket.tokens -= cost
+      return { allowed: true, retryAfter: 0 }
+    }
+    return { allowed: false, retryAfter: Math.ceil((cost - bucket.tokens) / perMs / 1000) }
+  }
+
+  return {
+    take: (key, cost = 1) => check(key, cost, true),
+    peek: (key, cost = 1) => check(key, cost, false),
+  }
+}
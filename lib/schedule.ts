@@ -0,0 +1,82 @@
+import type { HackathonEvent, Project, ScheduleEvent } from "./types"
+
+export type ScheduleEventType = ScheduleEvent["type"]
+
+export const SCHEDULE_EVENT_TYPES: Record<ScheduleEventType, { label: string; color: string }> = {
+  work: { label: "Work", color: "bg-blue-500" },
+  break: { label: "Break", color: "bg-amber-400" },
+  sleep: { label: "Sleep", color: "bg-indigo-700" },
+  meal: { label: "Meal", color: "bg-green-500" },
+  meeting: { label: "Meeting", color: "bg-purple-500" },
+  presentation: { label: "Presentation", color: "bg-rose-500" },
+  reminder: { label: "Reminder", color: "bg-teal-500" },
+}
+
+export const REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60]
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+// Start and end of the hackathon every timeline is drawn against.
+// Projects registered for an event run on the event's dates instead of their creation time.
+// A submission deadline, once set, is the real end; otherwise the event end or the chosen duration is.
+export function hackathonWindow(
+  project: Pick<Project, "created_at" | "duration" | "submission_deadline">,
+  event?: Pick<HackathonEvent, "start_date" | "end_date"> | null,
+): { start: Date; end: Date } {
+  const start = new Date(event ? event.start_date : project.created_at)
+  if (project.submission_deadline) {
+    const end = new Date(project.submission_deadline)
+    if (end.getTime() > start.getTime()) return { start, end }
+  }
+  if (event) return { start, end: new Date(event.end_date) }
+  const hours = project.duration === "24h" ? 24 : 48
+  return { start, end: new Date(start.getTime() + hours * HOUR_MS) }
+}
+
+/** "Starts in 2h 5m", "20h 15m remaining" or "Time's up! ⏰" */
+export function formatTimeRemaining(window: { start: Date; end: Date }, now: number): string {
+  const untilStart = window.start.getTime() - now
+  const remaining = window.end.getTime() - now
+
+  if (remaining <= 0) return "Time's up! ⏰"
+
+  const countdown = untilStart > 0 ? untilStart : remaining
+  const hours = Math.floor(countdown / HOUR_MS)
+  const minutes = Math.floor((countdown % HOUR_MS) / MINUTE_MS)
+
+  return untilStart > 0 ? `Starts in ${hours}h ${minutes}m` : `${hours}h ${minutes}m remaining`
+}
+
+export function snapToMinutes(time: number, step = 15): number {
+  const stepMs = step * MINUTE_MS
+  return Math.round(time / stepMs) * stepMs
+}
+
+// The block a member is in at a given moment; later-starting blocks win when they overlap
+export function eventAt(events: ScheduleEvent[], userId: string, time: number): ScheduleEvent | null {
+  let current: ScheduleEvent | null = null
+  for (const event of events) {
+    if (event.user_id !== userId) continue
+    const start = new Date(event.start_time).getTime()
+    const end = new Date(event.end_time).getTime()
+    if (start <= time && time < end && (!current || start >= new Date(current.start_time).getTime())) {
+      current = event
+    }
+  }
+  return current
+}
+
+// Events whose reminder window has opened but which haven't started yet
+export function dueReminders(events: ScheduleEvent[], now: number): ScheduleEvent[] {
+  return events.filter((event) => {
+    if (event.completed || !event.reminder_minutes) return false
+    const start = new Date(event.start_time).getTime()
+    return start - event.reminder_minutes * MINUTE_MS <= now && now < start
+  })
+}
+
+export function formatTimeRange(event: Pick<ScheduleEvent, "start_time" | "end_time">): string {
+  const options: Intl.DateTimeFormatOptions = { hour: "2-digit", minute: "2-digit" }
+  return `${new Date(event.start_time).toLocaleTimeString([], options)} - ${new Date(event.end_time).toLocaleTimeString([], options)}`
+}
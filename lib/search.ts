@@ -0,0 +1,25 @@
+// Firestore has no full-text search, so messages and notes store their lowercased words
+// in `search_tokens`; a query matches one word server-side and the rest are checked here
+const MAX_TOKENS = 500
+const MIN_TOKEN_LENGTH = 2
+
+export function searchTokens(text: string): string[] {
+  const tokens = new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((t) => t.length >= MIN_TOKEN_LENGTH),
+  )
+  return [...tokens].slice(0, MAX_TOKENS)
+}
+
+/** The query word to look up server-side: the longest one is usually the most selective */
+export function primarySearchToken(query: string): string | null {
+  return searchTokens(query).sort((a, b) => b.length - a.length)[0] ?? null
+}
+
+/** Every word of the query appears in the text as a whole word */
+export function matchesSearch(text: string, query: string): boolean {
+  const words = new Set(searchTokens(text))
+  return searchTokens(query).every((q) => words.has(q))
+}
@@ -0,0 +1,195 @@
+import { formatDistanceToNow } from "date-fns"
+import { findMentionedMembers, taskReference } from "./chat"
+import type { ResolvedMilestone } from "./milestones"
+import type { Permission } from "./permissions"
+import { getBlockers } from "./task-graph"
+import type { LiveActivity, ProjectMember, Task } from "./types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_REMINDER_MINUTES = 24 * 60
+
+export type SlashCommandName = "task" | "assign" | "done" | "standup" | "timer" | "remind" | "ask"
+
+export interface SlashCommandSpec {
+  name: SlashCommandName
+  usage: string
+  description: string
+  /** Checked before the command runs; commands without one are open to everyone who can chat */
+  permission?: Permission
+  /** How the command shows up in the activity feed */
+  activity: LiveActivity["type"]
+}
+
+export const SLASH_COMMANDS: SlashCommandSpec[] = [
+  { name: "task", usage: "/task <title>", description: "Create a task", permission: "task:edit", activity: "task_update" },
+  { name: "assign", usage: "/assign @member #task", description: "Assign a task", permission: "task:edit", activity: "task_update" },
+  { name: "done", usage: "/done #task", description: "Mark a task as done", permission: "task:edit", activity: "task_update" },
+  { name: "standup", usage: "/standup", description: "Post what everyone finished, is doing and is stuck on", activity: "message" },
+  { name: "timer", usage: "/timer", description: "Post the time left and the next milestone", activity: "message" },
+  { name: "remind", usage: "/remind <30m|2h|1h30m> <text>", description: "Remind yourself later", activity: "message" },
+  { name: "ask", usage: "/ask <question>", description: "Ask the AI mentor", permission: "chat:send", activity: "message" },
+]
+
+export type SlashCommand =
+  | { name: "task"; title: string }
+  | { name: "assign"; member: ProjectMember; task: Task }
+  | { name: "done"; task: Task }
+  | { name: "standup" }
+  | { name: "timer" }
+  | { name: "remind"; minutes: number; text: string }
+  | { name: "ask"; question: string }
+
+export type SlashCommandParse = { ok: true; command: SlashCommand } | { ok: false; error: string }
+
+export interface SlashCommandContext {
+  members: ProjectMember[]
+  tasks: Task[]
+}
+
+/** What selecting an autocomplete entry turns the input into */
+export interface SlashSuggestion {
+  label: string
+  detail: string
+  value: string
+}
+
+export function isSlashCommand(text: string): boolean {
+  return text.trimStart().startsWith("/")
+}
+
+export function slashCommandSpec(name: SlashCommandName): SlashCommandSpec {
+  return SLASH_COMMANDS.find((c) => c.name === name)!
+}
+
+/** "30m", "2h", "1h30m" or a bare number of minutes */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().toLowerCase().match(/^(?:(\d+)h)?(?:(\d+)m?)?$/)
+  if (!match || (!match[1] && !match[2])) return null
+  const minutes = Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0)
+  return minutes > 0 ? minutes : null
+}
+
+function findReferencedTask(text: string, tasks: Task[]): Task | undefined {
+  for (const [, id] of text.matchAll(/#([A-Za-z0-9_-]+)/g)) {
+    const task = tasks.find((t) => t.task_id === id)
+    if (task) return task
+  }
+  return undefined
+}
+
+/** Validates a command and resolves its @member and #task arguments */
+export function parseSlashCommand(text: string, { members, tasks }: SlashCommandContext): SlashCommandParse {
+  const [, rawName = "", rest = ""] = text.trim().match(/^\/(\S*)\s*([\s\S]*)$/) ?? []
+  const spec = SLASH_COMMANDS.find((c) => c.name === rawName.toLowerCase())
+  if (!spec) return { ok: false, error: `Unknown command "/${rawName}". Try ${SLASH_COMMANDS.map((c) => `/${c.name}`).join(", ")}.` }
+  const usage = `Usage: ${spec.usage}`
+  const args = rest.trim()
+
+  switch (spec.name) {
+    case "task":
+      return args ? { ok: true, command: { name: "task", title: args } } : { ok: false, error: usage }
+    case "assign": {
+      const member = findMentionedMembers(args, members)[0]
+      const task = findReferencedTask(args, tasks)
+      if (!member) return { ok: false, error: `Mention a teammate with @. ${usage}` }
+      if (!task) return { ok: false, error: `Pick a task with #. ${usage}` }
+      return { ok: true, command: { name: "assign", member, task } }
+    }
+    case "done": {
+      const task = findReferencedTask(args, tasks)
+      if (!task) return { ok: false, error: `Pick a task with #. ${usage}` }
+      if (task.status === "Done") return { ok: false, error: `"${task.title}" is already done` }
+      return { ok: true, command: { name: "done", task } }
+    }
+    case "standup":
+    case "timer":
+      return { ok: true, command: { name: spec.name } }
+    case "remind": {
+      const [duration = "", ...words] = args.split(/\s+/)
+      const minutes = parseDuration(duration)
+      if (!minutes || words.length === 0) return { ok: false, error: usage }
+      if (minutes > MAX_REMINDER_MINUTES) return { ok: false, error: "Reminders can be at most 24h away" }
+      return { ok: true, command: { name: "remind", minutes, text: words.join(" ") } }
+    }
+    case "ask":
+      return args ? { ok: true, command: { name: "ask", question: args } } : { ok: false, error: usage }
+  }
+}
+
+/**
+ * Autocomplete for the input: command names while the first word is typed, then
+ * teammates and tasks for the commands that take them.
+ */
+export function slashCommandSuggestions(text: string, { members, tasks }: SlashCommandContext): SlashSuggestion[] {
+  const nameMatch = text.match(/^\/(\w*)$/)
+  if (nameMatch) {
+    const prefix = nameMatch[1].toLowerCase()
+    return SLASH_COMMANDS.filter((c) => c.name.startsWith(prefix)).map((c) => ({
+      label: c.usage,
+      detail: c.description,
+      value: `/${c.name} `,
+    }))
+  }
+
+  const argMatch = text.match(/^\/(assign|done)\s+([\s\S]*)$/i)
+  if (!argMatch) return []
+  const [, name, args] = argMatch
+
+  // A half-typed "@Ad" or "#ta" narrows the list and is replaced by the pick
+  const complete = (marker: "@" | "#") => {
+    const partial = text.match(marker === "@" ? /@([^@#]*)$/ : /#(\S*)$/)
+    const stem = partial ? text.slice(0, partial.index) : text.endsWith(" ") ? text : `${text} `
+    return { stem, query: partial?.[1].trim().toLowerCase() ?? "" }
+  }
+
+  if (name.toLowerCase() === "assign" && findMentionedMembers(args, members).length === 0) {
+    const { stem, query } = complete("@")
+    return members
+      .filter((m) => m.name.toLowerCase().startsWith(query))
+      .map((m) => ({ label: `@${m.name}`, detail: m.role, value: `${stem}@${m.name} ` }))
+  }
+  if (findReferencedTask(args, tasks)) return []
+  const { stem, query } = complete("#")
+  return tasks
+    .filter((t) => t.status !== "Done" && (t.task_id.toLowerCase().startsWith(query) || t.title.toLowerCase().includes(query)))
+    .map((t) => ({ label: t.title, detail: t.status, value: `${stem}${taskReference(t.task_id)} ` }))
+}
+
+/** Per teammate: what they finished in the last day, what they're on, and what's holding them up */
+export function standupReport(tasks: Task[], members: ProjectMember[], now: number): string {
+  const lines = ["Standup"]
+  for (const member of members) {
+    const own = tasks.filter((t) => t.assigned_to === member.user_id)
+    const done = own.filter((t) => t.status === "Done" && now - new Date(t.last_updated).getTime() < DAY_MS)
+    const doing = own.filter((t) => t.status === "InProgress")
+    const blocked = own.filter((t) => t.status !== "Done" && getBlockers(t, tasks).length > 0)
+
+    lines.push(
+      "",
+      member.name,
+      `  Done: ${done.map((t) => t.title).join(", ") || "nothing in the last 24h"}`,
+      `  Doing: ${doing.map((t) => t.title).join(", ") || "nothing in progress"}`,
+    )
+    if (blocked.length) {
+      lines.push(
+        `  Blocked: ${blocked.map((t) => `${t.title} (waiting on ${getBlockers(t, tasks).map((b) => b.title).join(", ")})`).join("; ")}`,
+      )
+    }
+  }
+  const unassigned = tasks.filter((t) => t.status !== "Done" && !t.assigned_to)
+  if (unassigned.length) lines.push("", `Unassigned: ${unassigned.map((t) => t.title).join(", ")}`)
+  return lines.join("\n")
+}
+
+export function timerReport(timeRemaining: string, milestones: ResolvedMilestone[], now: number): string {
+  const next = milestones
+    .filter((m) => m.status !== "completed" && m.deadline.getTime() > now)
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())[0]
+  const lines = [`⏱️ ${timeRemaining}`]
+  if (next) {
+    lines.push(
+      `Next milestone: ${next.milestone.name}, due ${formatDistanceToNow(next.deadline, { addSuffix: true })} (${next.completedTasks}/${next.tasks.length} tasks done)`,
+    )
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,1601 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  Timestamp,
+  onSnapshot,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  writeBatch,
+  runTransaction,
+  deleteField,
+  FieldPath,
+  type Query,
+  type DocumentData,
+  type DocumentReference,
+} from "firebase/firestore"
+import { getFirebaseDb } from "../firebase"
+import type { Project, ProjectRole, HackathonEvent, JudgeScore, ProjectSubmission, SubmissionCheckId, Task, ChatMessage, ProjectMember, SharedResource, LiveActivity, TeamNotification, Milestone, ScheduleEvent, WellnessSettings, MemberPresence, PresenceSession, MentorMemory, MentorToolCall, AIUsageRecord, HistorySearchQuery, HistorySearchHit } from "../types"
+import type { HackmateStore } from "./types"
+import { assertCanRegister } from "../events"
+import { scoreId } from "../judging"
+import { PROJECT_COLLECTIONS, defaultMilestonePlan, durationEnd, generateJoinCode, withoutUndefined } from "./shared"
+import { matchesSearch, primarySearchToken, searchTokens } from "../search"
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
+  return Promise.race([promise, new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms))]).catch(
+    () => fallback,
+  )
+}
+
+// Firestore caps a write batch at 500 operations; stay comfortably below it
+const BATCH_LIMIT = 450
+
+async function deleteInChunks(refs: DocumentReference[]): Promise<void> {
+  const db = getDb()
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db)
+    refs.slice(i, i + BATCH_LIMIT).forEach((ref) => batch.delete(ref))
+    await batch.commit()
+  }
+}
+
+function toProject(data: DocumentData): Project {
+  return {
+    ...data,
+    created_at: data.created_at?.toDate?.() || new Date(),
+    deleted_at: data.deleted_at?.toDate?.() || null,
+    submission_deadline: data.submission_deadline?.toDate?.() || undefined,
+  } as Project
+}
+
+function toHackathonEvent(data: DocumentData): HackathonEvent {
+  return {
+    ...data,
+    start_date: data.start_date?.toDate?.() || new Date(data.start_date),
+    end_date: data.end_date?.toDate?.() || new Date(data.end_date),
+    created_at: data.created_at?.toDate?.() || new Date(),
+  } as HackathonEvent
+}
+
+// Projects
+async function createProject(name: string, duration: "24h" | "48h", userId: string): Promise<string> {
+  const db = getDb()
+  const projectRef = doc(collection(db, "projects"))
+
+  const project = {
+    project_id: projectRef.id,
+    name,
+    duration,
+    created_by: userId,
+    members: [userId],
+    demo_mode: false,
+    created_at: serverTimestamp(),
+    status: "planning",
+    github_repo: null,
+    demo_url: null,
+    pitch_deck_url: null,
+    submission_deadline: null,
+    hackathon_event: null,
+  }
+
+  await setDoc(projectRef, project)
+
+  // Kept apart from the project so listing projects never reveals a way in
+  const joinCode = generateJoinCode()
+  await setDoc(doc(db, "join_codes", joinCode), { code: joinCode, project_id: projectRef.id })
+
+  // Set role in background - don't wait
+  setDoc(doc(db, "project_roles", `${projectRef.id}_${userId}`), {
+    project_id: projectRef.id,
+    user_id: userId,
+    role: "owner",
+  }).catch(() => {})
+
+  // Create default milestones in background; their anchors realign them to the stored created_at later
+  const start = new Date()
+  createDefaultMilestones(projectRef.id, start, durationEnd(start, duration)).catch(() => {})
+
+  return projectRef.id
+}
+
+async function getProject(projectId: string): Promise<Project | null> {
+  try {
+    const db = getDb()
+    const projectDoc = await withTimeout(getDoc(doc(db, "projects", projectId)), 3000, null as any)
+    if (!projectDoc || !projectDoc.exists?.()) return null
+    return toProject(projectDoc.data())
+  } catch (error) {
+    console.error("Error getting project:", error)
+    return null
+  }
+}
+
+async function getMemberProjects(userId: string): Promise<Project[]> {
+  const db = getDb()
+  const q = query(collection(db, "projects"), where("members", "array-contains", userId))
+  const snapshot = await withTimeout(getDocs(q), 3000, { docs: [] } as any)
+
+  if (!snapshot.docs) return []
+
+  const projects: Project[] = snapshot.docs.map((doc: any) => toProject(doc.data()))
+  return projects.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+}
+
+async function getUserProjects(userId: string): Promise<Project[]> {
+  try {
+    const projects = await getMemberProjects(userId)
+    return projects.filter((p) => !p.deleted_at)
+  } catch (error) {
+    console.error("Error getting user projects:", error)
+    return []
+  }
+}
+
+async function getTrashedProjects(userId: string): Promise<Project[]> {
+  try {
+    const projects = await getMemberProjects(userId)
+    return projects.filter((p) => p.deleted_at && p.created_by === userId)
+  } catch (error) {
+    console.error("Error getting trashed projects:", error)
+    return []
+  }
+}
+
+async function joinProjectByCode(joinCode: string, userId: string): Promise<string | null> {
+  try {
+    const db = getDb()
+    const codeDoc = await withTimeout(getDoc(doc(db, "join_codes", joinCode)), 5000, null as any)
+    if (!codeDoc || !codeDoc.exists?.()) return null
+    const projectId: string = codeDoc.data().project_id
+
+    // Only members can read the project, so this also tells us the user is already in
+    const existing = await getProject(projectId)
+    if (existing?.members.includes(userId)) return projectId
+
+    // The rules only let the caller into members alongside a join record naming a valid code
+    const batch = writeBatch(db)
+
+    batch.set(doc(db, "project_joins", `${projectId}_${userId}`), {
+      project_id: projectId,
+      user_id: userId,
+      code: joinCode,
+    })
+
+    batch.update(doc(db, "projects", projectId), {
+      members: arrayUnion(userId),
+    })
+
+    batch.set(doc(db, "project_roles", `${projectId}_${userId}`), {
+      project_id: projectId,
+      user_id: userId,
+      role: "member",
+    })
+
+    try {
+      await batch.commit()
+    } catch (error: any) {
+      // The code was checked above, so a refusal is a join that would take an event team past its size limit
+      if (error?.code === "permission-denied") {
+        throw new Error("Couldn't join this team. It may already have as many members as its hackathon allows.")
+      }
+      throw error
+    }
+
+    return projectId
+  } catch (error) {
+    console.error("Error joining project:", error)
+    throw error
+  }
+}
+
+async function getJoinCode(projectId: string): Promise<string | null> {
+  const db = getDb()
+  const snapshot = await getDocs(query(collection(db, "join_codes"), where("project_id", "==", projectId), limit(1)))
+  if (!snapshot.empty) return snapshot.docs[0].id
+
+  // Projects created before join codes moved out of the project document
+  const project = await getProject(projectId)
+  if (!project?.join_code) return null
+  try {
+    await setDoc(doc(db, "join_codes", project.join_code), { code: project.join_code, project_id: projectId })
+    await updateDoc(doc(db, "projects", projectId), { join_code: deleteField() })
+  } catch (error) {
+    // Only admins can move it; everyone else keeps using the old field until one does
+    console.error("Error migrating join code:", error)
+  }
+  return project.join_code
+}
+
+async function updateProjectIdea(projectId: string, idea: Project["idea"]): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { idea })
+}
+
+async function updateDemoMode(projectId: string, enabled: boolean): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { demo_mode: enabled })
+}
+
+async function updateProjectUrls(projectId: string, urls: { github_repo?: string; demo_url?: string; pitch_deck_url?: string }): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), urls)
+}
+
+async function updateSubmissionDeadline(projectId: string, deadline: Date | null): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { submission_deadline: deadline ?? deleteField() })
+}
+
+async function updateProjectStatus(projectId: string, status: Project["status"]): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { status })
+}
+
+async function updateSubmissionChecklist(projectId: string, checks: SubmissionCheckId[]): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { submission_checklist: checks })
+}
+
+async function trashProject(projectId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { deleted_at: serverTimestamp() })
+}
+
+async function restoreProject(projectId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { deleted_at: deleteField() })
+}
+
+async function deleteProject(projectId: string): Promise<void> {
+  const db = getDb()
+  const refs: DocumentReference[] = []
+  const failed: string[] = []
+
+  for (const name of PROJECT_COLLECTIONS) {
+    try {
+      const snapshot = await getDocs(query(collection(db, name), where("project_id", "==", projectId)))
+      snapshot.docs.forEach((d) => refs.push(d.ref))
+    } catch (e) {
+      console.error(`Error collecting ${name} for deletion:`, e)
+      failed.push(name)
+    }
+  }
+
+  // Leave everything in the trash rather than orphan what couldn't be listed
+  if (failed.length > 0) throw new Error(`Couldn't collect ${failed.join(", ")} for deletion`)
+
+  await deleteInChunks(refs)
+
+  // Delete the project last so an interrupted purge can be retried from the trash
+  await deleteDoc(doc(db, "projects", projectId))
+}
+
+// Subscribe to project updates with error handling
+function subscribeToProject(projectId: string, callback: (project: Project | null) => void) {
+  try {
+    const db = getDb()
+    return onSnapshot(
+      doc(db, "projects", projectId),
+      (doc) => {
+        if (doc.exists()) {
+          callback(toProject(doc.data()))
+        } else {
+          callback(null)
+        }
+      },
+      (error) => {
+        console.error("Error subscribing to project:", error)
+        callback(null)
+      },
+    )
+  } catch {
+    callback(null)
+    return () => {}
+  }
+}
+
+// Submissions
+async function createSubmission(submission: Omit<ProjectSubmission, "submission_id" | "submitted_at">): Promise<string> {
+  const db = getDb()
+  const submissionRef = doc(collection(db, "submissions"))
+  await setDoc(submissionRef, {
+    ...submission,
+    checks: submission.checks.map((check) => withoutUndefined(check)),
+    submission_id: submissionRef.id,
+    submitted_at: serverTimestamp(),
+  })
+  return submissionRef.id
+}
+
+function subscribeToSubmissions(projectId: string, callback: (submissions: ProjectSubmission[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "submissions"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const submissions = snapshot.docs.map((d) => {
+          const data = d.data()
+          return { ...data, submitted_at: data.submitted_at?.toDate?.() || new Date() } as ProjectSubmission
+        })
+        callback(submissions.sort((a, b) => b.submitted_at.getTime() - a.submitted_at.getTime()))
+      },
+      (error) => {
+        console.error("Error subscribing to submissions:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Hackathon Events
+async function createHackathonEvent(event: Omit<HackathonEvent, "event_id" | "created_at">): Promise<string> {
+  const db = getDb()
+  const eventRef = doc(collection(db, "hackathon_events"))
+  await setDoc(eventRef, {
+    ...withoutUndefined(event),
+    event_id: eventRef.id,
+    judges: [],
+    created_at: serverTimestamp(),
+  })
+  const judgeCode = generateJoinCode()
+  await setDoc(doc(db, "judge_codes", judgeCode), { code: judgeCode, event_id: eventRef.id })
+  return eventRef.id
+}
+
+async function getJudgeCode(eventId: string): Promise<string | null> {
+  const db = getDb()
+  const snapshot = await getDocs(query(collection(db, "judge_codes"), where("event_id", "==", eventId), limit(1)))
+  if (!snapshot.empty) return snapshot.docs[0].id
+
+  // Events created before judge codes moved out of the public event document
+  const event = await getHackathonEvent(eventId)
+  if (!event?.judge_code) return null
+  try {
+    await setDoc(doc(db, "judge_codes", event.judge_code), { code: event.judge_code, event_id: eventId })
+    await updateDoc(doc(db, "hackathon_events", eventId), { judge_code: deleteField() })
+  } catch (error) {
+    console.error("Error migrating judge code:", error)
+  }
+  return event.judge_code
+}
+
+async function updateHackathonEvent(eventId: string, updates: Partial<HackathonEvent>): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "hackathon_events", eventId), withoutUndefined(updates))
+}
+
+async function getHackathonEvent(eventId: string): Promise<HackathonEvent | null> {
+  try {
+    const db = getDb()
+    const eventDoc = await withTimeout(getDoc(doc(db, "hackathon_events", eventId)), 3000, null as any)
+    if (!eventDoc || !eventDoc.exists?.()) return null
+    return toHackathonEvent(eventDoc.data())
+  } catch (error) {
+    console.error("Error getting hackathon event:", error)
+    return null
+  }
+}
+
+function subscribeToHackathonEvents(callback: (events: HackathonEvent[]) => void) {
+  try {
+    const db = getDb()
+    return onSnapshot(
+      collection(db, "hackathon_events"),
+      (snapshot) => {
+        const events = snapshot.docs.map((d) => toHackathonEvent(d.data()))
+        callback(events.sort((a, b) => a.start_date.getTime() - b.start_date.getTime()))
+      },
+      (error) => {
+        console.error("Error subscribing to hackathon events:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+function subscribeToHackathonEvent(eventId: string, callback: (event: HackathonEvent | null) => void) {
+  try {
+    const db = getDb()
+    return onSnapshot(
+      doc(db, "hackathon_events", eventId),
+      (snapshot) => callback(snapshot.exists() ? toHackathonEvent(snapshot.data()) : null),
+      (error) => {
+        console.error("Error subscribing to hackathon event:", error)
+        callback(null)
+      },
+    )
+  } catch {
+    callback(null)
+    return () => {}
+  }
+}
+
+function subscribeToEventProjects(eventId: string, callback: (projects: Project[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "projects"), where("hackathon_event", "==", eventId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const projects = snapshot.docs.map((d) => toProject(d.data())).filter((p) => !p.deleted_at)
+        callback(projects.sort((a, b) => a.name.localeCompare(b.name)))
+      },
+      (error) => {
+        console.error("Error subscribing to event projects:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+async function registerProjectForEvent(projectId: string, eventId: string): Promise<void> {
+  const db = getDb()
+  const [project, event] = await Promise.all([getProject(projectId), getHackathonEvent(eventId)])
+  if (!project) throw new Error("Project not found")
+  if (!event) throw new Error("Event not found")
+  assertCanRegister(event, project)
+  await updateDoc(doc(db, "projects", projectId), { hackathon_event: eventId })
+}
+
+async function unregisterProjectFromEvent(projectId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "projects", projectId), { hackathon_event: null })
+}
+
+// Judging
+async function joinEventAsJudge(judgeCode: string, userId: string): Promise<string | null> {
+  const db = getDb()
+  const codeDoc = await withTimeout(getDoc(doc(db, "judge_codes", judgeCode)), 5000, null as any)
+  if (!codeDoc || !codeDoc.exists?.()) return null
+  const eventId: string = codeDoc.data().event_id
+  const event = await getHackathonEvent(eventId)
+  if (event?.judges?.includes(userId)) return eventId
+
+  // The rules only let the caller into judges alongside a join record naming a valid code
+  const batch = writeBatch(db)
+  batch.set(doc(db, "judge_joins", `${eventId}_${userId}`), { event_id: eventId, judge_id: userId, code: judgeCode })
+  batch.update(doc(db, "hackathon_events", eventId), { judges: arrayUnion(userId) })
+  await batch.commit()
+  return eventId
+}
+
+async function saveJudgeScore(score: Omit<JudgeScore, "score_id" | "updated_at">): Promise<void> {
+  const db = getDb()
+  const id = scoreId(score.event_id, score.project_id, score.judge_id)
+  await setDoc(doc(db, "judge_scores", id), {
+    ...withoutUndefined(score),
+    score_id: id,
+    updated_at: serverTimestamp(),
+  })
+}
+
+function subscribeToEventScores(eventId: string, callback: (scores: JudgeScore[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_scores"), where("event_id", "==", eventId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((d) => {
+            const data = d.data()
+            return { ...data, updated_at: data.updated_at?.toDate?.() || new Date() } as JudgeScore
+          }),
+        )
+      },
+      (error) => {
+        console.error("Error subscribing to judge scores:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Tasks
+async function createTask(task: Omit<Task, "task_id" | "last_updated">): Promise<string> {
+  const db = getDb()
+  const taskRef = doc(collection(db, "tasks"))
+  
+  // Filter out undefined values to avoid Firestore errors
+  const cleanTask = Object.fromEntries(
+    Object.entries({
+      ...task,
+      task_id: taskRef.id,
+      last_updated: serverTimestamp(),
+    }).filter(([_, value]) => value !== undefined)
+  )
+  
+  await setDoc(taskRef, cleanTask)
+  return taskRef.id
+}
+
+async function addTask(task: Omit<Task, "task_id" | "last_updated">): Promise<Task | null> {
+  try {
+    const db = getDb()
+    const taskRef = doc(collection(db, "tasks"))
+    
+    // Create the task data without undefined fields
+    const taskData = {
+      ...task,
+      task_id: taskRef.id,
+      last_updated: serverTimestamp(),
+      created_at: serverTimestamp(),
+      priority: task.priority || "Medium",
+      time_spent: 0,
+      dependencies: task.dependencies || [],
+      tags: [],
+    }
+    
+    // Only add due_date if it's defined
+    if (task.due_date !== undefined) {
+      taskData.due_date = task.due_date
+    }
+    
+    await setDoc(taskRef, taskData)
+    
+    // Return the task with client-side dates for immediate UI update
+    const newTask = {
+      ...task,
+      task_id: taskRef.id,
+      last_updated: new Date(),
+      created_at: new Date(),
+      priority: task.priority || "Medium",
+      time_spent: 0,
+      dependencies: task.dependencies || [],
+      tags: [],
+    }
+    
+    return newTask as Task
+  } catch (error) {
+    console.error("Error adding task:", error)
+    return null
+  }
+}
+
+async function createTasks(tasks: Omit<Task, "task_id" | "last_updated">[]): Promise<void> {
+  const db = getDb()
+  const batch = writeBatch(db)
+
+  for (const task of tasks) {
+    const taskRef = doc(collection(db, "tasks"))
+    
+    // Filter out undefined values to avoid Firestore errors
+    const cleanTask = Object.fromEntries(
+      Object.entries({
+        ...task,
+        task_id: taskRef.id,
+        last_updated: serverTimestamp(),
+      }).filter(([_, value]) => value !== undefined)
+    )
+    
+    batch.set(taskRef, cleanTask)
+  }
+
+  await batch.commit()
+}
+
+async function updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+  const db = getDb()
+  
+  // Filter out undefined values to avoid Firestore errors
+  const cleanUpdates = Object.fromEntries(
+    Object.entries({
+      ...updates,
+      last_updated: serverTimestamp(),
+    }).filter(([_, value]) => value !== undefined)
+  )
+  
+  await updateDoc(doc(db, "tasks", taskId), cleanUpdates)
+}
+
+// Also unlinks the task from anything it was blocking so no dependency points at a missing task
+async function deleteTask(taskId: string): Promise<void> {
+  const db = getDb()
+  const taskRef = doc(db, "tasks", taskId)
+  const taskDoc = await getDoc(taskRef)
+  const batch = writeBatch(db)
+
+  if (taskDoc.exists()) {
+    const siblings = await getDocs(query(collection(db, "tasks"), where("project_id", "==", taskDoc.data().project_id)))
+    siblings.docs
+      .filter((d) => (d.data().dependencies || []).includes(taskId))
+      .forEach((d) => batch.update(d.ref, { dependencies: arrayRemove(taskId) }))
+  }
+
+  batch.delete(taskRef)
+  await batch.commit()
+}
+
+function subscribeToTasks(projectId: string, callback: (tasks: Task[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "tasks"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const tasks = snapshot.docs.map((doc) => {
+          const data = doc.data()
+          return {
+            ...data,
+            last_updated: data.last_updated?.toDate?.() || new Date(),
+          } as Task
+        })
+        tasks.sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime())
+        callback(tasks)
+      },
+      (error) => {
+        console.error("Error subscribing to tasks:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Chat Messages
+const SEARCH_RESULT_LIMIT = 50
+
+function toChatMessage(data: DocumentData): ChatMessage {
+  const { search_tokens, ...message } = data
+  return {
+    ...message,
+    timestamp: data.timestamp?.toDate?.() || new Date(),
+    edited_at: data.edited_at?.toDate?.(),
+    deleted_at: data.deleted_at?.toDate?.(),
+  } as ChatMessage
+}
+
+async function sendMessage(message: Omit<ChatMessage, "message_id" | "timestamp">): Promise<string> {
+  const db = getDb()
+  const msgRef = doc(collection(db, "messages"))
+  await setDoc(msgRef, {
+    ...withoutUndefined(message),
+    message_id: msgRef.id,
+    timestamp: serverTimestamp(),
+    search_tokens: searchTokens(message.content),
+  })
+  return msgRef.id
+}
+
+// Newest first on the server (message_id breaks timestamp ties), handed back oldest first
+function messagesQuery(projectId: string, count: number, before?: Pick<ChatMessage, "timestamp" | "message_id">) {
+  const constraints = [
+    where("project_id", "==", projectId),
+    orderBy("timestamp", "desc"),
+    orderBy("message_id", "desc"),
+    ...(before ? [startAfter(Timestamp.fromDate(new Date(before.timestamp)), before.message_id)] : []),
+    limit(count),
+  ]
+  return query(collection(getDb(), "messages"), ...constraints)
+}
+
+function subscribeToMessages(projectId: string, count: number, callback: (messages: ChatMessage[]) => void) {
+  try {
+    // Pending writes report an estimated timestamp, so a message just sent stays in place
+    return onSnapshot(
+      messagesQuery(projectId, count),
+      (snapshot) => {
+        callback(snapshot.docs.map((d) => toChatMessage(d.data({ serverTimestamps: "estimate" }))).reverse())
+      },
+      (error) => {
+        console.error("Error subscribing to messages:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Project Members
+async function getProjectMembers(memberIds: string[]): Promise<ProjectMember[]> {
+  try {
+    const db = getDb()
+    const members: ProjectMember[] = []
+    for (const id of memberIds) {
+      try {
+        const userDoc = await getDoc(doc(db, "users", id))
+        if (userDoc.exists()) {
+          members.push(userDoc.data() as ProjectMember)
+        }
+      } catch (e) {
+        console.error("Error getting member:", e)
+      }
+    }
+    return members
+  } catch {
+    return []
+  }
+}
+
+async function getUserRole(projectId: string, userId: string): Promise<ProjectRole> {
+  try {
+    const db = getDb()
+    const roleDoc = await getDoc(doc(db, "project_roles", `${projectId}_${userId}`))
+    if (roleDoc.exists()) {
+      return roleDoc.data().role
+    }
+  } catch (e) {
+    console.error("Error getting user role:", e)
+  }
+  return "viewer"
+}
+
+async function setUserRole(projectId: string, userId: string, role: ProjectRole): Promise<void> {
+  const db = getDb()
+  await setDoc(doc(db, "project_roles", `${projectId}_${userId}`), {
+    project_id: projectId,
+    user_id: userId,
+    role,
+  })
+}
+
+function subscribeToProjectRoles(projectId: string, callback: (roles: Record<string, ProjectRole>) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "project_roles"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const roles: Record<string, ProjectRole> = {}
+        snapshot.docs.forEach((doc) => {
+          const data = doc.data()
+          roles[data.user_id] = data.role
+        })
+        callback(roles)
+      },
+      (error) => {
+        console.error("Error subscribing to project roles:", error)
+        callback({})
+      },
+    )
+  } catch {
+    callback({})
+    return () => {}
+  }
+}
+
+async function getUserProfile(userId: string): Promise<ProjectMember | null> {
+  const db = getDb()
+  const profileDoc = await getDoc(doc(db, "users", userId))
+  return profileDoc.exists() ? (profileDoc.data() as ProjectMember) : null
+}
+
+async function saveUserProfile(profile: ProjectMember): Promise<void> {
+  const db = getDb()
+  await setDoc(doc(db, "users", profile.user_id), {
+    ...withoutUndefined(profile),
+    created_at: serverTimestamp(),
+  })
+}
+
+async function mergeUserProfile(userId: string, updates: Partial<ProjectMember>): Promise<void> {
+  const db = getDb()
+  await setDoc(doc(db, "users", userId), withoutUndefined(updates), { merge: true })
+}
+
+function subscribeToProjectMembers(memberIds: string[], callback: (members: ProjectMember[]) => void) {
+  try {
+    const db = getDb()
+    const unsubscribes: (() => void)[] = []
+    const membersMap = new Map<string, ProjectMember>()
+
+    memberIds.forEach((id) => {
+      const unsub = onSnapshot(
+        doc(db, "users", id),
+        (doc) => {
+          if (doc.exists()) {
+            membersMap.set(id, doc.data() as ProjectMember)
+            callback(Array.from(membersMap.values()))
+          }
+        },
+        (error) => {
+          console.error("Error subscribing to member:", error)
+        },
+      )
+      unsubscribes.push(unsub)
+    })
+
+    return () => unsubscribes.forEach((unsub) => unsub())
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Milestones
+async function createMilestone(milestone: Omit<Milestone, "milestone_id" | "created_at">): Promise<string> {
+  const db = getDb()
+  const milestoneRef = doc(collection(db, "milestones"))
+  await setDoc(milestoneRef, {
+    ...milestone,
+    milestone_id: milestoneRef.id,
+    created_at: serverTimestamp(),
+  })
+  return milestoneRef.id
+}
+
+async function updateMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "milestones", milestoneId), updates)
+}
+
+// Every open client syncs derived milestones, so only the write that flips the stored status reports it
+async function syncMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<boolean> {
+  const db = getDb()
+  const milestoneRef = doc(db, "milestones", milestoneId)
+  return runTransaction(db, async (transaction) => {
+    const milestoneDoc = await transaction.get(milestoneRef)
+    if (!milestoneDoc.exists()) return false
+    transaction.update(milestoneRef, updates)
+    return updates.status === "completed" && milestoneDoc.data().status !== "completed"
+  })
+}
+
+// Linked tasks stay on the board, they just lose their milestone
+async function deleteMilestone(milestoneId: string): Promise<void> {
+  const db = getDb()
+  const milestoneRef = doc(db, "milestones", milestoneId)
+  const milestoneDoc = await getDoc(milestoneRef)
+  const batch = writeBatch(db)
+
+  if (milestoneDoc.exists()) {
+    const tasks = await getDocs(query(collection(db, "tasks"), where("project_id", "==", milestoneDoc.data().project_id)))
+    tasks.docs
+      .filter((d) => d.data().milestone_id === milestoneId)
+      .forEach((d) => batch.update(d.ref, { milestone_id: null }))
+  }
+
+  batch.delete(milestoneRef)
+  await batch.commit()
+}
+
+function subscribeToMilestones(projectId: string, callback: (milestones: Milestone[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "milestones"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const milestones = snapshot.docs.map((doc) => {
+          const data = doc.data()
+          return {
+            ...data,
+            deadline: data.deadline?.toDate?.() || new Date(),
+            created_at: data.created_at?.toDate?.() || new Date(),
+          } as Milestone
+        })
+        milestones.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
+        callback(milestones)
+      },
+      (error) => {
+        console.error("Error subscribing to milestones:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Schedule Events
+async function createScheduleEvent(event: Omit<ScheduleEvent, "event_id" | "created_at">): Promise<string> {
+  const db = getDb()
+  const eventRef = doc(collection(db, "schedule_events"))
+  await setDoc(eventRef, {
+    ...withoutUndefined(event),
+    event_id: eventRef.id,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    created_at: serverTimestamp(),
+  })
+  return eventRef.id
+}
+
+async function updateScheduleEvent(eventId: string, updates: Partial<ScheduleEvent>): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "schedule_events", eventId), withoutUndefined(updates))
+}
+
+async function deleteScheduleEvent(eventId: string): Promise<void> {
+  const db = getDb()
+  await deleteDoc(doc(db, "schedule_events", eventId))
+}
+
+function subscribeToScheduleEvents(projectId: string, userId: string, callback: (events: ScheduleEvent[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(
+      collection(db, "schedule_events"), 
+      where("project_id", "==", projectId),
+      where("user_id", "==", userId)
+    )
+    return watchScheduleEvents(q, callback)
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+function subscribeToTeamSchedule(projectId: string, callback: (events: ScheduleEvent[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "schedule_events"), where("project_id", "==", projectId))
+    return watchScheduleEvents(q, callback)
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+function watchScheduleEvents(q: Query, callback: (events: ScheduleEvent[]) => void) {
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const events = snapshot.docs.map((doc) => {
+        const data = doc.data()
+        return {
+          ...data,
+          start_time: data.start_time?.toDate?.() || new Date(),
+          end_time: data.end_time?.toDate?.() || new Date(),
+          created_at: data.created_at?.toDate?.() || new Date(),
+        } as ScheduleEvent
+      })
+      events.sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+      callback(events)
+    },
+    (error) => {
+      console.error("Error subscribing to schedule events:", error)
+      callback([])
+    },
+  )
+}
+
+// Re-reads the message so a teammate resolving another call at the same time isn't overwritten
+async function resolveMessageToolCall(
+  messageId: string,
+  resolved: MentorToolCall,
+  from: MentorToolCall["status"],
+): Promise<boolean> {
+  const db = getDb()
+  const messageRef = doc(db, "messages", messageId)
+  return runTransaction(db, async (transaction) => {
+    const messageDoc = await transaction.get(messageRef)
+    const toolCalls: MentorToolCall[] = messageDoc.exists() ? (messageDoc.data().tool_calls ?? []) : []
+    const current = toolCalls.find((c) => c.call_id === resolved.call_id)
+    if (current?.status !== from) return false
+    transaction.update(messageRef, {
+      tool_calls: toolCalls.map((c) => withoutUndefined(c.call_id === resolved.call_id ? resolved : c)),
+    })
+    return true
+  })
+}
+
+async function getMessagesBefore(
+  projectId: string,
+  before: Pick<ChatMessage, "timestamp" | "message_id">,
+  count: number,
+): Promise<ChatMessage[]> {
+  const snapshot = await getDocs(messagesQuery(projectId, count, before))
+  return snapshot.docs.map((d) => toChatMessage(d.data())).reverse()
+}
+
+async function editMessage(messageId: string, content: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "messages", messageId), {
+    content,
+    edited_at: serverTimestamp(),
+    search_tokens: searchTokens(content),
+  })
+}
+
+async function deleteMessage(messageId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "messages", messageId), { content: "", deleted_at: serverTimestamp(), search_tokens: [] })
+}
+
+// Projects this session has already checked, so each search doesn't re-read the flag
+const searchBackfills = new Map<string, Promise<void>>()
+
+/**
+ * Messages and notes written before search existed have no `search_tokens`, and Firestore
+ * can't query for a missing field, so the first search in a project reads its history and
+ * fills them in, then marks the project so no later session reads it again. A failed note
+ * write only leaves those notes unsearchable.
+ */
+async function backfillSearchTokens(projectId: string): Promise<void> {
+  const db = getDb()
+  const projectRef = doc(db, "projects", projectId)
+  if ((await getDoc(projectRef)).data()?.search_backfilled) return
+
+  const [messages, notes] = await Promise.all([
+    getDocs(query(collection(db, "messages"), where("project_id", "==", projectId))),
+    getDocs(query(collection(db, "shared_resources"), where("project_id", "==", projectId), where("type", "==", "note"))),
+  ])
+  const writeTokens = async (updates: { ref: DocumentReference; search_tokens: string[] }[]) => {
+    for (let i = 0; i < updates.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db)
+      updates.slice(i, i + BATCH_LIMIT).forEach(({ ref, search_tokens }) => batch.update(ref, { search_tokens }))
+      await batch.commit()
+    }
+  }
+
+  await writeTokens(
+    messages.docs
+      .filter((d) => !d.data().search_tokens && !d.data().deleted_at)
+      .map((d) => ({ ref: d.ref, search_tokens: searchTokens(d.data().content ?? "") })),
+  )
+  // Kept apart: past the deadline only admins may touch notes, and that shouldn't cost the messages
+  await writeTokens(
+    notes.docs
+      .filter((d) => !d.data().search_tokens)
+      .map((d) => ({ ref: d.ref, search_tokens: noteSearchTokens(d.data() as SharedResource) })),
+  ).catch((error) => console.error("Error backfilling note search tokens:", error))
+  await updateDoc(projectRef, { search_backfilled: true })
+}
+
+/**
+ * One indexed word narrows each collection server-side, together with the sender,
+ * author type and date filters; the remaining words are matched here.
+ */
+async function searchHistory(projectId: string, search: HistorySearchQuery): Promise<HistorySearchHit[]> {
+  const token = primarySearchToken(search.text)
+  if (!token) return []
+  const db = getDb()
+
+  if (!searchBackfills.has(projectId)) {
+    searchBackfills.set(
+      projectId,
+      backfillSearchTokens(projectId).catch((error) => console.error("Error backfilling search tokens:", error)),
+    )
+  }
+  await searchBackfills.get(projectId)
+  const dateRange = (field: string) => [
+    ...(search.from ? [where(field, ">=", Timestamp.fromDate(search.from))] : []),
+    ...(search.to ? [where(field, "<=", Timestamp.fromDate(search.to))] : []),
+  ]
+
+  const messageQuery = query(
+    collection(db, "messages"),
+    where("project_id", "==", projectId),
+    where("search_tokens", "array-contains", token),
+    ...(search.sender ? [where("sender", "==", search.sender)] : []),
+    ...(search.author_type && !search.sender ? [where("sender_type", "==", search.author_type)] : []),
+    ...dateRange("timestamp"),
+    orderBy("timestamp", "desc"),
+    limit(SEARCH_RESULT_LIMIT),
+  )
+  const noteQuery = query(
+    collection(db, "shared_resources"),
+    where("project_id", "==", projectId),
+    where("type", "==", "note"),
+    where("search_tokens", "array-contains", token),
+    ...(search.sender ? [where("uploaded_by", "==", search.sender)] : []),
+    ...dateRange("created_at"),
+    orderBy("created_at", "desc"),
+    limit(SEARCH_RESULT_LIMIT),
+  )
+
+  const [messages, notes] = await Promise.all([
+    getDocs(messageQuery),
+    search.include_notes ? getDocs(noteQuery) : Promise.resolve(null),
+  ])
+
+  const hits: (HistorySearchHit & { at: number })[] = messages.docs
+    .map((d) => toChatMessage(d.data()))
+    .filter((m) => matchesSearch(m.content, search.text))
+    .map((message) => ({ kind: "message", message, at: message.timestamp.getTime() }))
+  for (const d of notes?.docs ?? []) {
+    const { search_tokens, ...data } = d.data()
+    const resource = { ...data, created_at: data.created_at?.toDate?.() || new Date() } as SharedResource
+    // Notes the mentor posted count as AI-written
+    const isAI = resource.tags?.includes("ai-mentor")
+    if (search.author_type && (search.author_type === "ai") !== isAI) continue
+    if (!matchesSearch(`${resource.name} ${resource.content ?? ""}`, search.text)) continue
+    hits.push({ kind: "note", resource, at: resource.created_at.getTime() })
+  }
+  return hits
+    .sort((a, b) => b.at - a.at)
+    .slice(0, SEARCH_RESULT_LIMIT)
+    .map(({ at, ...hit }) => hit as HistorySearchHit)
+}
+
+async function setMessageReaction(messageId: string, emoji: string, userId: string, reacted: boolean): Promise<void> {
+  const db = getDb()
+  // A FieldPath, so the emoji is never parsed as part of a dotted path
+  await updateDoc(doc(db, "messages", messageId), new FieldPath("reactions", emoji), reacted ? arrayUnion(userId) : arrayRemove(userId))
+}
+
+// Mentor memory, one document per project
+async function getMentorMemory(projectId: string): Promise<MentorMemory | null> {
+  try {
+    const db = getDb()
+    const memoryDoc = await getDoc(doc(db, "mentor_memory", projectId))
+    if (!memoryDoc.exists()) return null
+    const data = memoryDoc.data()
+    return {
+      ...data,
+      summarized_until: data.summarized_until?.toDate?.() || new Date(0),
+      updated_at: data.updated_at?.toDate?.() || new Date(),
+    } as MentorMemory
+  } catch (error) {
+    console.error("Error getting mentor memory:", error)
+    return null
+  }
+}
+
+async function saveMentorMemory(memory: Omit<MentorMemory, "updated_at">): Promise<void> {
+  const db = getDb()
+  await setDoc(doc(db, "mentor_memory", memory.project_id), {
+    ...memory,
+    summarized_until: new Date(memory.summarized_until),
+    updated_at: serverTimestamp(),
+  })
+}
+
+// AI usage; records are created by /api/gemini through the REST API
+function subscribeToAIUsage(projectId: string, since: Date, callback: (records: AIUsageRecord[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(
+      collection(db, "ai_usage"),
+      where("project_id", "==", projectId),
+      where("created_at", ">=", Timestamp.fromDate(since)),
+      orderBy("created_at", "desc"),
+    )
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((d) => {
+            const data = d.data()
+            return { ...data, usage_id: d.id, created_at: data.created_at?.toDate?.() || new Date() } as AIUsageRecord
+          }),
+        )
+      },
+      (error) => {
+        console.error("Error subscribing to AI usage:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Wellness Settings
+async function saveWellnessSettings(settings: Omit<WellnessSettings, "created_at">): Promise<void> {
+  const db = getDb()
+  const settingsRef = doc(db, "wellness_settings", `${settings.project_id}_${settings.user_id}`)
+  await setDoc(settingsRef, {
+    ...settings,
+    created_at: serverTimestamp(),
+  })
+}
+
+async function getWellnessSettings(projectId: string, userId: string): Promise<WellnessSettings | null> {
+  try {
+    const db = getDb()
+    const settingsDoc = await getDoc(doc(db, "wellness_settings", `${projectId}_${userId}`))
+    if (!settingsDoc.exists()) return null
+    const data = settingsDoc.data()
+    return {
+      ...data,
+      created_at: data.created_at?.toDate?.() || new Date(),
+    } as WellnessSettings
+  } catch (error) {
+    console.error("Error getting wellness settings:", error)
+    return null
+  }
+}
+
+function subscribeToTeamWellness(projectId: string, callback: (settings: WellnessSettings[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "wellness_settings"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(snapshot.docs.map((doc) => ({
+          ...doc.data(),
+          created_at: doc.data().created_at?.toDate?.() || new Date(),
+        } as WellnessSettings)))
+      },
+      (error) => {
+        console.error("Error subscribing to wellness settings:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Presence: one document per member and project, with an entry per open tab
+function presenceRef(projectId: string, userId: string) {
+  return doc(getDb(), "presence", `${projectId}_${userId}`)
+}
+
+async function updatePresence(
+  projectId: string,
+  userId: string,
+  sessionId: string,
+  session: Omit<PresenceSession, "last_seen">,
+): Promise<void> {
+  // merge keeps the member's other tabs
+  await setDoc(
+    presenceRef(projectId, userId),
+    {
+      project_id: projectId,
+      user_id: userId,
+      last_seen: serverTimestamp(),
+      sessions: { [sessionId]: { ...withoutUndefined(session), last_seen: serverTimestamp() } },
+    },
+    { merge: true },
+  )
+}
+
+async function endPresenceSession(projectId: string, userId: string, sessionId: string): Promise<void> {
+  await updateDoc(presenceRef(projectId, userId), {
+    [`sessions.${sessionId}`]: deleteField(),
+    last_seen: serverTimestamp(),
+  })
+}
+
+function toMemberPresence(data: DocumentData): MemberPresence {
+  const sessions = Object.entries(data.sessions ?? {}).map(([id, session]: [string, any]) => [
+    id,
+    { ...session, last_seen: session.last_seen?.toDate?.() || new Date(0) },
+  ])
+  return {
+    ...data,
+    last_seen: data.last_seen?.toDate?.() || new Date(0),
+    sessions: Object.fromEntries(sessions),
+  } as MemberPresence
+}
+
+function subscribeToPresence(projectId: string, callback: (presence: MemberPresence[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "presence"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        // Our own heartbeat shows up before the server has stamped it
+        callback(snapshot.docs.map((doc) => toMemberPresence(doc.data({ serverTimestamps: "estimate" }))))
+      },
+      (error) => {
+        console.error("Error subscribing to presence:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Helper function to create default milestones for a project
+async function createDefaultMilestones(projectId: string, start: Date, end: Date): Promise<void> {
+  const db = getDb()
+  const batch = writeBatch(db)
+  const milestones = defaultMilestonePlan(start, end)
+
+  for (const milestone of milestones) {
+    const milestoneRef = doc(collection(db, "milestones"))
+    batch.set(milestoneRef, {
+      ...milestone,
+      milestone_id: milestoneRef.id,
+      project_id: projectId,
+      status: "upcoming",
+      created_at: serverTimestamp(),
+    })
+  }
+
+  await batch.commit()
+}
+
+// Shared Resources
+// Notes are searchable alongside chat history
+function noteSearchTokens(note: Pick<SharedResource, "name" | "content">): string[] {
+  return searchTokens(`${note.name} ${note.content ?? ""}`)
+}
+
+async function uploadResource(resource: Omit<SharedResource, "resource_id" | "created_at">): Promise<string> {
+  const db = getDb()
+  const resourceRef = doc(collection(db, "shared_resources"))
+  
+  // Filter out undefined values to avoid Firestore errors
+  const cleanResource = Object.fromEntries(
+    Object.entries({
+      ...resource,
+      resource_id: resourceRef.id,
+      created_at: serverTimestamp(),
+      search_tokens: resource.type === "note" ? noteSearchTokens(resource) : undefined,
+    }).filter(([_, value]) => value !== undefined)
+  )
+  
+  await setDoc(resourceRef, cleanResource)
+  return resourceRef.id
+}
+
+async function getProjectResources(projectId: string): Promise<SharedResource[]> {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "shared_resources"), where("project_id", "==", projectId))
+    const snapshot = await getDocs(q)
+    return snapshot.docs.map(doc => ({
+      ...doc.data(),
+      created_at: doc.data().created_at?.toDate?.() || new Date(),
+    } as SharedResource))
+  } catch (error) {
+    console.error("Error getting resources:", error)
+    return []
+  }
+}
+
+function subscribeToResources(projectId: string, callback: (resources: SharedResource[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "shared_resources"), where("project_id", "==", projectId))
+    return onSnapshot(q, (snapshot) => {
+      const resources = snapshot.docs.map(doc => ({
+        ...doc.data(),
+        created_at: doc.data().created_at?.toDate?.() || new Date(),
+      } as SharedResource))
+      callback(resources)
+    })
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Live Activity Feed
+async function addActivity(activity: Omit<LiveActivity, "activity_id" | "timestamp">): Promise<void> {
+  const db = getDb()
+  const activityRef = doc(collection(db, "live_activities"))
+  
+  // Filter out undefined values
+  const cleanActivity = Object.fromEntries(
+    Object.entries({
+      ...activity,
+      activity_id: activityRef.id,
+      timestamp: serverTimestamp(),
+    }).filter(([_, value]) => value !== undefined)
+  )
+  
+  await setDoc(activityRef, cleanActivity)
+}
+
+function subscribeToActivities(projectId: string, callback: (activities: LiveActivity[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(
+      collection(db, "live_activities"),
+      where("project_id", "==", projectId),
+      orderBy("timestamp", "desc"),
+      limit(50), // Limit to 50 recent activities
+    )
+    return onSnapshot(q, (snapshot) => {
+      const activities = snapshot.docs.map(doc => ({
+        ...doc.data({ serverTimestamps: "estimate" }),
+        timestamp: doc.data({ serverTimestamps: "estimate" }).timestamp?.toDate?.() || new Date(),
+      } as LiveActivity))
+      callback(activities)
+    })
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Team Notifications
+async function createNotification(notification: Omit<TeamNotification, "notification_id" | "created_at">): Promise<void> {
+  const db = getDb()
+  const notificationRef = doc(collection(db, "team_notifications"))
+  
+  // Filter out undefined values
+  const cleanNotification = Object.fromEntries(
+    Object.entries({
+      ...notification,
+      notification_id: notificationRef.id,
+      created_at: serverTimestamp(),
+    }).filter(([_, value]) => value !== undefined)
+  )
+  
+  await setDoc(notificationRef, cleanNotification)
+}
+
+function subscribeToNotifications(projectId: string, userId: string, callback: (notifications: TeamNotification[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(
+      collection(db, "team_notifications"), 
+      where("project_id", "==", projectId),
+      where("user_id", "==", userId)
+    )
+    return onSnapshot(q, (snapshot) => {
+      const notifications = snapshot.docs.map(doc => ({
+        ...doc.data(),
+        created_at: doc.data().created_at?.toDate?.() || new Date(),
+      } as TeamNotification))
+      notifications.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      callback(notifications)
+    })
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+async function markNotificationRead(notificationId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "team_notifications", notificationId), { read: true })
+}
+
+async function updateResource(
+  resourceId: string,
+  updates: Partial<Pick<SharedResource, "name" | "content" | "tags">>,
+): Promise<void> {
+  const db = getDb()
+  const ref = doc(db, "shared_resources", resourceId)
+  const current = (await getDoc(ref)).data() as SharedResource | undefined
+  const searchable = current?.type === "note" && (updates.name !== undefined || updates.content !== undefined)
+  await updateDoc(
+    ref,
+    withoutUndefined({
+      ...updates,
+      search_tokens: searchable ? noteSearchTokens({ ...current, ...updates }) : undefined,
+    }),
+  )
+}
+
+async function deleteResource(resourceId: string): Promise<void> {
+  const db = getDb()
+  await deleteDoc(doc(db, "shared_resources", resourceId))
+}
+
+async function removeMemberFromProject(projectId: string, userId: string): Promise<void> {
+  const db = getDb()
+  const batch = writeBatch(db)
+
+  // Remove user from project members array
+  const projectRef = doc(db, "projects", projectId)
+  const projectDoc = await getDoc(projectRef)
+  
+  if (projectDoc.exists()) {
+    const currentMembers = projectDoc.data().members || []
+    const updatedMembers = currentMembers.filter((memberId: string) => memberId !== userId)
+    
+    batch.update(projectRef, { members: updatedMembers })
+  }
+
+  // Remove user's project role
+  const roleRef = doc(db, "project_roles", `${projectId}_${userId}`)
+  batch.delete(roleRef)
+
+  await batch.commit()
+}
+
+export const firestoreStore: HackmateStore = {
+  createProject,
+  getProject,
+  getUserProjects,
+  getTrashedProjects,
+  joinProjectByCode,
+  getJoinCode,
+  updateProjectIdea,
+  updateDemoMode,
+  updateProjectUrls,
+  updateSubmissionDeadline,
+  updateProjectStatus,
+  updateSubmissionChecklist,
+  trashProject,
+  restoreProject,
+  deleteProject,
+  subscribeToProject,
+  createSubmission,
+  subscribeToSubmissions,
+  createHackathonEvent,
+  updateHackathonEvent,
+  getJudgeCode,
+  getHackathonEvent,
+  subscribeToHackathonEvents,
+  subscribeToHackathonEvent,
+  subscribeToEventProjects,
+  registerProjectForEvent,
+  unregisterProjectFromEvent,
+  joinEventAsJudge,
+  saveJudgeScore,
+  subscribeToEventScores,
+  createTask,
+  addTask,
+  createTasks,
+  updateTask,
+  deleteTask,
+  subscribeToTasks,
+  sendMessage,
+  subscribeToMessages,
+  resolveMessageToolCall,
+  getMessagesBefore,
+  editMessage,
+  deleteMessage,
+  setMessageReaction,
+  searchHistory,
+  getMentorMemory,
+  saveMentorMemory,
+  subscribeToAIUsage,
+  getProjectMembers,
+  getUserRole,
+  setUserRole,
+  subscribeToProjectRoles,
+  subscribeToProjectMembers,
+  removeMemberFromProject,
+  getUserProfile,
+  saveUserProfile,
+  mergeUserProfile,
+  createMilestone,
+  updateMilestone,
+  syncMilestone,
+  deleteMilestone,
+  subscribeToMilestones,
+  createDefaultMilestones,
+  createScheduleEvent,
+  updateScheduleEvent,
+  deleteScheduleEvent,
+  subscribeToScheduleEvents,
+  subscribeToTeamSchedule,
+  saveWellnessSettings,
+  getWellnessSettings,
+  subscribeToTeamWellness,
+  updatePresence,
+  endPresenceSession,
+  subscribeToPresence,
+  uploadResource,
+  getProjectResources,
+  subscribeToResources,
+  updateResource,
+  deleteResource,
+  addActivity,
+  subscribeToActivities,
+  createNotification,
+  subscribeToNotifications,
+  markNotificationRead,
+}
@@ -0,0 +1,39 @@
+import type { HackmateStore } from "./types"
+import { firestoreStore } from "./firestore-store"
+import { createMemoryStore } from "./memory-store"
+
+export type { HackmateStore, Unsubscribe, NewTask, ProjectUrls } from "./types"
+export { createMemoryStore } from "./memory-store"
+
+export type StoreBackend = "firestore" | "memory" | "local"
+
+const LOCAL_STORE_KEY = "hackmate-store"
+
+/**
+ * Backend selected by NEXT_PUBLIC_HACKMATE_STORE:
+ * - "firestore" (default): the live Firebase project
+ * - "memory": in-process only, reset on every reload
+ * - "local": in-memory mirrored to localStorage, for offline demos
+ */
+export function getStoreBackend(): StoreBackend {
+  const backend = process.env.NEXT_PUBLIC_HACKMATE_STORE
+  return backend === "memory" || backend === "local" ? backend : "firestore"
+}
+
+let activeStore: HackmateStore | null = null
+
+export function getStore(): HackmateStore {
+  if (!activeStore) {
+    const backend = getStoreBackend()
+    activeStore =
+      backend === "firestore"
+        ? firestoreStore
+        : createMemoryStore({ persistKey: backend === "local" ? LOCAL_STORE_KEY : undefined })
+  }
+  return activeStore
+}
+
+// Swap the active backend, e.g. to inject a seeded memory store in tests
+export function setStore(store: HackmateStore | null): void {
+  activeStore = store
+}
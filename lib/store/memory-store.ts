@@ -0,0 +1,810 @@
+import type {
+  Project,
+  ProjectRole,
+  HackathonEvent,
+  JudgeScore,
+  ProjectSubmission,
+  Task,
+  ChatMessage,
+  ProjectMember,
+  SharedResource,
+  LiveActivity,
+  TeamNotification,
+  Milestone,
+  ScheduleEvent,
+  WellnessSettings,
+  MemberPresence,
+  MentorMemory,
+  MentorToolCall,
+  AIUsageRecord,
+  HistorySearchHit,
+} from "../types"
+import type { HackmateStore, NewTask, Unsubscribe } from "./types"
+import { assertCanRegister, teamSizeError } from "../events"
+import { scoreId } from "../judging"
+import { PROJECT_COLLECTIONS, defaultMilestonePlan, durationEnd, generateJoinCode, withoutUndefined } from "./shared"
+import { matchesSearch } from "../search"
+
+type Doc = Record<string, any>
+
+interface MemoryStoreOptions {
+  /** When set, the whole store is mirrored to localStorage under this key */
+  persistKey?: string
+  /** Seed data keyed by collection name, then by document id */
+  initialData?: Record<string, Record<string, Doc>>
+}
+
+const DATE_TAG = "__date"
+
+function serialize(data: Record<string, Record<string, Doc>>): string {
+  return JSON.stringify(data, function (key, value) {
+    const raw = this[key]
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : value
+  })
+}
+
+function deserialize(text: string): Record<string, Record<string, Doc>> {
+  return JSON.parse(text, (_key, value) =>
+    value && typeof value === "object" && typeof value[DATE_TAG] === "string" ? new Date(value[DATE_TAG]) : value,
+  )
+}
+
+function byTime<T>(field: keyof T, direction: "asc" | "desc" = "asc") {
+  return (a: T, b: T) => {
+    const diff = new Date(a[field] as any).getTime() - new Date(b[field] as any).getTime()
+    return direction === "asc" ? diff : -diff
+  }
+}
+
+/**
+ * Backend that keeps every collection in process memory (optionally mirrored to
+ * localStorage) so the app can be demoed offline and exercised deterministically.
+ * Collection names and document shapes match the Firestore adapter.
+ */
+export function createMemoryStore(options: MemoryStoreOptions = {}): HackmateStore {
+  const collections = new Map<string, Map<string, Doc>>()
+  const listeners = new Set<() => void>()
+  let idCounter = 0
+
+  const load = (data: Record<string, Record<string, Doc>>) => {
+    for (const [name, docs] of Object.entries(data)) {
+      collections.set(name, new Map(Object.entries(docs)))
+    }
+  }
+
+  if (options.initialData) load(options.initialData)
+  if (options.persistKey && typeof window !== "undefined") {
+    try {
+      const saved = window.localStorage.getItem(options.persistKey)
+      if (saved) load(deserialize(saved))
+    } catch (error) {
+      console.error("Error loading local store:", error)
+    }
+  }
+
+  const persist = () => {
+    if (!options.persistKey || typeof window === "undefined") return
+    const data: Record<string, Record<string, Doc>> = {}
+    collections.forEach((docs, name) => {
+      data[name] = Object.fromEntries(docs)
+    })
+    try {
+      window.localStorage.setItem(options.persistKey, serialize(data))
+    } catch (error) {
+      console.error("Error saving local store:", error)
+    }
+  }
+
+  const emit = () => {
+    persist()
+    listeners.forEach((listener) => listener())
+  }
+
+  const table = (name: string) => {
+    let docs = collections.get(name)
+    if (!docs) {
+      docs = new Map()
+      collections.set(name, docs)
+    }
+    return docs
+  }
+
+  const newId = (name: string) => `${name}_${Date.now().toString(36)}_${(++idCounter).toString(36)}`
+
+  const read = <T>(name: string, id: string): T | null => {
+    const found = table(name).get(id)
+    return found ? (structuredClone(found) as T) : null
+  }
+
+  const list = <T>(name: string, predicate: (doc: Doc) => boolean): T[] =>
+    Array.from(table(name).values())
+      .filter(predicate)
+      .map((doc) => structuredClone(doc) as T)
+
+  const write = (name: string, id: string, data: Doc) => {
+    table(name).set(id, structuredClone(withoutUndefined(data)))
+  }
+
+  const patch = (name: string, id: string, updates: Doc) => {
+    const existing = table(name).get(id)
+    if (!existing) throw new Error(`No document to update: ${name}/${id}`)
+    write(name, id, { ...existing, ...withoutUndefined(updates) })
+  }
+
+  const remove = (name: string, id: string) => {
+    table(name).delete(id)
+  }
+
+  const watch = (compute: () => void): Unsubscribe => {
+    listeners.add(compute)
+    compute()
+    return () => {
+      listeners.delete(compute)
+    }
+  }
+
+  // Projects
+  const createProject: HackmateStore["createProject"] = async (name, duration, userId) => {
+    const projectId = newId("projects")
+    const createdAt = new Date()
+    write("projects", projectId, {
+      project_id: projectId,
+      name,
+      duration,
+      created_by: userId,
+      members: [userId],
+      demo_mode: false,
+      created_at: createdAt,
+      status: "planning",
+    })
+    write("project_roles", `${projectId}_${userId}`, { project_id: projectId, user_id: userId, role: "owner" })
+    const joinCode = generateJoinCode()
+    write("join_codes", joinCode, { code: joinCode, project_id: projectId })
+    emit()
+
+    await createDefaultMilestones(projectId, createdAt, durationEnd(createdAt, duration))
+    return projectId
+  }
+
+  const getProject: HackmateStore["getProject"] = async (projectId) => read<Project>("projects", projectId)
+
+  const getUserProjects: HackmateStore["getUserProjects"] = async (userId) =>
+    list<Project>("projects", (p) => p.members?.includes(userId) && !p.deleted_at).sort(
+      byTime<Project>("created_at", "desc"),
+    )
+
+  const getTrashedProjects: HackmateStore["getTrashedProjects"] = async (userId) =>
+    list<Project>("projects", (p) => p.members?.includes(userId) && p.deleted_at && p.created_by === userId).sort(
+      byTime<Project>("created_at", "desc"),
+    )
+
+  const joinProjectByCode: HackmateStore["joinProjectByCode"] = async (joinCode, userId) => {
+    const code = read<{ project_id: string }>("join_codes", joinCode)
+    const project = code ? read<Project>("projects", code.project_id) : list<Project>("projects", (p) => p.join_code === joinCode)[0]
+    if (!project) return null
+
+    if (project.hackathon_event && !project.members.includes(userId)) {
+      const event = read<HackathonEvent>("hackathon_events", project.hackathon_event)
+      const sizeError = event && teamSizeError(event, project.members.length + 1)
+      if (sizeError) throw new Error(sizeError)
+    }
+
+    const members = project.members.includes(userId) ? project.members : [...project.members, userId]
+    patch("projects", project.project_id, { members })
+    write("project_roles", `${project.project_id}_${userId}`, { project_id: project.project_id, user_id: userId, role: "member" })
+    emit()
+    return project.project_id
+  }
+
+  const getJoinCode: HackmateStore["getJoinCode"] = async (projectId) => {
+    const [code] = list<{ code: string }>("join_codes", (c) => c.project_id === projectId)
+    return code?.code ?? read<Project>("projects", projectId)?.join_code ?? null
+  }
+
+  const updateProject = async (projectId: string, updates: Partial<Project>) => {
+    patch("projects", projectId, updates)
+    emit()
+  }
+
+  const updateSubmissionDeadline: HackmateStore["updateSubmissionDeadline"] = async (projectId, deadline) => {
+    const project = read<Project>("projects", projectId)
+    if (!project) throw new Error(`No document to update: projects/${projectId}`)
+    const { submission_deadline: _previous, ...rest } = project
+    write("projects", projectId, deadline ? { ...rest, submission_deadline: deadline } : rest)
+    emit()
+  }
+
+  const trashProject: HackmateStore["trashProject"] = (projectId) => updateProject(projectId, { deleted_at: new Date() })
+
+  const restoreProject: HackmateStore["restoreProject"] = async (projectId) => {
+    const project = table("projects").get(projectId)
+    if (!project) throw new Error(`No document to update: projects/${projectId}`)
+    const { deleted_at: _deletedAt, ...rest } = project
+    write("projects", projectId, rest)
+    emit()
+  }
+
+  const deleteProject: HackmateStore["deleteProject"] = async (projectId) => {
+    for (const name of PROJECT_COLLECTIONS) {
+      table(name).forEach((d, id) => {
+        if (d.project_id === projectId) remove(name, id)
+      })
+    }
+    remove("projects", projectId)
+    emit()
+  }
+
+  const subscribeToProject: HackmateStore["subscribeToProject"] = (projectId, callback) =>
+    watch(() => callback(read<Project>("projects", projectId)))
+
+  // Submissions
+  const createSubmission: HackmateStore["createSubmission"] = async (submission) => {
+    const submissionId = newId("submissions")
+    write("submissions", submissionId, { ...submission, submission_id: submissionId, submitted_at: new Date() })
+    emit()
+    return submissionId
+  }
+
+  const subscribeToSubmissions: HackmateStore["subscribeToSubmissions"] = (projectId, callback) =>
+    watch(() =>
+      callback(
+        list<ProjectSubmission>("submissions", (s) => s.project_id === projectId).sort(
+          byTime<ProjectSubmission>("submitted_at", "desc"),
+        ),
+      ),
+    )
+
+  // Hackathon Events
+  const createHackathonEvent: HackmateStore["createHackathonEvent"] = async (event) => {
+    const eventId = newId("hackathon_events")
+    write("hackathon_events", eventId, {
+      ...event,
+      event_id: eventId,
+      judges: [],
+      created_at: new Date(),
+    })
+    const judgeCode = generateJoinCode()
+    write("judge_codes", judgeCode, { code: judgeCode, event_id: eventId })
+    emit()
+    return eventId
+  }
+
+  const getJudgeCode: HackmateStore["getJudgeCode"] = async (eventId) => {
+    const [code] = list<{ code: string }>("judge_codes", (c) => c.event_id === eventId)
+    return code?.code ?? read<HackathonEvent>("hackathon_events", eventId)?.judge_code ?? null
+  }
+
+  const updateHackathonEvent: HackmateStore["updateHackathonEvent"] = async (eventId, updates) => {
+    patch("hackathon_events", eventId, updates)
+    emit()
+  }
+
+  const getHackathonEvent: HackmateStore["getHackathonEvent"] = async (eventId) =>
+    read<HackathonEvent>("hackathon_events", eventId)
+
+  const subscribeToHackathonEvents: HackmateStore["subscribeToHackathonEvents"] = (callback) =>
+    watch(() => callback(list<HackathonEvent>("hackathon_events", () => true).sort(byTime<HackathonEvent>("start_date"))))
+
+  const subscribeToHackathonEvent: HackmateStore["subscribeToHackathonEvent"] = (eventId, callback) =>
+    watch(() => callback(read<HackathonEvent>("hackathon_events", eventId)))
+
+  const subscribeToEventProjects: HackmateStore["subscribeToEventProjects"] = (eventId, callback) =>
+    watch(() =>
+      callback(
+        list<Project>("projects", (p) => p.hackathon_event === eventId && !p.deleted_at).sort((a, b) =>
+          a.name.localeCompare(b.name),
+        ),
+      ),
+    )
+
+  const registerProjectForEvent: HackmateStore["registerProjectForEvent"] = async (projectId, eventId) => {
+    const project = read<Project>("projects", projectId)
+    const event = read<HackathonEvent>("hackathon_events", eventId)
+    if (!project) throw new Error("Project not found")
+    if (!event) throw new Error("Event not found")
+    assertCanRegister(event, project)
+    await updateProject(projectId, { hackathon_event: eventId })
+  }
+
+  const unregisterProjectFromEvent: HackmateStore["unregisterProjectFromEvent"] = async (projectId) => {
+    const project = read<Project>("projects", projectId)
+    if (!project) throw new Error(`No document to update: projects/${projectId}`)
+    const { hackathon_event: _event, ...rest } = project
+    write("projects", projectId, rest)
+    emit()
+  }
+
+  // Judging
+  const joinEventAsJudge: HackmateStore["joinEventAsJudge"] = async (judgeCode, userId) => {
+    const code = read<{ event_id: string }>("judge_codes", judgeCode)
+    const [event] = code
+      ? [read<HackathonEvent>("hackathon_events", code.event_id)]
+      : list<HackathonEvent>("hackathon_events", (e) => e.judge_code === judgeCode)
+    if (!event) return null
+
+    const judges = event.judges ?? []
+    patch("hackathon_events", event.event_id, { judges: judges.includes(userId) ? judges : [...judges, userId] })
+    emit()
+    return event.event_id
+  }
+
+  const saveJudgeScore: HackmateStore["saveJudgeScore"] = async (score) => {
+    const id = scoreId(score.event_id, score.project_id, score.judge_id)
+    write("judge_scores", id, { ...score, score_id: id, updated_at: new Date() })
+    emit()
+  }
+
+  const subscribeToEventScores: HackmateStore["subscribeToEventScores"] = (eventId, callback) =>
+    watch(() => callback(list<JudgeScore>("judge_scores", (s) => s.event_id === eventId)))
+
+  // Tasks
+  const createTask: HackmateStore["createTask"] = async (task) => {
+    const taskId = newId("tasks")
+    write("tasks", taskId, { ...task, task_id: taskId, last_updated: new Date() })
+    emit()
+    return taskId
+  }
+
+  const addTask: HackmateStore["addTask"] = async (task) => {
+    const taskId = newId("tasks")
+    const newTask = {
+      ...task,
+      task_id: taskId,
+      last_updated: new Date(),
+      created_at: new Date(),
+      priority: task.priority || "Medium",
+      time_spent: 0,
+      dependencies: task.dependencies || [],
+      tags: [],
+    } as Task
+    write("tasks", taskId, newTask)
+    emit()
+    return structuredClone(newTask)
+  }
+
+  const createTasks: HackmateStore["createTasks"] = async (tasks: NewTask[]) => {
+    for (const task of tasks) {
+      const taskId = newId("tasks")
+      write("tasks", taskId, { ...task, task_id: taskId, last_updated: new Date() })
+    }
+    emit()
+  }
+
+  const updateTask: HackmateStore["updateTask"] = async (taskId, updates) => {
+    patch("tasks", taskId, { ...updates, last_updated: new Date() })
+    emit()
+  }
+
+  const deleteTask: HackmateStore["deleteTask"] = async (taskId) => {
+    for (const task of list<Task>("tasks", (t) => !!t.dependencies?.includes(taskId))) {
+      patch("tasks", task.task_id, { dependencies: task.dependencies!.filter((id) => id !== taskId) })
+    }
+    remove("tasks", taskId)
+    emit()
+  }
+
+  const subscribeToTasks: HackmateStore["subscribeToTasks"] = (projectId, callback) =>
+    watch(() => callback(list<Task>("tasks", (t) => t.project_id === projectId).sort(byTime<Task>("last_updated", "desc"))))
+
+  // Chat Messages
+  const sendMessage: HackmateStore["sendMessage"] = async (message) => {
+    const messageId = newId("messages")
+    write("messages", messageId, { ...message, message_id: messageId, timestamp: new Date() })
+    emit()
+    return messageId
+  }
+
+  // Oldest first, with message_id breaking timestamp ties like the Firestore query does
+  const projectMessages = (projectId: string) =>
+    list<ChatMessage>("messages", (m) => m.project_id === projectId).sort(
+      (a, b) => byTime<ChatMessage>("timestamp")(a, b) || a.message_id.localeCompare(b.message_id),
+    )
+
+  const subscribeToMessages: HackmateStore["subscribeToMessages"] = (projectId, count, callback) =>
+    watch(() => callback(projectMessages(projectId).slice(-count)))
+
+  const getMessagesBefore: HackmateStore["getMessagesBefore"] = async (projectId, before, count) => {
+    const messages = projectMessages(projectId)
+    const end = messages.findIndex((m) => m.message_id === before.message_id)
+    const older =
+      end >= 0 ? messages.slice(0, end) : messages.filter((m) => new Date(m.timestamp) < new Date(before.timestamp))
+    return older.slice(-count)
+  }
+
+  const resolveMessageToolCall: HackmateStore["resolveMessageToolCall"] = async (messageId, resolved, from) => {
+    const toolCalls = read<ChatMessage>("messages", messageId)?.tool_calls ?? []
+    if (toolCalls.find((c) => c.call_id === resolved.call_id)?.status !== from) return false
+    patch("messages", messageId, {
+      tool_calls: toolCalls.map((c) => withoutUndefined(c.call_id === resolved.call_id ? resolved : c)),
+    })
+    emit()
+    return true
+  }
+
+  const editMessage: HackmateStore["editMessage"] = async (messageId, content) => {
+    patch("messages", messageId, { content, edited_at: new Date() })
+    emit()
+  }
+
+  const deleteMessage: HackmateStore["deleteMessage"] = async (messageId) => {
+    patch("messages", messageId, { content: "", deleted_at: new Date() })
+    emit()
+  }
+
+  const searchHistory: HackmateStore["searchHistory"] = async (projectId, search) => {
+    const inRange = (date: Date) =>
+      (!search.from || new Date(date) >= search.from) && (!search.to || new Date(date) <= search.to)
+
+    const messages: HistorySearchHit[] = projectMessages(projectId)
+      .filter(
+        (m) =>
+          !m.deleted_at &&
+          (!search.sender || m.sender === search.sender) &&
+          (!search.author_type || !!search.sender || m.sender_type === search.author_type) &&
+          inRange(m.timestamp) &&
+          matchesSearch(m.content, search.text),
+      )
+      .map((message) => ({ kind: "message", message }))
+    const notes: HistorySearchHit[] = search.include_notes
+      ? list<SharedResource>(
+          "shared_resources",
+          (r) =>
+            r.project_id === projectId &&
+            r.type === "note" &&
+            (!search.sender || r.uploaded_by === search.sender) &&
+            (!search.author_type || (search.author_type === "ai") === !!r.tags?.includes("ai-mentor")) &&
+            inRange(r.created_at) &&
+            matchesSearch(`${r.name} ${r.content ?? ""}`, search.text),
+        ).map((resource) => ({ kind: "note", resource }))
+      : []
+
+    const at = (hit: HistorySearchHit) =>
+      new Date(hit.kind === "message" ? hit.message.timestamp : hit.resource.created_at).getTime()
+    return [...messages, ...notes].sort((a, b) => at(b) - at(a)).slice(0, 50)
+  }
+
+  const setMessageReaction: HackmateStore["setMessageReaction"] = async (messageId, emoji, userId, reacted) => {
+    const message = read<ChatMessage>("messages", messageId)
+    if (!message) throw new Error(`No document to update: messages/${messageId}`)
+    const users = (message.reactions?.[emoji] ?? []).filter((id) => id !== userId)
+    patch("messages", messageId, { reactions: { ...message.reactions, [emoji]: reacted ? [...users, userId] : users } })
+    emit()
+  }
+
+  const getMentorMemory: HackmateStore["getMentorMemory"] = async (projectId) =>
+    read<MentorMemory>("mentor_memory", projectId)
+
+  const saveMentorMemory: HackmateStore["saveMentorMemory"] = async (memory) => {
+    write("mentor_memory", memory.project_id, { ...memory, updated_at: new Date() })
+    emit()
+  }
+
+  // Project Members
+  const getProjectMembers: HackmateStore["getProjectMembers"] = async (memberIds) =>
+    memberIds.map((id) => read<ProjectMember>("users", id)).filter((m): m is ProjectMember => m !== null)
+
+  const getUserRole: HackmateStore["getUserRole"] = async (projectId, userId) =>
+    read<{ role: ProjectRole }>("project_roles", `${projectId}_${userId}`)?.role ?? "viewer"
+
+  const setUserRole: HackmateStore["setUserRole"] = async (projectId, userId, role) => {
+    write("project_roles", `${projectId}_${userId}`, { project_id: projectId, user_id: userId, role })
+    emit()
+  }
+
+  const subscribeToProjectRoles: HackmateStore["subscribeToProjectRoles"] = (projectId, callback) =>
+    watch(() => {
+      const roles: Record<string, ProjectRole> = {}
+      list<{ user_id: string; role: ProjectRole }>("project_roles", (r) => r.project_id === projectId).forEach((r) => {
+        roles[r.user_id] = r.role
+      })
+      callback(roles)
+    })
+
+  const subscribeToProjectMembers: HackmateStore["subscribeToProjectMembers"] = (memberIds, callback) =>
+    watch(() => {
+      const members = memberIds
+        .map((id) => read<ProjectMember>("users", id))
+        .filter((m): m is ProjectMember => m !== null)
+      if (members.length > 0) callback(members)
+    })
+
+  const removeMemberFromProject: HackmateStore["removeMemberFromProject"] = async (projectId, userId) => {
+    const project = read<Project>("projects", projectId)
+    if (project) {
+      patch("projects", projectId, { members: project.members.filter((id) => id !== userId) })
+    }
+    remove("project_roles", `${projectId}_${userId}`)
+    emit()
+  }
+
+  const getUserProfile: HackmateStore["getUserProfile"] = async (userId) => read<ProjectMember>("users", userId)
+
+  const saveUserProfile: HackmateStore["saveUserProfile"] = async (profile) => {
+    write("users", profile.user_id, { ...profile, created_at: new Date() })
+    emit()
+  }
+
+  const mergeUserProfile: HackmateStore["mergeUserProfile"] = async (userId, updates) => {
+    write("users", userId, { ...(table("users").get(userId) || {}), ...withoutUndefined(updates) })
+    emit()
+  }
+
+  // Milestones
+  const createMilestone: HackmateStore["createMilestone"] = async (milestone) => {
+    const milestoneId = newId("milestones")
+    write("milestones", milestoneId, { ...milestone, milestone_id: milestoneId, created_at: new Date() })
+    emit()
+    return milestoneId
+  }
+
+  const updateMilestone: HackmateStore["updateMilestone"] = async (milestoneId, updates) => {
+    patch("milestones", milestoneId, updates)
+    emit()
+  }
+
+  const syncMilestone: HackmateStore["syncMilestone"] = async (milestoneId, updates) => {
+    const milestone = read<Milestone>("milestones", milestoneId)
+    if (!milestone) return false
+    patch("milestones", milestoneId, updates)
+    emit()
+    return updates.status === "completed" && milestone.status !== "completed"
+  }
+
+  const deleteMilestone: HackmateStore["deleteMilestone"] = async (milestoneId) => {
+    for (const task of list<Task>("tasks", (t) => t.milestone_id === milestoneId)) {
+      patch("tasks", task.task_id, { milestone_id: null })
+    }
+    remove("milestones", milestoneId)
+    emit()
+  }
+
+  const subscribeToMilestones: HackmateStore["subscribeToMilestones"] = (projectId, callback) =>
+    watch(() =>
+      callback(list<Milestone>("milestones", (m) => m.project_id === projectId).sort(byTime<Milestone>("deadline"))),
+    )
+
+  const createDefaultMilestones: HackmateStore["createDefaultMilestones"] = async (projectId, start, end) => {
+    for (const milestone of defaultMilestonePlan(start, end)) {
+      const milestoneId = newId("milestones")
+      write("milestones", milestoneId, {
+        ...milestone,
+        milestone_id: milestoneId,
+        project_id: projectId,
+        status: "upcoming",
+        created_at: new Date(),
+      })
+    }
+    emit()
+  }
+
+  // Schedule Events
+  const createScheduleEvent: HackmateStore["createScheduleEvent"] = async (event) => {
+    const eventId = newId("schedule_events")
+    write("schedule_events", eventId, { ...event, event_id: eventId, created_at: new Date() })
+    emit()
+    return eventId
+  }
+
+  const updateScheduleEvent: HackmateStore["updateScheduleEvent"] = async (eventId, updates) => {
+    patch("schedule_events", eventId, updates)
+    emit()
+  }
+
+  const deleteScheduleEvent: HackmateStore["deleteScheduleEvent"] = async (eventId) => {
+    remove("schedule_events", eventId)
+    emit()
+  }
+
+  const subscribeToScheduleEvents: HackmateStore["subscribeToScheduleEvents"] = (projectId, userId, callback) =>
+    watch(() =>
+      callback(
+        list<ScheduleEvent>("schedule_events", (e) => e.project_id === projectId && e.user_id === userId).sort(
+          byTime<ScheduleEvent>("start_time"),
+        ),
+      ),
+    )
+
+  const subscribeToTeamSchedule: HackmateStore["subscribeToTeamSchedule"] = (projectId, callback) =>
+    watch(() =>
+      callback(list<ScheduleEvent>("schedule_events", (e) => e.project_id === projectId).sort(byTime<ScheduleEvent>("start_time"))),
+    )
+
+  // AI usage is written by the API route, which can't reach an in-browser store, so offline backends list none
+  const subscribeToAIUsage: HackmateStore["subscribeToAIUsage"] = (projectId, since, callback) =>
+    watch(() =>
+      callback(
+        list<AIUsageRecord>("ai_usage", (r) => r.project_id === projectId && new Date(r.created_at) >= since).sort(
+          byTime<AIUsageRecord>("created_at", "desc"),
+        ),
+      ),
+    )
+
+  // Wellness Settings
+  const saveWellnessSettings: HackmateStore["saveWellnessSettings"] = async (settings) => {
+    write("wellness_settings", `${settings.project_id}_${settings.user_id}`, { ...settings, created_at: new Date() })
+    emit()
+  }
+
+  const getWellnessSettings: HackmateStore["getWellnessSettings"] = async (projectId, userId) =>
+    read<WellnessSettings>("wellness_settings", `${projectId}_${userId}`)
+
+  const subscribeToTeamWellness: HackmateStore["subscribeToTeamWellness"] = (projectId, callback) =>
+    watch(() => callback(list<WellnessSettings>("wellness_settings", (w) => w.project_id === projectId)))
+
+  // Presence
+  const updatePresence: HackmateStore["updatePresence"] = async (projectId, userId, sessionId, session) => {
+    const id = `${projectId}_${userId}`
+    const existing = read<MemberPresence>("presence", id)
+    const now = new Date()
+    write("presence", id, {
+      project_id: projectId,
+      user_id: userId,
+      last_seen: now,
+      sessions: { ...existing?.sessions, [sessionId]: { ...withoutUndefined(session), last_seen: now } },
+    })
+    emit()
+  }
+
+  const endPresenceSession: HackmateStore["endPresenceSession"] = async (projectId, userId, sessionId) => {
+    const id = `${projectId}_${userId}`
+    const existing = read<MemberPresence>("presence", id)
+    if (!existing) return
+    const { [sessionId]: _ended, ...sessions } = existing.sessions
+    patch("presence", id, { sessions, last_seen: new Date() })
+    emit()
+  }
+
+  const subscribeToPresence: HackmateStore["subscribeToPresence"] = (projectId, callback) =>
+    watch(() => callback(list<MemberPresence>("presence", (p) => p.project_id === projectId)))
+
+  // Shared Resources
+  const uploadResource: HackmateStore["uploadResource"] = async (resource) => {
+    const resourceId = newId("shared_resources")
+    write("shared_resources", resourceId, { ...resource, resource_id: resourceId, created_at: new Date() })
+    emit()
+    return resourceId
+  }
+
+  const getProjectResources: HackmateStore["getProjectResources"] = async (projectId) =>
+    list<SharedResource>("shared_resources", (r) => r.project_id === projectId)
+
+  const subscribeToResources: HackmateStore["subscribeToResources"] = (projectId, callback) =>
+    watch(() => callback(list<SharedResource>("shared_resources", (r) => r.project_id === projectId)))
+
+  const updateResource: HackmateStore["updateResource"] = async (resourceId, updates) => {
+    patch("shared_resources", resourceId, updates)
+    emit()
+  }
+
+  const deleteResource: HackmateStore["deleteResource"] = async (resourceId) => {
+    remove("shared_resources", resourceId)
+    emit()
+  }
+
+  // Live Activity Feed
+  const addActivity: HackmateStore["addActivity"] = async (activity) => {
+    const activityId = newId("live_activities")
+    write("live_activities", activityId, { ...activity, activity_id: activityId, timestamp: new Date() })
+    emit()
+  }
+
+  const subscribeToActivities: HackmateStore["subscribeToActivities"] = (projectId, callback) =>
+    watch(() =>
+      callback(
+        list<LiveActivity>("live_activities", (a) => a.project_id === projectId)
+          .sort(byTime<LiveActivity>("timestamp", "desc"))
+          .slice(0, 50),
+      ),
+    )
+
+  // Team Notifications
+  const createNotification: HackmateStore["createNotification"] = async (notification) => {
+    const notificationId = newId("team_notifications")
+    write("team_notifications", notificationId, {
+      ...notification,
+      notification_id: notificationId,
+      created_at: new Date(),
+    })
+    emit()
+  }
+
+  const subscribeToNotifications: HackmateStore["subscribeToNotifications"] = (projectId, userId, callback) =>
+    watch(() =>
+      callback(
+        list<TeamNotification>("team_notifications", (n) => n.project_id === projectId && n.user_id === userId).sort(
+          byTime<TeamNotification>("created_at", "desc"),
+        ),
+      ),
+    )
+
+  const markNotificationRead: HackmateStore["markNotificationRead"] = async (notificationId) => {
+    patch("team_notifications", notificationId, { read: true })
+    emit()
+  }
+
+  return {
+    createProject,
+    getProject,
+    getUserProjects,
+    getTrashedProjects,
+    joinProjectByCode,
+    getJoinCode,
+    updateProjectIdea: (projectId, idea) => updateProject(projectId, { idea }),
+    updateDemoMode: (projectId, enabled) => updateProject(projectId, { demo_mode: enabled }),
+    updateProjectUrls: (projectId, urls) => updateProject(projectId, urls),
+    updateSubmissionDeadline,
+    updateProjectStatus: (projectId, status) => updateProject(projectId, { status }),
+    updateSubmissionChecklist: (projectId, checks) => updateProject(projectId, { submission_checklist: checks }),
+    trashProject,
+    restoreProject,
+    deleteProject,
+    subscribeToProject,
+    createSubmission,
+    subscribeToSubmissions,
+    createHackathonEvent,
+    updateHackathonEvent,
+    getJudgeCode,
+    getHackathonEvent,
+    subscribeToHackathonEvents,
+    subscribeToHackathonEvent,
+    subscribeToEventProjects,
+    registerProjectForEvent,
+    unregisterProjectFromEvent,
+    joinEventAsJudge,
+    saveJudgeScore,
+    subscribeToEventScores,
+    createTask,
+    addTask,
+    createTasks,
+    updateTask,
+    deleteTask,
+    subscribeToTasks,
+    sendMessage,
+    subscribeToMessages,
+    resolveMessageToolCall,
+    getMessagesBefore,
+    editMessage,
+    deleteMessage,
+    setMessageReaction,
+    searchHistory,
+    getMentorMemory,
+    saveMentorMemory,
+    subscribeToAIUsage,
+    getProjectMembers,
+    getUserRole,
+    setUserRole,
+    subscribeToProjectRoles,
+    subscribeToProjectMembers,
+    removeMemberFromProject,
+    getUserProfile,
+    saveUserProfile,
+    mergeUserProfile,
+    createMilestone,
+    updateMilestone,
+    syncMilestone,
+    deleteMilestone,
+    subscribeToMilestones,
+    createDefaultMilestones,
+    createScheduleEvent,
+    updateScheduleEvent,
+    deleteScheduleEvent,
+    subscribeToScheduleEvents,
+    subscribeToTeamSchedule,
+    saveWellnessSettings,
+    getWellnessSettings,
+    subscribeToTeamWellness,
+    updatePresence,
+    endPresenceSession,
+    subscribeToPresence,
+    uploadResource,
+    getProjectResources,
+    subscribeToResources,
+    updateResource,
+    deleteResource,
+    addActivity,
+    subscribeToActivities,
+    createNotification,
+    subscribeToNotifications,
+    markNotificationRead,
+  }
+}
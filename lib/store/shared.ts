@@ -0,0 +1,80 @@
+import type { Milestone } from "../types"
+
+// Every collection whose documents carry a project_id and must go when the project does
+export const PROJECT_COLLECTIONS = [
+  "tasks",
+  "messages",
+  "mentor_memory",
+  "ai_usage",
+  "milestones",
+  "shared_resources",
+  "live_activities",
+  "team_notifications",
+  "schedule_events",
+  "wellness_settings",
+  "presence",
+  "submissions",
+  "judge_scores",
+  "join_codes",
+  "project_joins",
+  "project_roles",
+]
+
+// Days a trashed project can still be restored before it is purged for good
+export const TRASH_RETENTION_DAYS = 7
+
+export function trashExpiresAt(deletedAt: Date): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+}
+
+// Generate random join code
+export function generateJoinCode(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
+  let code = ""
+  for (let i = 0; i < 6; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length))
+  }
+  return code
+}
+
+// Drop undefined values - Firestore rejects them and the memory store should match
+export function withoutUndefined<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([_, v]) => v !== undefined)) as T
+}
+
+// The Idea / Prototype / Final milestones every new project starts with.
+// Each is anchored to a fraction of the hackathon window so it follows the real start and submission times.
+export function defaultMilestonePlan(
+  start: Date,
+  end: Date,
+): Pick<Milestone, "name" | "description" | "type" | "deadline" | "anchor">[] {
+  const at = (anchor: number) => new Date(start.getTime() + (end.getTime() - start.getTime()) * anchor)
+
+  return [
+    {
+      name: "Idea Finalization",
+      description: "Complete idea analysis and feature planning",
+      type: "idea_submission",
+      anchor: 0.2,
+      deadline: at(0.2), // 20% through
+    },
+    {
+      name: "Prototype Development",
+      description: "Build working prototype with core features",
+      type: "prototype",
+      anchor: 0.7,
+      deadline: at(0.7), // 70% through
+    },
+    {
+      name: "Final Presentation",
+      description: "Complete project and prepare final presentation",
+      type: "final_presentation",
+      anchor: 1,
+      deadline: at(1), // End of hackathon
+    },
+  ]
+}
+
+export function durationEnd(start: Date, duration: "24h" | "48h"): Date {
+  return new Date(start.getTime() + (duration === "24h" ? 24 : 48) * 60 * 60 * 1000)
+}
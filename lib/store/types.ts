@@ -0,0 +1,169 @@
+import type {
+  Project,
+  ProjectRole,
+  HackathonEvent,
+  JudgeScore,
+  ProjectSubmission,
+  SubmissionCheckId,
+  Task,
+  ChatMessage,
+  ProjectMember,
+  SharedResource,
+  LiveActivity,
+  TeamNotification,
+  Milestone,
+  ScheduleEvent,
+  WellnessSettings,
+  MemberPresence,
+  PresenceSession,
+  MentorMemory,
+  MentorToolCall,
+  AIUsageRecord,
+  HistorySearchQuery,
+  HistorySearchHit,
+} from "../types"
+
+export type Unsubscribe = () => void
+
+export type NewTask = Omit<Task, "task_id" | "last_updated">
+export type ProjectUrls = { github_repo?: string; demo_url?: string; pitch_deck_url?: string }
+
+/**
+ * Every read, write and subscription the app performs against its backend.
+ * `lib/firestore.ts` delegates to whichever implementation `getStore()` returns,
+ * so pages never talk to a concrete backend directly.
+ */
+export interface HackmateStore {
+  // Projects
+  createProject(name: string, duration: "24h" | "48h", userId: string): Promise<string>
+  getProject(projectId: string): Promise<Project | null>
+  getUserProjects(userId: string): Promise<Project[]>
+  getTrashedProjects(userId: string): Promise<Project[]>
+  joinProjectByCode(joinCode: string, userId: string): Promise<string | null>
+  /** Members only; the code isn't stored on the project so it can't leak through listings */
+  getJoinCode(projectId: string): Promise<string | null>
+  updateProjectIdea(projectId: string, idea: Project["idea"]): Promise<void>
+  updateDemoMode(projectId: string, enabled: boolean): Promise<void>
+  updateProjectUrls(projectId: string, urls: ProjectUrls): Promise<void>
+  updateSubmissionDeadline(projectId: string, deadline: Date | null): Promise<void>
+  updateProjectStatus(projectId: string, status: Project["status"]): Promise<void>
+  updateSubmissionChecklist(projectId: string, checks: SubmissionCheckId[]): Promise<void>
+  trashProject(projectId: string): Promise<void>
+  restoreProject(projectId: string): Promise<void>
+  /** Permanently removes the project and every document in PROJECT_COLLECTIONS that references it */
+  deleteProject(projectId: string): Promise<void>
+  subscribeToProject(projectId: string, callback: (project: Project | null) => void): Unsubscribe
+
+  // Submissions
+  createSubmission(submission: Omit<ProjectSubmission, "submission_id" | "submitted_at">): Promise<string>
+  subscribeToSubmissions(projectId: string, callback: (submissions: ProjectSubmission[]) => void): Unsubscribe
+
+  // Hackathon events
+  createHackathonEvent(event: Omit<HackathonEvent, "event_id" | "created_at">): Promise<string>
+  updateHackathonEvent(eventId: string, updates: Partial<HackathonEvent>): Promise<void>
+  /** Organiser only; events are public, so the code lives apart from them */
+  getJudgeCode(eventId: string): Promise<string | null>
+  getHackathonEvent(eventId: string): Promise<HackathonEvent | null>
+  subscribeToHackathonEvents(callback: (events: HackathonEvent[]) => void): Unsubscribe
+  subscribeToHackathonEvent(eventId: string, callback: (event: HackathonEvent | null) => void): Unsubscribe
+  /** Projects registered for the event, trashed ones excluded */
+  subscribeToEventProjects(eventId: string, callback: (projects: Project[]) => void): Unsubscribe
+  /** Throws when registration is closed or the team is larger than the event allows */
+  registerProjectForEvent(projectId: string, eventId: string): Promise<void>
+  unregisterProjectFromEvent(projectId: string): Promise<void>
+
+  // Judging
+  /** Adds the user to the judges of the event with this judge code; null when no event matches */
+  joinEventAsJudge(judgeCode: string, userId: string): Promise<string | null>
+  saveJudgeScore(score: Omit<JudgeScore, "score_id" | "updated_at">): Promise<void>
+  subscribeToEventScores(eventId: string, callback: (scores: JudgeScore[]) => void): Unsubscribe
+
+  // Tasks
+  createTask(task: NewTask): Promise<string>
+  addTask(task: NewTask): Promise<Task | null>
+  createTasks(tasks: NewTask[]): Promise<void>
+  updateTask(taskId: string, updates: Partial<Task>): Promise<void>
+  deleteTask(taskId: string): Promise<void>
+  subscribeToTasks(projectId: string, callback: (tasks: Task[]) => void): Unsubscribe
+
+  // Chat messages
+  sendMessage(message: Omit<ChatMessage, "message_id" | "timestamp">): Promise<string>
+  /** The latest `count` messages, oldest first */
+  subscribeToMessages(projectId: string, count: number, callback: (messages: ChatMessage[]) => void): Unsubscribe
+  /** Up to `count` messages older than `before`, oldest first; fewer means there are no more */
+  getMessagesBefore(projectId: string, before: Pick<ChatMessage, "timestamp" | "message_id">, count: number): Promise<ChatMessage[]>
+  /** Moves one of the mentor's proposed actions on from status `from`; false if someone else already moved it */
+  resolveMessageToolCall(messageId: string, resolved: MentorToolCall, from: MentorToolCall["status"]): Promise<boolean>
+  editMessage(messageId: string, content: string): Promise<void>
+  /** Clears the content but keeps the message, so its thread stays intact */
+  deleteMessage(messageId: string): Promise<void>
+  setMessageReaction(messageId: string, emoji: string, userId: string, reacted: boolean): Promise<void>
+  /** Newest first, at most 50 hits */
+  searchHistory(projectId: string, query: HistorySearchQuery): Promise<HistorySearchHit[]>
+  getMentorMemory(projectId: string): Promise<MentorMemory | null>
+  saveMentorMemory(memory: Omit<MentorMemory, "updated_at">): Promise<void>
+
+  // AI usage, written server-side by /api/gemini
+  subscribeToAIUsage(projectId: string, since: Date, callback: (records: AIUsageRecord[]) => void): Unsubscribe
+
+  // Members, roles and profiles
+  getProjectMembers(memberIds: string[]): Promise<ProjectMember[]>
+  getUserRole(projectId: string, userId: string): Promise<ProjectRole>
+  setUserRole(projectId: string, userId: string, role: ProjectRole): Promise<void>
+  subscribeToProjectRoles(projectId: string, callback: (roles: Record<string, ProjectRole>) => void): Unsubscribe
+  subscribeToProjectMembers(memberIds: string[], callback: (members: ProjectMember[]) => void): Unsubscribe
+  removeMemberFromProject(projectId: string, userId: string): Promise<void>
+  getUserProfile(userId: string): Promise<ProjectMember | null>
+  saveUserProfile(profile: ProjectMember): Promise<void>
+  mergeUserProfile(userId: string, updates: Partial<ProjectMember>): Promise<void>
+
+  // Milestones
+  createMilestone(milestone: Omit<Milestone, "milestone_id" | "created_at">): Promise<string>
+  updateMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<void>
+  /** Resolves true only for the call that moved the stored status to completed */
+  syncMilestone(milestoneId: string, updates: Partial<Milestone>): Promise<boolean>
+  deleteMilestone(milestoneId: string): Promise<void>
+  subscribeToMilestones(projectId: string, callback: (milestones: Milestone[]) => void): Unsubscribe
+  createDefaultMilestones(projectId: string, start: Date, end: Date): Promise<void>
+
+  // Schedule events
+  createScheduleEvent(event: Omit<ScheduleEvent, "event_id" | "created_at">): Promise<string>
+  updateScheduleEvent(eventId: string, updates: Partial<ScheduleEvent>): Promise<void>
+  deleteScheduleEvent(eventId: string): Promise<void>
+  subscribeToScheduleEvents(projectId: string, userId: string, callback: (events: ScheduleEvent[]) => void): Unsubscribe
+  /** Every member's events, for the team overlay */
+  subscribeToTeamSchedule(projectId: string, callback: (events: ScheduleEvent[]) => void): Unsubscribe
+
+  // Wellness settings
+  saveWellnessSettings(settings: Omit<WellnessSettings, "created_at">): Promise<void>
+  getWellnessSettings(projectId: string, userId: string): Promise<WellnessSettings | null>
+  subscribeToTeamWellness(projectId: string, callback: (settings: WellnessSettings[]) => void): Unsubscribe
+
+  // Presence
+  /** Heartbeat for one browser tab; also stamps the member's last_seen */
+  updatePresence(
+    projectId: string,
+    userId: string,
+    sessionId: string,
+    session: Omit<PresenceSession, "last_seen">,
+  ): Promise<void>
+  endPresenceSession(projectId: string, userId: string, sessionId: string): Promise<void>
+  subscribeToPresence(projectId: string, callback: (presence: MemberPresence[]) => void): Unsubscribe
+
+  // Shared resources
+  uploadResource(resource: Omit<SharedResource, "resource_id" | "created_at">): Promise<string>
+  getProjectResources(projectId: string): Promise<SharedResource[]>
+  subscribeToResources(projectId: string, callback: (resources: SharedResource[]) => void): Unsubscribe
+  /** Only a resource's name, content and tags can change after it is shared */
+  updateResource(resourceId: string, updates: Partial<Pick<SharedResource, "name" | "content" | "tags">>): Promise<void>
+  deleteResource(resourceId: string): Promise<void>
+
+  // Live activity feed
+  addActivity(activity: Omit<LiveActivity, "activity_id" | "timestamp">): Promise<void>
+  subscribeToActivities(projectId: string, callback: (activities: LiveActivity[]) => void): Unsubscribe
+
+  // Team notifications
+  createNotification(notification: Omit<TeamNotification, "notification_id" | "created_at">): Promise<void>
+  subscribeToNotifications(projectId: string, userId: string, callback: (notifications: TeamNotification[]) => void): Unsubscribe
+  markNotificationRead(notificationId: string): Promise<void>
+}
@@ -0,0 +1,90 @@
+import type { Project, ProjectSubmission, SubmissionCheckId, SubmissionCheckResult, Task } from "./types"
+
+export const SUBMISSION_CHECKS: { id: SubmissionCheckId; label: string; description: string }[] = [
+  { id: "repo", label: "Repository linked", description: "The GitHub repository is set and publicly reachable" },
+  { id: "demo", label: "Demo is live", description: "The demo URL responds" },
+  { id: "pitch_deck", label: "Pitch deck attached", description: "A pitch deck URL is set" },
+  { id: "idea", label: "Idea analysed", description: "The idea has been run through the AI analysis" },
+  { id: "critical_tasks", label: "Critical tasks done", description: "Every Critical-priority task is in Done" },
+]
+
+export function requiredChecks(project: Pick<Project, "submission_checklist">): SubmissionCheckId[] {
+  return project.submission_checklist ?? SUBMISSION_CHECKS.map((c) => c.id)
+}
+
+async function reachable(endpoint: string, headers: Record<string, string>): Promise<{ ok: boolean; detail?: string }> {
+  try {
+    const response = await fetch(endpoint, { headers })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) return { ok: false, detail: data.error || `Responded with ${response.status}` }
+    if (data.ok === false) return { ok: false, detail: data.error || `Responded with ${data.status}` }
+    return { ok: true }
+  } catch (error: any) {
+    return { ok: false, detail: error.message || "Request failed" }
+  }
+}
+
+async function runCheck(
+  id: SubmissionCheckId,
+  project: Project,
+  tasks: Task[],
+  headers: Record<string, string>,
+): Promise<Omit<SubmissionCheckResult, "id" | "label">> {
+  switch (id) {
+    case "repo": {
+      if (!project.github_repo) return { passed: false, detail: "No repository linked" }
+      const result = await reachable(`/api/github/commits?url=${encodeURIComponent(project.github_repo)}`, headers)
+      return { passed: result.ok, detail: result.detail }
+    }
+    case "demo": {
+      if (!project.demo_url) return { passed: false, detail: "No demo URL set" }
+      const result = await reachable(`/api/url-check?url=${encodeURIComponent(project.demo_url)}`, headers)
+      return { passed: result.ok, detail: result.detail }
+    }
+    case "pitch_deck":
+      return project.pitch_deck_url ? { passed: true } : { passed: false, detail: "No pitch deck URL set" }
+    case "idea":
+      return project.idea ? { passed: true } : { passed: false, detail: "Analyse the idea first" }
+    case "critical_tasks": {
+      const open = tasks.filter((t) => t.priority === "Critical" && t.status !== "Done")
+      return open.length === 0
+        ? { passed: true }
+        : { passed: false, detail: `${open.length} open: ${open.map((t) => t.title).slice(0, 3).join(", ")}` }
+    }
+  }
+}
+
+/** Runs the project's required checks; network checks go through the app's own API routes as the signed-in user */
+export async function runSubmissionChecks(
+  project: Project,
+  tasks: Task[],
+  headers: Record<string, string>,
+): Promise<SubmissionCheckResult[]> {
+  const required = requiredChecks(project)
+  return Promise.all(
+    SUBMISSION_CHECKS.filter((c) => required.includes(c.id)).map(async (check) => ({
+      id: check.id,
+      label: check.label,
+      ...(await runCheck(check.id, project, tasks, headers)),
+    })),
+  )
+}
+
+// Firestore rejects undefined anywhere in a document, so optional fields become null
+export function buildSnapshot(project: Project, tasks: Task[]): ProjectSubmission["snapshot"] {
+  return {
+    name: project.name,
+    idea: project.idea ?? null,
+    github_repo: project.github_repo || null,
+    demo_url: project.demo_url || null,
+    pitch_deck_url: project.pitch_deck_url || null,
+    members: project.members,
+    tasks: tasks.map((t) => ({
+      task_id: t.task_id,
+      title: t.title,
+      status: t.status,
+      priority: t.priority,
+      assigned_to: t.assigned_to ?? null,
+    })),
+  }
+}
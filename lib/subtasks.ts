@@ -0,0 +1,60 @@
+import type { ProjectMember, Subtask, Task } from "./types"
+import type { GeneratedSubtask } from "./ai/schemas"
+import { findMemberByName } from "./ai/mentor-tools"
+
+export interface SubtaskProgress {
+  done: number
+  total: number
+  doneMinutes: number
+  totalMinutes: number
+  /** Share of the estimated minutes that is done, 0-100 */
+  percent: number
+}
+
+// An unknown name just leaves the step unassigned
+function memberIdByName(members: ProjectMember[], name: string | null | undefined): string | null {
+  if (!name) return null
+  try {
+    return findMemberByName(members, name).user_id
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Turns the model's breakdown into stored subtasks. Dependencies arrive as step numbers;
+ * only those pointing at an earlier step are kept, so the steps can never form a cycle.
+ */
+export function toSubtasks(generated: GeneratedSubtask[], members: ProjectMember[]): Subtask[] {
+  const idOf = (step: number) => `sub-${step}`
+  return generated.map((g, index) => ({
+    subtask_id: idOf(index + 1),
+    title: g.title,
+    estimate_minutes: g.estimate_minutes,
+    done: false,
+    assigned_to: memberIdByName(members, g.assignee),
+    depends_on: [...new Set(g.depends_on ?? [])].filter((step) => step <= index).map(idOf),
+  }))
+}
+
+// Rolled up by estimated minutes, so one long step counts for more than several quick ones
+export function subtaskProgress(task: Task): SubtaskProgress | null {
+  const subtasks = task.subtasks ?? []
+  if (subtasks.length === 0) return null
+
+  const done = subtasks.filter((s) => s.done)
+  const totalMinutes = subtasks.reduce((sum, s) => sum + s.estimate_minutes, 0)
+  const doneMinutes = done.reduce((sum, s) => sum + s.estimate_minutes, 0)
+  return {
+    done: done.length,
+    total: subtasks.length,
+    doneMinutes,
+    totalMinutes,
+    percent: Math.round(totalMinutes > 0 ? (doneMinutes / totalMinutes) * 100 : (done.length / subtasks.length) * 100),
+  }
+}
+
+// Unfinished earlier steps this one waits on
+export function pendingSubtaskDependencies(subtask: Subtask, subtasks: Subtask[]): Subtask[] {
+  return subtasks.filter((s) => subtask.depends_on.includes(s.subtask_id) && !s.done)
+}
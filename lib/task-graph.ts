@@ -0,0 +1,125 @@
+import type { Task } from "./types"
+
+// Rough hours of work behind each effort level, used as the duration weight for scheduling
+export const EFFORT_HOURS: Record<Task["effort"], number> = {
+  Low: 1,
+  Medium: 3,
+  High: 6,
+}
+
+export interface CriticalPath {
+  taskIds: string[]
+  hours: number
+}
+
+function indexTasks(tasks: Task[]): Map<string, Task> {
+  return new Map(tasks.map((task) => [task.task_id, task]))
+}
+
+// Dependencies pointing at deleted tasks are ignored everywhere
+function dependenciesOf(task: Task, byId: Map<string, Task>): string[] {
+  return (task.dependencies || []).filter((id) => id !== task.task_id && byId.has(id))
+}
+
+// Unfinished tasks that must be completed before this one can move forward
+export function getBlockers(task: Task, tasks: Task[]): Task[] {
+  const byId = indexTasks(tasks)
+  return dependenciesOf(task, byId)
+    .map((id) => byId.get(id)!)
+    .filter((dependency) => dependency.status !== "Done")
+}
+
+export function isBlocked(task: Task, tasks: Task[]): boolean {
+  return getBlockers(task, tasks).length > 0
+}
+
+// Tasks that list taskId as one of their dependencies
+export function getDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter((task) => task.dependencies?.includes(taskId))
+}
+
+/**
+ * Returns the task_ids forming a dependency cycle (first id repeated at the end), or null for a DAG.
+ */
+export function findCycle(tasks: Task[]): string[] | null {
+  const byId = indexTasks(tasks)
+  const state = new Map<string, "visiting" | "done">()
+  const stack: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null
+    if (state.get(id) === "visiting") return [...stack.slice(stack.indexOf(id)), id]
+
+    state.set(id, "visiting")
+    stack.push(id)
+    for (const dependencyId of dependenciesOf(byId.get(id)!, byId)) {
+      const cycle = visit(dependencyId)
+      if (cycle) return cycle
+    }
+    stack.pop()
+    state.set(id, "done")
+    return null
+  }
+
+  for (const task of tasks) {
+    const cycle = visit(task.task_id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+// Checks a proposed dependency list before it is saved
+export function findCycleWith(tasks: Task[], taskId: string, dependencies: string[]): string[] | null {
+  return findCycle(tasks.map((task) => (task.task_id === taskId ? { ...task, dependencies } : task)))
+}
+
+/**
+ * Longest chain of unfinished work through the dependency graph, weighted by EFFORT_HOURS.
+ * Done tasks cost nothing, so the path only lists what still stands between the team and the finish.
+ * Returns an empty path when the graph has a cycle.
+ */
+export function computeCriticalPath(tasks: Task[]): CriticalPath {
+  const empty: CriticalPath = { taskIds: [], hours: 0 }
+  if (findCycle(tasks)) return empty
+
+  const open = tasks.filter((task) => task.status !== "Done")
+  const byId = indexTasks(open)
+  const finish = new Map<string, { hours: number; previous: string | null }>()
+
+  const finishOf = (task: Task): number => {
+    const known = finish.get(task.task_id)
+    if (known) return known.hours
+
+    let start = 0
+    let previous: string | null = null
+    for (const dependencyId of dependenciesOf(task, byId)) {
+      const hours = finishOf(byId.get(dependencyId)!)
+      if (hours > start) {
+        start = hours
+        previous = dependencyId
+      }
+    }
+
+    const hours = start + EFFORT_HOURS[task.effort]
+    finish.set(task.task_id, { hours, previous })
+    return hours
+  }
+
+  let last: string | null = null
+  let longest = 0
+  for (const task of open) {
+    const hours = finishOf(task)
+    if (hours > longest) {
+      longest = hours
+      last = task.task_id
+    }
+  }
+
+  if (!last) return empty
+
+  const taskIds: string[] = []
+  for (let id: string | null = last; id; id = finish.get(id)!.previous) {
+    taskIds.unshift(id)
+  }
+  return { taskIds, hours: longest }
+}
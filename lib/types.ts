@@ -4,7 +4,7 @@ export interface Project {
   duration: "24h" | "48h"
   created_by: string
   members: string[]
-  join_code: string
+  join_code?: string // only on projects created before codes moved to join_codes
   demo_mode: boolean
   idea?: IdeaAnalysis
   created_at: Date
@@ -14,8 +14,41 @@ export interface Project {
   demo_url?: string
   pitch_deck_url?: string
   status: "planning" | "development" | "testing" | "submitted" | "judging" | "completed"
+  submission_checklist?: SubmissionCheckId[] // checks required before submitting; all of them when unset
+  deleted_at?: Date | null // set while the project sits in the trash
+  search_backfilled?: boolean // older messages and notes have been given search tokens
 }
 
+export type SubmissionCheckId = "repo" | "demo" | "pitch_deck" | "idea" | "critical_tasks"
+
+export interface SubmissionCheckResult {
+  id: SubmissionCheckId
+  label: string
+  passed: boolean
+  detail?: string
+}
+
+// Frozen copy of the project taken each time it is submitted
+export interface ProjectSubmission {
+  submission_id: string
+  project_id: string
+  submitted_by: string
+  submitted_at: Date
+  late: boolean // submitted by an admin after the deadline
+  checks: SubmissionCheckResult[]
+  snapshot: {
+    name: string
+    idea: IdeaAnalysis | null
+    github_repo: string | null
+    demo_url: string | null
+    pitch_deck_url: string | null
+    members: string[]
+    tasks: Pick<Task, "task_id" | "title" | "status" | "priority" | "assigned_to">[]
+  }
+}
+
+export type ProjectRole = "owner" | "admin" | "member" | "viewer"
+
 export interface HackathonEvent {
   event_id: string
   name: string
@@ -27,7 +60,32 @@ export interface HackathonEvent {
   prizes: string[]
   rules: string[]
   organizer: string
+  created_by: string // uid of the organiser who can edit the event
   status: "upcoming" | "active" | "judging" | "completed"
+  rubric?: RubricCriterion[]
+  judges?: string[] // uids that joined with judge_code
+  judge_code?: string // legacy; codes now live in judge_codes/{code}
+  created_at?: Date
+}
+
+export interface RubricCriterion {
+  criterion_id: string
+  name: string
+  description?: string
+  weight: number // relative; weights don't have to sum to anything
+  max_score: number
+}
+
+// One judge's scorecard for one project; a recused card marks a declared conflict of interest
+export interface JudgeScore {
+  score_id: string // `${event_id}_${project_id}_${judge_id}`
+  event_id: string
+  project_id: string
+  judge_id: string
+  scores: Record<string, number> // criterion_id -> 0..max_score
+  comment?: string
+  recused?: boolean
+  updated_at: Date
 }
 
 export interface TeamAnalytics {
@@ -57,6 +115,20 @@ export interface SharedResource {
   original_name?: string
 }
 
+export interface PitchSlide {
+  title: string
+  bullets: string[]
+  /** What the presenter says over the slide */
+  notes: string
+}
+
+/** A pitch outline; stored as JSON in a shared resource tagged "pitch-deck" */
+export interface PitchDeck {
+  title: string
+  tagline: string
+  slides: PitchSlide[]
+}
+
 export interface LiveActivity {
   activity_id: string
   project_id: string
@@ -71,7 +143,7 @@ export interface TeamNotification {
   notification_id: string
   project_id: string
   user_id: string
-  type: "task_assigned" | "deadline_reminder" | "blocker_alert" | "team_update"
+  type: "task_assigned" | "deadline_reminder" | "blocker_alert" | "team_update" | "mention"
   title: string
   message: string
   read: boolean
@@ -87,6 +159,7 @@ export interface Milestone {
   deadline: Date
   status: "upcoming" | "active" | "completed" | "overdue"
   type: "idea_submission" | "prototype" | "final_presentation" | "custom"
+  anchor?: number // fraction of the hackathon window the deadline sits at; unset for fixed-date milestones
   created_at: Date
 }
 
@@ -95,12 +168,13 @@ export interface ScheduleEvent {
   project_id: string
   user_id: string
   title: string
-  type: "work" | "break" | "sleep" | "meal" | "meeting" | "presentation"
+  type: "work" | "break" | "sleep" | "meal" | "meeting" | "presentation" | "reminder"
   start_time: Date
   end_time: Date
   description?: string
   reminder_minutes?: number
   completed: boolean
+  source?: "manual" | "wellness" // "wellness" blocks are regenerated from WellnessSettings
   created_at: Date
 }
 
@@ -135,16 +209,89 @@ export interface Task {
   priority: "Low" | "Medium" | "High" | "Critical"
   time_spent?: number // in minutes
   dependencies?: string[] // task_ids that must be completed first
+  milestone_id?: string | null
   tags?: string[]
+  subtasks?: Subtask[]
+}
+
+/** A step of a task from the AI breakdown, stored inline on the task */
+export interface Subtask {
+  subtask_id: string
+  title: string
+  estimate_minutes: number
+  done: boolean
+  assigned_to: string | null
+  /** subtask_ids of the same task to finish first */
+  depends_on: string[]
+}
+
+export type MentorToolName = "create_task" | "update_task" | "assign_task" | "add_milestone" | "post_note"
+
+/** A board change the AI mentor proposed; nothing is written until a teammate applies it */
+export interface MentorToolCall {
+  call_id: string
+  tool: MentorToolName
+  args: Record<string, any>
+  // "applying" while the teammate who claimed it makes the change
+  status: "pending" | "applying" | "applied" | "dismissed" | "failed"
+  resolved_by?: string
+  error?: string
 }
 
+/** Human posts, the mentor's replies, and automatic notices */
+export type ChatMessageType = "user" | "ai" | "system"
+
 export interface ChatMessage {
   message_id: string
   project_id: string
-  sender: string
-  sender_type: "user" | "ai"
+  sender: string // user id, "ai" or "system"
+  sender_type: ChatMessageType
   content: string
   timestamp: Date
+  tool_calls?: MentorToolCall[]
+  channel_id?: string // team chat channel (see lib/chat.ts); unset for the Mentor tab's conversation
+  thread_id?: string // message_id of the thread's first post; unset for top-level posts
+  reactions?: Record<string, string[]> // emoji -> ids of the users who reacted with it
+  edited_at?: Date
+  deleted_at?: Date // deleted posts keep their place (and thread) with the content cleared
+}
+
+/** Searches chat history (team chat and mentor) and, optionally, shared notes */
+export interface HistorySearchQuery {
+  text: string
+  sender?: string // user id: their messages and the notes they shared
+  author_type?: "user" | "ai" // human or AI posts; notes posted by the mentor count as AI
+  from?: Date
+  to?: Date
+  include_notes?: boolean
+}
+
+export type HistorySearchHit = { kind: "message"; message: ChatMessage } | { kind: "note"; resource: SharedResource }
+
+/** One /api/gemini request, written by the route for the project's admins to review */
+export interface AIUsageRecord {
+  usage_id: string
+  project_id: string
+  user_id: string
+  action: string
+  provider: string
+  model: string
+  /** Model calls made for the request, including repairs and summaries */
+  calls: number
+  prompt_chars: number
+  response_chars: number
+  latency_ms: number
+  outcome: "ok" | "fallback" | "error" | "cancelled"
+  created_at: Date
+}
+
+/** Rolling summary of mentor conversation too old to fit the prompt window; one per project */
+export interface MentorMemory {
+  project_id: string
+  summary: string
+  /** Timestamp of the newest message folded into the summary */
+  summarized_until: Date
+  updated_at: Date
 }
 
 export interface IdeaAnalysis {
@@ -161,10 +308,25 @@ export interface ProjectMember {
   email: string
   role: "lead" | "developer" | "designer" | "researcher" | "admin"
   skills: string[]
-  online_status: boolean
+  online_status: boolean // only flips on sign-in and sign-out; MemberPresence says who is actually here
   availability: "available" | "busy" | "offline"
   timezone?: string
   github_username?: string
   hours_worked?: number
   tasks_completed?: number
 }
+
+// One open browser tab, refreshed by a heartbeat
+export interface PresenceSession {
+  state: "active" | "away" // away once the tab is hidden or idle
+  last_seen: Date
+  typing_in?: string | null // chat channel id, thread id, or "mentor"
+  viewing_task?: string | null
+}
+
+export interface MemberPresence {
+  project_id: string
+  user_id: string
+  last_seen: Date // kept after the member's last tab closes
+  sessions: Record<string, PresenceSession>
+}
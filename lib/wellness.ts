@@ -0,0 +1,184 @@
+import type { LiveActivity, ProjectMember, ScheduleEvent, WellnessSettings } from "./types"
+
+export type WellnessPreferences = Omit<WellnessSettings, "user_id" | "project_id" | "created_at">
+
+export const DEFAULT_WELLNESS: WellnessPreferences = {
+  work_session_duration: 25,
+  break_duration: 5,
+  sleep_start_time: "23:00",
+  sleep_end_time: "07:00",
+  meal_times: {
+    breakfast: "08:00",
+    lunch: "13:00",
+    dinner: "19:00",
+  },
+  burnout_prevention: true,
+  reminder_notifications: true,
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const MEAL_MINUTES = 30
+
+// With burnout prevention on, every fourth break is a long one
+const CYCLES_BEFORE_LONG_BREAK = 4
+const LONG_BREAK_MULTIPLIER = 3
+
+// "HH:MM" -> minutes after midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+function atTimeOfDay(day: Date, time: string): Date {
+  const date = new Date(day)
+  date.setHours(0, 0, 0, 0)
+  return new Date(date.getTime() + toMinutes(time) * MINUTE_MS)
+}
+
+// Pomodoro
+
+export interface PomodoroState {
+  phase: "work" | "break"
+  cycle: number // 1-based count of work sessions started
+  phaseStartedAt: Date
+  phaseEndsAt: Date
+  nextBreakAt: Date
+  isLongBreak: boolean
+}
+
+/**
+ * Where a pomodoro session started at `start` is at `now`: alternating work and
+ * break phases sized by the member's settings.
+ */
+export function pomodoroState(start: Date, settings: WellnessPreferences, now: number = Date.now()): PomodoroState {
+  const work = Math.max(settings.work_session_duration, 1) * MINUTE_MS
+  const shortBreak = Math.max(settings.break_duration, 1) * MINUTE_MS
+  const breakLength = (cycle: number) =>
+    settings.burnout_prevention && cycle % CYCLES_BEFORE_LONG_BREAK === 0 ? shortBreak * LONG_BREAK_MULTIPLIER : shortBreak
+
+  let cursor = new Date(start).getTime()
+  let cycle = 1
+  // Cycles are short, so walking forward is cheap even for a session left running overnight
+  while (true) {
+    const workEnds = cursor + work
+    if (now < workEnds) {
+      return {
+        phase: "work",
+        cycle,
+        phaseStartedAt: new Date(cursor),
+        phaseEndsAt: new Date(workEnds),
+        nextBreakAt: new Date(workEnds),
+        isLongBreak: false,
+      }
+    }
+    const breakEnds = workEnds + breakLength(cycle)
+    if (now < breakEnds) {
+      return {
+        phase: "break",
+        cycle,
+        phaseStartedAt: new Date(workEnds),
+        phaseEndsAt: new Date(breakEnds),
+        nextBreakAt: new Date(breakEnds + work),
+        isLongBreak: breakLength(cycle) !== shortBreak,
+      }
+    }
+    cursor = breakEnds
+    cycle++
+  }
+}
+
+// Routine blocks
+
+export type RoutineEvent = Omit<ScheduleEvent, "event_id" | "created_at" | "project_id" | "user_id">
+
+/**
+ * Sleep and meal blocks for every day the hackathon touches, clipped to the
+ * hackathon window.
+ */
+export function generateRoutineEvents(settings: WellnessPreferences, windowStart: Date, windowEnd: Date): RoutineEvent[] {
+  const events: RoutineEvent[] = []
+  const startMs = windowStart.getTime()
+  const endMs = windowEnd.getTime()
+
+  const push = (title: string, type: RoutineEvent["type"], start: number, end: number) => {
+    const clippedStart = Math.max(start, startMs)
+    const clippedEnd = Math.min(end, endMs)
+    if (clippedEnd - clippedStart < 15 * MINUTE_MS) return
+    events.push({
+      title,
+      type,
+      start_time: new Date(clippedStart),
+      end_time: new Date(clippedEnd),
+      ...(settings.reminder_notifications && { reminder_minutes: 10 }),
+      completed: false,
+      source: "wellness",
+    })
+  }
+
+  // Start a day early so a sleep window that began the night before is included
+  for (let day = atTimeOfDay(new Date(startMs - DAY_MS), "00:00"); day.getTime() < endMs; day = new Date(day.getTime() + DAY_MS)) {
+    const sleepStart = atTimeOfDay(day, settings.sleep_start_time).getTime()
+    let sleepEnd = atTimeOfDay(day, settings.sleep_end_time).getTime()
+    if (sleepEnd <= sleepStart) sleepEnd += DAY_MS
+    push("Sleep", "sleep", sleepStart, sleepEnd)
+
+    for (const [meal, time] of Object.entries(settings.meal_times)) {
+      const mealStart = atTimeOfDay(day, time).getTime()
+      push(meal.charAt(0).toUpperCase() + meal.slice(1), "meal", mealStart, mealStart + MEAL_MINUTES * MINUTE_MS)
+    }
+  }
+
+  return events.sort((a, b) => a.start_time.getTime() - b.start_time.getTime())
+}
+
+// Burnout detection
+
+export function isInSleepWindow(time: Date, settings: Pick<WellnessPreferences, "sleep_start_time" | "sleep_end_time">): boolean {
+  const minutes = time.getHours() * 60 + time.getMinutes()
+  const start = toMinutes(settings.sleep_start_time)
+  const end = toMinutes(settings.sleep_end_time)
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+export interface BurnoutWarning {
+  member: ProjectMember
+  lateActions: number
+  lastSeen: Date
+}
+
+// Actions inside the sleep window over the last day before a member is flagged
+const BURNOUT_THRESHOLD = 3
+
+/**
+ * Members who keep logging activity (task moves, uploads, messages) during their
+ * own configured sleep window. Members without saved settings use the defaults.
+ */
+export function detectBurnout(
+  members: ProjectMember[],
+  activities: LiveActivity[],
+  settingsByUser: Record<string, WellnessPreferences>,
+  now: number = Date.now(),
+): BurnoutWarning[] {
+  const warnings: BurnoutWarning[] = []
+
+  for (const member of members) {
+    const settings = settingsByUser[member.user_id] || DEFAULT_WELLNESS
+    if (!settings.burnout_prevention) continue
+
+    const late = activities
+      .filter((a) => a.user_id === member.user_id)
+      .map((a) => new Date(a.timestamp))
+      .filter((time) => now - time.getTime() <= DAY_MS && isInSleepWindow(time, settings))
+
+    if (late.length >= BURNOUT_THRESHOLD) {
+      warnings.push({
+        member,
+        lateActions: late.length,
+        lastSeen: new Date(Math.max(...late.map((time) => time.getTime()))),
+      })
+    }
+  }
+
+  return warnings.sort((a, b) => b.lateActions - a.lateActions)
+}